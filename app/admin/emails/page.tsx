@@ -0,0 +1,87 @@
+import { getSession } from '@auth0/nextjs-auth0'
+import Link from 'next/link'
+import { notFound, redirect } from 'next/navigation'
+import Logo from '@/components/Logo'
+import { isAdmin } from '@/lib/admin'
+import { getMailTransport } from '@/lib/mail'
+import { MAIL_TEMPLATES, MailTemplateName, isMailTemplateName, renderMailPreview } from '@/lib/mailTemplates'
+
+// Mark page as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+/** Every email template rendered with sample data */
+export default async function AdminEmailsPage({ searchParams }: { searchParams: { template?: string } }) {
+  const session = await getSession()
+
+  if (!session?.user) {
+    redirect('/api/auth/login')
+  }
+  if (!isAdmin(session.user)) {
+    notFound()
+  }
+
+  const templates = Object.keys(MAIL_TEMPLATES) as MailTemplateName[]
+  const selected = searchParams.template && isMailTemplateName(searchParams.template) ? searchParams.template : templates[0]
+  const preview = await renderMailPreview(selected)
+  const transport = getMailTransport()
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Logo />
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Emails</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Each email the app sends, rendered with sample data.{' '}
+              {transport ? `Emails are sent via ${transport.name}.` : 'No mail transport is configured, so emails are not sent.'}
+            </p>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-6">
+            <ul className="md:w-64 shrink-0 space-y-1">
+              {templates.map((template) => (
+                <li key={template}>
+                  <Link
+                    href={`/admin/emails?template=${template}`}
+                    className={`block px-3 py-2 rounded-lg text-sm font-mono ${
+                      template === selected
+                        ? 'bg-[#FF6B6B] text-white'
+                        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    {template}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+
+            <section className="flex-1 min-w-0 space-y-4">
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                <p className="text-sm text-gray-600 dark:text-gray-400">{MAIL_TEMPLATES[selected].description}</p>
+                <p className="mt-2 font-semibold text-gray-900 dark:text-white">{preview.subject}</p>
+              </div>
+              <iframe
+                title={`${selected} email preview`}
+                srcDoc={preview.html}
+                sandbox=""
+                className="w-full h-[600px] bg-white rounded-lg shadow-md"
+              />
+              <details className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                <summary className="cursor-pointer text-sm font-medium text-gray-700 dark:text-gray-300">Plain text</summary>
+                <pre className="mt-3 text-sm whitespace-pre-wrap text-gray-800 dark:text-gray-200">{preview.text}</pre>
+              </details>
+            </section>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import { getSession } from '@auth0/nextjs-auth0'
+import { notFound, redirect } from 'next/navigation'
+import Logo from '@/components/Logo'
+import ScannerAccessForm from '@/components/ScannerAccessForm'
+import { isAdmin } from '@/lib/admin'
+import { isGymScannerConfigured } from '@/lib/gymScanner'
+
+// Mark page as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+/** Issue front-desk access codes for the /scanner page */
+export default async function AdminScannersPage() {
+  const session = await getSession()
+
+  if (!session?.user) {
+    redirect('/api/auth/login')
+  }
+  if (!isAdmin(session.user)) {
+    notFound()
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Logo />
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-3xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Gym Scanners</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Give a gym&apos;s front desk an access code for the pass scanner at /scanner. Codes only check passes in
+              at their own gym and don&apos;t expire - rotate GYM_SCANNER_SECRET to revoke them all.
+            </p>
+          </div>
+
+          {isGymScannerConfigured() ? (
+            <ScannerAccessForm />
+          ) : (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+              Set GYM_SCANNER_SECRET to issue scanner access codes.
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
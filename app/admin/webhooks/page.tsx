@@ -0,0 +1,129 @@
+import { getSession } from '@auth0/nextjs-auth0'
+import { notFound, redirect } from 'next/navigation'
+import Logo from '@/components/Logo'
+import RetryWebhookEventButton from '@/components/RetryWebhookEventButton'
+import { ApiWebhookEvent, getWebhookEvents } from '@/lib/anygym'
+import { isAdmin } from '@/lib/admin'
+import { MAX_ATTEMPTS } from '@/lib/webhookQueue'
+
+// Mark page as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+
+async function getProblemEvents(): Promise<{ events: ApiWebhookEvent[]; error: string | null }> {
+  try {
+    const events = await getWebhookEvents({ status: ['dead', 'failed'], limit: 100 })
+    return { events, error: null }
+  } catch (error: any) {
+    console.error('[admin-webhooks] Error fetching webhook events:', error)
+    return { events: [], error: error.message || 'Failed to load events' }
+  }
+}
+
+function formatTimestamp(value: string | null | undefined): string {
+  if (!value) return '-'
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : date.toLocaleString('en-GB', { timeZone: 'Europe/London' })
+}
+
+/** Dead-letter view for Stripe webhook events that failed processing */
+export default async function AdminWebhooksPage() {
+  const session = await getSession()
+
+  if (!session?.user) {
+    redirect('/api/auth/login')
+  }
+  if (!isAdmin(session.user)) {
+    notFound()
+  }
+
+  const { events, error } = await getProblemEvents()
+  const dead = events.filter((event) => event.status === 'dead')
+  const failed = events.filter((event) => event.status === 'failed')
+
+  const renderTable = (rows: ApiWebhookEvent[], emptyMessage: string) => (
+    <div className="overflow-x-auto bg-white dark:bg-gray-800 rounded-lg shadow-md">
+      <table className="min-w-full text-sm text-left">
+        <thead className="text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+          <tr>
+            <th className="px-4 py-3">Event</th>
+            <th className="px-4 py-3">Attempts</th>
+            <th className="px-4 py-3">Last error</th>
+            <th className="px-4 py-3">Received</th>
+            <th className="px-4 py-3">Next attempt</th>
+            <th className="px-4 py-3" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={6} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">
+                {emptyMessage}
+              </td>
+            </tr>
+          ) : (
+            rows.map((event) => (
+              <tr key={event.id} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                <td className="px-4 py-3">
+                  <div className="font-medium text-gray-900 dark:text-white">{event.type}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 font-mono">{event.id}</div>
+                  {event.object_id && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400 font-mono">{event.object_id}</div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-gray-700 dark:text-gray-300">
+                  {event.attempts} / {MAX_ATTEMPTS}
+                </td>
+                <td className="px-4 py-3 text-red-700 dark:text-red-400 max-w-md break-words">{event.last_error || '-'}</td>
+                <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{formatTimestamp(event.event_created_at)}</td>
+                <td className="px-4 py-3 text-gray-700 dark:text-gray-300">{formatTimestamp(event.next_attempt_at)}</td>
+                <td className="px-4 py-3">
+                  <RetryWebhookEventButton eventId={event.id} />
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  )
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Logo />
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Stripe Webhooks</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              Events that failed processing. Failed events are retried automatically with backoff; after{' '}
+              {MAX_ATTEMPTS} attempts they are dead-lettered and only run again when retried here.
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-3">Dead-lettered ({dead.length})</h2>
+            {renderTable(dead, 'No dead-lettered events')}
+          </section>
+
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-3">Awaiting retry ({failed.length})</h2>
+            {renderTable(failed, 'No events awaiting retry')}
+          </section>
+        </div>
+      </main>
+    </div>
+  )
+}
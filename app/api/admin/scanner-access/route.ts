@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { AnyGymNotFoundError, getGym } from '@/lib/anygym'
+import { isAdmin } from '@/lib/admin'
+import { createScannerAccessCode, gymResultKey, isGymScannerConfigured, verifyScannerAccessCode } from '@/lib/gymScanner'
+import { gymCodeKey, gymVerificationKey, isPassSigningConfigured } from '@/lib/passSigning'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const APP_URL = (process.env.AUTH0_BASE_URL || 'https://any-gym.com').replace(/\/+$/, '')
+
+/** Issue a front-desk scanner access code for a gym */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    if (!isGymScannerConfigured()) {
+      return NextResponse.json({ error: 'GYM_SCANNER_SECRET is not configured' }, { status: 503 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const gymId = Number(body.gymId)
+    if (!Number.isInteger(gymId) || gymId <= 0) {
+      return NextResponse.json({ error: 'Invalid gym ID' }, { status: 400 })
+    }
+
+    const gym = await getGym(gymId)
+    const accessCode = createScannerAccessCode(gym.id)
+    console.log('[admin-scanners] Issued scanner access for gym:', gym.id, 'by', session.user.email)
+
+    return NextResponse.json({
+      gymId: gym.id,
+      gymName: gym.name,
+      accessCode,
+      // In the fragment so the code isn't sent to the server or kept in logs
+      signInUrl: `${APP_URL}/scanner#code=${encodeURIComponent(accessCode)}`,
+      expiresAt: new Date(verifyScannerAccessCode(accessCode)!.expiresAt * 1000).toISOString(),
+      // Lets the gym's own systems check the signature on verification results
+      resultKey: gymResultKey(gym.id),
+      // Let the gym's own systems check signed pass QR codes offline - see lib/passQr
+      verificationKey: isPassSigningConfigured() ? gymVerificationKey(gym.id) : null,
+      codeKey: isPassSigningConfigured() ? gymCodeKey(gym.id) : null,
+    })
+  } catch (error: any) {
+    if (error instanceof AnyGymNotFoundError) {
+      return NextResponse.json({ error: 'Gym not found' }, { status: 404 })
+    }
+    console.error('[admin-scanners] Error issuing scanner access:', error)
+    return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 })
+  }
+}
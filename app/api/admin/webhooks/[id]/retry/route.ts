@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { AnyGymNotFoundError } from '@/lib/anygym'
+import { isAdmin } from '@/lib/admin'
+import { processWebhookEvent, requeueWebhookEvent } from '@/lib/webhookQueue'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!isAdmin(session.user)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    await requeueWebhookEvent(params.id)
+    console.log('[admin-webhooks] Requeued event:', params.id, 'by', session.user.email)
+
+    // Try it straight away so the result shows up when the page refreshes
+    const status = await processWebhookEvent(params.id)
+    return NextResponse.json({ status })
+  } catch (error: any) {
+    if (error instanceof AnyGymNotFoundError) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 })
+    }
+    console.error('[admin-webhooks] Error retrying event:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
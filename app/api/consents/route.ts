@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { AnyGymNotFoundError, getUserConsents } from '@/lib/anygym'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** The member's record of which chain terms and health statements they accepted, and when */
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+      return NextResponse.json({ consents: await getUserConsents(session.user.sub) })
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
+        return NextResponse.json({ consents: [] })
+      }
+      throw error
+    }
+  } catch (error: any) {
+    console.error('[consents] Error fetching consents:', error)
+    return NextResponse.json({ error: 'Failed to fetch consents' }, { status: 502 })
+  }
+}
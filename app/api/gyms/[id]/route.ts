@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@auth0/nextjs-auth0'
 import { Gym } from '@/lib/types'
+import { ApiChain, ApiGym, AnyGymNotFoundError, getGym, mapGym } from '@/lib/anygym'
 
 // Mark route as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -19,45 +20,24 @@ export async function GET(
     const gymId = parseInt(params.id)
 
     // Fetch gym from external API using specific endpoint
-    const response = await fetch(`https://api.any-gym.com/gyms/${gymId}`, {
-      next: { revalidate: 3600 } // Cache for 1 hour
-    })
-    
-    if (!response.ok) {
-      if (response.status === 404) {
+    let gymData: ApiGym
+    try {
+      gymData = await getGym(gymId)
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
         return NextResponse.json(
           { error: 'Gym not found' },
           { status: 404 }
         )
       }
-      throw new Error(`Failed to fetch gym: ${response.statusText}`)
+      throw error
     }
-    
-    const gymData = await response.json()
 
     // Map API response to Gym type
-    const gym: Gym = {
-      id: gymData.id,
-      name: gymData.name,
-      address: gymData.address || '',
-      city: gymData.city || '',
-      postcode: gymData.postcode || '',
-      phone: gymData.phone || undefined,
-      latitude: gymData.latitude ? parseFloat(gymData.latitude) : undefined,
-      longitude: gymData.longitude ? parseFloat(gymData.longitude) : undefined,
-      gym_chain_id: gymData.gym_chain_id || undefined,
-      required_tier: gymData.required_tier || 'standard',
-      amenities: gymData.amenities || [],
-      opening_hours: gymData.opening_hours || {},
-      image_url: gymData.image_url || undefined,
-      rating: undefined,
-      status: 'active',
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    }
+    const gym: Gym = mapGym(gymData)
 
     // Extract gym_chain from API response
-    let gym_chain = null
+    let gym_chain: ApiChain | null = null
     
     // Check if API response includes gym_chain object
     if (gymData.gym_chain) {
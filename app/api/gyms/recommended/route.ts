@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { DEFAULT_RECOMMENDATION_LIMIT, MAX_RECOMMENDATION_LIMIT, recommendGyms } from '@/lib/gymRecommendations'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** Gyms for the signed-in member - near their postcode, on their tier, favouring ones they visit */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit')
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_RECOMMENDATION_LIMIT
+    if (isNaN(limit) || limit < 1 || limit > MAX_RECOMMENDATION_LIMIT) {
+      return NextResponse.json({ error: `Invalid limit - must be 1-${MAX_RECOMMENDATION_LIMIT}` }, { status: 400 })
+    }
+
+    const result = await recommendGyms(session.user.sub, { limit })
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Recommended gyms error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
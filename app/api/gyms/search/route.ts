@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@auth0/nextjs-auth0'
-import { Gym } from '@/lib/types'
+import { getCoordinatesFromPostcode } from '@/lib/geocoding'
+import { isAmenityId } from '@/lib/amenities'
+import {
+  Coordinates,
+  DEFAULT_PAGE_SIZE,
+  GYM_SORTS,
+  GymSort,
+  MAX_PAGE_SIZE,
+  parseBoundingBox,
+  searchGyms,
+} from '@/lib/gymSearch'
 
 // Mark route as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -17,71 +27,96 @@ export async function GET(request: NextRequest) {
     const searchQuery = searchParams.get('search') || ''
     const tier = searchParams.get('tier')
     const chainId = searchParams.get('chain')
+    const latParam = searchParams.get('lat')
+    const lngParam = searchParams.get('lng')
+    const radiusParam = searchParams.get('radius_km')
+    const postcode = searchParams.get('postcode')
+    // Comma-separated canonical amenity ids - gyms must have all of them
+    const amenities = (searchParams.get('amenities') || '').split(',').map((a) => a.trim()).filter(Boolean)
 
-    // Build query parameters for external API
-    const apiParams = new URLSearchParams()
-    if (searchQuery) apiParams.set('search', searchQuery)
-    if (tier && tier !== 'All Tiers') apiParams.set('tier', tier)
-    if (chainId && chainId !== 'All Chains') apiParams.set('chain', chainId)
+    const unknownAmenities = amenities.filter((a) => !isAmenityId(a))
+    if (unknownAmenities.length > 0) {
+      return NextResponse.json({ error: `Unknown amenities: ${unknownAmenities.join(', ')}` }, { status: 400 })
+    }
 
-    // Fetch gyms from external API with query parameters
-    const apiUrl = `https://api.any-gym.com/gyms${apiParams.toString() ? `?${apiParams.toString()}` : ''}`
-    const response = await fetch(apiUrl, {
-      next: { revalidate: 3600 } // Cache for 1 hour
-    })
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch gyms: ${response.statusText}`)
+    // open_at (ISO datetime) takes precedence over open_now
+    const openAtParam = searchParams.get('open_at')
+    let openAt: Date | null = null
+    if (openAtParam) {
+      openAt = new Date(openAtParam)
+      if (isNaN(openAt.getTime())) {
+        return NextResponse.json({ error: 'Invalid open_at' }, { status: 400 })
+      }
+    } else if (searchParams.get('open_now') === 'true') {
+      openAt = new Date()
     }
-    
-    const data = await response.json()
-    
-    // Map API response to Gym type and filter
-    let gyms: Gym[] = data
-      .filter((gym: any) => gym.latitude != null && gym.longitude != null)
-      .map((gym: any) => ({
-        id: gym.id,
-        name: gym.name,
-        address: gym.address || '',
-        city: gym.city || '',
-        postcode: gym.postcode || '',
-        phone: gym.phone || undefined,
-        latitude: gym.latitude ? parseFloat(gym.latitude) : undefined,
-        longitude: gym.longitude ? parseFloat(gym.longitude) : undefined,
-        gym_chain_id: gym.gym_chain_id || undefined,
-        required_tier: gym.required_tier || 'standard',
-        amenities: gym.amenities || [],
-        opening_hours: gym.opening_hours || {},
-        image_url: gym.image_url || undefined,
-        rating: undefined,
-        status: 'active',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      })) as Gym[]
 
-    // Apply filters client-side
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase()
-      gyms = gyms.filter((gym) => 
-        gym.name.toLowerCase().includes(query) ||
-        gym.city.toLowerCase().includes(query) ||
-        gym.postcode.toLowerCase().includes(query)
-      )
+    // Resolve the search origin - explicit coordinates win over a postcode
+    let origin: Coordinates | null = null
+    if (latParam || lngParam) {
+      const latitude = parseFloat(latParam || '')
+      const longitude = parseFloat(lngParam || '')
+      if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        return NextResponse.json({ error: 'Invalid lat/lng' }, { status: 400 })
+      }
+      origin = { latitude, longitude }
+    } else if (postcode) {
+      origin = await getCoordinatesFromPostcode(postcode)
+      if (!origin) {
+        return NextResponse.json({ error: 'Postcode not found' }, { status: 400 })
+      }
     }
 
-    if (tier && tier !== 'All Tiers') {
-      gyms = gyms.filter((gym) => gym.required_tier === tier)
+    let radiusKm: number | null = null
+    if (radiusParam) {
+      radiusKm = parseFloat(radiusParam)
+      if (isNaN(radiusKm) || radiusKm <= 0) {
+        return NextResponse.json({ error: 'Invalid radius_km' }, { status: 400 })
+      }
+      if (!origin) {
+        return NextResponse.json({ error: 'radius_km requires lat/lng or postcode' }, { status: 400 })
+      }
+    }
+
+    const sortParam = searchParams.get('sort')
+    if (sortParam && !(GYM_SORTS as readonly string[]).includes(sortParam)) {
+      return NextResponse.json({ error: `Invalid sort - use one of ${GYM_SORTS.join(', ')}` }, { status: 400 })
+    }
+    const sort = sortParam as GymSort | null
+    if (sort === 'distance' && !origin) {
+      return NextResponse.json({ error: 'sort=distance requires lat/lng or postcode' }, { status: 400 })
     }
 
-    if (chainId && chainId !== 'All Chains') {
-      const chainIdNum = parseInt(chainId)
-      gyms = gyms.filter((gym) => gym.gym_chain_id === chainIdNum)
+    // bbox=minLng,minLat,maxLng,maxLat - the map viewport
+    const bboxParam = searchParams.get('bbox')
+    const bbox = bboxParam ? parseBoundingBox(bboxParam) : null
+    if (bboxParam && !bbox) {
+      return NextResponse.json({ error: 'Invalid bbox - expected minLng,minLat,maxLng,maxLat' }, { status: 400 })
     }
 
-    // Sort by name
-    gyms.sort((a, b) => a.name.localeCompare(b.name))
+    const offset = searchParams.get('offset') ? parseInt(searchParams.get('offset')!, 10) : 0
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : DEFAULT_PAGE_SIZE
+    if (isNaN(offset) || offset < 0 || isNaN(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return NextResponse.json({ error: `Invalid offset/limit - limit must be 1-${MAX_PAGE_SIZE}` }, { status: 400 })
+    }
+
+    const chainIdNum = chainId && chainId !== 'All Chains' ? parseInt(chainId) : NaN
+
+    const result = await searchGyms({
+      search: searchQuery || undefined,
+      tier: tier && tier !== 'All Tiers' ? tier : undefined,
+      chainId: isNaN(chainIdNum) ? undefined : chainIdNum,
+      amenities,
+      openAt,
+      origin,
+      radiusKm,
+      bbox,
+      sort: sort || undefined,
+      offset,
+      limit,
+    })
 
-    return NextResponse.json({ gyms })
+    return NextResponse.json({ ...result, origin })
   } catch (error) {
     console.error('Search error:', error)
     return NextResponse.json(
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { getIndexedGyms } from '@/lib/gymSearch'
+import { suggest } from '@/lib/searchIndex'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const DEFAULT_LIMIT = 8
+const MAX_LIMIT = 20
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const query = (searchParams.get('q') || '').trim()
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!, 10) : DEFAULT_LIMIT
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({ error: `Invalid limit - must be 1-${MAX_LIMIT}` }, { status: 400 })
+    }
+
+    if (!query) {
+      return NextResponse.json({ suggestions: [] })
+    }
+
+    const { index } = await getIndexedGyms()
+    const suggestions = suggest(index, query, limit)
+
+    return NextResponse.json({ suggestions })
+  } catch (error) {
+    console.error('Suggest error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { AnyGymApiError, AnyGymNotFoundError, cancelPass, getUserPass } from '@/lib/anygym'
+import {
+  PASS_CANCEL_BLOCKER_MESSAGES,
+  isPassCancellationReason,
+  passCancelBlocker,
+} from '@/lib/passCancellation'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+const MAX_NOTE_LENGTH = 500
+
+/** Cancel one of the member's unused passes and give the visit back */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+    const auth0Id = session.user.sub
+
+    const passId = parseInt(params.id, 10)
+    if (isNaN(passId)) {
+      return NextResponse.json({ success: false, error: 'Invalid pass ID' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    if (!isPassCancellationReason(body.reason)) {
+      return NextResponse.json({ success: false, error: 'Please choose a reason' }, { status: 400 })
+    }
+    const note = typeof body.note === 'string' ? body.note.trim().slice(0, MAX_NOTE_LENGTH) : ''
+
+    // Only the member's own passes, and only while the cancellation window is open
+    const pass = await getUserPass(auth0Id, passId)
+    if (!pass) {
+      return NextResponse.json({ success: false, error: 'Pass not found' }, { status: 404 })
+    }
+
+    const blocker = passCancelBlocker({
+      status: pass.status || 'active',
+      usedAt: pass.used_at ? new Date(pass.used_at) : null,
+      createdAt: pass.created_at ? new Date(pass.created_at) : new Date(0),
+    })
+    if (blocker) {
+      return NextResponse.json(
+        { success: false, error: PASS_CANCEL_BLOCKER_MESSAGES[blocker], code: blocker },
+        { status: 409 }
+      )
+    }
+
+    let cancelled
+    try {
+      cancelled = await cancelPass(auth0Id, passId, {
+        cancelled_by: auth0Id,
+        reason: body.reason,
+        ...(note ? { note } : {}),
+      })
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
+        return NextResponse.json({ success: false, error: 'Pass not found' }, { status: 404 })
+      }
+      if (error instanceof AnyGymApiError && error.status < 500) {
+        return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+      }
+      throw error
+    }
+
+    console.log('[passes/cancel] Pass cancelled:', { passId, auth0Id, reason: body.reason })
+
+    return NextResponse.json({
+      success: true,
+      pass: {
+        id: cancelled.id,
+        status: cancelled.status,
+        cancelledAt: cancelled.cancelled_at,
+        cancellationReason: cancelled.cancellation_reason,
+      },
+    })
+  } catch (error: any) {
+    console.error('[passes/cancel] Error cancelling pass:', error)
+    return NextResponse.json({ success: false, error: 'Failed to cancel pass' }, { status: 500 })
+  }
+}
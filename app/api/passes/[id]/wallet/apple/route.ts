@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { getWalletPassDetails } from '@/lib/walletPasses'
+import { createPkpass, isAppleWalletConfigured } from '@/lib/appleWallet'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** Download an active pass as a signed .pkpass for Apple Wallet */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!isAppleWalletConfigured()) {
+      return NextResponse.json({ error: 'Apple Wallet passes aren\'t available' }, { status: 503 })
+    }
+
+    const passId = parseInt(params.id, 10)
+    if (isNaN(passId)) {
+      return NextResponse.json({ error: 'Invalid pass ID' }, { status: 400 })
+    }
+
+    const details = await getWalletPassDetails(session.user.sub, passId)
+    if (!details) {
+      return NextResponse.json({ error: 'No active pass found' }, { status: 404 })
+    }
+
+    const pkpass = await createPkpass(details)
+    return new NextResponse(new Uint8Array(pkpass), {
+      headers: {
+        'Content-Type': 'application/vnd.apple.pkpass',
+        'Content-Disposition': `attachment; filename="anygym-pass-${details.id}.pkpass"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error: any) {
+    console.error('[passes/wallet/apple] Error creating pkpass:', error)
+    return NextResponse.json({ error: 'Failed to create Apple Wallet pass' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { getWalletPassDetails } from '@/lib/walletPasses'
+import { googleWalletSaveUrl, isGoogleWalletConfigured } from '@/lib/googleWallet'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Send the member to Google Wallet to save an active pass. Pass
+ * ?format=json to get the save link and its JWT instead of a redirect.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+    if (!isGoogleWalletConfigured()) {
+      return NextResponse.json({ error: 'Google Wallet passes aren\'t available' }, { status: 503 })
+    }
+
+    const passId = parseInt(params.id, 10)
+    if (isNaN(passId)) {
+      return NextResponse.json({ error: 'Invalid pass ID' }, { status: 400 })
+    }
+
+    const details = await getWalletPassDetails(session.user.sub, passId)
+    if (!details) {
+      return NextResponse.json({ error: 'No active pass found' }, { status: 404 })
+    }
+
+    const saveUrl = googleWalletSaveUrl(details)
+    if (request.nextUrl.searchParams.get('format') === 'json') {
+      return NextResponse.json({ saveUrl, jwt: saveUrl.slice(saveUrl.lastIndexOf('/') + 1) })
+    }
+    return NextResponse.redirect(saveUrl)
+  } catch (error: any) {
+    console.error('[passes/wallet/google] Error creating save link:', error)
+    return NextResponse.json({ error: 'Failed to create Google Wallet pass' }, { status: 500 })
+  }
+}
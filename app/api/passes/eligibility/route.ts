@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { checkPassEligibility } from '@/lib/passEligibility'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** Whether the member can generate a pass for `gymId`, and if not why and what to do about it */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const gymId = parseInt(request.nextUrl.searchParams.get('gymId') || '', 10)
+    if (isNaN(gymId)) {
+      return NextResponse.json({ error: 'Invalid gym ID format' }, { status: 400 })
+    }
+
+    const eligibility = await checkPassEligibility(session.user.sub, gymId)
+    return NextResponse.json(eligibility)
+  } catch (error: any) {
+    console.error('[passes/eligibility] Error checking eligibility:', error)
+    return NextResponse.json({ error: 'Failed to check pass eligibility' }, { status: 502 })
+  }
+}
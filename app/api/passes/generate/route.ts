@@ -1,10 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@auth0/nextjs-auth0'
+import { AnyGymApiError, AnyGymNotFoundError, generatePass } from '@/lib/anygym'
+import { PASS_INELIGIBLE_STATUS, PassEligibility, checkPassEligibility } from '@/lib/passEligibility'
+import { PassTermsRequirement, consentRecord, getPassTermsRequirement } from '@/lib/chainConsent'
+import { sendMail } from '@/lib/mail'
+import { isPassSigningConfigured } from '@/lib/passSigning'
+import type { MailRecipient } from '@/lib/mailTemplates'
 
 // Mark route as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
+// Warn the member when a pass leaves them with this many visits for the period
+const QUOTA_REMINDER_REMAINING = 1
+
+/** Email the new pass, and a heads-up when it nearly uses up the member's visits. Failures are logged, not returned. */
+async function sendPassEmails(recipient: MailRecipient, data: Record<string, unknown>, eligibility: PassEligibility | null) {
+  const pass = (data.pass || data) as { gym_name?: unknown; pass_code?: unknown; valid_until?: unknown }
+  try {
+    if (typeof pass.pass_code === 'string' && typeof pass.valid_until === 'string') {
+      await sendMail('pass_issued', recipient, {
+        gymName: typeof pass.gym_name === 'string' ? pass.gym_name : 'your gym',
+        // A signed pass is only let in by its QR code, so the code on its own is no use
+        passCode: isPassSigningConfigured() ? null : pass.pass_code,
+        validUntil: new Date(pass.valid_until),
+      })
+    }
+
+    // passesRemaining was counted before this pass
+    const remaining = eligibility?.passesRemaining != null ? eligibility.passesRemaining - 1 : null
+    if (remaining === QUOTA_REMINDER_REMAINING && eligibility?.monthlyLimit) {
+      await sendMail('quota_nearly_used', recipient, {
+        remaining,
+        monthlyLimit: eligibility.monthlyLimit,
+        resetsAt: eligibility.resetsAt ? new Date(eligibility.resetsAt) : null,
+      })
+    }
+  } catch (error: any) {
+    console.error('❌ [generatePass] Failed to send pass emails:', error?.message)
+  }
+}
+
 export async function POST(request: NextRequest) {
   console.log('🎫 [generatePass] Pass generation request received')
   
@@ -24,7 +60,7 @@ export async function POST(request: NextRequest) {
     const body = await request.json().catch(() => ({}))
     console.log('📥 [generatePass] Request body:', body)
     
-    const { gymId } = body
+    const { gymId, acceptedDocumentVersion } = body
 
     if (!gymId) {
       console.error('❌ [generatePass] Missing gymId in body:', body)
@@ -47,43 +83,80 @@ export async function POST(request: NextRequest) {
     
     console.log('🏋️ [generatePass] Generating pass for gym:', gymId, 'parsed as:', gymIdInt)
 
-    // Prepare request data
-    const requestBody = {
-      auth0_id: auth0Id,
-      gym_id: gymIdInt,
+    // Same checks as /api/passes/eligibility, so the member gets a specific reason and next
+    // step rather than the backend's generic rejection. If the check fails, leave it to the backend.
+    const eligibility = await checkPassEligibility(auth0Id, gymIdInt).catch((error) => {
+      console.warn('⚠️ [generatePass] Eligibility check failed, deferring to API:', error?.message)
+      return null
+    })
+    if (eligibility && !eligibility.eligible && eligibility.reason) {
+      console.warn('⚠️ [generatePass] Not eligible:', eligibility.reason)
+      return NextResponse.json(
+        {
+          success: false,
+          error: eligibility.message,
+          code: eligibility.reason,
+          action: eligibility.action,
+          requiredTier: eligibility.requiredTier,
+        },
+        { status: PASS_INELIGIBLE_STATUS[eligibility.reason] }
+      )
     }
-    
-    const requestHeaders = {
-      'Content-Type': 'application/json',
-      'auth0_id': auth0Id, // Pass auth0_id in header
+
+    // The chain's terms must have been accepted at their current version - if the member
+    // hasn't, or accepted a version that has since changed, send the documents back to accept
+    let terms: PassTermsRequirement
+    try {
+      terms = await getPassTermsRequirement(auth0Id, gymIdInt)
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
+        return NextResponse.json({ success: false, error: 'Gym not found' }, { status: 404 })
+      }
+      throw error
+    }
+    if (terms.required && acceptedDocumentVersion !== terms.documentVersion) {
+      console.warn('⚠️ [generatePass] Terms not accepted at version:', terms.documentVersion)
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Please accept the gym\'s terms and health statement',
+          code: 'terms_acceptance_required',
+          terms,
+        },
+        { status: 409 }
+      )
     }
 
     console.log('📤 [generatePass] Request to external API:', {
-      url: 'https://api.any-gym.com/generate_pass',
-      method: 'POST',
-      headers: requestHeaders,
-      body: requestBody,
-    })
-
-    // Call external API to generate pass
-    const response = await fetch('https://api.any-gym.com/generate_pass', {
-      method: 'POST',
-      headers: requestHeaders,
-      body: JSON.stringify(requestBody),
+      path: '/generate_pass',
+      auth0Id,
+      gymId: gymIdInt,
+      documentVersion: terms.required ? terms.documentVersion : undefined,
     })
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to generate pass' }))
-      console.error('❌ [generatePass] External API error:', response.status, errorData)
+    // Call external API to generate pass - the acceptance is recorded with it
+    let data: Record<string, unknown>
+    try {
+      data = await generatePass(auth0Id, gymIdInt, consentRecord(terms))
+    } catch (error) {
+      if (!(error instanceof AnyGymApiError)) {
+        throw error
+      }
+      console.error('❌ [generatePass] External API error:', error.status, error.body)
+      const upstreamError = (error.body as { error?: unknown } | null)?.error
       return NextResponse.json(
-        { success: false, error: errorData.error || 'Failed to generate pass' },
-        { status: response.status }
+        { success: false, error: typeof upstreamError === 'string' ? upstreamError : 'Failed to generate pass' },
+        { status: error.status }
       )
     }
 
-    const data = await response.json()
     console.log('✅ [generatePass] Pass generated successfully')
 
+    if (session.user.email) {
+      const firstName = session.user.given_name || (session.user.name || session.user.email.split('@')[0]).split(' ')[0]
+      await sendPassEmails({ email: session.user.email, firstName, auth0Id }, data, eligibility)
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Pass generated successfully!',
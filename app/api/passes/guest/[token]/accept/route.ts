@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AnyGymApiError, AnyGymNotFoundError, acceptGuestPass, getGuestPassByToken, getGym } from '@/lib/anygym'
+import { chainDocumentVersion } from '@/lib/chainConsent'
+import { sendMail } from '@/lib/mail'
+
+// Public - the guest has no account. The token from their invitation is the credential.
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** The guest accepts the gym's terms and health statement, which issues their pass */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    if (body.termsAccepted !== true) {
+      return NextResponse.json(
+        { success: false, error: 'Please accept the terms and health statement' },
+        { status: 400 }
+      )
+    }
+
+    let guestPass
+    try {
+      // Record the version of the chain's documents the guest was shown, as long as it's still current
+      const invitation = await getGuestPassByToken(params.token)
+      const gym = await getGym(invitation.gym_id, { cache: 'no-store' })
+      const documentVersion = chainDocumentVersion(gym.gym_chain)
+      if ((body.acceptedDocumentVersion ?? null) !== documentVersion) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'The gym\'s terms have changed since you opened this page - please review them again',
+            code: 'terms_changed',
+            chain: gym.gym_chain || null,
+            documentVersion,
+          },
+          { status: 409 }
+        )
+      }
+      guestPass = await acceptGuestPass(params.token, documentVersion)
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
+        return NextResponse.json({ success: false, error: 'This invitation link isn\'t valid' }, { status: 404 })
+      }
+      if (error instanceof AnyGymApiError) {
+        return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+      }
+      throw error
+    }
+
+    // The pass is shown on the page too, so a failed email isn't fatal
+    try {
+      if (!guestPass.pass_code) {
+        throw new Error(`Guest pass ${guestPass.id} has not been issued`)
+      }
+      await sendMail('guest_pass', { email: guestPass.guest_email, firstName: guestPass.guest_name }, {
+        gymName: guestPass.gym_name || 'the gym',
+        passCode: guestPass.pass_code,
+        validUntil: guestPass.valid_until ? new Date(guestPass.valid_until) : null,
+      })
+    } catch (error: any) {
+      console.error('[passes/guest/accept] Failed to email guest pass:', error?.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      passCode: guestPass.pass_code,
+      validUntil: guestPass.valid_until,
+    })
+  } catch (error: any) {
+    console.error('[passes/guest/accept] Error accepting guest pass:', error)
+    return NextResponse.json({ success: false, error: 'Failed to issue guest pass' }, { status: 500 })
+  }
+}
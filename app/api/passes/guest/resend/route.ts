@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { getGuestPasses } from '@/lib/anygym'
+import { emailGuestPassInvitation } from '@/lib/guestPasses'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** Email a guest their invitation again, while it's still waiting to be accepted */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const guestPassId = parseInt(String(body.guestPassId ?? ''), 10)
+    if (isNaN(guestPassId)) {
+      return NextResponse.json({ success: false, error: 'Invalid guest pass ID format' }, { status: 400 })
+    }
+
+    // Only the member's own guest passes can be found here
+    const guestPass = (await getGuestPasses(session.user.sub)).find((pass) => pass.id === guestPassId)
+    if (!guestPass) {
+      return NextResponse.json({ success: false, error: 'Guest pass not found' }, { status: 404 })
+    }
+    const acceptBy = guestPass.acceptance_expires_at ? new Date(guestPass.acceptance_expires_at) : null
+    if (guestPass.status !== 'pending_acceptance' || (acceptBy && acceptBy.getTime() <= Date.now())) {
+      return NextResponse.json(
+        { success: false, error: 'This invitation is no longer waiting to be accepted' },
+        { status: 409 }
+      )
+    }
+
+    try {
+      await emailGuestPassInvitation(guestPass, session.user.name || session.user.email || 'An AnyGym member')
+    } catch (error: any) {
+      console.error('[passes/guest/resend] Failed to email guest invitation:', error?.message)
+      return NextResponse.json({ success: false, error: 'We couldn\'t send the invitation. Please try again later.' }, { status: 502 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    console.error('[passes/guest/resend] Error resending invitation:', error)
+    return NextResponse.json({ success: false, error: 'Failed to resend invitation' }, { status: 500 })
+  }
+}
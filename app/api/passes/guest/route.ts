@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { AnyGymApiError, createGuestPass, getGuestPasses } from '@/lib/anygym'
+import { emailGuestPassInvitation, mapGuestPass, validateGuestDetails } from '@/lib/guestPasses'
+import { isEmailOptedOut } from '@/lib/notificationConsent'
+import { PASS_INELIGIBLE_STATUS, checkGuestPassEligibility } from '@/lib/passEligibility'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** The member's guest passes */
+export async function GET() {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const guestPasses = await getGuestPasses(session.user.sub)
+    return NextResponse.json({ success: true, guestPasses: guestPasses.map(mapGuestPass) })
+  } catch (error: any) {
+    console.error('[passes/guest] Error fetching guest passes:', error)
+    return NextResponse.json({ success: false, error: 'Failed to fetch guest passes' }, { status: 502 })
+  }
+}
+
+/** Invite a guest to a gym - they're emailed a link to accept the gym's terms and get their pass */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+    const auth0Id = session.user.sub
+
+    const body = await request.json().catch(() => ({}))
+    const gymId = parseInt(String(body.gymId ?? ''), 10)
+    if (isNaN(gymId)) {
+      return NextResponse.json({ success: false, error: 'Invalid gym ID format' }, { status: 400 })
+    }
+    const validationError = validateGuestDetails(body.guestName, body.guestEmail)
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 })
+    }
+    const guestName = body.guestName.trim()
+    const guestEmail = body.guestEmail.trim().toLowerCase()
+
+    // Don't use up a guest pass on an invitation that can't be emailed
+    const optedOut = await isEmailOptedOut(guestEmail).catch((error) => {
+      console.warn('[passes/guest] Opt-out check failed, inviting anyway:', error?.message)
+      return false
+    })
+    if (optedOut) {
+      return NextResponse.json(
+        { success: false, error: 'This guest has asked not to get emails from AnyGym, so they can\'t be invited' },
+        { status: 409 }
+      )
+    }
+
+    // If the check itself fails, leave it to the backend
+    const eligibility = await checkGuestPassEligibility(auth0Id, gymId).catch((error) => {
+      console.warn('[passes/guest] Eligibility check failed, deferring to API:', error?.message)
+      return null
+    })
+    if (eligibility && !eligibility.eligible && eligibility.reason) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: eligibility.message,
+          code: eligibility.reason,
+          action: eligibility.action,
+          requiredTier: eligibility.requiredTier,
+        },
+        { status: PASS_INELIGIBLE_STATUS[eligibility.reason] }
+      )
+    }
+
+    let guestPass
+    try {
+      guestPass = await createGuestPass(auth0Id, { gym_id: gymId, guest_name: guestName, guest_email: guestEmail })
+    } catch (error) {
+      if (!(error instanceof AnyGymApiError)) {
+        throw error
+      }
+      console.error('[passes/guest] External API error:', error.status, error.body)
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    // The invitation exists either way - if the email fails the member can resend it from their passes
+    let emailSent = true
+    try {
+      await emailGuestPassInvitation(guestPass, session.user.name || session.user.email || 'An AnyGym member')
+    } catch (error: any) {
+      console.error('[passes/guest] Failed to email guest invitation:', error?.message)
+      emailSent = false
+    }
+
+    return NextResponse.json({ success: true, guestPass: mapGuestPass(guestPass), emailSent })
+  } catch (error: any) {
+    console.error('[passes/guest] Error inviting guest:', error)
+    return NextResponse.json({ success: false, error: 'Failed to invite guest' }, { status: 500 })
+  }
+}
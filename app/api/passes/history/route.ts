@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { AnyGymNotFoundError, getPassHistory } from '@/lib/anygym'
+import { EMPTY_PASS_HISTORY, mapPassHistory, parsePassHistoryQuery } from '@/lib/passHistory'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * One page of the member's pass history, grouped by gym. Takes from, to
+ * (YYYY-MM-DD), chain_id, gym_id, status (comma-separated), page and per_page.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const parsed = parsePassHistoryQuery(request.nextUrl.searchParams)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    try {
+      const history = await getPassHistory(session.user.sub, parsed.query, { cache: 'no-store' })
+      return NextResponse.json(mapPassHistory(history))
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
+        return NextResponse.json(EMPTY_PASS_HISTORY)
+      }
+      throw error
+    }
+  } catch (error: any) {
+    console.error('[passes/history] Error fetching pass history:', error)
+    return NextResponse.json({ error: 'Failed to fetch pass history' }, { status: 502 })
+  }
+}
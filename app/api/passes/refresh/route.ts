@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@auth0/nextjs-auth0'
+import { ApiUserPasses, AnyGymApiError, getUserPasses } from '@/lib/anygym'
+import { issuePassQrTokens } from '@/lib/passSigning'
 
 // Mark route as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -18,31 +20,25 @@ export async function GET(request: NextRequest) {
     const auth0Id = session.user.sub
     
     // Fetch passes and subscription from external API
-    // Add timestamp to URL to bypass any external caching
-    const timestamp = Date.now()
-    const url = `https://api.any-gym.com/user/passes?_t=${timestamp}`
-    
-    const response = await fetch(url, {
-      headers: {
-        'auth0_id': auth0Id.trim(),
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-        'Pragma': 'no-cache',
-      },
-      cache: 'no-store', // Always get fresh data - bypass Next.js cache
-    })
-
-    if (!response.ok) {
+    // Always get fresh data - bypass Next.js and any external caching
+    let data: ApiUserPasses
+    try {
+      data = await getUserPasses(auth0Id, { cache: 'no-store' })
+    } catch (error) {
+      if (!(error instanceof AnyGymApiError)) {
+        throw error
+      }
       return NextResponse.json(
         { success: false, error: 'Failed to fetch passes' },
-        { status: response.status }
+        { status: error.status }
       )
     }
-
-    const data = await response.json()
     
     return NextResponse.json({
       success: true,
       data: data,
+      // Signed QR codes for the active passes, when PASS_SIGNING_SECRET is set
+      qrTokens: issuePassQrTokens(Array.isArray(data) ? data : data.active_passes || []),
     })
   } catch (error: any) {
     console.error('Error refreshing passes:', error)
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { AnyGymNotFoundError } from '@/lib/anygym'
+import { getPassTermsRequirement } from '@/lib/chainConsent'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** Whether the member needs to accept `gymId`'s chain terms before generating a pass, and the documents to show */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const gymId = parseInt(request.nextUrl.searchParams.get('gymId') || '', 10)
+    if (isNaN(gymId)) {
+      return NextResponse.json({ error: 'Invalid gym ID format' }, { status: 400 })
+    }
+
+    return NextResponse.json(await getPassTermsRequirement(session.user.sub, gymId))
+  } catch (error: any) {
+    if (error instanceof AnyGymNotFoundError) {
+      return NextResponse.json({ error: 'Gym not found' }, { status: 404 })
+    }
+    console.error('[passes/terms] Error checking terms acceptance:', error)
+    return NextResponse.json({ error: 'Failed to check the gym\'s terms' }, { status: 502 })
+  }
+}
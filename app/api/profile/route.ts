@@ -1,8 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@auth0/nextjs-auth0'
+import { ApiUser, AnyGymNotFoundError, getUser, updateUser } from '@/lib/anygym'
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  NotificationPreferences,
+  notificationPreferencesUpdate,
+  resolveNotificationPreferences,
+} from '@/lib/notificationPreferences'
 
 export const dynamic = 'force-dynamic'
 
+/**
+ * Apply changes like `{ email: { billing: false } }` to `current`. False if
+ * any aren't booleans for a known channel and category.
+ */
+function mergeNotificationPreferences(current: NotificationPreferences, changes: unknown): boolean {
+  if (!changes || typeof changes !== 'object') return false
+  for (const [channel, categories] of Object.entries(changes)) {
+    if (!(NOTIFICATION_CHANNELS as readonly string[]).includes(channel) || !categories || typeof categories !== 'object') {
+      return false
+    }
+    for (const [category, enabled] of Object.entries(categories)) {
+      if (!(NOTIFICATION_CATEGORIES as readonly string[]).includes(category) || typeof enabled !== 'boolean') {
+        return false
+      }
+      current[channel as keyof NotificationPreferences][category as keyof NotificationPreferences['email']] = enabled
+    }
+  }
+  return true
+}
+
 export async function GET() {
   try {
     const session = await getSession()
@@ -13,22 +41,18 @@ export async function GET() {
     const auth0Id = session.user.sub
 
     // Fetch user data from external API
-    const response = await fetch('https://api.any-gym.com/user', {
-      headers: {
-        'auth0_id': auth0Id,
-      },
-      next: { revalidate: 60 } // Cache for 1 minute
-    })
-
-    if (!response.ok) {
-      if (response.status === 404) {
+    let userData: ApiUser
+    try {
+      userData = await getUser(auth0Id)
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
         return NextResponse.json({ error: 'User not found' }, { status: 404 })
       }
-      throw new Error(`Failed to fetch user: ${response.statusText}`)
+      throw error
     }
 
-    const userData = await response.json()
-    
+    const notificationPreferences = resolveNotificationPreferences(userData)
+
     // Map API response to expected format
     return NextResponse.json({
       fullName: userData.full_name || userData.name || '',
@@ -39,12 +63,9 @@ export async function GET() {
       addressPostcode: userData.address_postcode || '',
       emergencyContactName: userData.emergency_contact_name || '',
       emergencyContactNumber: userData.emergency_contact_number || '',
-      passNotificationConsent: userData.pass_notification_consent === true || 
-                                userData.pass_notification_consent === 'true' || 
-                                userData.pass_notification_consent === 1,
-      marketingConsent: userData.marketing_consent === true || 
-                        userData.marketing_consent === 'true' || 
-                        userData.marketing_consent === 1,
+      notificationPreferences,
+      passNotificationConsent: notificationPreferences.email.pass_reminders,
+      marketingConsent: notificationPreferences.email.marketing,
     })
   } catch (error: any) {
     console.error('[Profile API] Error fetching profile:', error)
@@ -74,6 +95,7 @@ export async function PUT(request: NextRequest) {
       emergencyContactNumber,
       passNotificationConsent,
       marketingConsent,
+      notificationPreferences,
     } = await request.json()
 
     // Validate required fields
@@ -85,7 +107,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Build update body with only fields that have values (non-empty)
-    const updateBody: Record<string, string | boolean> = {}
+    const updateBody: Record<string, unknown> = {}
     
     if (fullName) {
       updateBody.full_name = fullName
@@ -112,28 +134,27 @@ export async function PUT(request: NextRequest) {
     if (emergencyContactNumber) {
       updateBody.emergency_contact_number = emergencyContactNumber
     }
-    // Handle boolean consent fields
-    if (typeof passNotificationConsent === 'boolean') {
-      updateBody.pass_notification_consent = passNotificationConsent
-    }
-    if (typeof marketingConsent === 'boolean') {
-      updateBody.marketing_consent = marketingConsent
+    // Notification preferences - the older consent flags still work, and map onto their categories
+    if (notificationPreferences !== undefined || typeof passNotificationConsent === 'boolean' || typeof marketingConsent === 'boolean') {
+      const preferences = resolveNotificationPreferences(await getUser(auth0Id, { cache: 'no-store' }))
+      if (typeof passNotificationConsent === 'boolean') {
+        preferences.email.pass_reminders = passNotificationConsent
+      }
+      if (typeof marketingConsent === 'boolean') {
+        preferences.email.marketing = marketingConsent
+        preferences.email.newsletters = marketingConsent
+      }
+      if (notificationPreferences !== undefined && !mergeNotificationPreferences(preferences, notificationPreferences)) {
+        return NextResponse.json(
+          { error: 'Invalid notification preferences' },
+          { status: 400 }
+        )
+      }
+      Object.assign(updateBody, notificationPreferencesUpdate(preferences))
     }
 
     // Update user data via external API
-    const response = await fetch('https://api.any-gym.com/user/update', {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'auth0_id': auth0Id.trim(),
-      },
-      body: JSON.stringify(updateBody),
-    })
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to update user' }))
-      throw new Error(errorData.error || `Failed to update user: ${response.statusText}`)
-    }
+    await updateUser(auth0Id, updateBody)
 
     return NextResponse.json({ success: true })
   } catch (error: any) {
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AnyGymNotFoundError, getGym } from '@/lib/anygym'
+import { SCANNER_COOKIE, isGymScannerConfigured, verifyScannerAccessCode } from '@/lib/gymScanner'
+
+// Front-desk sign-in for /scanner - staff use a gym access code, not an Auth0 account
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** Sign a front-desk device in with its gym's access code */
+export async function POST(request: NextRequest) {
+  if (!isGymScannerConfigured()) {
+    return NextResponse.json({ error: 'The pass scanner isn\'t set up' }, { status: 503 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const accessCode = typeof body.accessCode === 'string' ? body.accessCode.trim() : ''
+  const access = verifyScannerAccessCode(accessCode)
+  if (!access) {
+    return NextResponse.json({ error: 'That access code isn\'t valid' }, { status: 401 })
+  }
+
+  try {
+    const gym = await getGym(access.gymId)
+    const response = NextResponse.json({ gymId: gym.id, gymName: gym.name })
+    response.cookies.set(SCANNER_COOKIE, accessCode, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      // Signed out when the access code expires
+      maxAge: access.expiresAt - Math.floor(Date.now() / 1000),
+    })
+    console.log('[scanner] Front desk signed in for gym:', gym.id)
+    return response
+  } catch (error: any) {
+    if (error instanceof AnyGymNotFoundError) {
+      return NextResponse.json({ error: 'The gym for this access code no longer exists' }, { status: 404 })
+    }
+    console.error('[scanner] Error signing in:', error)
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 })
+  }
+}
+
+/** Sign the device out */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(SCANNER_COOKIE)
+  return response
+}
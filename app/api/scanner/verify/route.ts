@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SCANNER_COOKIE, isGymScannerConfigured, verifyPassAtGym, verifyScannerAccessCode } from '@/lib/gymScanner'
+
+// Authenticated by the gym's scanner access code - the /scanner cookie, or
+// `Authorization: Bearer <access code>` for a gym's own systems
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+function accessCodeFrom(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization')
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length)
+  }
+  return request.cookies.get(SCANNER_COOKIE)?.value || null
+}
+
+/** Check a pass code or scanned QR payload at the scanner's gym, marking the pass used */
+export async function POST(request: NextRequest) {
+  if (!isGymScannerConfigured()) {
+    return NextResponse.json({ error: 'The pass scanner isn\'t set up' }, { status: 503 })
+  }
+  const access = verifyScannerAccessCode(accessCodeFrom(request))
+  if (!access) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+  const code = typeof body.code === 'string' ? body.code.trim() : ''
+  if (!code || code.length > 2048) {
+    return NextResponse.json({ error: 'A pass code is required' }, { status: 400 })
+  }
+
+  try {
+    const signed = await verifyPassAtGym(access.gymId, code)
+    console.log('[scanner] Pass checked:', {
+      gymId: access.gymId,
+      passCode: signed.verification.passCode,
+      result: signed.verification.result,
+    })
+    return NextResponse.json(signed)
+  } catch (error: any) {
+    console.error('[scanner] Error verifying pass:', error)
+    return NextResponse.json({ error: 'Failed to check pass' }, { status: 500 })
+  }
+}
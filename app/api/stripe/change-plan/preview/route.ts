@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { PLAN_CHANGE_TIMINGS, PlanChangeError, PlanChangeTiming, previewPlanChange } from '@/lib/planChange'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/** What switching the member's subscription to `priceId` would cost now and from the next renewal */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const timing: PlanChangeTiming = body.timing || 'immediate'
+    if (typeof body.priceId !== 'string' || !body.priceId) {
+      return NextResponse.json({ error: 'priceId is required' }, { status: 400 })
+    }
+    if (!PLAN_CHANGE_TIMINGS.includes(timing)) {
+      return NextResponse.json({ error: `timing must be one of: ${PLAN_CHANGE_TIMINGS.join(', ')}` }, { status: 400 })
+    }
+
+    const preview = await previewPlanChange(session.user.sub, body.priceId, timing)
+    return NextResponse.json({ preview })
+  } catch (error: any) {
+    if (error instanceof PlanChangeError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('[change-plan/preview] Error previewing plan change:', error)
+    return NextResponse.json({ error: 'Failed to preview plan change' }, { status: 500 })
+  }
+}
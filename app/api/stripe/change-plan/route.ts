@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession } from '@auth0/nextjs-auth0'
+import { PLAN_CHANGE_TIMINGS, PlanChangeError, PlanChangeTiming, applyPlanChange } from '@/lib/planChange'
+
+// Mark route as dynamic - uses cookies for authentication
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Switch the member's existing subscription to `priceId`. Pass the
+ * `prorationToken` from the preview so the charge matches what was shown.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession()
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const timing: PlanChangeTiming = body.timing || 'immediate'
+    if (typeof body.priceId !== 'string' || !body.priceId) {
+      return NextResponse.json({ error: 'priceId is required' }, { status: 400 })
+    }
+    if (!PLAN_CHANGE_TIMINGS.includes(timing)) {
+      return NextResponse.json({ error: `timing must be one of: ${PLAN_CHANGE_TIMINGS.join(', ')}` }, { status: 400 })
+    }
+    const prorationToken = typeof body.prorationToken === 'string' ? body.prorationToken : undefined
+
+    const result = await applyPlanChange(session.user.sub, body.priceId, timing, prorationToken)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    if (error instanceof PlanChangeError) {
+      return NextResponse.json({ success: false, error: error.message, code: error.code }, { status: error.status })
+    }
+    console.error('[change-plan] Error changing plan:', error)
+    return NextResponse.json({ success: false, error: 'Failed to change plan' }, { status: 500 })
+  }
+}
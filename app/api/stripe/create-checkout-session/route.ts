@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@auth0/nextjs-auth0'
 import { stripe } from '@/lib/stripe'
+import { getUser, updateUser } from '@/lib/anygym'
+import { planLimitsFromProduct, tierFromProduct } from '@/lib/tiers'
 
 // Mark route as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
 export const runtime = 'nodejs'
 
+function withQueryParam(path: string, key: string, value: string): string {
+  return `${path}${path.includes('?') ? '&' : '?'}${key}=${value}`
+}
+
 export async function POST(request: NextRequest) {
   try {
     const session = await getSession()
@@ -20,6 +26,12 @@ export async function POST(request: NextRequest) {
     const body = await request.json().catch(() => ({}))
     const priceId = body.priceId || process.env.STRIPE_PRICE_ID
 
+    // Optional same-origin path to come back to, e.g. the gym that prompted an upgrade
+    const returnPath =
+      typeof body.returnPath === 'string' && body.returnPath.startsWith('/') && !body.returnPath.startsWith('//')
+        ? body.returnPath
+        : null
+
     if (!priceId) {
       return NextResponse.json(
         { error: 'Stripe price ID not configured' },
@@ -32,33 +44,24 @@ export async function POST(request: NextRequest) {
 
     // Try to get stripe_customer_id from API
     try {
-      const trimmedAuth0Id = userId.trim()
-      const userResponse = await fetch('https://api.any-gym.com/user', {
-        headers: {
-          'auth0_id': trimmedAuth0Id,
-        },
-        cache: 'no-store', // Don't cache for checkout session
-      })
+      // Don't cache for checkout session
+      const userData = await getUser(userId, { cache: 'no-store' })
+
+      // Check if user has stripe_customer_id in API response
+      const existingCustomerId = userData.stripe_customer_id
+      if (existingCustomerId) {
+        customerId = existingCustomerId
 
-      if (userResponse.ok) {
-        const userData = await userResponse.json()
-        
-        // Check if user has stripe_customer_id in API response
-        const existingCustomerId = userData.stripe_customer_id
-        if (existingCustomerId) {
-          customerId = existingCustomerId
-          
-          // Update customer metadata to ensure auth0_id is set
-          try {
-            await stripe.customers.update(existingCustomerId, {
-              metadata: {
-                userId: userId,
-                auth0_id: userId,
-              },
-            })
-          } catch (updateError) {
-            console.warn('[create-checkout-session] Failed to update customer metadata:', updateError)
-          }
+        // Update customer metadata to ensure auth0_id is set
+        try {
+          await stripe.customers.update(existingCustomerId, {
+            metadata: {
+              userId: userId,
+              auth0_id: userId,
+            },
+          })
+        } catch (updateError) {
+          console.warn('[create-checkout-session] Failed to update customer metadata:', updateError)
         }
       }
     } catch (apiError: any) {
@@ -80,16 +83,8 @@ export async function POST(request: NextRequest) {
 
       // Update user in API with stripe_customer_id
       try {
-        const trimmedAuth0Id = userId.trim()
-        await fetch('https://api.any-gym.com/user/update', {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-            'auth0_id': trimmedAuth0Id,
-          },
-          body: JSON.stringify({
-            stripe_customer_id: customerId,
-          }),
+        await updateUser(userId, {
+          stripe_customer_id: customerId,
         })
         console.log('[create-checkout-session] Updated user with stripe_customer_id via API')
       } catch (updateError: any) {
@@ -101,54 +96,35 @@ export async function POST(request: NextRequest) {
     console.log('[create-checkout-session] Creating checkout session for price:', priceId)
     console.log('[create-checkout-session] Customer ID:', customerId)
     
-    // Cancel any existing active subscriptions in Stripe before creating a new one
-    // Note: The webhook will handle updating subscription status in the API
+    // Members with a subscription change plan in place (/api/stripe/change-plan) rather
+    // than checking out again, which would leave them with two subscriptions
     try {
       const existingSubscriptions = await stripe.subscriptions.list({
         customer: customerId,
-        status: 'active',
+        status: 'all',
         limit: 10,
       })
-      
-      if (existingSubscriptions.data.length > 0) {
-        console.log(`[create-checkout-session] Found ${existingSubscriptions.data.length} active subscription(s), cancelling...`)
-        for (const sub of existingSubscriptions.data) {
-          try {
-            // Cancel in Stripe - webhook will handle API updates
-            await stripe.subscriptions.cancel(sub.id)
-            console.log(`[create-checkout-session] Cancelled subscription in Stripe: ${sub.id}`)
-            console.log(`[create-checkout-session] Webhook will handle subscription status update in API`)
-          } catch (cancelError: any) {
-            console.error(`[create-checkout-session] Error cancelling subscription ${sub.id}:`, cancelError.message)
-            // Continue with other subscriptions even if one fails
-          }
-        }
+      const live = existingSubscriptions.data.filter((sub) => ['active', 'trialing', 'past_due'].includes(sub.status))
+      if (live.length > 0) {
+        console.log(`[create-checkout-session] Customer already has subscription ${live[0].id}, not creating checkout`)
+        return NextResponse.json(
+          { error: 'You already have a membership. Change your plan instead.', code: 'has_subscription' },
+          { status: 409 }
+        )
       }
     } catch (listError: any) {
       console.warn('[create-checkout-session] Error listing existing subscriptions:', listError.message)
-      // Continue with checkout session creation even if we can't cancel existing subscriptions
+      // Continue with checkout session creation even if we can't check existing subscriptions
     }
-    
+
     // Get product and price details to extract metadata
     const price = await stripe.prices.retrieve(priceId)
     const product = await stripe.products.retrieve(price.product as string)
     
-    // Determine tier from product metadata or name
-    let tier = 'standard'
-    if (product.metadata?.tierGyms) {
-      tier = product.metadata.tierGyms
-    } else {
-      const name = product.name.toLowerCase()
-      if (name.includes('premium')) {
-        tier = 'premium'
-      } else if (name.includes('elite')) {
-        tier = 'elite'
-      }
-    }
+    const tier = tierFromProduct(product)
     
     // Get monthly limit and guest passes from product metadata
-    const monthlyLimit = parseInt(product.metadata?.['Gym Passes'] || '8', 10)
-    const guestPassesLimit = parseInt(product.metadata?.['Guest Passes'] || '0', 10)
+    const { monthlyLimit, guestPassesLimit } = planLimitsFromProduct(product)
     
     const checkoutSession = await stripe.checkout.sessions.create({
       customer: customerId,
@@ -160,8 +136,12 @@ export async function POST(request: NextRequest) {
           quantity: 1,
         },
       ],
-      success_url: `${request.nextUrl.origin}/dashboard?onboarding=complete`,
-      cancel_url: `${request.nextUrl.origin}/onboarding?step=4&canceled=true`,
+      success_url: returnPath
+        ? `${request.nextUrl.origin}${withQueryParam(returnPath, 'upgrade', 'complete')}`
+        : `${request.nextUrl.origin}/dashboard?onboarding=complete`,
+      cancel_url: returnPath
+        ? `${request.nextUrl.origin}${withQueryParam(returnPath, 'upgrade', 'canceled')}`
+        : `${request.nextUrl.origin}/onboarding?step=4&canceled=true`,
       metadata: {
         userId: userId,
         priceId: priceId,
@@ -169,6 +149,12 @@ export async function POST(request: NextRequest) {
         monthly_limit: monthlyLimit.toString(),
         guest_passes_limit: guestPassesLimit.toString(),
       },
+      // Lets subscription webhooks find the member without going through the customer
+      subscription_data: {
+        metadata: {
+          userId: userId,
+        },
+      },
       allow_promotion_codes: true,
     })
 
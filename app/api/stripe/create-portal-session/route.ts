@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@auth0/nextjs-auth0'
 import { stripe } from '@/lib/stripe'
+import { AnyGymNotFoundError, getUser } from '@/lib/anygym'
 
 // Mark route as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -19,24 +20,15 @@ export async function POST(request: NextRequest) {
     let customerId: string | null = null
     
     try {
-      const trimmedAuth0Id = userId.trim()
-      const userResponse = await fetch('https://api.any-gym.com/user', {
-        headers: {
-          'auth0_id': trimmedAuth0Id,
-        },
-        cache: 'no-store', // Don't cache for portal session
-      })
-
-      if (userResponse.ok) {
-        const userData = await userResponse.json()
-        customerId = userData.stripe_customer_id || null
-      } else if (userResponse.status === 404) {
+      // Don't cache for portal session
+      const userData = await getUser(userId, { cache: 'no-store' })
+      customerId = userData.stripe_customer_id || null
+    } catch (apiError: any) {
+      if (apiError instanceof AnyGymNotFoundError) {
         console.log('[create-portal-session] User not found in API')
       } else {
-        console.error('[create-portal-session] Error fetching user from API:', userResponse.status, userResponse.statusText)
+        console.error('[create-portal-session] Error fetching user from API:', apiError?.message)
       }
-    } catch (apiError: any) {
-      console.error('[create-portal-session] Error fetching user from API:', apiError?.message)
     }
 
     if (!customerId) {
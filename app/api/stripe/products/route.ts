@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession } from '@auth0/nextjs-auth0'
 import { stripe } from '@/lib/stripe'
+import { planLimitsFromProduct, tierFromProduct, tierRankFromProduct } from '@/lib/tiers'
 
 // Mark route as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -8,6 +9,7 @@ export const runtime = 'nodejs'
 
 export interface StripeProduct {
   tier: string
+  tierRank: number // Higher ranks include the gyms of lower ones
   name: string
   price: number
   monthlyLimit: number
@@ -50,43 +52,27 @@ export async function GET(request: NextRequest) {
 
     // Map products to our format
     const mappedProducts: StripeProduct[] = productsWithPrices.map((product) => {
-      let tier = 'standard'
-      let monthlyLimit = 8
       let icon = 'Zap'
       let color = 'from-blue-500 to-blue-600'
       let popular = false
-      let guestPassesLimit = 0
 
-      // Determine tier from metadata or product name
-      if (product.metadata?.tierGyms) {
-        tier = product.metadata.tierGyms
-      } else {
-        const name = product.name.toLowerCase()
-        if (name.includes('premium')) {
-          tier = 'premium'
-        } else if (name.includes('elite')) {
-          tier = 'elite'
-        }
-      }
+      // Tier and rank come from the product metadata, falling back to its name
+      const tier = tierFromProduct(product)
+      const tierRank = tierRankFromProduct(product, tier)
+      const { monthlyLimit, guestPassesLimit } = planLimitsFromProduct(product, tier)
 
-      // Set tier-specific defaults
+      // Tier-specific styling
       switch (tier) {
         case 'premium':
-          monthlyLimit = parseInt(product.metadata?.['Gym Passes'] || '20', 10)
-          guestPassesLimit = parseInt(product.metadata?.['Guest Passes'] || '2', 10)
           icon = 'Star'
           color = 'from-green-500 to-green-600'
           popular = true
           break
         case 'elite':
-          monthlyLimit = parseInt(product.metadata?.['Gym Passes'] || '30', 10)
-          guestPassesLimit = parseInt(product.metadata?.['Guest Passes'] || '6', 10)
           icon = 'Crown'
           color = 'from-orange-500 to-orange-600'
           break
         default:
-          monthlyLimit = parseInt(product.metadata?.['Gym Passes'] || '8', 10)
-          guestPassesLimit = 0
           icon = 'Zap'
           color = 'from-blue-500 to-blue-600'
       }
@@ -128,6 +114,7 @@ export async function GET(request: NextRequest) {
 
       return {
         tier,
+        tierRank,
         name: product.name,
         price,
         monthlyLimit,
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { processDueWebhookEvents } from '@/lib/webhookQueue'
+
+// Queue worker - called on a schedule (netlify/functions/process-webhook-queue.ts)
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const actual = Buffer.from(request.headers.get('authorization') || '')
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+export async function POST(request: NextRequest) {
+  const secret = process.env.WEBHOOK_QUEUE_SECRET
+  if (!secret) {
+    console.error('[webhook-process] Queue secret is not configured')
+    return NextResponse.json({ error: 'Configuration error' }, { status: 500 })
+  }
+  if (!isAuthorized(request, secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const summary = await processDueWebhookEvents()
+    console.log('[webhook-process] Queue run complete:', summary)
+    return NextResponse.json(summary)
+  } catch (error: any) {
+    console.error('[webhook-process] Error processing queue:', error)
+    return NextResponse.json(
+      { error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { AnyGymNotFoundError } from '@/lib/anygym'
+import { optOutEmail, unsubscribe, verifyEmailOptOutToken, verifyUnsubscribeToken } from '@/lib/notificationConsent'
+import { NOTIFICATION_CATEGORIES } from '@/lib/notificationPreferences'
+
+// Public - the signed token from the email is the credential, so members can unsubscribe without logging in
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+/**
+ * Unsubscribe from the category in the token. Mail clients POST here with
+ * `List-Unsubscribe=One-Click` (RFC 8058); the /unsubscribe page sends JSON
+ * and can ask for `{ "scope": "all" }` to turn off every category. A guest's
+ * token opts their address out of every email whatever the scope.
+ */
+export async function POST(request: NextRequest) {
+  const isJson = request.headers.get('content-type')?.includes('application/json')
+  const body = isJson ? await request.json().catch(() => ({})) : {}
+  const rawToken = request.nextUrl.searchParams.get('token') || body.token
+  const email = verifyEmailOptOutToken(rawToken)
+  if (email) {
+    try {
+      await optOutEmail(email)
+      return NextResponse.json({ success: true, categories: NOTIFICATION_CATEGORIES })
+    } catch (error: any) {
+      console.error('[unsubscribe] Error opting out email:', error)
+      return NextResponse.json({ success: false, error: 'Failed to unsubscribe' }, { status: 500 })
+    }
+  }
+
+  const token = verifyUnsubscribeToken(rawToken)
+  if (!token) {
+    return NextResponse.json({ success: false, error: 'This unsubscribe link isn\'t valid' }, { status: 400 })
+  }
+
+  const categories = body.scope === 'all' ? NOTIFICATION_CATEGORIES : [token.category]
+  try {
+    await unsubscribe(token.auth0Id, 'email', categories)
+    return NextResponse.json({ success: true, categories })
+  } catch (error: any) {
+    if (error instanceof AnyGymNotFoundError) {
+      return NextResponse.json({ success: false, error: 'This account no longer exists' }, { status: 404 })
+    }
+    console.error('[unsubscribe] Error updating preferences:', error)
+    return NextResponse.json({ success: false, error: 'Failed to unsubscribe' }, { status: 500 })
+  }
+}
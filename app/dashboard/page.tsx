@@ -4,6 +4,10 @@ import { Subscription, Gym } from '@/lib/types'
 import DashboardLayout from '@/components/DashboardLayout'
 import GymMapView from '@/components/GymMapView'
 import { getOrCreateAppUser } from '@/lib/user'
+import { mapMembership } from '@/lib/subscription'
+import { getTierOrder } from '@/lib/stripeTiers'
+import { DEFAULT_TIER_ORDER } from '@/lib/tiers'
+import { getChains, getGyms, getUser, hasCoordinates, mapGym } from '@/lib/anygym'
 
 // Mark page as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -16,74 +20,18 @@ interface UserData {
 
 async function getUserData(auth0Id: string, fallbackEmail?: string, fallbackName?: string): Promise<UserData> {
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    const response = await fetch('https://api.any-gym.com/user', {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 60 } // Cache for 1 minute
-    })
+    const userData = await getUser(auth0Id)
+    
+    // Extract name
+    const userName = userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
     
-    if (response.ok) {
-      const userData = await response.json()
-      
-      // Extract name
-      const userName = userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
-      
-      // Extract membership from user response
-      let subscription: Subscription | null = null
-      if (userData.membership) {
-        const membershipData = userData.membership
-        
-        // Parse next_billing_date
-        let nextBillingDate: Date
-        if (membershipData.next_billing_date) {
-          const billingDateStr = membershipData.next_billing_date
-          if (/^\d{4}-\d{2}-\d{2}$/.test(billingDateStr)) {
-            nextBillingDate = new Date(billingDateStr + 'T23:59:59.999Z')
-          } else {
-            nextBillingDate = new Date(billingDateStr)
-          }
-        } else {
-          nextBillingDate = membershipData.current_period_end 
-            ? new Date(membershipData.current_period_end)
-            : new Date()
-        }
-        
-        // Map membership to Subscription type
-        // Only default to 'standard' if tier is explicitly null/undefined/empty, not if it's a valid string
-        const tierValue = membershipData.tier
-        const tier = (tierValue && typeof tierValue === 'string' && tierValue.trim()) ? tierValue : 'standard'
-        
-        subscription = {
-          id: membershipData.id || 0,
-          userId: membershipData.user_id || auth0Id,
-          tier: tier,
-          monthlyLimit: membershipData.monthly_limit != null ? Number(membershipData.monthly_limit) : 0,
-          visitsUsed: membershipData.visits_used != null ? Number(membershipData.visits_used) : 0,
-          price: membershipData.price != null ? parseFloat(membershipData.price) : 0,
-          startDate: membershipData.start_date 
-            ? new Date(membershipData.start_date)
-            : (membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date()),
-          nextBillingDate: nextBillingDate,
-          currentPeriodStart: membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date(),
-          currentPeriodEnd: membershipData.current_period_end ? new Date(membershipData.current_period_end) : new Date(),
-          status: membershipData.status || 'active',
-          stripeSubscriptionId: membershipData.stripe_subscription_id || undefined,
-          stripeCustomerId: membershipData.stripe_customer_id || undefined,
-          guestPassesLimit: membershipData.guest_passes_limit != null ? Number(membershipData.guest_passes_limit) : 0,
-          guestPassesUsed: membershipData.guest_passes_used != null ? Number(membershipData.guest_passes_used) : 0,
-          createdAt: membershipData.created_at 
-            ? new Date(membershipData.created_at)
-            : (membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date()),
-          updatedAt: membershipData.updated_at 
-            ? new Date(membershipData.updated_at)
-            : (membershipData.current_period_end ? new Date(membershipData.current_period_end) : new Date()),
-        } as Subscription
-      }
-      
-      return { name: userName, subscription }
+    // Extract membership from user response
+    let subscription: Subscription | null = null
+    if (userData.membership) {
+      subscription = mapMembership(userData.membership, auth0Id)
     }
+    
+    return { name: userName, subscription }
   } catch (error) {
     console.error('[getUserData] Error fetching user data:', error)
   }
@@ -97,38 +45,10 @@ async function getUserData(auth0Id: string, fallbackEmail?: string, fallbackName
 
 async function getAllGyms(): Promise<Gym[]> {
   try {
-    const response = await fetch('https://api.any-gym.com/gyms', {
-      next: { revalidate: 3600 } // Cache for 1 hour
-    })
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch gyms: ${response.statusText}`)
-    }
-    
-    const data = await response.json()
+    const data = await getGyms()
     
     // Map API response to Gym type
-    return data
-      .filter((gym: any) => gym.latitude != null && gym.longitude != null)
-      .map((gym: any) => ({
-        id: gym.id,
-        name: gym.name,
-        address: gym.address || '',
-        city: gym.city || '',
-        postcode: gym.postcode || '',
-        phone: gym.phone || undefined,
-        latitude: gym.latitude ? parseFloat(gym.latitude) : undefined,
-        longitude: gym.longitude ? parseFloat(gym.longitude) : undefined,
-        gym_chain_id: gym.gym_chain_id || undefined,
-        required_tier: gym.required_tier || 'standard',
-        amenities: gym.amenities || [],
-        opening_hours: gym.opening_hours || {},
-        image_url: gym.image_url || undefined,
-        rating: undefined, // Not provided by API
-        status: 'active', // Default to active
-        createdAt: new Date(), // Default to current date
-        updatedAt: new Date(), // Default to current date
-      })) as Gym[]
+    return data.filter(hasCoordinates).map(mapGym)
   } catch (error) {
     console.error('Error fetching gyms:', error)
     return []
@@ -137,26 +57,11 @@ async function getAllGyms(): Promise<Gym[]> {
 
 async function getGymChains(auth0Id: string) {
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    const response = await fetch('https://api.any-gym.com/chains', {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 3600 } // Cache for 1 hour (chains don't change often)
-    })
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch chains: ${response.statusText}`)
-    }
-    
-    const data = await response.json()
-    
-    // Ensure the response is an array and map to expected format
     // API should return array of chains with id and name properties
-    const chains = Array.isArray(data) ? data : (data.chains || [])
+    const chains = await getChains(auth0Id)
     
     // Sort by name to match previous behavior
-    return chains.sort((a: any, b: any) => {
+    return chains.sort((a, b) => {
       const nameA = a.name || ''
       const nameB = b.name || ''
       return nameA.localeCompare(nameB)
@@ -167,7 +72,11 @@ async function getGymChains(auth0Id: string) {
   }
 }
 
-export default async function Dashboard() {
+export default async function Dashboard({
+  searchParams,
+}: {
+  searchParams: { gym?: string }
+}) {
   try {
     const session = await getSession()
 
@@ -199,16 +108,18 @@ export default async function Dashboard() {
     
     // Fetch data in parallel with error handling
     // getUserData fetches both name and membership from /user endpoint
-    const [userData, gyms, chains] = await Promise.allSettled([
+    const [userData, gyms, chains, tierOrder] = await Promise.allSettled([
       getUserData(auth0Id, session.user.email, session.user.name),
       getAllGyms(),
       getGymChains(auth0Id),
+      getTierOrder(),
     ])
 
     const userDataResult = userData.status === 'fulfilled' ? userData.value : { name: session.user.name || session.user.email || 'User', subscription: null }
     const subscriptionResult = userDataResult.subscription
     const gymsResult = gyms.status === 'fulfilled' ? gyms.value : []
     const chainsResult = chains.status === 'fulfilled' ? chains.value : []
+    const tierOrderResult = tierOrder.status === 'fulfilled' ? tierOrder.value : DEFAULT_TIER_ORDER
     const userNameResult = userDataResult.name
 
     if (userData.status === 'rejected') {
@@ -247,6 +158,9 @@ export default async function Dashboard() {
               initialGyms={gymsResult} 
               chains={chainsResult}
               hasSubscription={!!subscriptionResult}
+              memberTier={subscriptionResult?.tier ?? null}
+              tierOrder={tierOrderResult}
+              initialGymId={searchParams.gym ? parseInt(searchParams.gym, 10) : undefined}
             />
           </div>
         </div>
@@ -3,7 +3,9 @@ import { redirect, notFound } from 'next/navigation'
 import { Subscription } from '@/lib/types'
 import DashboardLayout from '@/components/DashboardLayout'
 import { getOrCreateAppUser } from '@/lib/user'
+import { mapMembership } from '@/lib/subscription'
 import ArticleContent from '@/components/ArticleContent'
+import { ApiArticle, AnyGymNotFoundError, getArticle as fetchArticle, getArticles as fetchArticles, getUser } from '@/lib/anygym'
 
 // Mark page as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -15,73 +17,18 @@ interface UserData {
 
 async function getUserData(auth0Id: string, fallbackEmail?: string, fallbackName?: string): Promise<UserData> {
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    const response = await fetch('https://api.any-gym.com/user', {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 60 } // Cache for 1 minute
-    })
+    const userData = await getUser(auth0Id)
     
-    if (response.ok) {
-      const userData = await response.json()
-      
-      // Extract name
-      const userName = userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
-      
-      // Extract membership from user response
-      let subscription: Subscription | null = null
-      if (userData.membership) {
-        const membershipData = userData.membership
-        
-        // Parse next_billing_date
-        let nextBillingDate: Date
-        if (membershipData.next_billing_date) {
-          const billingDateStr = membershipData.next_billing_date
-          if (/^\d{4}-\d{2}-\d{2}$/.test(billingDateStr)) {
-            nextBillingDate = new Date(billingDateStr + 'T23:59:59.999Z')
-          } else {
-            nextBillingDate = new Date(billingDateStr)
-          }
-        } else {
-          nextBillingDate = membershipData.current_period_end 
-            ? new Date(membershipData.current_period_end)
-            : new Date()
-        }
-        
-        // Map membership to Subscription type
-        const tierValue = membershipData.tier
-        const tier = (tierValue && typeof tierValue === 'string' && tierValue.trim()) ? tierValue : 'standard'
-        
-        subscription = {
-          id: membershipData.id || 0,
-          userId: membershipData.user_id || auth0Id,
-          tier: tier,
-          monthlyLimit: membershipData.monthly_limit != null ? Number(membershipData.monthly_limit) : 0,
-          visitsUsed: membershipData.visits_used != null ? Number(membershipData.visits_used) : 0,
-          price: membershipData.price != null ? parseFloat(membershipData.price) : 0,
-          startDate: membershipData.start_date 
-            ? new Date(membershipData.start_date)
-            : (membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date()),
-          nextBillingDate: nextBillingDate,
-          currentPeriodStart: membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date(),
-          currentPeriodEnd: membershipData.current_period_end ? new Date(membershipData.current_period_end) : new Date(),
-          status: membershipData.status || 'active',
-          stripeSubscriptionId: membershipData.stripe_subscription_id || undefined,
-          stripeCustomerId: membershipData.stripe_customer_id || undefined,
-          guestPassesLimit: membershipData.guest_passes_limit != null ? Number(membershipData.guest_passes_limit) : 0,
-          guestPassesUsed: membershipData.guest_passes_used != null ? Number(membershipData.guest_passes_used) : 0,
-          createdAt: membershipData.created_at 
-            ? new Date(membershipData.created_at)
-            : (membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date()),
-          updatedAt: membershipData.updated_at 
-            ? new Date(membershipData.updated_at)
-            : (membershipData.current_period_end ? new Date(membershipData.current_period_end) : new Date()),
-        } as Subscription
-      }
-      
-      return { name: userName, subscription }
+    // Extract name
+    const userName = userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
+    
+    // Extract membership from user response
+    let subscription: Subscription | null = null
+    if (userData.membership) {
+      subscription = mapMembership(userData.membership, auth0Id)
     }
+    
+    return { name: userName, subscription }
   } catch (error) {
     console.error('[getUserData] Error fetching user data:', error)
   }
@@ -114,35 +61,21 @@ interface ArticleDetail {
 
 async function getArticleByIdOrSlug(identifier: string, auth0Id: string, isId: boolean = false): Promise<ArticleDetail | null> {
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    const apiUrl = `https://api.any-gym.com/content/articles/${identifier}`
-    console.log('[getArticle] Fetching article from:', apiUrl)
-    console.log('[getArticle] Using identifier:', identifier, isId ? '(as ID)' : '(as slug)')
-    console.log('[getArticle] Auth0 ID:', trimmedAuth0Id)
+    console.log('[getArticle] Fetching article:', identifier, isId ? '(as ID)' : '(as slug)')
     
-    const response = await fetch(apiUrl, {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 3600 } // Cache for 1 hour
-    })
-    
-    console.log('[getArticle] Response status:', response.status, response.statusText)
-    
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => 'Unable to read error response')
-      console.error('[getArticle] API Error:', response.status, errorText)
-      
-      if (response.status === 404) {
+    let data: ApiArticle
+    try {
+      data = await fetchArticle(auth0Id, identifier)
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
         console.log('[getArticle] Article not found (404)')
         return null
       }
-      throw new Error(`Failed to fetch article: ${response.status} ${response.statusText}`)
+      throw error
     }
     
-    const data = await response.json()
     console.log('[getArticle] Article fetched successfully')
-    return data as ArticleDetail
+    return data as unknown as ArticleDetail
   } catch (error: any) {
     console.error('[getArticle] Error fetching article:', error)
     console.error('[getArticle] Error message:', error?.message)
@@ -179,34 +112,24 @@ async function getArticle(slug: string, auth0Id: string): Promise<ArticleDetail
   if (!article) {
     console.log('[getArticle] Slug lookup failed, trying to find article ID from articles list...')
     try {
-      const trimmedAuth0Id = auth0Id.trim()
-      const articlesResponse = await fetch('https://api.any-gym.com/content/articles', {
-        headers: {
-          'auth0_id': trimmedAuth0Id,
-        },
-        next: { revalidate: 3600 }
+      const articlesData = await fetchArticles(auth0Id)
+      const articles = articlesData.results || []
+      const matchingArticle = articles.find((a) => {
+        const articleSlug = a.slug?.trim() || ''
+        // Try various slug formats
+        return articleSlug === normalizedSlug || 
+               articleSlug === `/${normalizedSlug}` ||
+               articleSlug === `/articles/${normalizedSlug}` ||
+               articleSlug === `/explore/${normalizedSlug}` ||
+               articleSlug.endsWith(`/${normalizedSlug}`) ||
+               articleSlug.endsWith(normalizedSlug)
       })
       
-      if (articlesResponse.ok) {
-        const articlesData = await articlesResponse.json()
-        const articles = articlesData.results || []
-        const matchingArticle = articles.find((a: any) => {
-          const articleSlug = a.slug?.trim() || ''
-          // Try various slug formats
-          return articleSlug === normalizedSlug || 
-                 articleSlug === `/${normalizedSlug}` ||
-                 articleSlug === `/articles/${normalizedSlug}` ||
-                 articleSlug === `/explore/${normalizedSlug}` ||
-                 articleSlug.endsWith(`/${normalizedSlug}`) ||
-                 articleSlug.endsWith(normalizedSlug)
-        })
-        
-        if (matchingArticle?.id) {
-          console.log('[getArticle] Found article ID:', matchingArticle.id, 'for slug:', normalizedSlug)
-          article = await getArticleByIdOrSlug(matchingArticle.id, auth0Id, true)
-        } else {
-          console.log('[getArticle] No matching article found in list for slug:', normalizedSlug)
-        }
+      if (matchingArticle?.id) {
+        console.log('[getArticle] Found article ID:', matchingArticle.id, 'for slug:', normalizedSlug)
+        article = await getArticleByIdOrSlug(matchingArticle.id, auth0Id, true)
+      } else {
+        console.log('[getArticle] No matching article found in list for slug:', normalizedSlug)
       }
     } catch (error) {
       console.error('[getArticle] Error fetching articles list:', error)
@@ -3,7 +3,10 @@ import { redirect } from 'next/navigation'
 import { Subscription, Article } from '@/lib/types'
 import DashboardLayout from '@/components/DashboardLayout'
 import ArticleCard from '@/components/ArticleCard'
+import RecommendedGyms from '@/components/RecommendedGyms'
 import { getOrCreateAppUser } from '@/lib/user'
+import { mapMembership } from '@/lib/subscription'
+import { getArticles as fetchArticles, getUser } from '@/lib/anygym'
 
 // Mark page as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -15,73 +18,18 @@ interface UserData {
 
 async function getUserData(auth0Id: string, fallbackEmail?: string, fallbackName?: string): Promise<UserData> {
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    const response = await fetch('https://api.any-gym.com/user', {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 60 } // Cache for 1 minute
-    })
+    const userData = await getUser(auth0Id)
     
-    if (response.ok) {
-      const userData = await response.json()
-      
-      // Extract name
-      const userName = userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
-      
-      // Extract membership from user response
-      let subscription: Subscription | null = null
-      if (userData.membership) {
-        const membershipData = userData.membership
-        
-        // Parse next_billing_date
-        let nextBillingDate: Date
-        if (membershipData.next_billing_date) {
-          const billingDateStr = membershipData.next_billing_date
-          if (/^\d{4}-\d{2}-\d{2}$/.test(billingDateStr)) {
-            nextBillingDate = new Date(billingDateStr + 'T23:59:59.999Z')
-          } else {
-            nextBillingDate = new Date(billingDateStr)
-          }
-        } else {
-          nextBillingDate = membershipData.current_period_end 
-            ? new Date(membershipData.current_period_end)
-            : new Date()
-        }
-        
-        // Map membership to Subscription type
-        const tierValue = membershipData.tier
-        const tier = (tierValue && typeof tierValue === 'string' && tierValue.trim()) ? tierValue : 'standard'
-        
-        subscription = {
-          id: membershipData.id || 0,
-          userId: membershipData.user_id || auth0Id,
-          tier: tier,
-          monthlyLimit: membershipData.monthly_limit != null ? Number(membershipData.monthly_limit) : 0,
-          visitsUsed: membershipData.visits_used != null ? Number(membershipData.visits_used) : 0,
-          price: membershipData.price != null ? parseFloat(membershipData.price) : 0,
-          startDate: membershipData.start_date 
-            ? new Date(membershipData.start_date)
-            : (membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date()),
-          nextBillingDate: nextBillingDate,
-          currentPeriodStart: membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date(),
-          currentPeriodEnd: membershipData.current_period_end ? new Date(membershipData.current_period_end) : new Date(),
-          status: membershipData.status || 'active',
-          stripeSubscriptionId: membershipData.stripe_subscription_id || undefined,
-          stripeCustomerId: membershipData.stripe_customer_id || undefined,
-          guestPassesLimit: membershipData.guest_passes_limit != null ? Number(membershipData.guest_passes_limit) : 0,
-          guestPassesUsed: membershipData.guest_passes_used != null ? Number(membershipData.guest_passes_used) : 0,
-          createdAt: membershipData.created_at 
-            ? new Date(membershipData.created_at)
-            : (membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date()),
-          updatedAt: membershipData.updated_at 
-            ? new Date(membershipData.updated_at)
-            : (membershipData.current_period_end ? new Date(membershipData.current_period_end) : new Date()),
-        } as Subscription
-      }
-      
-      return { name: userName, subscription }
+    // Extract name
+    const userName = userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
+    
+    // Extract membership from user response
+    let subscription: Subscription | null = null
+    if (userData.membership) {
+      subscription = mapMembership(userData.membership, auth0Id)
     }
+    
+    return { name: userName, subscription }
   } catch (error) {
     console.error('[getUserData] Error fetching user data:', error)
   }
@@ -95,34 +43,22 @@ async function getUserData(auth0Id: string, fallbackEmail?: string, fallbackName
 
 async function getArticles(auth0Id: string): Promise<Article[]> {
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    const response = await fetch('https://api.any-gym.com/content/articles', {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 3600 } // Cache for 1 hour
-    })
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch articles: ${response.statusText}`)
-    }
-    
-    const data = await response.json()
+    const data = await fetchArticles(auth0Id)
     
     // API returns { results: [...], pagination: {...} }
     const articles = data.results || []
     
     // Map API response to Article type
-    return articles.map((article: any) => ({
+    return articles.map((article) => ({
       id: article.id,
       title: article.title || 'Untitled',
       headline: article.headline,
       excerpt: article.excerpt,
-      slug: article.slug,
+      slug: article.slug ?? undefined,
       published_date: article.published_date,
-      featured_image: article.featured_image,
-      featured_image_alt: article.featured_image_alt,
-    })) as Article[]
+      featured_image: article.featured_image ?? undefined,
+      featured_image_alt: article.featured_image_alt ?? undefined,
+    }))
   } catch (error) {
     console.error('Error fetching articles:', error)
     return []
@@ -195,6 +131,7 @@ export default async function ExplorePage() {
             </h1>
           </div>
           <div className="flex-1 p-4 sm:p-6 overflow-auto">
+            <RecommendedGyms className="mb-6" />
             {articlesResult.length > 0 ? (
               <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3">
                 {articlesResult.map((article) => (
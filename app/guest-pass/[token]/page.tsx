@@ -0,0 +1,60 @@
+import Logo from '@/components/Logo'
+import GuestPassAcceptance from '@/components/GuestPassAcceptance'
+import { AnyGymNotFoundError, ApiChain, ApiGuestPass, getGuestPassByToken, getGym } from '@/lib/anygym'
+import { chainDocumentVersion } from '@/lib/chainConsent'
+
+// Public - guests don't have an account. Always read the invitation fresh.
+export const dynamic = 'force-dynamic'
+
+async function getInvitation(token: string): Promise<ApiGuestPass | null> {
+  try {
+    return await getGuestPassByToken(token)
+  } catch (error) {
+    if (error instanceof AnyGymNotFoundError) {
+      return null
+    }
+    throw error
+  }
+}
+
+export default async function GuestPassPage({ params }: { params: { token: string } }) {
+  const guestPass = await getInvitation(params.token)
+  const gym = guestPass ? await getGym(guestPass.gym_id).catch(() => null) : null
+  const chain: ApiChain | null = gym?.gym_chain || null
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Logo />
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-xl mx-auto py-10 px-4">
+        {guestPass ? (
+          <GuestPassAcceptance
+            token={params.token}
+            guestName={guestPass.guest_name}
+            gymName={gym?.name || guestPass.gym_name || 'the gym'}
+            gymAddress={gym ? [gym.address, gym.city, gym.postcode].filter(Boolean).join(', ') : ''}
+            chain={chain}
+            documentVersion={chainDocumentVersion(chain)}
+            status={guestPass.status}
+            passCode={guestPass.pass_code || null}
+            validUntil={guestPass.valid_until || null}
+          />
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Invitation not found</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              This guest pass link isn&apos;t valid. Check the link in your invitation email, or ask the member who
+              invited you to send a new one.
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -1,66 +1,31 @@
 import { getSession } from '@auth0/nextjs-auth0'
 import { redirect } from 'next/navigation'
 import Link from 'next/link'
-import { Gym } from '@/lib/types'
 import GymSearch from '@/components/GymSearch'
 import Logo from '@/components/Logo'
+import { DEFAULT_PAGE_SIZE, GymSearchResult, searchGyms } from '@/lib/gymSearch'
+import { getUserSubscription } from '@/lib/anygym'
+import { mapMembership } from '@/lib/subscription'
+import { getTierOrder } from '@/lib/stripeTiers'
 
 // Mark page as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
 
-async function getGyms(searchQuery?: string): Promise<Gym[]> {
+async function getGyms(searchQuery?: string): Promise<GymSearchResult> {
   try {
-    // Fetch all gyms from external API
-    const response = await fetch('https://api.any-gym.com/gyms', {
-      next: { revalidate: 3600 } // Cache for 1 hour
-    })
-    
-    if (!response.ok) {
-      throw new Error(`Failed to fetch gyms: ${response.statusText}`)
-    }
-    
-    const data = await response.json()
-    
-    // Map API response to Gym type
-    let gyms: Gym[] = data
-      .filter((gym: any) => gym.latitude != null && gym.longitude != null)
-      .map((gym: any) => ({
-        id: gym.id,
-        name: gym.name,
-        address: gym.address || '',
-        city: gym.city || '',
-        postcode: gym.postcode || '',
-        phone: gym.phone || undefined,
-        latitude: gym.latitude ? parseFloat(gym.latitude) : undefined,
-        longitude: gym.longitude ? parseFloat(gym.longitude) : undefined,
-        gym_chain_id: gym.gym_chain_id || undefined,
-        required_tier: gym.required_tier || 'standard',
-        amenities: gym.amenities || [],
-        opening_hours: gym.opening_hours || {},
-        image_url: gym.image_url || undefined,
-        rating: undefined,
-        status: 'active',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      })) as Gym[]
-
-    // Apply search filter if provided
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase()
-      gyms = gyms.filter((gym) => 
-        gym.name.toLowerCase().includes(query) ||
-        gym.city.toLowerCase().includes(query) ||
-        gym.postcode.toLowerCase().includes(query)
-      )
-    }
-
-    // Sort by name
-    gyms.sort((a, b) => a.name.localeCompare(b.name))
-
-    return gyms
+    return await searchGyms({ search: searchQuery, limit: DEFAULT_PAGE_SIZE })
   } catch (error) {
     console.error('Error fetching gyms:', error)
-    return []
+    return { gyms: [], total: 0, offset: 0, limit: DEFAULT_PAGE_SIZE, hasMore: false }
+  }
+}
+
+// Null when the user has no membership
+async function getMemberTier(auth0Id: string): Promise<string | null> {
+  try {
+    return mapMembership(await getUserSubscription(auth0Id)).tier
+  } catch {
+    return null
   }
 }
 
@@ -75,7 +40,11 @@ export default async function GymsPage({
     redirect('/api/auth/login')
   }
 
-  const gyms = await getGyms(searchParams.search)
+  const [{ gyms, total }, memberTier, tierOrder] = await Promise.all([
+    getGyms(searchParams.search),
+    getMemberTier(session.user.sub),
+    getTierOrder(),
+  ])
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -115,7 +84,13 @@ export default async function GymsPage({
             Find Gyms
           </h1>
           
-          <GymSearch initialGyms={gyms} />
+          <GymSearch
+            initialGyms={gyms}
+            initialTotal={total}
+            initialQuery={searchParams.search}
+            memberTier={memberTier}
+            tierOrder={tierOrder}
+          />
         </div>
       </main>
     </div>
@@ -1,8 +1,9 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import { Poppins } from 'next/font/google'
 import './globals.css'
 import { UserProvider } from '@auth0/nextjs-auth0/client'
 import AssetErrorHandler from '@/components/AssetErrorHandler'
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration'
 
 const poppins = Poppins({ 
   subsets: ['latin'],
@@ -18,6 +19,15 @@ export const metadata: Metadata = {
     shortcut: 'https://res.cloudinary.com/njh101010/image/upload/v1760889858/anygym/anygym.png',
     apple: 'https://res.cloudinary.com/njh101010/image/upload/v1760889858/anygym/anygym.png',
   },
+  appleWebApp: {
+    capable: true,
+    title: 'anygym',
+    statusBarStyle: 'default',
+  },
+}
+
+export const viewport: Viewport = {
+  themeColor: '#FF6B6B',
 }
 
 export default function RootLayout({
@@ -114,6 +124,7 @@ export default function RootLayout({
       </head>
       <body className={poppins.className}>
         <AssetErrorHandler />
+        <ServiceWorkerRegistration />
         <UserProvider>
           {children}
         </UserProvider>
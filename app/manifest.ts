@@ -0,0 +1,23 @@
+import type { MetadataRoute } from 'next'
+
+const ICON_URL = 'https://res.cloudinary.com/njh101010/image/upload'
+const ICON_PATH = 'v1760889858/anygym/anygym.png'
+
+/** Web app manifest - lets members install anygym and open their passes offline */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'anygym - Universal Gym Membership',
+    short_name: 'anygym',
+    description: 'Find and access gyms with flexible passes',
+    start_url: '/passes',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#FF6B6B',
+    icons: [192, 512].map((size) => ({
+      src: `${ICON_URL}/w_${size},h_${size},c_pad,b_white/${ICON_PATH}`,
+      sizes: `${size}x${size}`,
+      type: 'image/png',
+    })),
+  }
+}
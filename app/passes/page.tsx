@@ -1,10 +1,19 @@
 import { getSession } from '@auth0/nextjs-auth0'
 import { redirect } from 'next/navigation'
-import { GymPass, Subscription } from '@/lib/types'
+import { GuestPass, GymPass, Subscription } from '@/lib/types'
 import DashboardLayout from '@/components/DashboardLayout'
 import PassesView from '@/components/PassesView'
 import AccountSetupError from '@/components/AccountSetupError'
 import { getOrCreateAppUser } from '@/lib/user'
+import { mapMembership } from '@/lib/subscription'
+import { normalizeAmenities } from '@/lib/amenities'
+import { parseOpeningHours } from '@/lib/openingHours'
+import { mapGuestPass } from '@/lib/guestPasses'
+import { EMPTY_PASS_HISTORY, PassHistoryPage, mapPassHistory } from '@/lib/passHistory'
+import { isAppleWalletConfigured } from '@/lib/appleWallet'
+import { isGoogleWalletConfigured } from '@/lib/googleWallet'
+import { issuePassQrTokens } from '@/lib/passSigning'
+import { ApiUserPasses, AnyGymNotFoundError, getGuestPasses, getPassHistory, getUser, getUserPasses } from '@/lib/anygym'
 
 // Mark page as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -16,74 +25,18 @@ interface UserData {
 
 async function getUserData(auth0Id: string, fallbackEmail?: string, fallbackName?: string): Promise<UserData> {
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    const response = await fetch('https://api.any-gym.com/user', {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 60 } // Cache for 1 minute
-    })
+    const userData = await getUser(auth0Id)
     
-    if (response.ok) {
-      const userData = await response.json()
-      
-      // Extract name
-      const userName = userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
-      
-      // Extract membership from user response
-      let subscription: Subscription | null = null
-      if (userData.membership) {
-        const membershipData = userData.membership
-        
-        // Parse next_billing_date
-        let nextBillingDate: Date
-        if (membershipData.next_billing_date) {
-          const billingDateStr = membershipData.next_billing_date
-          if (/^\d{4}-\d{2}-\d{2}$/.test(billingDateStr)) {
-            nextBillingDate = new Date(billingDateStr + 'T23:59:59.999Z')
-          } else {
-            nextBillingDate = new Date(billingDateStr)
-          }
-      } else {
-          nextBillingDate = membershipData.current_period_end 
-            ? new Date(membershipData.current_period_end)
-            : new Date()
-        }
-        
-        // Map membership to Subscription type
-        // Only default to 'standard' if tier is explicitly null/undefined/empty, not if it's a valid string
-        const tierValue = membershipData.tier
-        const tier = (tierValue && typeof tierValue === 'string' && tierValue.trim()) ? tierValue : 'standard'
-        
-        subscription = {
-          id: membershipData.id || 0,
-          userId: membershipData.user_id || auth0Id,
-          tier: tier,
-          monthlyLimit: membershipData.monthly_limit != null ? Number(membershipData.monthly_limit) : 0,
-          visitsUsed: membershipData.visits_used != null ? Number(membershipData.visits_used) : 0,
-          price: membershipData.price != null ? parseFloat(membershipData.price) : 0,
-          startDate: membershipData.start_date 
-            ? new Date(membershipData.start_date)
-            : (membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date()),
-          nextBillingDate: nextBillingDate,
-          currentPeriodStart: membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date(),
-          currentPeriodEnd: membershipData.current_period_end ? new Date(membershipData.current_period_end) : new Date(),
-          status: membershipData.status || 'active',
-          stripeSubscriptionId: membershipData.stripe_subscription_id || undefined,
-          stripeCustomerId: membershipData.stripe_customer_id || undefined,
-          guestPassesLimit: membershipData.guest_passes_limit != null ? Number(membershipData.guest_passes_limit) : 0,
-          guestPassesUsed: membershipData.guest_passes_used != null ? Number(membershipData.guest_passes_used) : 0,
-          createdAt: membershipData.created_at 
-            ? new Date(membershipData.created_at)
-            : (membershipData.current_period_start ? new Date(membershipData.current_period_start) : new Date()),
-          updatedAt: membershipData.updated_at 
-            ? new Date(membershipData.updated_at)
-            : (membershipData.current_period_end ? new Date(membershipData.current_period_end) : new Date()),
-        } as Subscription
-      }
-      
-      return { name: userName, subscription }
+    // Extract name
+    const userName = userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
+    
+    // Extract membership from user response
+    let subscription: Subscription | null = null
+    if (userData.membership) {
+      subscription = mapMembership(userData.membership, auth0Id)
     }
+    
+    return { name: userName, subscription }
   } catch (error) {
     console.error('[getUserData] Error fetching user data:', error)
   }
@@ -100,32 +53,23 @@ async function getUserData(auth0Id: string, fallbackEmail?: string, fallbackName
 // This endpoint also returns subscription data, so we return both passes and subscription
 async function fetchUserPassesFromAPI(auth0Id: string): Promise<{ passes: GymPass[], subscription: any }> {
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    console.log('[fetchUserPassesFromAPI] Making request with auth0_id header:', trimmedAuth0Id)
+    console.log('[fetchUserPassesFromAPI] Making request with auth0_id header:', auth0Id.trim())
     
-    const response = await fetch('https://api.any-gym.com/user/passes', {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 60 } // Cache for 1 minute
-    })
-    
-    console.log('[fetchUserPassesFromAPI] Response status:', response.status, response.statusText)
-    
-    if (!response.ok) {
-      if (response.status === 404) {
+    let data: ApiUserPasses
+    try {
+      data = await getUserPasses(auth0Id)
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
         console.log('[fetchUserPassesFromAPI] No passes found (404)')
         return { passes: [], subscription: null }
       }
-      throw new Error(`Failed to fetch passes: ${response.statusText}`)
+      throw error
     }
     
-    const data = await response.json()
     console.log('[fetchUserPassesFromAPI] API response keys:', Object.keys(data))
-    console.log('[fetchUserPassesFromAPI] Subscription in response:', data.subscription)
     
     // Extract subscription from response if available
-    const subscriptionData = data.subscription || null
+    const subscriptionData = Array.isArray(data) ? null : data.subscription || null
     
     // Handle both array and object with passes property
     // API returns: { "subscription": {...}, "active_passes": [...], "pass_history": [...] }
@@ -139,6 +83,8 @@ async function fetchUserPassesFromAPI(auth0Id: string): Promise<{ passes: GymPas
         ]
     
     console.log('[fetchUserPassesFromAPI] Total passes found:', passesData.length)
+
+    const qrTokens = issuePassQrTokens(passesData)
     
     // Map API response to GymPass type
     // API structure: passes have gym_name, gym_id, gym_chain_id, gym_chain_name, gym_chain_logo directly on the object
@@ -160,7 +106,7 @@ async function fetchUserPassesFromAPI(auth0Id: string): Promise<{ passes: GymPas
           gym_chain_id: pass.gym_chain_id,
           required_tier: 'standard',
           amenities: [],
-          opening_hours: {},
+          opening_hours: null,
           image_url: undefined,
           rating: undefined,
           status: 'active',
@@ -180,8 +126,8 @@ async function fetchUserPassesFromAPI(auth0Id: string): Promise<{ passes: GymPas
           longitude: pass.gym.longitude ? parseFloat(pass.gym.longitude) : undefined,
           gym_chain_id: pass.gym.gym_chain_id,
           required_tier: pass.gym.required_tier || 'standard',
-          amenities: pass.gym.amenities || [],
-          opening_hours: pass.gym.opening_hours || {},
+          amenities: normalizeAmenities(pass.gym.amenities),
+          opening_hours: parseOpeningHours(pass.gym.opening_hours),
           image_url: pass.gym.image_url,
           rating: pass.gym.rating,
           status: pass.gym.status || 'active',
@@ -199,8 +145,12 @@ async function fetchUserPassesFromAPI(auth0Id: string): Promise<{ passes: GymPas
         validUntil: pass.valid_until ? new Date(pass.valid_until) : pass.validUntil ? new Date(pass.validUntil) : new Date(),
         usedAt: pass.used_at ? new Date(pass.used_at) : pass.usedAt ? new Date(pass.usedAt) : undefined,
         qrCodeUrl: pass.qrcode_url || pass.qr_code_url || pass.qrCodeUrl, // API uses qrcode_url
+        qrToken: qrTokens[pass.id],
         subscriptionTier: pass.subscription_tier || pass.subscriptionTier,
         passCost: pass.pass_cost ? parseFloat(pass.pass_cost) : pass.passCost,
+        cancelledAt: pass.cancelled_at ? new Date(pass.cancelled_at) : undefined,
+        cancelledBy: pass.cancelled_by || undefined,
+        cancellationReason: pass.cancellation_reason || undefined,
         createdAt: pass.created_at ? new Date(pass.created_at) : pass.createdAt ? new Date(pass.createdAt) : new Date(),
         updatedAt: pass.updated_at ? new Date(pass.updated_at) : pass.updatedAt ? new Date(pass.updatedAt) : new Date(),
         gym: gymData,
@@ -214,178 +164,37 @@ async function fetchUserPassesFromAPI(auth0Id: string): Promise<{ passes: GymPas
   }
 }
 
-async function getActivePasses(auth0Id?: string): Promise<GymPass[]> {
-  try {
-    if (!auth0Id) {
-      console.log('[getActivePasses] No auth0Id provided')
-      return []
-    }
+function getActivePasses(allPasses: GymPass[]): GymPass[] {
+  // Filter for active passes (status is 'active' and valid_until is in the future)
+  const now = new Date()
+  const activePasses = allPasses.filter((pass) => pass.status === 'active' && pass.validUntil > now)
 
-    console.log('[getActivePasses] Fetching active passes for auth0Id:', auth0Id)
-    
-    // Fetch all passes from API (this also returns subscription data)
-    const { passes: allPasses } = await fetchUserPassesFromAPI(auth0Id)
-    
-    // Filter for active passes (status is 'active' and valid_until is in the future)
-    const now = new Date()
-    const activePasses = allPasses.filter((pass) => {
-      const isValid = pass.status === 'active' && pass.validUntil > now
-      return isValid
-    })
-    
-    console.log('[getActivePasses] Total passes:', allPasses.length, 'Active passes:', activePasses.length)
-    
-    // Sort by created date (most recent first)
-    activePasses.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-    
-    return activePasses
-  } catch (error) {
-    console.error('[getActivePasses] Error fetching active passes:', error)
-      return []
-  }
-}
+  console.log('[getActivePasses] Total passes:', allPasses.length, 'Active passes:', activePasses.length)
 
+  // Sort by created date (most recent first)
+  return activePasses.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+}
 
-async function getAllUserPasses(auth0Id?: string) {
+// First page of the pass history - the backend groups passes by gym and paginates
+async function getFirstPassHistoryPage(auth0Id: string): Promise<PassHistoryPage> {
   try {
-    if (!auth0Id) {
-      console.log('[getAllUserPasses] No auth0Id provided')
-    return []
-    }
-
-    console.log('[getAllUserPasses] Fetching all passes for auth0Id:', auth0Id)
-    
-    // Fetch all passes from API (this also returns subscription data)
-    const { passes: allPasses } = await fetchUserPassesFromAPI(auth0Id)
-    
-    console.log('[getAllUserPasses] Total passes:', allPasses.length)
-    
-    // Sort by created date (most recent first)
-    allPasses.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-    
-    return allPasses
+    return mapPassHistory(await getPassHistory(auth0Id))
   } catch (error) {
-    console.error('[getAllUserPasses] Error fetching all user passes:', error)
-    return []
+    if (!(error instanceof AnyGymNotFoundError)) {
+      console.error('[getFirstPassHistoryPage] Error fetching pass history:', error)
+    }
+    return EMPTY_PASS_HISTORY
   }
 }
 
-async function getPassHistory(auth0Id?: string) {
+async function getUserGuestPasses(auth0Id: string): Promise<GuestPass[]> {
   try {
-    if (!auth0Id) {
-      console.log('[getPassHistory] No auth0Id provided')
-      return []
-    }
-    
-    console.log('[getPassHistory] Fetching pass history for auth0Id:', auth0Id)
-    
-    // Fetch all passes from API (this also returns subscription data)
-    // We need to also get raw pass data to access gym_chain_name and gym_chain_logo
-    const response = await fetch('https://api.any-gym.com/user/passes', {
-      headers: {
-        'auth0_id': auth0Id.trim(),
-      },
-      next: { revalidate: 60 }
-    })
-    
-    if (!response.ok) {
-      console.log('[getPassHistory] Failed to fetch passes')
-    return []
-    }
-    
-    const rawData = await response.json()
-    const rawPassHistory = rawData.pass_history || []
-    const rawPassMap = new Map(rawPassHistory.map((p: any) => [p.id, p]))
-    
-    // Get mapped passes
-    const { passes: allPasses } = await fetchUserPassesFromAPI(auth0Id)
-    
-    // Filter for historical passes (expired or used)
-    const now = new Date()
-    const historyPasses = allPasses.filter((pass) => {
-      const isExpired = pass.validUntil < now
-      const isUsed = pass.status === 'used'
-      const isExpiredStatus = pass.status === 'expired'
-      return isExpired || isUsed || isExpiredStatus
-    })
-    
-    console.log('[getPassHistory] Total passes:', allPasses.length, 'History passes:', historyPasses.length)
-    
-    // Group passes by gym
-    const grouped: Record<number, any> = {}
-    
-    historyPasses.forEach((pass) => {
-      const gymId = pass.gymId
-      if (!gymId) {
-        return // Skip if no gym_id
-      }
-      
-      if (!grouped[gymId]) {
-        // Extract chain info from raw API pass data - API includes gym_chain_name and gym_chain_logo directly on pass
-        const rawPass: any = rawPassMap.get(pass.id)
-        const chainId = rawPass?.gym_chain_id || pass.gym?.gym_chain_id
-        const chainName = rawPass?.gym_chain_name || pass.gym?.name
-        const chainLogo = rawPass?.gym_chain_logo // Chain logo only comes from raw API pass data
-        
-        grouped[gymId] = {
-          gym: pass.gym || {
-            id: gymId,
-            name: rawPass?.gym_name || 'Unknown Gym',
-            gym_chain_id: chainId,
-          },
-          chain: chainId && chainName ? {
-            id: chainId,
-            name: chainName,
-            logo_url: chainLogo,
-          } : null,
-          passes: [],
-        }
-      }
-      
-      const passData = {
-        id: pass.id,
-        createdAt: pass.createdAt,
-        usedAt: pass.usedAt || null,
-        status: pass.status,
-        subscriptionTier: pass.subscriptionTier,
-      }
-      
-      grouped[gymId].passes.push(passData)
-    })
-    
-    // Convert grouped object to array and calculate visit counts
-    const finalResult = Object.values(grouped).map((group: any) => {
-      const passes = group.passes || []
-      const dates = passes
-        .map((p: any) => {
-          if (p.usedAt) return p.usedAt
-          if (p.createdAt) return p.createdAt
-          return null
-        })
-        .filter((d: any) => d !== null && d !== undefined && d instanceof Date)
-      
-      let lastVisit: Date | null = null
-      if (dates.length > 0) {
-        try {
-          const sortedDates = dates.sort((a: Date, b: Date) => b.getTime() - a.getTime())
-          lastVisit = sortedDates[0]
-        } catch (e) {
-          lastVisit = new Date()
-        }
-      }
-      
-      return {
-        ...group,
-        visitCount: passes.length,
-        lastVisit: lastVisit || new Date(),
-      }
-    })
-    
-    console.log('[getPassHistory] Returning', finalResult.length, 'groups')
-    
-    return finalResult
+    const guestPasses = await getGuestPasses(auth0Id)
+    return guestPasses.map(mapGuestPass)
   } catch (error) {
-    console.error('[getPassHistory] Error fetching pass history:', error)
+    if (!(error instanceof AnyGymNotFoundError)) {
+      console.error('[getUserGuestPasses] Error fetching guest passes:', error)
+    }
     return []
   }
 }
@@ -452,49 +261,7 @@ export default async function PassesPage() {
     
     if (subscriptionFromPasses) {
       console.log('[PassesPage] Using subscription from /user/passes response')
-      // Map the subscription from passes response using the same mapping logic
-      const subscriptionData = subscriptionFromPasses
-      
-      // Parse next_billing_date
-      let nextBillingDate: Date
-      if (subscriptionData.next_billing_date) {
-        const billingDateStr = subscriptionData.next_billing_date
-        if (/^\d{4}-\d{2}-\d{2}$/.test(billingDateStr)) {
-          nextBillingDate = new Date(billingDateStr + 'T23:59:59.999Z')
-        } else {
-          nextBillingDate = new Date(billingDateStr)
-        }
-      } else {
-        nextBillingDate = subscriptionData.current_period_end 
-          ? new Date(subscriptionData.current_period_end)
-          : new Date()
-      }
-      
-      subscription = {
-        id: subscriptionData.id || 0,
-        userId: subscriptionData.user_id || auth0Id,
-        tier: subscriptionData.tier || 'standard',
-        monthlyLimit: subscriptionData.monthly_limit != null ? Number(subscriptionData.monthly_limit) : 0,
-        visitsUsed: subscriptionData.visits_used != null ? Number(subscriptionData.visits_used) : 0,
-        price: subscriptionData.price != null ? parseFloat(subscriptionData.price) : 0,
-        startDate: subscriptionData.start_date 
-          ? new Date(subscriptionData.start_date)
-          : (subscriptionData.current_period_start ? new Date(subscriptionData.current_period_start) : new Date()),
-        nextBillingDate: nextBillingDate,
-        currentPeriodStart: subscriptionData.current_period_start ? new Date(subscriptionData.current_period_start) : new Date(),
-        currentPeriodEnd: subscriptionData.current_period_end ? new Date(subscriptionData.current_period_end) : new Date(),
-        status: subscriptionData.status || 'active',
-        stripeSubscriptionId: subscriptionData.stripe_subscription_id || undefined,
-        stripeCustomerId: subscriptionData.stripe_customer_id || undefined,
-        guestPassesLimit: subscriptionData.guest_passes_limit != null ? Number(subscriptionData.guest_passes_limit) : 0,
-        guestPassesUsed: subscriptionData.guest_passes_used != null ? Number(subscriptionData.guest_passes_used) : 0,
-        createdAt: subscriptionData.created_at 
-          ? new Date(subscriptionData.created_at)
-          : (subscriptionData.current_period_start ? new Date(subscriptionData.current_period_start) : new Date()),
-        updatedAt: subscriptionData.updated_at 
-          ? new Date(subscriptionData.updated_at)
-          : (subscriptionData.current_period_end ? new Date(subscriptionData.current_period_end) : new Date()),
-      } as Subscription
+      subscription = mapMembership(subscriptionFromPasses, auth0Id)
       
       console.log('[PassesPage] Mapped subscription from passes:', {
         visitsUsed: subscription.visitsUsed,
@@ -510,14 +277,13 @@ export default async function PassesPage() {
     console.log('[PassesPage] Subscription visitsUsed:', subscription?.visitsUsed)
     
     // Get passes - filter from the fetched passes
-    const activePasses = await getActivePasses(auth0Id)
+    const activePasses = getActivePasses(allPassesFromAPI)
     console.log('[PassesPage] Active passes:', activePasses.length, activePasses)
     
-    const allPasses = await getAllUserPasses(auth0Id)
-    console.log('[PassesPage] All passes:', allPasses.length, allPasses)
-    
-    const passHistory = await getPassHistory(auth0Id)
-    console.log('[PassesPage] Pass history result:', passHistory.length, passHistory)
+    const passHistory = await getFirstPassHistoryPage(auth0Id)
+    console.log('[PassesPage] Pass history:', passHistory.totalGyms, 'gyms,', passHistory.totalPasses, 'passes')
+
+    const guestPasses = await getUserGuestPasses(auth0Id)
     
     // Get user data from API (name and membership)
     const userData = await getUserData(auth0Id, userEmail, userName)
@@ -551,6 +317,8 @@ export default async function PassesPage() {
                   subscription={subscription}
                   activePasses={activePasses}
                   passHistory={passHistory}
+                  guestPasses={guestPasses}
+                  walletExport={{ apple: isAppleWalletConfigured(), google: isGoogleWalletConfigured() }}
                 />
           </div>
         </div>
@@ -4,27 +4,20 @@ import DashboardLayout from '@/components/DashboardLayout'
 import { Subscription } from '@/lib/types'
 import SubscriptionManager from '@/components/SubscriptionManager'
 import { StripeProduct } from '@/app/api/stripe/products/route'
+import { tierFromProduct, tierRankFromProduct } from '@/lib/tiers'
 import ProfileTabs from '@/components/ProfileTabs'
 import { getOrCreateAppUser } from '@/lib/user'
+import { mapMembership } from '@/lib/subscription'
+import { ApiMembership, AnyGymNotFoundError, getUser, getUserSubscription as fetchUserSubscription } from '@/lib/anygym'
 
 // Mark page as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
 
 async function getUserData(auth0Id: string, fallbackEmail?: string, fallbackName?: string): Promise<string> {
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    const response = await fetch('https://api.any-gym.com/user', {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 60 } // Cache for 1 minute
-    })
-    
-    if (response.ok) {
-      const userData = await response.json()
-      // Extract name only
-      return userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
-    }
+    const userData = await getUser(auth0Id)
+    // Extract name only
+    return userData.full_name || userData.name || fallbackName || fallbackEmail || 'User'
   } catch (error) {
     console.error('[getUserData] Error fetching user data:', error)
   }
@@ -38,84 +31,26 @@ async function getUserSubscription(auth0Id: string): Promise<Subscription | null
   console.log('[getUserSubscription] auth0Id:', auth0Id)
   
   try {
-    const trimmedAuth0Id = auth0Id.trim()
-    console.log('[getUserSubscription] Making API request to api.any-gym.com/user/subscription')
-    console.log('[getUserSubscription] With header auth0_id:', trimmedAuth0Id)
-    
-    const response = await fetch('https://api.any-gym.com/user/subscription', {
-      headers: {
-        'auth0_id': trimmedAuth0Id,
-      },
-      next: { revalidate: 60 } // Cache for 1 minute
-    })
-    
-    console.log('[getUserSubscription] API response status:', response.status, response.statusText)
+    console.log('[getUserSubscription] Fetching /user/subscription for auth0_id:', auth0Id.trim())
     
-    if (!response.ok) {
-      if (response.status === 404) {
+    let subscriptionData: ApiMembership
+    try {
+      // Handles the nested subscription object in the API response
+      subscriptionData = await fetchUserSubscription(auth0Id)
+    } catch (error) {
+      if (error instanceof AnyGymNotFoundError) {
         console.log('[getUserSubscription] ❌ 404 - Subscription not found, returning null')
         return null
       }
-      const errorText = await response.text()
-      console.error('[getUserSubscription] ❌ API Error:', response.status, errorText)
-      throw new Error(`Failed to fetch subscription: ${response.statusText}`)
+      throw error
     }
     
-    const data = await response.json()
     console.log('[getUserSubscription] ✅ API Response received')
-    console.log('[getUserSubscription] Response keys:', Object.keys(data))
-    
-    // Handle nested subscription object in API response
-    const subscriptionData = data.subscription || data
     console.log('[getUserSubscription] subscriptionData keys:', Object.keys(subscriptionData))
     console.log('[getUserSubscription] subscriptionData.tier:', subscriptionData.tier, 'type:', typeof subscriptionData.tier)
     
-    // Parse next_billing_date
-    let nextBillingDate: Date
-    if (subscriptionData.next_billing_date) {
-      const billingDateStr = subscriptionData.next_billing_date
-      if (/^\d{4}-\d{2}-\d{2}$/.test(billingDateStr)) {
-        nextBillingDate = new Date(billingDateStr + 'T23:59:59.999Z')
-      } else {
-        nextBillingDate = new Date(billingDateStr)
-      }
-    } else {
-      nextBillingDate = subscriptionData.current_period_end 
-        ? new Date(subscriptionData.current_period_end)
-        : new Date()
-    }
-    
     // Map API response to Subscription type
-    const tierValue = subscriptionData.tier
-    const tier = (tierValue && typeof tierValue === 'string' && tierValue.trim()) ? tierValue : 'standard'
-    console.log('[getUserSubscription] Final tier value:', tier)
-    
-    // Create subscription object - ensure all Date objects are properly serializable
-    const mappedSubscription: Subscription = {
-      id: subscriptionData.id || 0,
-      userId: subscriptionData.user_id || auth0Id,
-      tier: tier,
-      monthlyLimit: subscriptionData.monthly_limit != null ? Number(subscriptionData.monthly_limit) : 0,
-      visitsUsed: subscriptionData.visits_used != null ? Number(subscriptionData.visits_used) : 0,
-      price: subscriptionData.price != null ? parseFloat(subscriptionData.price) : 0,
-      startDate: subscriptionData.start_date 
-        ? new Date(subscriptionData.start_date)
-        : (subscriptionData.current_period_start ? new Date(subscriptionData.current_period_start) : new Date()),
-      nextBillingDate: nextBillingDate,
-      currentPeriodStart: subscriptionData.current_period_start ? new Date(subscriptionData.current_period_start) : new Date(),
-      currentPeriodEnd: subscriptionData.current_period_end ? new Date(subscriptionData.current_period_end) : new Date(),
-      status: subscriptionData.status || 'active',
-      stripeSubscriptionId: subscriptionData.stripe_subscription_id || undefined,
-      stripeCustomerId: subscriptionData.stripe_customer_id || undefined,
-      guestPassesLimit: subscriptionData.guest_passes_limit != null ? Number(subscriptionData.guest_passes_limit) : 0,
-      guestPassesUsed: subscriptionData.guest_passes_used != null ? Number(subscriptionData.guest_passes_used) : 0,
-      createdAt: subscriptionData.created_at 
-        ? new Date(subscriptionData.created_at)
-        : (subscriptionData.current_period_start ? new Date(subscriptionData.current_period_start) : new Date()),
-      updatedAt: subscriptionData.updated_at 
-        ? new Date(subscriptionData.updated_at)
-        : (subscriptionData.current_period_end ? new Date(subscriptionData.current_period_end) : new Date()),
-    }
+    const mappedSubscription = mapMembership(subscriptionData, auth0Id)
     
     console.log('[getUserSubscription] ✅ Mapped subscription object created')
     console.log('[getUserSubscription] Tier:', mappedSubscription.tier, '(type:', typeof mappedSubscription.tier, ')')
@@ -169,23 +104,15 @@ async function getStripeProducts(): Promise<StripeProduct[]> {
     )
 
     const mappedProducts: StripeProduct[] = productsWithPrices.map((product) => {
-      let tier = 'standard'
       let monthlyLimit = 8
       let icon = 'Zap'
       let color = 'from-blue-500 to-blue-600'
       let popular = false
       let guestPassesLimit = 0
 
-      if (product.metadata?.tierGyms) {
-        tier = product.metadata.tierGyms
-      } else {
-        const name = product.name.toLowerCase()
-        if (name.includes('premium')) {
-          tier = 'premium'
-        } else if (name.includes('elite')) {
-          tier = 'elite'
-        }
-      }
+      // Tier and rank come from the product metadata, falling back to its name
+      const tier = tierFromProduct(product)
+      const tierRank = tierRankFromProduct(product, tier)
 
       switch (tier) {
         case 'premium':
@@ -241,6 +168,7 @@ async function getStripeProducts(): Promise<StripeProduct[]> {
 
       return {
         tier,
+        tierRank,
         name: product.name,
         price,
         monthlyLimit,
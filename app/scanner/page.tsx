@@ -0,0 +1,52 @@
+import { cookies } from 'next/headers'
+import type { Metadata } from 'next'
+import Logo from '@/components/Logo'
+import PassScanner from '@/components/PassScanner'
+import ScannerSignIn from '@/components/ScannerSignIn'
+import { getGym } from '@/lib/anygym'
+import { SCANNER_COOKIE, isGymScannerConfigured, verifyScannerAccessCode } from '@/lib/gymScanner'
+import { gymCodeKey, gymVerificationKey, isPassSigningConfigured } from '@/lib/passSigning'
+
+export const metadata: Metadata = {
+  title: 'Pass scanner - anygym',
+}
+
+// Front-desk page - signed in with the gym's scanner access code, not Auth0
+export const dynamic = 'force-dynamic'
+
+export default async function ScannerPage() {
+  const access = verifyScannerAccessCode(cookies().get(SCANNER_COOKIE)?.value)
+  const gym = access ? await getGym(access.gymId).catch(() => null) : null
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <Logo href="/scanner" />
+            {gym && <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{gym.name}</span>}
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-xl mx-auto py-10 px-4">
+        {!isGymScannerConfigured() ? (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Scanner unavailable</h1>
+            <p className="text-gray-600 dark:text-gray-400">The pass scanner hasn&apos;t been set up yet.</p>
+          </div>
+        ) : gym ? (
+          <PassScanner
+            gymId={gym.id}
+            gymName={gym.name}
+            verificationKeys={
+              isPassSigningConfigured() ? { publicKey: gymVerificationKey(gym.id), codeKey: gymCodeKey(gym.id) } : null
+            }
+          />
+        ) : (
+          <ScannerSignIn />
+        )}
+      </main>
+    </div>
+  )
+}
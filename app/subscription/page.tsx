@@ -2,6 +2,7 @@ import { getSession } from '@auth0/nextjs-auth0'
 import { redirect } from 'next/navigation'
 import { getOrCreateAppUser } from '@/lib/user'
 import { StripeProduct } from '@/app/api/stripe/products/route'
+import { planLimitsFromProduct, tierFromProduct, tierRankFromProduct } from '@/lib/tiers'
 
 // Mark page as dynamic - uses cookies for authentication
 export const dynamic = 'force-dynamic'
@@ -46,41 +47,26 @@ async function getStripeProducts(): Promise<StripeProduct[]> {
 
     // Map products to our format (same logic as API route)
     const mappedProducts: StripeProduct[] = productsWithPrices.map((product) => {
-      let tier = 'standard'
-      let monthlyLimit = 8
       let icon = 'Zap'
       let color = 'from-blue-500 to-blue-600'
       let popular = false
-      let guestPassesLimit = 0
 
-      if (product.metadata?.tierGyms) {
-        tier = product.metadata.tierGyms
-      } else {
-        const name = product.name.toLowerCase()
-        if (name.includes('premium')) {
-          tier = 'premium'
-        } else if (name.includes('elite')) {
-          tier = 'elite'
-        }
-      }
+      // Tier and rank come from the product metadata, falling back to its name
+      const tier = tierFromProduct(product)
+      const tierRank = tierRankFromProduct(product, tier)
+      const { monthlyLimit, guestPassesLimit } = planLimitsFromProduct(product, tier)
 
       switch (tier) {
         case 'premium':
-          monthlyLimit = parseInt(product.metadata?.['Gym Passes'] || '20', 10)
-          guestPassesLimit = parseInt(product.metadata?.['Guest Passes'] || '2', 10)
           icon = 'Star'
           color = 'from-green-500 to-green-600'
           popular = true
           break
         case 'elite':
-          monthlyLimit = parseInt(product.metadata?.['Gym Passes'] || '30', 10)
-          guestPassesLimit = parseInt(product.metadata?.['Guest Passes'] || '6', 10)
           icon = 'Crown'
           color = 'from-orange-500 to-orange-600'
           break
         default:
-          monthlyLimit = parseInt(product.metadata?.['Gym Passes'] || '8', 10)
-          guestPassesLimit = 0
           icon = 'Zap'
           color = 'from-blue-500 to-blue-600'
       }
@@ -119,6 +105,7 @@ async function getStripeProducts(): Promise<StripeProduct[]> {
 
       return {
         tier,
+        tierRank,
         name: product.name,
         price,
         monthlyLimit,
@@ -0,0 +1,42 @@
+import Logo from '@/components/Logo'
+import UnsubscribeForm from '@/components/UnsubscribeForm'
+import { verifyEmailOptOutToken, verifyUnsubscribeToken } from '@/lib/notificationConsent'
+import { NOTIFICATION_CATEGORY_LABELS } from '@/lib/notificationPreferences'
+
+// Public - reached from the link in an email, without logging in
+export const dynamic = 'force-dynamic'
+
+export default function UnsubscribePage({ searchParams }: { searchParams: { token?: string } }) {
+  const token = verifyUnsubscribeToken(searchParams.token)
+  // Guests' links are for an address rather than an account, and opt it out of everything
+  const isGuest = !token && verifyEmailOptOutToken(searchParams.token) !== null
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Logo />
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-xl mx-auto py-10 px-4">
+        {(token || isGuest) && searchParams.token ? (
+          <UnsubscribeForm
+            token={searchParams.token}
+            categoryLabel={token ? NOTIFICATION_CATEGORY_LABELS[token.category].label : null}
+          />
+        ) : (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Link not valid</h1>
+            <p className="text-gray-600 dark:text-gray-400">
+              This unsubscribe link isn&apos;t valid. Check the link in your email, or log in and change which emails
+              you get from your profile.
+            </p>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import type { Metadata } from 'next'
+import Logo from '@/components/Logo'
+import PassWallet from '@/components/PassWallet'
+
+export const metadata: Metadata = {
+  title: 'Pass wallet - anygym',
+}
+
+// Static, with no session lookup - the service worker caches this page and
+// serves it when the member is offline. The passes come from the wallet cache.
+export const dynamic = 'force-static'
+
+export default function WalletPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <nav className="bg-white dark:bg-gray-800 shadow-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Logo href="/passes" />
+          </div>
+        </div>
+      </nav>
+
+      <main className="max-w-xl mx-auto py-10 px-4">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Pass wallet</h1>
+        <p className="text-gray-600 dark:text-gray-400 mb-6">
+          Your active passes, saved on this device so you can show them at reception without signal.
+        </p>
+        <PassWallet />
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  PASS_CANCELLATION_REASONS,
+  PassCancellationReason,
+  passCancelDeadline,
+} from '@/lib/passCancellation'
+
+interface CancelPassDialogProps {
+  pass: { id: number; createdAt: Date; gymName: string }
+  onClose: () => void
+  onCancelled: (passId: number) => void
+}
+
+/** Asks why the member is cancelling a pass, then cancels it and returns the visit */
+export default function CancelPassDialog({ pass, onClose, onCancelled }: CancelPassDialogProps) {
+  const [reason, setReason] = useState<PassCancellationReason | null>(null)
+  const [note, setNote] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleConfirm = async () => {
+    if (!reason) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/passes/${pass.id}/cancel`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason, note }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to cancel pass')
+      }
+      onCancelled(pass.id)
+    } catch (err) {
+      console.error('[CancelPassDialog] Error cancelling pass:', err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={submitting ? undefined : onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">Cancel pass</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          Your pass for {pass.gymName} will stop working and the visit goes back into this month&apos;s allowance. You
+          can cancel until{' '}
+          {passCancelDeadline(pass).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true })}.
+        </p>
+
+        {error && (
+          <p className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-400">
+            {error}
+          </p>
+        )}
+
+        <fieldset className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+          <legend className="font-medium text-gray-900 dark:text-white mb-2">Why are you cancelling?</legend>
+          {(Object.keys(PASS_CANCELLATION_REASONS) as PassCancellationReason[]).map((value) => (
+            <label key={value} className="flex items-start gap-2">
+              <input
+                type="radio"
+                name="pass-cancellation-reason"
+                checked={reason === value}
+                onChange={() => setReason(value)}
+                className="mt-1"
+              />
+              <span>{PASS_CANCELLATION_REASONS[value]}</span>
+            </label>
+          ))}
+        </fieldset>
+        {reason === 'other' && (
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            rows={3}
+            placeholder="Tell us more (optional)"
+            aria-label="Cancellation details"
+            className="mt-3 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white text-sm"
+          />
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium disabled:opacity-50"
+          >
+            Keep pass
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!reason || submitting}
+            className="flex-1 px-4 py-2 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Cancelling...' : 'Cancel pass'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,98 +1,38 @@
 'use client'
 
-import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import TermsModal from '@/components/TermsModal'
+import PassIneligibleNotice from '@/components/PassIneligibleNotice'
+import { usePassGeneration } from '@/hooks/usePassGeneration'
 
 interface GeneratePassFormProps {
   gymId: string
-  chain?: any
 }
 
-export default function GeneratePassForm({ gymId, chain }: GeneratePassFormProps) {
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [showTermsModal, setShowTermsModal] = useState(false)
+export default function GeneratePassForm({ gymId }: GeneratePassFormProps) {
   const router = useRouter()
-
-  // Helper to parse chain data
-  const getChainData = () => {
-    if (!chain) return null
-    if (typeof chain === 'string') {
-      try {
-        return JSON.parse(chain)
-      } catch (e) {
-        console.error('Error parsing chain JSON:', e)
-        return null
-      }
-    }
-    return chain
-  }
+  const { state: generation, start, accept, cancel } = usePassGeneration({
+    // Redirect to passes page to see the newly generated pass
+    onSuccess: () => router.push('/passes'),
+  })
+  const loading = generation.status === 'checking' || generation.status === 'generating' || generation.status === 'success'
 
   const handleGenerateClick = (e: React.FormEvent) => {
     e.preventDefault()
-    
-    // Check if chain exists and has terms or health statement
-    const chainData = getChainData()
-    if (!chainData) {
-      // No chain data, generate directly
-      handleGeneratePass()
-      return
-    }
-    
-    // Check if terms exist - either as URL or as markdown content
-    const hasTerms = 
-      (chainData.terms_url && typeof chainData.terms_url === 'string' && chainData.terms_url.trim() !== '') ||
-      (chainData.terms && typeof chainData.terms === 'string' && chainData.terms.trim() !== '')
-    
-    // Check if health statement exists - either as URL or as markdown content
-    const hasHealthStatement =
-      (chainData.health_statement_url && typeof chainData.health_statement_url === 'string' && chainData.health_statement_url.trim() !== '') ||
-      (chainData.health_statement && typeof chainData.health_statement === 'string' && chainData.health_statement.trim() !== '')
-
-    if (hasTerms || hasHealthStatement) {
-      setShowTermsModal(true)
-    } else {
-      // No terms/health statement, generate directly
-      handleGeneratePass()
-    }
-  }
-
-  const handleGeneratePass = async () => {
-    setShowTermsModal(false)
-    setLoading(true)
-    setError(null)
-
-    try {
-      const response = await fetch('/api/passes/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ gymId }),
-      })
-
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate pass')
-      }
-
-      // Redirect to passes page to see the newly generated pass
-      router.push('/passes')
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-      setLoading(false)
-    }
+    start(Number(gymId))
   }
 
   return (
     <>
       <form onSubmit={handleGenerateClick}>
-        {error && (
-          <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
-            {error}
-          </div>
+        {generation.status === 'error' && (
+          generation.eligibility ? (
+            <PassIneligibleNotice message={generation.message} action={generation.eligibility.action} className="mb-4" />
+          ) : (
+            <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+              {generation.message}
+            </div>
+          )
         )}
         <div className="mb-6">
           <p className="text-gray-600 dark:text-gray-400 mb-4">
@@ -108,16 +48,14 @@ export default function GeneratePassForm({ gymId, chain }: GeneratePassFormProps
         </button>
       </form>
 
-      {showTermsModal && (() => {
-        const chainData = getChainData()
-        return chainData ? (
-          <TermsModal
-            chain={chainData}
-            onAccept={handleGeneratePass}
-            onCancel={() => setShowTermsModal(false)}
-          />
-        ) : null
-      })()}
+      {generation.status === 'awaiting_consent' && (
+        <TermsModal
+          chain={generation.terms.chain}
+          updated={generation.terms.previouslyAccepted}
+          onAccept={accept}
+          onCancel={cancel}
+        />
+      )}
     </>
   )
 }
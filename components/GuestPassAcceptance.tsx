@@ -0,0 +1,139 @@
+'use client'
+
+import { useState } from 'react'
+import type { ApiChain, GuestPassStatus } from '@/lib/anygym'
+import TermsModal from './TermsModal'
+import PassQRCode from './PassQRCode'
+
+interface GuestPassAcceptanceProps {
+  token: string
+  guestName: string
+  gymName: string
+  gymAddress: string
+  chain: ApiChain | null
+  /** The version of `chain`'s documents shown here, sent back on acceptance */
+  documentVersion: string | null
+  status: GuestPassStatus
+  passCode: string | null
+  validUntil: string | null
+}
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/** A guest accepts the gym's terms and health statement, then sees their pass */
+export default function GuestPassAcceptance({
+  token,
+  guestName,
+  gymName,
+  gymAddress,
+  chain: initialChain,
+  documentVersion: initialDocumentVersion,
+  status: initialStatus,
+  passCode: initialPassCode,
+  validUntil: initialValidUntil,
+}: GuestPassAcceptanceProps) {
+  const [status, setStatus] = useState(initialStatus)
+  const [terms, setTerms] = useState({ chain: initialChain, documentVersion: initialDocumentVersion })
+  const { chain } = terms
+  const [pass, setPass] = useState<{ passCode: string | null; validUntil: string | null }>({
+    passCode: initialPassCode,
+    validUntil: initialValidUntil,
+  })
+  const [showTerms, setShowTerms] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const hasTerms = Boolean(chain?.terms_url || chain?.terms || chain?.health_statement_url || chain?.health_statement)
+
+  const handleAccept = async () => {
+    setShowTerms(false)
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/passes/guest/${encodeURIComponent(token)}/accept`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ termsAccepted: true, acceptedDocumentVersion: terms.documentVersion }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.status === 409 && data.code === 'terms_changed') {
+        // Show the current documents so the guest accepts what's actually recorded
+        setTerms({ chain: data.chain || null, documentVersion: data.documentVersion ?? null })
+        setError(data.error)
+        return
+      }
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to issue your pass')
+      }
+      setPass({ passCode: data.passCode || null, validUntil: data.validUntil || null })
+      setStatus('active')
+    } catch (err) {
+      console.error('[GuestPassAcceptance] Error accepting guest pass:', err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">Guest pass for {gymName}</h1>
+      {gymAddress && <p className="text-gray-600 dark:text-gray-400 mb-6">{gymAddress}</p>}
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {status === 'active' && pass.passCode ? (
+        <div className="flex flex-col items-center text-center">
+          <div className="bg-white rounded-xl p-4 shadow">
+            <PassQRCode passCode={pass.passCode} className="w-48 h-48" />
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">Pass Code</p>
+          <p className="text-xl font-mono font-bold text-gray-900 dark:text-white">{pass.passCode}</p>
+          {pass.validUntil && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">Valid until {formatDateTime(pass.validUntil)}</p>
+          )}
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-4">
+            Show this at reception. We&apos;ve emailed you a copy too.
+          </p>
+        </div>
+      ) : status === 'pending_acceptance' ? (
+        <>
+          <p className="text-gray-700 dark:text-gray-300 mb-6">
+            Hi {guestName}, you&apos;ve been invited as a guest. Before we can issue your pass, please read and accept
+            the gym&apos;s terms and health statement.
+          </p>
+          <button
+            onClick={() => (hasTerms ? setShowTerms(true) : handleAccept())}
+            disabled={loading}
+            className="block w-full px-6 py-3 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors text-center font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Issuing your pass...' : hasTerms ? 'Review terms and get my pass' : 'Get my pass'}
+          </button>
+        </>
+      ) : (
+        <p className="text-gray-700 dark:text-gray-300">
+          {status === 'expired'
+            ? 'This invitation has expired. Ask the member who invited you to send a new one.'
+            : status === 'used'
+              ? 'This guest pass has already been used.'
+              : 'This invitation is no longer valid.'}
+        </p>
+      )}
+
+      {showTerms && <TermsModal chain={chain} onAccept={handleAccept} onCancel={() => setShowTerms(false)} />}
+    </div>
+  )
+}
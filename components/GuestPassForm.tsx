@@ -0,0 +1,194 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import { GuestPass } from '@/lib/types'
+import type { GymSuggestion } from '@/lib/searchIndex'
+import type { PassEligibility } from '@/lib/passEligibility'
+import { useGymSuggestions } from '@/hooks/useGymSuggestions'
+import GymSuggestionList from './GymSuggestionList'
+import PassIneligibleNotice from './PassIneligibleNotice'
+
+const DATE_FIELDS = ['validUntil', 'acceptanceExpiresAt', 'acceptedAt', 'usedAt', 'createdAt'] as const
+
+/** Revive the dates in a guest pass that came back as JSON */
+function parseGuestPass(data: Record<string, unknown>): GuestPass {
+  const guestPass = { ...data } as Record<string, unknown>
+  for (const field of DATE_FIELDS) {
+    if (typeof guestPass[field] === 'string') {
+      guestPass[field] = new Date(guestPass[field] as string)
+    }
+  }
+  return guestPass as unknown as GuestPass
+}
+
+interface GuestPassFormProps {
+  onClose: () => void
+  onInvited: (guestPass: GuestPass, emailSent: boolean) => void
+}
+
+/** Pick a gym and enter a guest's details to send them a guest pass invitation */
+export default function GuestPassForm({ onClose, onInvited }: GuestPassFormProps) {
+  const [gymQuery, setGymQuery] = useState('')
+  const [gym, setGym] = useState<{ id: number; name: string } | null>(null)
+  const [guestName, setGuestName] = useState('')
+  const [guestEmail, setGuestEmail] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [ineligible, setIneligible] = useState<PassEligibility | null>(null)
+
+  const handleGymSelect = useCallback((suggestion: GymSuggestion) => {
+    if (suggestion.gym) {
+      setGym({ id: suggestion.gym.id, name: suggestion.gym.name })
+      setGymQuery(suggestion.gym.name)
+    }
+  }, [])
+
+  const suggestions = useGymSuggestions(gymQuery, handleGymSelect, ['gym'])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!gym) {
+      setError('Choose a gym from the list')
+      return
+    }
+    setLoading(true)
+    setError(null)
+    setIneligible(null)
+
+    try {
+      const response = await fetch('/api/passes/guest', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ gymId: gym.id, guestName, guestEmail }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        if (data.code && data.error) {
+          setIneligible({ eligible: false, reason: data.code, message: data.error, action: data.action })
+          setLoading(false)
+          return
+        }
+        throw new Error(data.error || 'Failed to invite guest')
+      }
+      onInvited(parseGuestPass(data.guestPass), data.emailSent)
+    } catch (err) {
+      console.error('[GuestPassForm] Error inviting guest:', err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setLoading(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white'
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={loading ? undefined : onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">Invite a guest</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+          We&apos;ll email your guest a link to accept the gym&apos;s terms and health statement, then send them their
+          own pass.
+        </p>
+
+        {error && (
+          <p className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-400">
+            {error}
+          </p>
+        )}
+        {ineligible?.message && (
+          <PassIneligibleNotice message={ineligible.message} action={ineligible.action} className="mb-4" />
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="guest-pass-gym" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Gym
+            </label>
+            <div className="relative">
+              <input
+                id="guest-pass-gym"
+                type="text"
+                value={gymQuery}
+                onChange={(e) => {
+                  setGymQuery(e.target.value)
+                  setGym(null)
+                  suggestions.open()
+                }}
+                onKeyDown={suggestions.handleKeyDown}
+                onBlur={suggestions.close}
+                placeholder="Search for a gym..."
+                role="combobox"
+                aria-controls="guest-pass-gym-suggestions"
+                aria-expanded={suggestions.isOpen}
+                aria-autocomplete="list"
+                autoComplete="off"
+                className={inputClass}
+              />
+              {suggestions.isOpen && (
+                <GymSuggestionList
+                  id="guest-pass-gym-suggestions"
+                  suggestions={suggestions.suggestions}
+                  activeIndex={suggestions.activeIndex}
+                  onSelect={suggestions.select}
+                />
+              )}
+            </div>
+          </div>
+          <div>
+            <label htmlFor="guest-pass-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Guest&apos;s name
+            </label>
+            <input
+              id="guest-pass-name"
+              type="text"
+              value={guestName}
+              onChange={(e) => setGuestName(e.target.value)}
+              maxLength={100}
+              required
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="guest-pass-email" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Guest&apos;s email
+            </label>
+            <input
+              id="guest-pass-email"
+              type="email"
+              value={guestEmail}
+              onChange={(e) => setGuestEmail(e.target.value)}
+              required
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={loading}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading || !gym}
+              className="flex-1 px-4 py-2 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Sending...' : 'Send invitation'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
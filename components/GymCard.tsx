@@ -1,18 +1,26 @@
 'use client'
 
 import { Gym } from '@/lib/types'
+import { amenityLabel } from '@/lib/amenities'
+import type { TierOrder } from '@/lib/tiers'
+import OpenStatusBadge from './OpenStatusBadge'
+import TierBadge from './TierBadge'
 import Link from 'next/link'
 
 interface GymCardProps {
   gym: Gym
+  memberTier?: string | null
+  tierOrder?: TierOrder
 }
 
-export default function GymCard({ gym }: GymCardProps) {
+export default function GymCard({ gym, memberTier, tierOrder }: GymCardProps) {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 hover:shadow-lg transition-shadow">
       <h3 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
         {gym.name}
       </h3>
+      <OpenStatusBadge hours={gym.opening_hours} className="mb-2" />
+      <TierBadge requiredTier={gym.required_tier} memberTier={memberTier} tierOrder={tierOrder} className="mb-2 ml-2" />
       <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1 mb-4">
         <p>{gym.address}</p>
         <p>
@@ -20,15 +28,15 @@ export default function GymCard({ gym }: GymCardProps) {
         </p>
         {gym.phone && <p>Phone: {gym.phone}</p>}
       </div>
-      {gym.amenities && Array.isArray(gym.amenities) && gym.amenities.length > 0 && (
+      {gym.amenities && gym.amenities.length > 0 && (
         <div className="mb-4">
           <div className="flex flex-wrap gap-2">
-            {gym.amenities.slice(0, 3).map((amenity: any, index: number) => (
+            {gym.amenities.slice(0, 3).map((amenity, index) => (
               <span
                 key={index}
                 className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded"
               >
-                {typeof amenity === 'string' ? amenity : amenity.name || amenity}
+                {amenityLabel(amenity)}
               </span>
             ))}
           </div>
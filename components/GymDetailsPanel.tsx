@@ -4,13 +4,24 @@ import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Gym } from '@/lib/types'
+import { formatDistance } from '@/lib/geocoding'
+import { amenityLabel } from '@/lib/amenities'
+import { WEEKDAYS, formatRanges, getUkWeekday } from '@/lib/openingHours'
+import { TierOrder, isTierIncluded } from '@/lib/tiers'
+import { usePassGeneration } from '@/hooks/usePassGeneration'
+import OpenStatusBadge from './OpenStatusBadge'
+import PassIneligibleNotice from './PassIneligibleNotice'
 import TermsModal from './TermsModal'
+import TierBadge from './TierBadge'
+import UpgradePrompt from './UpgradePrompt'
 
 interface GymDetailsPanelProps {
   gym: Gym
   chain?: any
   onClose: () => void
   hasSubscription: boolean
+  memberTier?: string | null
+  tierOrder?: TierOrder
 }
 
 export default function GymDetailsPanel({
@@ -18,151 +29,30 @@ export default function GymDetailsPanel({
   chain,
   onClose,
   hasSubscription,
+  memberTier,
+  tierOrder,
 }: GymDetailsPanelProps) {
   const [activeTab, setActiveTab] = useState<'amenities' | 'hours'>('amenities')
   const [showFullDescription, setShowFullDescription] = useState(false)
-  const [showTermsModal, setShowTermsModal] = useState(false)
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [chainData, setChainData] = useState<any>(chain) // Store chain data in state
   const router = useRouter()
+  const { state: generation, start, accept, cancel } = usePassGeneration({
+    // Redirect to passes page to see the newly generated pass
+    onSuccess: () => router.push('/passes'),
+  })
+  // Stays busy after success while the passes page loads
+  const loading = generation.status === 'checking' || generation.status === 'generating' || generation.status === 'success'
+  const error = generation.status === 'error' && !generation.eligibility ? generation.message : null
+  // Why a pass was refused - the upgrade prompt for tier, a notice with the next step otherwise
+  const refusal = generation.status === 'error' ? generation.eligibility : null
+  const rejectedTier = refusal?.reason === 'tier_too_low' ? refusal.requiredTier || gym.required_tier : null
+  const ineligible = refusal && refusal.reason !== 'tier_too_low' ? refusal : null
 
-  // Sync chain prop with state when it changes
   useEffect(() => {
-    if (chain) {
-      setChainData(chain)
-    }
-  }, [chain])
-
-  // Helper to parse chain data
-  const getChainData = () => {
-    // Use state chainData if available, otherwise fall back to prop
-    const dataToUse = chainData || chain
-    if (!dataToUse) return null
-    if (typeof dataToUse === 'string') {
-      try {
-        return JSON.parse(dataToUse)
-      } catch (e) {
-        console.error('Error parsing chain JSON:', e)
-        return null
-      }
-    }
-    return dataToUse
-  }
-
-  const handleGeneratePassClick = async () => {
-    setLoading(true)
-    setError(null)
-    
-    let currentChainData = getChainData()
-    
-    // If no chain data, try to fetch it
-    if (!currentChainData && gym.id) {
-      try {
-        console.log('[GymDetailsPanel] Fetching chain data for gym:', gym.id)
-        const response = await fetch(`/api/gyms/${gym.id}`)
-        
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: 'Failed to fetch gym details' }))
-          console.error('[GymDetailsPanel] Failed to fetch gym details:', response.status, errorData)
-          setLoading(false)
-          // If we can't fetch chain data, we can't show terms modal, so generate directly
-          // But first check if we should show an error
-          if (response.status === 404) {
-            setError('Gym not found. Please try again.')
-            return
-          }
-          // For other errors, still try to generate (maybe chain data isn't critical)
-          handleGeneratePass()
-          return
-        }
-        
-        const data = await response.json()
-        console.log('[GymDetailsPanel] Gym details response:', data)
-        
-        if (data.gym_chain) {
-          currentChainData = data.gym_chain
-          setChainData(data.gym_chain) // Store in state for future use
-          console.log('[GymDetailsPanel] Chain data loaded:', currentChainData)
-        } else {
-          console.log('[GymDetailsPanel] No gym_chain in response')
-        }
-      } catch (error) {
-        console.error('[GymDetailsPanel] Error fetching chain data:', error)
-        setLoading(false)
-        setError('Failed to load gym details. Please try again.')
-        return
-      }
-    }
-    
-    setLoading(false)
-    
-    // Check if chain has terms or health statement
-    if (!currentChainData) {
-      console.log('[GymDetailsPanel] No chain data available, generating pass directly')
-      // No chain data, generate directly
-      handleGeneratePass()
-      return
-    }
-    
-    console.log('[GymDetailsPanel] Checking for terms/health statement in chain data:', currentChainData)
-    
-    // Check if terms exist - either as URL or as markdown content
-    const hasTerms = 
-      (currentChainData.terms_url && typeof currentChainData.terms_url === 'string' && currentChainData.terms_url.trim() !== '') ||
-      (currentChainData.terms && typeof currentChainData.terms === 'string' && currentChainData.terms.trim() !== '')
-    
-    // Check if health statement exists - either as URL or as markdown content
-    const hasHealthStatement =
-      (currentChainData.health_statement_url && typeof currentChainData.health_statement_url === 'string' && currentChainData.health_statement_url.trim() !== '') ||
-      (currentChainData.health_statement && typeof currentChainData.health_statement === 'string' && currentChainData.health_statement.trim() !== '')
-
-    console.log('[GymDetailsPanel] Has terms:', hasTerms, 'Has health statement:', hasHealthStatement)
-
-    if (hasTerms || hasHealthStatement) {
-      console.log('[GymDetailsPanel] Showing terms modal')
-      setShowTermsModal(true)
-    } else {
-      console.log('[GymDetailsPanel] No terms/health statement, generating pass directly')
-      // No terms/health statement, generate directly
-      handleGeneratePass()
-    }
-  }
-
-  const handleGeneratePass = async () => {
-    setShowTermsModal(false)
-    setLoading(true)
-    setError(null)
-
-    try {
-      const response = await fetch('/api/passes/generate', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ gymId: gym.id.toString() }),
-      })
-
-      const data = await response.json()
+    cancel()
+  }, [gym.id, cancel])
 
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate pass')
-      }
-
-      // Redirect to passes page to see the newly generated pass
-      router.push('/passes')
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-      setLoading(false)
-    }
-  }
-
-  // Parse amenities - handle both array and object formats
-  const amenities = Array.isArray(gym.amenities)
-    ? gym.amenities
-    : gym.amenities
-    ? Object.keys(gym.amenities).filter((key) => gym.amenities[key])
-    : []
+  // Amenities are normalised to canonical ids by the API layer
+  const amenities = (gym.amenities || []).map(amenityLabel)
 
   // Common amenities with SVG icons
   const getAmenityIcon = (amenity: string) => {
@@ -246,8 +136,14 @@ export default function GymDetailsPanel({
     )
   }
 
-  // Parse opening hours
-  const openingHours = gym.opening_hours || {}
+  // Tier the member would need to upgrade to, or null when their plan covers this gym
+  const upgradeTier =
+    rejectedTier ||
+    (hasSubscription && memberTier && !isTierIncluded(memberTier, gym.required_tier, tierOrder) ? gym.required_tier : null)
+
+  // Opening hours are parsed by the API layer - null when unknown
+  const openingHours = gym.opening_hours || null
+  const today = getUkWeekday()
 
   return (
     <div className="fixed inset-0 md:inset-auto md:bottom-0 md:right-0 w-full md:w-[500px] bg-white dark:bg-gray-800 shadow-2xl md:rounded-tl-lg h-screen md:h-auto md:max-h-[85vh] overflow-y-auto z-50">
@@ -278,6 +174,13 @@ export default function GymDetailsPanel({
           <span className="inline-block px-3 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 mb-2">
             {gym.required_tier}
           </span>
+          <OpenStatusBadge hours={openingHours} className="ml-2 mb-2" />
+          <TierBadge
+            requiredTier={gym.required_tier}
+            memberTier={hasSubscription ? memberTier : null}
+            tierOrder={tierOrder}
+            className="ml-2 mb-2"
+          />
           <h2 className="text-xl sm:text-2xl md:text-3xl font-bold text-gray-900 dark:text-white mb-2">
             {gym.name}
           </h2>
@@ -300,6 +203,11 @@ export default function GymDetailsPanel({
           <p className="text-gray-600 dark:text-gray-400">
             {gym.address}, {gym.city} {gym.postcode}
           </p>
+          {gym.distanceKm != null && (
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {formatDistance(gym.distanceKm)} away
+            </p>
+          )}
         </div>
 
         {/* Description */}
@@ -331,9 +239,18 @@ export default function GymDetailsPanel({
               {error}
             </div>
           )}
-          {hasSubscription ? (
+          {ineligible?.message && (
+            <PassIneligibleNotice message={ineligible.message} action={ineligible.action} className="mb-4" />
+          )}
+          {hasSubscription && upgradeTier ? (
+            <UpgradePrompt
+              requiredTier={upgradeTier}
+              tierOrder={tierOrder}
+              returnPath={`/dashboard?gym=${gym.id}`}
+            />
+          ) : hasSubscription ? (
             <button
-              onClick={handleGeneratePassClick}
+              onClick={() => start(gym.id)}
               disabled={loading}
               className="block w-full px-6 py-3 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors text-center font-semibold mb-2 disabled:opacity-50 disabled:cursor-not-allowed"
             >
@@ -410,9 +327,7 @@ export default function GymDetailsPanel({
         {activeTab === 'amenities' && (
           <div className="grid grid-cols-2 gap-3">
             {amenities.length > 0 ? (
-              amenities.map((amenity: any, index: number) => {
-                const amenityName =
-                  typeof amenity === 'string' ? amenity : amenity.name || amenity
+              amenities.map((amenityName, index) => {
                 return (
                   <div
                     key={index}
@@ -437,24 +352,34 @@ export default function GymDetailsPanel({
 
         {activeTab === 'hours' && (
           <div className="space-y-2">
-            {Object.keys(openingHours).length > 0 ? (
-              Object.entries(openingHours).map(([day, hours]: [string, any]) => (
-                <div
-                  key={day}
-                  className="flex justify-between items-center py-2 border-b border-gray-100 dark:border-gray-700"
-                >
-                  <span className="font-medium text-gray-700 dark:text-gray-300 capitalize">
-                    {day}
-                  </span>
-                  <span className="text-gray-600 dark:text-gray-400">
-                    {typeof hours === 'string'
-                      ? hours
-                      : hours.open && hours.close
-                      ? `${hours.open} - ${hours.close}`
-                      : 'Closed'}
-                  </span>
-                </div>
-              ))
+            {openingHours ? (
+              <>
+                {WEEKDAYS.map((day) => (
+                  <div
+                    key={day}
+                    className={`flex justify-between items-center py-2 border-b border-gray-100 dark:border-gray-700 ${
+                      day === today ? 'font-semibold' : ''
+                    }`}
+                  >
+                    <span className="font-medium text-gray-700 dark:text-gray-300 capitalize">
+                      {day}
+                    </span>
+                    <span className="text-gray-600 dark:text-gray-400">
+                      {formatRanges(openingHours.days[day])}
+                    </span>
+                  </div>
+                ))}
+                {openingHours.bankHolidays && (
+                  <div className="flex justify-between items-center py-2 border-b border-gray-100 dark:border-gray-700">
+                    <span className="font-medium text-gray-700 dark:text-gray-300">
+                      Bank holidays
+                    </span>
+                    <span className="text-gray-600 dark:text-gray-400">
+                      {formatRanges(openingHours.bankHolidays)}
+                    </span>
+                  </div>
+                )}
+              </>
             ) : (
               <p className="text-gray-500 dark:text-gray-400 text-sm">
                 Opening hours not available
@@ -465,16 +390,14 @@ export default function GymDetailsPanel({
       </div>
 
       {/* Terms Modal */}
-      {showTermsModal && (() => {
-        const chainData = getChainData()
-        return chainData ? (
-          <TermsModal
-            chain={chainData}
-            onAccept={handleGeneratePass}
-            onCancel={() => setShowTermsModal(false)}
-          />
-        ) : null
-      })()}
+      {generation.status === 'awaiting_consent' && (
+        <TermsModal
+          chain={generation.terms.chain}
+          updated={generation.terms.previouslyAccepted}
+          onAccept={accept}
+          onCancel={cancel}
+        />
+      )}
     </div>
   )
 }
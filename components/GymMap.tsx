@@ -1,11 +1,15 @@
 'use client'
 
 import { useEffect, useState, useMemo, useCallback } from 'react'
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet'
+import { MapContainer, TileLayer, Marker, Popup, CircleMarker, useMap } from 'react-leaflet'
 import L from 'leaflet'
 import 'leaflet/dist/leaflet.css'
 import MarkerClusterGroup from 'react-leaflet-cluster'
 import { Gym } from '@/lib/types'
+import { formatDistance } from '@/lib/geocoding'
+import type { BoundingBox } from '@/lib/gymSearch'
+import { TierOrder, isTierIncluded } from '@/lib/tiers'
+import TierBadge from './TierBadge'
 
 // Fix for default marker icons in Next.js
 delete (L.Icon.Default.prototype as any)._getIconUrl
@@ -19,6 +23,31 @@ interface GymMapProps {
   gyms: Gym[]
   selectedGym?: Gym | null
   onGymClick?: (gym: Gym) => void
+  origin?: { latitude: number; longitude: number } | null // "Near me" search location
+  onBoundsChange?: (bbox: BoundingBox) => void // Called with the viewport after every pan/zoom
+  memberTier?: string | null // Gyms outside the member's plan get a grey pin
+  tierOrder?: TierOrder
+}
+
+function createGymMarkerIcon(pinColor: string) {
+  return L.divIcon({
+    html: `
+      <svg width="40" height="50" viewBox="0 0 40 50" style="filter: drop-shadow(0 2px 4px rgba(0,0,0,0.3));">
+        <!-- Teardrop pin shape -->
+        <path d="M20 0 C12 0 6 6 6 14 C6 20 20 40 20 40 C20 40 34 20 34 14 C34 6 28 0 20 0 Z" fill="${pinColor}"/>
+        <!-- White circle -->
+        <circle cx="20" cy="14" r="9" fill="white"/>
+        <!-- Red/coral dumbbell icon (Font Awesome style, scaled to fit within circle) -->
+        <g transform="translate(20, 14) scale(0.025) translate(-320, -320)">
+          <path d="M96 176C96 149.5 117.5 128 144 128C170.5 128 192 149.5 192 176L192 288L448 288L448 176C448 149.5 469.5 128 496 128C522.5 128 544 149.5 544 176L544 192L560 192C586.5 192 608 213.5 608 240L608 288C625.7 288 640 302.3 640 320C640 337.7 625.7 352 608 352L608 400C608 426.5 586.5 448 560 448L544 448L544 464C544 490.5 522.5 512 496 512C469.5 512 448 490.5 448 464L448 352L192 352L192 464C192 490.5 170.5 512 144 512C117.5 512 96 490.5 96 464L96 448L80 448C53.5 448 32 426.5 32 400L32 352C14.3 352 0 337.7 0 320C0 302.3 14.3 288 32 288L32 240C32 213.5 53.5 192 80 192L96 192L96 176z" fill="#ff6b6b"/>
+        </g>
+      </svg>
+    `,
+    className: 'custom-gym-marker',
+    iconSize: L.point(40, 50, true),
+    iconAnchor: L.point(20, 50, true),
+    popupAnchor: L.point(0, -50, true),
+  })
 }
 
 function MapController({ center, zoom }: { center: [number, number]; zoom: number }) {
@@ -29,7 +58,30 @@ function MapController({ center, zoom }: { center: [number, number]; zoom: numbe
   return null
 }
 
-export default function GymMap({ gyms, selectedGym, onGymClick }: GymMapProps) {
+const clampLng = (lng: number) => Math.max(-180, Math.min(180, lng))
+
+function BoundsReporter({ onBoundsChange }: { onBoundsChange: (bbox: BoundingBox) => void }) {
+  const map = useMap()
+  useEffect(() => {
+    const report = () => {
+      const bounds = map.getBounds()
+      onBoundsChange({
+        minLat: bounds.getSouth(),
+        minLng: clampLng(bounds.getWest()),
+        maxLat: bounds.getNorth(),
+        maxLng: clampLng(bounds.getEast()),
+      })
+    }
+    report()
+    map.on('moveend', report)
+    return () => {
+      map.off('moveend', report)
+    }
+  }, [map, onBoundsChange])
+  return null
+}
+
+export default function GymMap({ gyms, selectedGym, onGymClick, origin, onBoundsChange, memberTier, tierOrder }: GymMapProps) {
   const [mapCenter, setMapCenter] = useState<[number, number]>([54.5, -2.0]) // Center of UK
   const [mapZoom, setMapZoom] = useState(6)
 
@@ -40,6 +92,14 @@ export default function GymMap({ gyms, selectedGym, onGymClick }: GymMapProps) {
     }
   }, [selectedGym])
 
+  // Re-center on the search location when it changes
+  useEffect(() => {
+    if (origin) {
+      setMapCenter([origin.latitude, origin.longitude])
+      setMapZoom(12)
+    }
+  }, [origin])
+
   // Memoize cluster icon creation function
   const createClusterCustomIcon = useCallback((cluster: any) => {
     const count = cluster.getChildCount()
@@ -64,26 +124,10 @@ export default function GymMap({ gyms, selectedGym, onGymClick }: GymMapProps) {
   }, [])
 
   // Create custom gym marker icon - orange pin with white circle and red/coral dumbbell
-  const gymMarkerIcon = useMemo(() => {
-    return L.divIcon({
-      html: `
-        <svg width="40" height="50" viewBox="0 0 40 50" style="filter: drop-shadow(0 2px 4px rgba(0,0,0,0.3));">
-          <!-- Orange teardrop pin shape -->
-          <path d="M20 0 C12 0 6 6 6 14 C6 20 20 40 20 40 C20 40 34 20 34 14 C34 6 28 0 20 0 Z" fill="#f97316"/>
-          <!-- White circle -->
-          <circle cx="20" cy="14" r="9" fill="white"/>
-          <!-- Red/coral dumbbell icon (Font Awesome style, scaled to fit within circle) -->
-          <g transform="translate(20, 14) scale(0.025) translate(-320, -320)">
-            <path d="M96 176C96 149.5 117.5 128 144 128C170.5 128 192 149.5 192 176L192 288L448 288L448 176C448 149.5 469.5 128 496 128C522.5 128 544 149.5 544 176L544 192L560 192C586.5 192 608 213.5 608 240L608 288C625.7 288 640 302.3 640 320C640 337.7 625.7 352 608 352L608 400C608 426.5 586.5 448 560 448L544 448L544 464C544 490.5 522.5 512 496 512C469.5 512 448 490.5 448 464L448 352L192 352L192 464C192 490.5 170.5 512 144 512C117.5 512 96 490.5 96 464L96 448L80 448C53.5 448 32 426.5 32 400L32 352C14.3 352 0 337.7 0 320C0 302.3 14.3 288 32 288L32 240C32 213.5 53.5 192 80 192L96 192L96 176z" fill="#ff6b6b"/>
-          </g>
-        </svg>
-      `,
-      className: 'custom-gym-marker',
-      iconSize: L.point(40, 50, true),
-      iconAnchor: L.point(20, 50, true),
-      popupAnchor: L.point(0, -50, true),
-    })
-  }, [])
+  const gymMarkerIcon = useMemo(() => createGymMarkerIcon('#f97316'), [])
+
+  // Grey pin for gyms the member's plan doesn't include
+  const lockedMarkerIcon = useMemo(() => createGymMarkerIcon('#9ca3af'), [])
 
   // Memoize selected marker icon - create once and reuse (larger version with scale)
   const selectedMarkerIcon = useMemo(() => {
@@ -131,6 +175,16 @@ export default function GymMap({ gyms, selectedGym, onGymClick }: GymMapProps) {
           url="https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png"
         />
         <MapController center={mapCenter} zoom={mapZoom} />
+        {onBoundsChange && <BoundsReporter onBoundsChange={onBoundsChange} />}
+        {origin && (
+          <CircleMarker
+            center={[origin.latitude, origin.longitude]}
+            radius={8}
+            pathOptions={{ color: 'white', weight: 3, fillColor: '#2563eb', fillOpacity: 1 }}
+          >
+            <Popup>Your search location</Popup>
+          </CircleMarker>
+        )}
         <MarkerClusterGroup
           key="gym-cluster-group"
           chunkedLoading
@@ -140,7 +194,7 @@ export default function GymMap({ gyms, selectedGym, onGymClick }: GymMapProps) {
             <Marker
               key={`gym-${gym.id}`}
               position={[Number(gym.latitude), Number(gym.longitude)]}
-              icon={gymMarkerIcon}
+              icon={!memberTier || isTierIncluded(memberTier, gym.required_tier, tierOrder) ? gymMarkerIcon : lockedMarkerIcon}
               eventHandlers={{
                 click: () => {
                   if (onGymClick) {
@@ -152,6 +206,7 @@ export default function GymMap({ gyms, selectedGym, onGymClick }: GymMapProps) {
               <Popup>
                 <div className="p-2">
                   <h3 className="font-semibold text-lg mb-1">{gym.name}</h3>
+                  <TierBadge requiredTier={gym.required_tier} memberTier={memberTier} tierOrder={tierOrder} className="mb-1" />
                   <p className="text-sm text-gray-600">{gym.address}</p>
                   <p className="text-sm text-gray-600">
                     {gym.city} {gym.postcode}
@@ -159,6 +214,9 @@ export default function GymMap({ gyms, selectedGym, onGymClick }: GymMapProps) {
                   {gym.phone && (
                     <p className="text-sm text-gray-600">Phone: {gym.phone}</p>
                   )}
+                  {gym.distanceKm != null && (
+                    <p className="text-sm text-gray-600">{formatDistance(gym.distanceKm)} away</p>
+                  )}
                   <button
                     onClick={() => onGymClick?.(gym)}
                     className="mt-2 w-full px-3 py-1 bg-[#FF6B6B] text-white text-sm rounded hover:bg-[#FF5252]"
@@ -189,6 +247,7 @@ export default function GymMap({ gyms, selectedGym, onGymClick }: GymMapProps) {
             <Popup>
               <div className="p-2">
                 <h3 className="font-semibold text-lg mb-1">{selectedGym.name}</h3>
+                <TierBadge requiredTier={selectedGym.required_tier} memberTier={memberTier} tierOrder={tierOrder} className="mb-1" />
                 <p className="text-sm text-gray-600">{selectedGym.address}</p>
                 <p className="text-sm text-gray-600">
                   {selectedGym.city} {selectedGym.postcode}
@@ -1,9 +1,17 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import dynamic from 'next/dynamic'
 import { Gym } from '@/lib/types'
+import { isUkPostcode } from '@/lib/geocoding'
+import { AMENITIES, AmenityId, amenityLabel, isAmenityId } from '@/lib/amenities'
+import type { BoundingBox } from '@/lib/gymSearch'
+import type { GymSuggestion } from '@/lib/searchIndex'
+import type { TierOrder } from '@/lib/tiers'
+import { useGymSuggestions } from '@/hooks/useGymSuggestions'
 import GymDetailsPanel from './GymDetailsPanel'
+import GymSuggestionList from './GymSuggestionList'
+import RecommendedGyms from './RecommendedGyms'
 
 // Dynamically import GymMap to avoid SSR issues with Leaflet
 const GymMap = dynamic(() => import('./GymMap'), {
@@ -11,24 +19,77 @@ const GymMap = dynamic(() => import('./GymMap'), {
   loading: () => <div className="w-full h-full flex items-center justify-center">Loading map...</div>,
 })
 
+type Coordinates = { latitude: number; longitude: number }
+
+// Where a "near me" search is centred - the browser location or a typed postcode
+type NearbySearch = Coordinates | { postcode: string }
+
+const NEARBY_RADIUS_KM = 25
+// Markers are clustered, so the map can show the whole viewport in one page
+const MAP_PAGE_SIZE = 500
+
 interface GymMapViewProps {
   initialGyms: Gym[]
   chains?: any[]
   hasSubscription?: boolean
+  memberTier?: string | null
+  tierOrder?: TierOrder
+  initialGymId?: number // Opens this gym's details, e.g. when coming back from an upgrade
 }
 
-export default function GymMapView({ initialGyms, chains, hasSubscription = false }: GymMapViewProps) {
+export default function GymMapView({
+  initialGyms,
+  chains,
+  hasSubscription = false,
+  memberTier,
+  tierOrder,
+  initialGymId,
+}: GymMapViewProps) {
   const [gyms, setGyms] = useState<Gym[]>(initialGyms)
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedTier, setSelectedTier] = useState('All Tiers')
   const [selectedChain, setSelectedChain] = useState('All Chains')
-  const [selectedFacility, setSelectedFacility] = useState('All Facilities')
+  const [selectedFacilities, setSelectedFacilities] = useState<AmenityId[]>([])
+  const [showFacilities, setShowFacilities] = useState(false)
+  const [openFilter, setOpenFilter] = useState<'any' | 'now' | 'at'>('any')
+  const [openAt, setOpenAt] = useState('') // datetime-local value, in the browser's timezone
+  const facilitiesRef = useRef<HTMLDivElement>(null)
   const [loading, setLoading] = useState(false)
-  const [selectedGym, setSelectedGym] = useState<Gym | null>(null)
+  const [selectedGym, setSelectedGym] = useState<Gym | null>(
+    () => (initialGymId ? initialGyms.find((gym) => gym.id === initialGymId) : null) || null
+  )
   const [selectedGymChain, setSelectedGymChain] = useState<any>(null)
   const [loadingGymDetails, setLoadingGymDetails] = useState(false)
+  const [nearby, setNearby] = useState<NearbySearch | null>(null)
+  const [origin, setOrigin] = useState<Coordinates | null>(null)
+  const [locating, setLocating] = useState(false)
+  const [locationError, setLocationError] = useState<string | null>(null)
+  const [bbox, setBbox] = useState<BoundingBox | null>(null)
+  const [total, setTotal] = useState(initialGyms.length)
+
+  // Round so tiny pans don't trigger a new search
+  const handleBoundsChange = useCallback((bounds: BoundingBox) => {
+    const round = (value: number) => Math.round(value * 1000) / 1000
+    setBbox((current) => {
+      const next = {
+        minLat: round(bounds.minLat),
+        minLng: round(bounds.minLng),
+        maxLat: round(bounds.maxLat),
+        maxLng: round(bounds.maxLng),
+      }
+      return current &&
+        current.minLat === next.minLat &&
+        current.minLng === next.minLng &&
+        current.maxLat === next.maxLat &&
+        current.maxLng === next.maxLng
+        ? current
+        : next
+    })
+  }, [])
 
   useEffect(() => {
+    // Aborted when the filters change again, so a slow response can't replace a newer one
+    const controller = new AbortController()
     const fetchFilteredGyms = async () => {
       setLoading(true)
       try {
@@ -36,14 +97,53 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
         if (searchQuery) params.set('search', searchQuery)
         if (selectedTier !== 'All Tiers') params.set('tier', selectedTier)
         if (selectedChain !== 'All Chains') params.set('chain', selectedChain)
+        if (selectedFacilities.length > 0) params.set('amenities', selectedFacilities.join(','))
+        if (openFilter === 'now') {
+          params.set('open_now', 'true')
+        } else if (openFilter === 'at' && openAt) {
+          params.set('open_at', new Date(openAt).toISOString())
+        }
+        if (nearby) {
+          if ('postcode' in nearby) {
+            params.set('postcode', nearby.postcode)
+          } else {
+            params.set('lat', String(nearby.latitude))
+            params.set('lng', String(nearby.longitude))
+          }
+          params.set('radius_km', String(NEARBY_RADIUS_KM))
+        }
+        if (bbox) {
+          params.set('bbox', [bbox.minLng, bbox.minLat, bbox.maxLng, bbox.maxLat].join(','))
+        }
+        params.set('limit', String(MAP_PAGE_SIZE))
 
-        const response = await fetch(`/api/gyms/search?${params.toString()}`)
+        const response = await fetch(`/api/gyms/search?${params.toString()}`, { signal: controller.signal })
         const data = await response.json()
+        if (!response.ok) {
+          console.error('Error fetching gyms:', response.status, data)
+          if (nearby) {
+            setLocationError(data.error || 'Could not search near that location')
+            setNearby(null)
+          }
+          return
+        }
         setGyms(data.gyms || [])
+        setTotal(data.total ?? (data.gyms || []).length)
+        // Keep the same object while the location is unchanged so the map doesn't re-center on every filter change
+        const nextOrigin: Coordinates | null = data.origin || null
+        setOrigin((current) =>
+          current && nextOrigin && current.latitude === nextOrigin.latitude && current.longitude === nextOrigin.longitude
+            ? current
+            : nextOrigin
+        )
       } catch (error) {
+        if ((error as Error).name === 'AbortError') return
         console.error('Error fetching gyms:', error)
       } finally {
-        setLoading(false)
+        // A newer search is on its way
+        if (!controller.signal.aborted) {
+          setLoading(false)
+        }
       }
     }
 
@@ -51,8 +151,65 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
       fetchFilteredGyms()
     }, 300) // Debounce search
 
-    return () => clearTimeout(timeoutId)
-  }, [searchQuery, selectedTier, selectedChain, selectedFacility])
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [searchQuery, selectedTier, selectedChain, selectedFacilities, openFilter, openAt, nearby, bbox])
+
+  // Close the facilities dropdown when clicking outside it
+  useEffect(() => {
+    if (!showFacilities) return
+    const handleClickOutside = (event: MouseEvent) => {
+      if (facilitiesRef.current && !facilitiesRef.current.contains(event.target as Node)) {
+        setShowFacilities(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [showFacilities])
+
+  const toggleFacility = (amenity: AmenityId) => {
+    setSelectedFacilities((current) =>
+      current.includes(amenity) ? current.filter((a) => a !== amenity) : [...current, amenity]
+    )
+  }
+
+  // Search near a typed postcode, otherwise near the browser's location
+  const handleLocationClick = () => {
+    setLocationError(null)
+
+    if (isUkPostcode(searchQuery)) {
+      setNearby({ postcode: searchQuery.trim().toUpperCase() })
+      setSearchQuery('')
+      return
+    }
+
+    if (!navigator.geolocation) {
+      setLocationError('Location is not available in this browser - type a postcode and try again')
+      return
+    }
+
+    setLocating(true)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setNearby({ latitude: position.coords.latitude, longitude: position.coords.longitude })
+        setLocating(false)
+      },
+      (error) => {
+        console.error('Error getting location:', error)
+        setLocationError("We couldn't get your location - type a postcode and try again")
+        setLocating(false)
+      },
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    )
+  }
+
+  const clearNearby = () => {
+    setNearby(null)
+    setOrigin(null)
+    setLocationError(null)
+  }
 
   // Handle gym click
   const handleGymClick = async (gym: Gym) => {
@@ -72,7 +229,8 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
       
       const data = await response.json()
       if (data.gym) {
-        setSelectedGym(data.gym)
+        // Distance comes from the search results, not the gym endpoint
+        setSelectedGym({ ...data.gym, distanceKm: gym.distanceKm })
         setSelectedGymChain(data.gym_chain || null)
       }
     } catch (error) {
@@ -83,9 +241,34 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
     }
   }
 
-  // Extract unique tiers and facilities from gyms
+  // Chains and facilities become filters; gyms open directly; places become the search
+  const handleSuggestionSelect = (suggestion: GymSuggestion) => {
+    switch (suggestion.type) {
+      case 'gym':
+        if (suggestion.gym) {
+          handleGymClick(suggestion.gym)
+        }
+        break
+      case 'chain':
+        setSelectedChain(suggestion.value)
+        setSearchQuery('')
+        break
+      case 'amenity':
+        if (isAmenityId(suggestion.value)) {
+          const amenity = suggestion.value
+          setSelectedFacilities((current) => (current.includes(amenity) ? current : [...current, amenity]))
+        }
+        setSearchQuery('')
+        break
+      default:
+        setSearchQuery(suggestion.label)
+    }
+  }
+
+  const suggestions = useGymSuggestions(searchQuery, handleSuggestionSelect)
+
+  // Extract unique tiers from gyms
   const tiers = ['All Tiers', ...Array.from(new Set(gyms.map((g) => g.required_tier).filter(Boolean)))]
-  const facilities = ['All Facilities'] // You can extract from amenities if needed
 
   return (
     <div className="flex flex-col h-full relative">
@@ -111,21 +294,30 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
           <input
             type="text"
             value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search by name, chain, or city..."
+            onChange={(e) => {
+              setSearchQuery(e.target.value)
+              suggestions.open()
+            }}
+            onKeyDown={suggestions.handleKeyDown}
+            onBlur={suggestions.close}
+            placeholder="Search by name, chain, city or postcode..."
+            role="combobox"
+            aria-controls="gym-map-suggestions"
+            aria-expanded={suggestions.isOpen}
+            aria-autocomplete="list"
             className="block w-full pl-10 pr-10 py-2 border border-gray-300 rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white"
           />
           {/* Location Icon */}
           <button
             type="button"
             className="absolute inset-y-0 right-0 pr-3 flex items-center"
-            onClick={() => {
-              // TODO: Implement location-based search
-              console.log('Location search clicked')
-            }}
+            onClick={handleLocationClick}
+            disabled={locating}
+            title="Search near me, or near the postcode you've typed"
+            aria-label="Search near me"
           >
             <svg
-              className="h-5 w-5 text-gray-400 hover:text-gray-600"
+              className={`h-5 w-5 hover:text-gray-600 ${nearby ? 'text-blue-600' : 'text-gray-400'} ${locating ? 'animate-pulse' : ''}`}
               fill="none"
               stroke="currentColor"
               viewBox="0 0 24 24"
@@ -138,8 +330,35 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
               />
             </svg>
           </button>
+          {suggestions.isOpen && (
+            <GymSuggestionList
+              id="gym-map-suggestions"
+              suggestions={suggestions.suggestions}
+              activeIndex={suggestions.activeIndex}
+              onSelect={suggestions.select}
+            />
+          )}
         </div>
 
+        {/* Near me status */}
+        {nearby && (
+          <div className="flex items-center justify-between px-3 py-2 text-sm rounded-full bg-blue-50 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200">
+            <span>
+              Gyms within {NEARBY_RADIUS_KM} km of {'postcode' in nearby ? nearby.postcode : 'your location'}
+            </span>
+            <button
+              type="button"
+              onClick={clearNearby}
+              className="ml-2 font-medium hover:underline"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+        {locationError && (
+          <p className="px-3 text-sm text-red-600 dark:text-red-400">{locationError}</p>
+        )}
+
         {/* Filters - Grid Layout for Mobile */}
         <div className="grid grid-cols-2 gap-3 lg:flex lg:gap-4">
           <div className="relative">
@@ -199,17 +418,71 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
               </svg>
             </div>
           </div>
+          <div className="relative col-span-2 lg:col-span-1" ref={facilitiesRef}>
+            <button
+              type="button"
+              onClick={() => setShowFacilities(!showFacilities)}
+              aria-expanded={showFacilities}
+              className="w-full pl-3 pr-10 py-2 text-sm text-left border border-gray-300 rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white lg:pl-4 lg:pr-12"
+            >
+              {selectedFacilities.length === 0
+                ? 'All Facilities'
+                : selectedFacilities.length === 1
+                ? amenityLabel(selectedFacilities[0])
+                : `${selectedFacilities.length} Facilities`}
+            </button>
+            <div className="absolute inset-y-0 right-0 flex items-center pointer-events-none pr-3 lg:pr-4">
+              <svg
+                className="h-5 w-5 text-gray-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 9l-7 7-7-7"
+                />
+              </svg>
+            </div>
+            {showFacilities && (
+              <div className="absolute z-20 mt-2 w-full lg:w-64 max-h-72 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg p-2">
+                {AMENITIES.map((amenity) => (
+                  <label
+                    key={amenity.id}
+                    className="flex items-center gap-2 px-2 py-1.5 text-sm text-gray-700 dark:text-gray-300 rounded hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedFacilities.includes(amenity.id)}
+                      onChange={() => toggleFacility(amenity.id)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {amenity.label}
+                  </label>
+                ))}
+                {selectedFacilities.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setSelectedFacilities([])}
+                    className="w-full mt-1 px-2 py-1.5 text-sm text-left text-blue-600 hover:underline"
+                  >
+                    Clear facilities
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
           <div className="relative col-span-2 lg:col-span-1">
             <select
-              value={selectedFacility}
-              onChange={(e) => setSelectedFacility(e.target.value)}
+              value={openFilter}
+              onChange={(e) => setOpenFilter(e.target.value as 'any' | 'now' | 'at')}
               className="w-full pl-3 pr-10 py-2 text-sm border border-gray-300 rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white appearance-none lg:pl-4 lg:pr-12"
             >
-              {facilities.map((facility) => (
-                <option key={facility} value={facility}>
-                  {facility}
-                </option>
-              ))}
+              <option value="any">Any Time</option>
+              <option value="now">Open Now</option>
+              <option value="at">Open At...</option>
             </select>
             <div className="absolute inset-y-0 right-0 flex items-center pointer-events-none pr-3 lg:pr-4">
               <svg
@@ -227,9 +500,20 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
               </svg>
             </div>
           </div>
+          {openFilter === 'at' && (
+            <input
+              type="datetime-local"
+              value={openAt}
+              onChange={(e) => setOpenAt(e.target.value)}
+              aria-label="Open at"
+              className="col-span-2 lg:col-span-1 w-full px-3 py-2 text-sm border border-gray-300 rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+            />
+          )}
         </div>
       </div>
 
+      <RecommendedGyms onSelect={handleGymClick} className="mb-4 px-4 sm:px-6" />
+
       {/* Map Container */}
       <div className="flex-1 relative min-h-0">
         {loading ? (
@@ -241,7 +525,16 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
           gyms={gyms} 
           selectedGym={selectedGym}
           onGymClick={handleGymClick}
+          origin={origin}
+          onBoundsChange={handleBoundsChange}
+          memberTier={hasSubscription ? memberTier : null}
+          tierOrder={tierOrder}
         />
+        {total > gyms.length && (
+          <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 px-3 py-1 text-xs rounded-full bg-white/90 dark:bg-gray-800/90 text-gray-700 dark:text-gray-300 shadow">
+            Showing {gyms.length} of {total} gyms - zoom in to see more
+          </div>
+        )}
       </div>
       
       {/* Gym Details Panel */}
@@ -251,6 +544,8 @@ export default function GymMapView({ initialGyms, chains, hasSubscription = fals
           chain={selectedGymChain}
           onClose={() => setSelectedGym(null)}
           hasSubscription={hasSubscription}
+          memberTier={memberTier}
+          tierOrder={tierOrder}
         />
       )}
     </div>
@@ -3,33 +3,71 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Gym } from '@/lib/types'
+import type { GymSort } from '@/lib/gymSearch'
+import type { GymSuggestion } from '@/lib/searchIndex'
+import type { TierOrder } from '@/lib/tiers'
+import { useGymSuggestions } from '@/hooks/useGymSuggestions'
 import GymCard from './GymCard'
+import GymSuggestionList from './GymSuggestionList'
+
+const PAGE_SIZE = 50
+
+// Distance sorting needs a location, which this page doesn't ask for
+const SORT_OPTIONS: Array<{ value: GymSort; label: string }> = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'name', label: 'Name' },
+  { value: 'tier', label: 'Tier' },
+  { value: 'newest', label: 'Newest' },
+]
 
 interface GymSearchProps {
   initialGyms: Gym[]
+  initialTotal?: number
+  initialQuery?: string
+  memberTier?: string | null
+  tierOrder?: TierOrder
 }
 
-export default function GymSearch({ initialGyms }: GymSearchProps) {
-  const [searchQuery, setSearchQuery] = useState('')
+export default function GymSearch({ initialGyms, initialTotal, initialQuery = '', memberTier, tierOrder }: GymSearchProps) {
+  const [searchQuery, setSearchQuery] = useState(initialQuery)
+  const [submittedQuery, setSubmittedQuery] = useState(initialQuery)
+  const [sort, setSort] = useState<GymSort>('relevance')
   const [gyms, setGyms] = useState<Gym[]>(initialGyms)
+  const [total, setTotal] = useState(initialTotal ?? initialGyms.length)
   const [loading, setLoading] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
   const router = useRouter()
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const fetchPage = async (query: string, sortBy: GymSort, offset: number) => {
+    const params = new URLSearchParams()
+    if (query) params.set('search', query)
+    params.set('sort', sortBy)
+    params.set('offset', String(offset))
+    params.set('limit', String(PAGE_SIZE))
+
+    const response = await fetch(`/api/gyms/search?${params.toString()}`)
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Search failed')
+    }
+    return data as { gyms: Gym[]; total: number }
+  }
+
+  const runSearch = async (query: string, sortBy: GymSort) => {
     setLoading(true)
     
     try {
       const params = new URLSearchParams()
-      if (searchQuery.trim()) {
-        params.set('search', searchQuery.trim())
+      if (query) {
+        params.set('search', query)
       }
       router.push(`/gyms?${params.toString()}`)
       
       // Fetch new results
-      const response = await fetch(`/api/gyms/search?${params.toString()}`)
-      const data = await response.json()
+      const data = await fetchPage(query, sortBy, 0)
       setGyms(data.gyms || [])
+      setTotal(data.total || 0)
+      setSubmittedQuery(query)
     } catch (error) {
       console.error('Search error:', error)
     } finally {
@@ -37,17 +75,72 @@ export default function GymSearch({ initialGyms }: GymSearchProps) {
     }
   }
 
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    suggestions.close()
+    await runSearch(searchQuery.trim(), sort)
+  }
+
+  // Gyms open their details on the dashboard map; anything else becomes the search
+  const handleSuggestionSelect = (suggestion: GymSuggestion) => {
+    if (suggestion.type === 'gym') {
+      router.push(`/dashboard?gym=${encodeURIComponent(suggestion.value)}`)
+      return
+    }
+    setSearchQuery(suggestion.label)
+    runSearch(suggestion.label, sort)
+  }
+
+  const suggestions = useGymSuggestions(searchQuery, handleSuggestionSelect)
+
+  const handleSortChange = async (value: GymSort) => {
+    setSort(value)
+    await runSearch(submittedQuery, value)
+  }
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true)
+    try {
+      const data = await fetchPage(submittedQuery, sort, gyms.length)
+      setGyms((current) => [...current, ...(data.gyms || [])])
+      setTotal(data.total || 0)
+    } catch (error) {
+      console.error('Error loading more gyms:', error)
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
   return (
     <div>
       <form onSubmit={handleSearch} className="mb-6">
         <div className="flex gap-2">
-          <input
-            type="text"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search by name, city, or state..."
-            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white"
-          />
+          <div className="relative flex-1">
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value)
+                suggestions.open()
+              }}
+              onKeyDown={suggestions.handleKeyDown}
+              onBlur={suggestions.close}
+              placeholder="Search by name, chain, city or postcode..."
+              role="combobox"
+              aria-controls="gym-search-suggestions"
+              aria-expanded={suggestions.isOpen}
+              aria-autocomplete="list"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+            />
+            {suggestions.isOpen && (
+              <GymSuggestionList
+                id="gym-search-suggestions"
+                suggestions={suggestions.suggestions}
+                activeIndex={suggestions.activeIndex}
+                onSelect={suggestions.select}
+              />
+            )}
+          </div>
           <button
             type="submit"
             disabled={loading}
@@ -58,16 +151,49 @@ export default function GymSearch({ initialGyms }: GymSearchProps) {
         </div>
       </form>
 
+      <div className="flex items-center justify-between mb-4 text-sm text-gray-600 dark:text-gray-400">
+        <span>
+          {total === 1 ? '1 gym' : `${total} gyms`}
+        </span>
+        <label className="flex items-center gap-2">
+          Sort by
+          <select
+            value={sort}
+            onChange={(e) => handleSortChange(e.target.value as GymSort)}
+            disabled={loading}
+            className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
       <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
         {gyms.length > 0 ? (
-          gyms.map((gym) => <GymCard key={gym.id} gym={gym} />)
+          gyms.map((gym) => <GymCard key={gym.id} gym={gym} memberTier={memberTier} tierOrder={tierOrder} />)
         ) : (
           <div className="col-span-full text-center py-12 text-gray-500 dark:text-gray-400">
             No gyms found. Try a different search term.
           </div>
         )}
       </div>
+
+      {gyms.length < total && (
+        <div className="mt-6 text-center">
+          <button
+            type="button"
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="px-6 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loadingMore ? 'Loading...' : `Show more (${gyms.length} of ${total})`}
+          </button>
+        </div>
+      )}
     </div>
   )
 }
-
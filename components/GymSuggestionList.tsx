@@ -0,0 +1,57 @@
+'use client'
+
+import type { GymSuggestion, GymSuggestionType } from '@/lib/searchIndex'
+
+const TYPE_LABELS: Record<GymSuggestionType, string> = {
+  gym: 'Gym',
+  chain: 'Chain',
+  city: 'City',
+  postcode: 'Postcode',
+  amenity: 'Facility',
+}
+
+interface GymSuggestionListProps {
+  id: string
+  suggestions: GymSuggestion[]
+  activeIndex: number
+  onSelect: (suggestion: GymSuggestion) => void
+  className?: string
+}
+
+export default function GymSuggestionList({ id, suggestions, activeIndex, onSelect, className = '' }: GymSuggestionListProps) {
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      className={`absolute z-[1000] left-0 right-0 mt-1 py-1 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg max-h-80 overflow-y-auto ${className}`}
+    >
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={`${suggestion.type}:${suggestion.value}`}
+          role="option"
+          aria-selected={index === activeIndex}
+          // mousedown rather than click so the input doesn't blur and close the list first
+          onMouseDown={(e) => {
+            e.preventDefault()
+            onSelect(suggestion)
+          }}
+          className={`flex items-center justify-between gap-3 px-4 py-2 text-sm cursor-pointer ${
+            index === activeIndex
+              ? 'bg-gray-100 dark:bg-gray-700'
+              : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+          }`}
+        >
+          <span className="min-w-0">
+            <span className="block truncate text-gray-900 dark:text-white">{suggestion.label}</span>
+            {suggestion.gym && (
+              <span className="block truncate text-xs text-gray-500 dark:text-gray-400">
+                {[suggestion.gym.gym_chain_name, suggestion.gym.city].filter(Boolean).join(' · ')}
+              </span>
+            )}
+          </span>
+          <span className="shrink-0 text-xs text-gray-400 dark:text-gray-500">{TYPE_LABELS[suggestion.type]}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,31 @@
+'use client'
+
+import { OpeningHours, formatOpenStatus, getOpenStatus } from '@/lib/openingHours'
+
+interface OpenStatusBadgeProps {
+  hours?: OpeningHours | null
+  className?: string
+}
+
+export default function OpenStatusBadge({ hours, className = '' }: OpenStatusBadgeProps) {
+  if (!hours) {
+    return null
+  }
+
+  const status = getOpenStatus(hours)
+
+  return (
+    <span
+      // Status depends on the current time, which can differ between server render and hydration
+      suppressHydrationWarning
+      className={`inline-block px-3 py-1 text-xs font-semibold rounded-full ${
+        status.isOpen
+          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+          : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+      } ${className}`}
+    >
+      {formatOpenStatus(status)}
+      {status.isBankHoliday && ' (bank holiday)'}
+    </span>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import type { PassHistoryPage, PassHistoryQuery, PassHistoryStatus } from '@/lib/passHistory'
+
+const STATUS_LABELS: Record<PassHistoryStatus, string> = {
+  used: 'Used',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
+}
+
+interface PassHistoryFiltersProps {
+  query: PassHistoryQuery
+  /** Every gym in the member's history, for the chain and gym pickers */
+  gyms: PassHistoryPage['visitsByGym']
+  onChange: (query: PassHistoryQuery) => void
+  disabled?: boolean
+}
+
+const inputClass =
+  'px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white disabled:opacity-50'
+
+/** Date range, chain, gym and status filters for the pass history - each change goes back to page 1 */
+export default function PassHistoryFilters({ query, gyms, onChange, disabled }: PassHistoryFiltersProps) {
+  const chains = Array.from(
+    new Map(
+      gyms.filter((gym) => gym.chainId && gym.chainName).map((gym) => [gym.chainId as number, gym.chainName as string])
+    )
+  ).sort((a, b) => a[1].localeCompare(b[1]))
+  const gymOptions = gyms
+    .filter((gym) => !query.chainId || gym.chainId === query.chainId)
+    .sort((a, b) => a.gymName.localeCompare(b.gymName))
+
+  const update = (changes: Partial<PassHistoryQuery>) => onChange({ ...query, ...changes, page: 1 })
+  const isFiltered = Boolean(query.from || query.to || query.chainId || query.gymId || query.status?.length)
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 mb-4">
+      <label className="flex flex-col text-xs font-medium text-gray-600 dark:text-gray-400 gap-1">
+        From
+        <input
+          type="date"
+          value={query.from || ''}
+          max={query.to}
+          onChange={(e) => update({ from: e.target.value || undefined })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex flex-col text-xs font-medium text-gray-600 dark:text-gray-400 gap-1">
+        To
+        <input
+          type="date"
+          value={query.to || ''}
+          min={query.from}
+          onChange={(e) => update({ to: e.target.value || undefined })}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </label>
+      {chains.length > 1 && (
+        <label className="flex flex-col text-xs font-medium text-gray-600 dark:text-gray-400 gap-1">
+          Chain
+          <select
+            value={query.chainId || ''}
+            onChange={(e) => update({ chainId: Number(e.target.value) || undefined, gymId: undefined })}
+            disabled={disabled}
+            className={inputClass}
+          >
+            <option value="">All chains</option>
+            {chains.map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <label className="flex flex-col text-xs font-medium text-gray-600 dark:text-gray-400 gap-1">
+        Gym
+        <select
+          value={query.gymId || ''}
+          onChange={(e) => update({ gymId: Number(e.target.value) || undefined })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">All gyms</option>
+          {gymOptions.map((gym) => (
+            <option key={gym.gymId} value={gym.gymId}>
+              {gym.gymName}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col text-xs font-medium text-gray-600 dark:text-gray-400 gap-1">
+        Status
+        <select
+          value={query.status?.[0] || ''}
+          onChange={(e) => update({ status: e.target.value ? [e.target.value as PassHistoryStatus] : undefined })}
+          disabled={disabled}
+          className={inputClass}
+        >
+          <option value="">All statuses</option>
+          {(Object.keys(STATUS_LABELS) as PassHistoryStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+      </label>
+      {isFiltered && (
+        <button
+          onClick={() => onChange({ page: 1, perPage: query.perPage })}
+          disabled={disabled}
+          className="px-3 py-2 text-sm font-medium text-gray-600 dark:text-gray-400 underline hover:text-gray-900 dark:hover:text-white disabled:opacity-50"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  )
+}
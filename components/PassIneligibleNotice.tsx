@@ -0,0 +1,30 @@
+'use client'
+
+import Link from 'next/link'
+import type { PassEligibilityAction } from '@/lib/passEligibility'
+
+interface PassIneligibleNoticeProps {
+  message: string
+  action?: PassEligibilityAction
+  className?: string
+}
+
+/** Why a pass can't be generated, with a link to the next step */
+export default function PassIneligibleNotice({ message, action, className = '' }: PassIneligibleNoticeProps) {
+  return (
+    <div
+      role="alert"
+      className={`p-4 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20 ${className}`}
+    >
+      <p className="text-sm text-amber-900 dark:text-amber-200">{message}</p>
+      {action && (
+        <Link
+          href={action.href}
+          className="inline-block mt-3 px-4 py-2 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors text-sm font-semibold"
+        >
+          {action.label}
+        </Link>
+      )}
+    </div>
+  )
+}
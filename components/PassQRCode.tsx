@@ -0,0 +1,77 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import QRCode from 'qrcode'
+import { PASS_QR_STEP_SECONDS, PassQrToken, buildPassQrPayload } from '@/lib/passQr'
+
+interface PassQRCodeProps {
+  passCode: string
+  /** Signed token - when set the QR carries a signed payload instead of the bare pass code */
+  qrToken?: PassQrToken
+  className?: string
+}
+
+/**
+ * QR code for a pass, drawn in the browser so it shows without a connection.
+ * A signed token with a pass key gets a fresh code every PASS_QR_STEP_SECONDS,
+ * so a screenshot stops working within a minute.
+ */
+export default function PassQRCode({ passCode, qrToken, className = 'w-32 h-32' }: PassQRCodeProps) {
+  const [payload, setPayload] = useState<string | null>(qrToken ? null : passCode)
+  const [svg, setSvg] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!qrToken) {
+      setPayload(passCode)
+      return
+    }
+    let cancelled = false
+    let timeoutId: ReturnType<typeof setTimeout>
+    const update = async () => {
+      try {
+        const next = await buildPassQrPayload(qrToken)
+        if (!cancelled) setPayload(next)
+      } catch (error) {
+        // Web Crypto needs a secure context - fall back to the plain code
+        console.error('[PassQRCode] Error signing QR payload:', error)
+        if (!cancelled) setPayload(passCode)
+        return
+      }
+      if (!qrToken.passKey || cancelled) return
+      const stepMs = PASS_QR_STEP_SECONDS * 1000
+      timeoutId = setTimeout(update, stepMs - (Date.now() % stepMs))
+    }
+    update()
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [passCode, qrToken])
+
+  useEffect(() => {
+    if (!payload) return
+    let cancelled = false
+    QRCode.toString(payload, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' })
+      .then((markup) => {
+        if (!cancelled) setSvg(markup)
+      })
+      .catch((error) => console.error('[PassQRCode] Error drawing QR code:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [payload])
+
+  if (!svg) {
+    return <div className={`${className} bg-gray-100 dark:bg-gray-700 rounded`} aria-hidden="true" />
+  }
+
+  return (
+    <div
+      role="img"
+      aria-label={`QR code for pass ${passCode}`}
+      className={`${className} [&>svg]:w-full [&>svg]:h-full`}
+      // Markup generated by the qrcode library from the pass code
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  )
+}
@@ -0,0 +1,308 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import type { PassVerification, PassVerificationResult } from '@/lib/gymScanner'
+import { PassQrCheck, base64UrlDecode, checkPassQrPayload, isPassQrPayload } from '@/lib/passQr'
+
+// The Barcode Detection API isn't in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance
+
+const SCAN_INTERVAL_MS = 300
+
+const RESULT_MESSAGES: Record<PassVerificationResult, string> = {
+  valid: 'Pass valid - let them in',
+  already_used: 'This pass has already been used',
+  expired: 'This pass has expired',
+  cancelled: 'This pass was cancelled',
+  wrong_gym: 'This pass is for a different gym',
+  not_found: 'Pass not recognised',
+  invalid_signature: 'QR code not issued by anygym',
+  stale_code: 'This QR code has changed - ask to see the live code',
+}
+
+const OFFLINE_FAILURE_MESSAGES: Record<Extract<PassQrCheck, { ok: false }>['reason'], string> = {
+  malformed: RESULT_MESSAGES.invalid_signature,
+  bad_signature: RESULT_MESSAGES.invalid_signature,
+  wrong_gym: RESULT_MESSAGES.wrong_gym,
+  expired: RESULT_MESSAGES.expired,
+  stale_code: RESULT_MESSAGES.stale_code,
+  unsupported: 'This device can\'t check QR codes offline - scan it again once you\'re back online',
+}
+
+interface PassScannerProps {
+  gymId: number
+  gymName: string
+  /** The gym's public key and rotating code key (base64url), for checking signed QR codes with no connection */
+  verificationKeys: { publicKey: string; codeKey: string } | null
+}
+
+/** Camera QR scanner for front-desk staff, with manual code entry as a fallback */
+export default function PassScanner({ gymId, gymName, verificationKeys }: PassScannerProps) {
+  const router = useRouter()
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [cameraState, setCameraState] = useState<'off' | 'starting' | 'on' | 'unsupported' | 'denied'>('off')
+  const [manualCode, setManualCode] = useState('')
+  const [checking, setChecking] = useState(false)
+  const [verification, setVerification] = useState<PassVerification | null>(null)
+  const [offlineCheck, setOfflineCheck] = useState<PassQrCheck | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const checkPass = useCallback(async (code: string) => {
+    setChecking(true)
+    setError(null)
+    try {
+      let response: Response
+      try {
+        response = await fetch('/api/scanner/verify', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ code }),
+        })
+      } catch (err) {
+        // No connection - a signed QR code can still be checked on this device
+        if (verificationKeys && isPassQrPayload(code)) {
+          setOfflineCheck(
+            await checkPassQrPayload(code, gymId, {
+              publicKey: base64UrlDecode(verificationKeys.publicKey),
+              codeKey: base64UrlDecode(verificationKeys.codeKey),
+            })
+          )
+          return
+        }
+        throw err
+      }
+      const data = await response.json().catch(() => ({}))
+      if (response.status === 401) {
+        router.refresh()
+        return
+      }
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check pass')
+      }
+      setVerification(data.verification)
+    } catch (err) {
+      console.error('[PassScanner] Error checking pass:', err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setChecking(false)
+    }
+  }, [router, gymId, verificationKeys])
+
+  // Scan while the camera is on and no result is showing
+  useEffect(() => {
+    if (cameraState !== 'on' || verification || offlineCheck || checking) return
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+    if (!Detector || !videoRef.current) return
+
+    const detector = new Detector({ formats: ['qr_code'] })
+    const video = videoRef.current
+    let stopped = false
+    const intervalId = setInterval(async () => {
+      if (stopped || video.readyState < 2) return
+      try {
+        const [barcode] = await detector.detect(video)
+        if (barcode?.rawValue && !stopped) {
+          stopped = true
+          checkPass(barcode.rawValue)
+        }
+      } catch (err) {
+        console.error('[PassScanner] Error detecting QR code:', err)
+      }
+    }, SCAN_INTERVAL_MS)
+    return () => {
+      stopped = true
+      clearInterval(intervalId)
+    }
+  }, [cameraState, verification, offlineCheck, checking, checkPass])
+
+  // Release the camera when leaving the page
+  useEffect(() => {
+    const video = videoRef.current
+    return () => {
+      const stream = video?.srcObject as MediaStream | null
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [])
+
+  const startCamera = async () => {
+    if (!('BarcodeDetector' in window) || !navigator.mediaDevices?.getUserMedia) {
+      setCameraState('unsupported')
+      return
+    }
+    setCameraState('starting')
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream
+        await videoRef.current.play()
+      }
+      setCameraState('on')
+    } catch (err) {
+      console.error('[PassScanner] Camera unavailable:', err)
+      setCameraState('denied')
+    }
+  }
+
+  const signOut = async () => {
+    await fetch('/api/scanner/session', { method: 'DELETE' }).catch(() => undefined)
+    router.refresh()
+  }
+
+  const resultStyle = (verification?.valid ?? offlineCheck?.ok)
+    ? 'bg-green-50 border-green-300 text-green-900 dark:bg-green-900/20 dark:border-green-700 dark:text-green-200'
+    : 'bg-red-50 border-red-300 text-red-900 dark:bg-red-900/20 dark:border-red-700 dark:text-red-200'
+
+  const checkNextPass = () => {
+    setVerification(null)
+    setOfflineCheck(null)
+    setManualCode('')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">Check a pass</h1>
+        <p className="text-gray-600 dark:text-gray-400 mb-4">Checking passes in at {gymName}.</p>
+
+        <div className={`relative bg-black rounded-lg overflow-hidden aspect-square ${cameraState === 'on' ? '' : 'hidden'}`}>
+          <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+        </div>
+        {cameraState !== 'on' && (
+          <button
+            onClick={startCamera}
+            disabled={cameraState === 'starting'}
+            className="w-full px-4 py-3 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors font-semibold disabled:opacity-50"
+          >
+            {cameraState === 'starting' ? 'Starting camera...' : 'Scan QR code'}
+          </button>
+        )}
+        {cameraState === 'unsupported' && (
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            This browser can&apos;t scan QR codes - type the pass code below instead.
+          </p>
+        )}
+        {cameraState === 'denied' && (
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            Camera access was blocked - allow it in your browser settings, or type the pass code below.
+          </p>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (manualCode.trim()) checkPass(manualCode)
+          }}
+          className="flex gap-2 mt-4"
+        >
+          <input
+            type="text"
+            value={manualCode}
+            onChange={(e) => setManualCode(e.target.value)}
+            placeholder="Pass code, e.g. PF-1A2B3C"
+            aria-label="Pass code"
+            autoComplete="off"
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white font-mono uppercase"
+          />
+          <button
+            type="submit"
+            disabled={checking || !manualCode.trim()}
+            className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium disabled:opacity-50"
+          >
+            Check
+          </button>
+        </form>
+      </div>
+
+      {checking && <p className="text-center text-gray-600 dark:text-gray-400">Checking pass...</p>}
+      {error && (
+        <p className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-400">
+          {error}
+        </p>
+      )}
+
+      {verification && (
+        <div role="status" className={`rounded-lg border-2 p-6 ${resultStyle}`}>
+          <p className="text-2xl font-bold mb-3">{RESULT_MESSAGES[verification.result]}</p>
+          {verification.result === 'not_found' && verification.passCode && verificationKeys && (
+            <p className="text-sm mb-3">Typed codes only work for guest passes - scan the member&apos;s QR code instead.</p>
+          )}
+          <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm">
+            {verification.passCode && (
+              <>
+                <dt className="font-medium">Pass code</dt>
+                <dd className="font-mono">{verification.passCode}</dd>
+              </>
+            )}
+            {verification.memberName && (
+              <>
+                <dt className="font-medium">Member</dt>
+                <dd>{verification.memberName}</dd>
+              </>
+            )}
+            {verification.gymName && (
+              <>
+                <dt className="font-medium">Gym</dt>
+                <dd>{verification.gymName}</dd>
+              </>
+            )}
+            {verification.validUntil && (
+              <>
+                <dt className="font-medium">Valid until</dt>
+                <dd>{new Date(verification.validUntil).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}</dd>
+              </>
+            )}
+            {verification.usedAt && (
+              <>
+                <dt className="font-medium">{verification.alreadyUsed ? 'First used' : 'Checked in'}</dt>
+                <dd>{new Date(verification.usedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}</dd>
+              </>
+            )}
+          </dl>
+          <button
+            onClick={checkNextPass}
+            className="mt-4 w-full px-4 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-semibold"
+          >
+            Check next pass
+          </button>
+        </div>
+      )}
+
+      {offlineCheck && (
+        <div role="status" className={`rounded-lg border-2 p-6 ${resultStyle}`}>
+          <p className="text-2xl font-bold mb-3">
+            {offlineCheck.ok ? 'Genuine pass - let them in' : OFFLINE_FAILURE_MESSAGES[offlineCheck.reason]}
+          </p>
+          {offlineCheck.ok && (
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-1 text-sm mb-3">
+              <dt className="font-medium">Valid until</dt>
+              <dd>{new Date(offlineCheck.expiresAt * 1000).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' })}</dd>
+            </dl>
+          )}
+          <p className="text-sm">
+            Checked on this device with no connection, so anygym couldn&apos;t confirm the pass hasn&apos;t already
+            been used{offlineCheck.ok && ' or mark it used'}.
+          </p>
+          <button
+            onClick={checkNextPass}
+            className="mt-4 w-full px-4 py-2 bg-white text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors font-semibold"
+          >
+            Check next pass
+          </button>
+        </div>
+      )}
+
+      <button onClick={signOut} className="text-sm text-gray-500 dark:text-gray-400 underline hover:text-gray-700">
+        Sign this device out
+      </button>
+    </div>
+  )
+}
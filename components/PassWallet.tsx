@@ -0,0 +1,89 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { WalletPass, loadWalletPasses, unexpiredWalletPasses } from '@/lib/passWallet'
+import PassQRCode from './PassQRCode'
+
+/** Active passes from the offline wallet, each removed the moment it expires */
+export default function PassWallet() {
+  const [passes, setPasses] = useState<WalletPass[] | null>(null)
+  const [offline, setOffline] = useState(false)
+
+  useEffect(() => {
+    loadWalletPasses()
+      .then(setPasses)
+      .catch((error) => {
+        console.error('[PassWallet] Error loading wallet:', error)
+        setPasses([])
+      })
+
+    const updateOnline = () => setOffline(!navigator.onLine)
+    updateOnline()
+    window.addEventListener('online', updateOnline)
+    window.addEventListener('offline', updateOnline)
+    return () => {
+      window.removeEventListener('online', updateOnline)
+      window.removeEventListener('offline', updateOnline)
+    }
+  }, [])
+
+  // Drop the next pass to expire exactly at its validUntil
+  useEffect(() => {
+    if (!passes || passes.length === 0) return
+    const nextExpiry = Math.min(...passes.map((pass) => new Date(pass.validUntil).getTime()))
+    const timeoutId = setTimeout(() => setPasses((prev) => unexpiredWalletPasses(prev || [])), Math.max(nextExpiry - Date.now(), 0))
+    return () => clearTimeout(timeoutId)
+  }, [passes])
+
+  if (passes === null) {
+    return <p className="text-gray-600 dark:text-gray-400">Loading passes...</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      {offline && (
+        <p className="p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-900/20 dark:text-amber-200">
+          You&apos;re offline. These passes were saved the last time you opened My Passes.
+        </p>
+      )}
+
+      {passes.length > 0 ? (
+        passes.map((pass) => (
+          <div
+            key={pass.id}
+            className="p-6 rounded-2xl bg-green-50 dark:bg-green-900/20 shadow-lg border border-green-100 dark:border-green-800 flex flex-col items-center text-center"
+          >
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">{pass.gymName}</h2>
+            {pass.gymAddress && <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">{pass.gymAddress}</p>}
+            <div className="bg-white rounded-xl p-4 mt-4">
+              <PassQRCode passCode={pass.passCode} qrToken={pass.qrToken} className="w-56 h-56" />
+            </div>
+            {!pass.qrToken && (
+              <p className="text-lg font-mono font-bold text-gray-900 dark:text-white mt-4 break-all">{pass.passCode}</p>
+            )}
+            <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">
+              Valid until{' '}
+              {new Date(pass.validUntil).toLocaleString('en-US', {
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+                hour12: true,
+              })}
+            </p>
+          </div>
+        ))
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 text-center text-gray-600 dark:text-gray-400">
+          <p>No active passes saved on this device.</p>
+          {!offline && (
+            <Link href="/passes" className="inline-block mt-3 text-[#FF6B6B] font-semibold hover:text-[#FF5252]">
+              Go to My Passes
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
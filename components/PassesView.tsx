@@ -2,52 +2,69 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { Subscription, GymPass } from '@/lib/types'
+import Link from 'next/link'
+import { Subscription, GymPass, GuestPass } from '@/lib/types'
+import { mapMembership } from '@/lib/subscription'
+import { usePassGeneration } from '@/hooks/usePassGeneration'
 import TermsModal from '@/components/TermsModal'
-
-interface PassHistoryItem {
-  gym: {
-    id: number
-    name: string
-    gym_chain_id?: number
-  }
-  chain?: {
-    id: number
-    name: string
-    logo_url?: string
-  }
-  passes: Array<{
-    id: number
-    createdAt: Date
-    usedAt: Date | null
-    status: string
-    subscriptionTier?: string
-  }>
-  visitCount: number
-  lastVisit: Date
-}
+import PassIneligibleNotice from '@/components/PassIneligibleNotice'
+import GuestPassForm from '@/components/GuestPassForm'
+import CancelPassDialog from '@/components/CancelPassDialog'
+import { passCancelBlocker } from '@/lib/passCancellation'
+import { syncWalletPasses } from '@/lib/passWallet'
+import PassQRCode from '@/components/PassQRCode'
+import PassHistoryFilters from '@/components/PassHistoryFilters'
+import VisitsByMonth from '@/components/VisitsByMonth'
+import { PassHistoryPage, PassHistoryQuery, passHistorySearchParams } from '@/lib/passHistory'
 
 interface PassesViewProps {
   subscription: Subscription | null
   activePasses: GymPass[]
-  passHistory: PassHistoryItem[]
+  /** First page of the pass history, unfiltered */
+  passHistory: PassHistoryPage
+  guestPasses?: GuestPass[]
+  /** Which phone wallets passes can be exported to */
+  walletExport?: { apple: boolean; google: boolean }
+}
+
+const GUEST_PASS_STATUS_STYLES: Record<GuestPass['status'], string> = {
+  pending_acceptance: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  active: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  used: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  expired: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  cancelled: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+}
+
+const GUEST_PASS_STATUS_LABELS: Record<GuestPass['status'], string> = {
+  pending_acceptance: 'Awaiting acceptance',
+  active: 'Active',
+  used: 'Used',
+  expired: 'Expired',
+  cancelled: 'Cancelled',
 }
 
 export default function PassesView({
   subscription: initialSubscription,
   activePasses: initialActivePasses,
   passHistory: initialPassHistory,
+  guestPasses: initialGuestPasses = [],
+  walletExport = { apple: false, google: false },
 }: PassesViewProps) {
   const router = useRouter()
   const [expandedGyms, setExpandedGyms] = useState<Set<number>>(new Set())
-  const [showTermsModal, setShowTermsModal] = useState<{ gymId: number; chain: any } | null>(null)
-  const [loadingGymId, setLoadingGymId] = useState<number | null>(null)
-  const [error, setError] = useState<string | null>(null)
   
   // Local state for data that can be updated without page reload
   const [subscription, setSubscription] = useState<Subscription | null>(initialSubscription)
   const [activePasses, setActivePasses] = useState<GymPass[]>(initialActivePasses)
-  const [passHistory, setPassHistory] = useState<PassHistoryItem[]>(initialPassHistory)
+  const [passHistory, setPassHistory] = useState<PassHistoryPage>(initialPassHistory)
+  const [historyQuery, setHistoryQuery] = useState<PassHistoryQuery>({ page: 1 })
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [historyError, setHistoryError] = useState<string | null>(null)
+  const [guestPasses, setGuestPasses] = useState<GuestPass[]>(initialGuestPasses)
+  const [showGuestPassForm, setShowGuestPassForm] = useState(false)
+  const [guestPassNotice, setGuestPassNotice] = useState<string | null>(null)
+  const [resendingGuestPassId, setResendingGuestPassId] = useState<number | null>(null)
+  const [cancellingPass, setCancellingPass] = useState<GymPass | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
   
   // Debug logging with error handling
@@ -57,12 +74,7 @@ export default function PassesView({
       console.log('[PassesView] subscription:', subscription)
       console.log('[PassesView] subscription exists?', !!subscription)
       console.log('[PassesView] passHistory:', passHistory)
-      console.log('[PassesView] passHistory length:', passHistory?.length || 0)
-      console.log('[PassesView] passHistory type:', typeof passHistory)
-      console.log('[PassesView] passHistory is array:', Array.isArray(passHistory))
-      if (passHistory && passHistory.length > 0) {
-        console.log('[PassesView] First pass history item:', passHistory[0])
-      }
+      console.log('[PassesView] passHistory gyms on page:', passHistory.items.length, 'of', passHistory.totalGyms)
       console.log('[PassesView] activePasses:', activePasses)
       console.log('[PassesView] activePasses length:', activePasses?.length || 0)
     } catch (error) {
@@ -190,8 +202,8 @@ export default function PassesView({
   const guestPassesPercentage =
     guestPassesLimit > 0 ? (guestPassesUsed / guestPassesLimit) * 100 : 0
 
-  const totalGyms = passHistory?.length || 0
-  const totalPasses = passHistory?.reduce((sum, item) => sum + item.visitCount, 0) || 0
+  const totalGyms = passHistory.totalGyms
+  const totalPasses = passHistory.totalPasses
   
   console.log('[PassesView] Calculated totals - totalGyms:', totalGyms, 'totalPasses:', totalPasses)
 
@@ -207,48 +219,6 @@ export default function PassesView({
     })
   }
 
-  const handleGenerateNewPass = async (gymId: number, chain?: any) => {
-    setError(null)
-
-    try {
-      // Always fetch full chain data to check for terms and health statements
-      // The chain data from pass history may only have basic info (name, logo) without terms
-      try {
-        const response = await fetch(`/api/gyms/${gymId}`)
-        if (response.ok) {
-          const data = await response.json()
-          if (data.gym_chain) {
-            const chainData = data.gym_chain
-            // Check if terms exist - either as URL or as markdown content
-            const hasTerms = 
-              (chainData.terms_url && typeof chainData.terms_url === 'string' && chainData.terms_url.trim() !== '') ||
-              (chainData.terms && typeof chainData.terms === 'string' && chainData.terms.trim() !== '')
-            
-            // Check if health statement exists - either as URL or as markdown content
-            const hasHealthStatement =
-              (chainData.health_statement_url && typeof chainData.health_statement_url === 'string' && chainData.health_statement_url.trim() !== '') ||
-              (chainData.health_statement && typeof chainData.health_statement === 'string' && chainData.health_statement.trim() !== '')
-
-            if (hasTerms || hasHealthStatement) {
-              // Show terms modal with full chain data
-              setShowTermsModal({ gymId, chain: chainData })
-              return
-            }
-          }
-        }
-      } catch (fetchError) {
-        console.error('Error fetching gym chain data:', fetchError)
-        // Continue to generate pass without terms check if fetch fails
-      }
-
-      // No terms found, generate pass directly
-      await generatePass(gymId)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-      setLoadingGymId(null)
-    }
-  }
-
   // Function to refresh passes data from API
   const refreshPassesData = async () => {
     setIsRefreshing(true)
@@ -270,36 +240,7 @@ export default function PassesView({
 
       // Update subscription
       if (data.subscription) {
-        const sub = data.subscription
-        let nextBillingDate: Date
-        if (sub.next_billing_date) {
-          const dateStr = sub.next_billing_date
-          nextBillingDate = /^\d{4}-\d{2}-\d{2}$/.test(dateStr)
-            ? new Date(dateStr + 'T23:59:59.999Z')
-            : new Date(dateStr)
-        } else {
-          nextBillingDate = sub.current_period_end ? new Date(sub.current_period_end) : new Date()
-        }
-        
-        setSubscription({
-          id: sub.id || 0,
-          userId: sub.user_id || '',
-          tier: sub.tier || 'standard',
-          monthlyLimit: Number(sub.monthly_limit || 0),
-          visitsUsed: Number(sub.visits_used || 0),
-          price: parseFloat(sub.price || 0),
-          startDate: sub.start_date ? new Date(sub.start_date) : (sub.current_period_start ? new Date(sub.current_period_start) : new Date()),
-          nextBillingDate,
-          currentPeriodStart: sub.current_period_start ? new Date(sub.current_period_start) : new Date(),
-          currentPeriodEnd: sub.current_period_end ? new Date(sub.current_period_end) : new Date(),
-          status: sub.status || 'active',
-          stripeSubscriptionId: sub.stripe_subscription_id,
-          stripeCustomerId: sub.stripe_customer_id,
-          guestPassesLimit: Number(sub.guest_passes_limit || 0),
-          guestPassesUsed: Number(sub.guest_passes_used || 0),
-          createdAt: sub.created_at ? new Date(sub.created_at) : (sub.current_period_start ? new Date(sub.current_period_start) : new Date()),
-          updatedAt: sub.updated_at ? new Date(sub.updated_at) : (sub.current_period_end ? new Date(sub.current_period_end) : new Date()),
-        })
+        setSubscription(mapMembership(data.subscription, subscription?.userId))
       }
 
       // Update active passes
@@ -333,7 +274,7 @@ export default function PassesView({
               gym_chain_id: p.gym_chain_id,
               required_tier: 'standard',
               amenities: [],
-              opening_hours: {},
+              opening_hours: null,
               image_url: undefined,
               rating: undefined,
               status: 'active',
@@ -353,6 +294,7 @@ export default function PassesView({
             validUntil: p.valid_until ? new Date(p.valid_until) : new Date(),
             usedAt: p.used_at ? new Date(p.used_at) : undefined,
             qrCodeUrl: p.qrcode_url || p.qr_code_url, // API uses qrcode_url
+            qrToken: result.qrTokens?.[p.id],
             subscriptionTier: p.subscription_tier,
             passCost: p.pass_cost ? parseFloat(p.pass_cost) : undefined,
             createdAt: p.created_at ? new Date(p.created_at) : new Date(),
@@ -377,40 +319,77 @@ export default function PassesView({
     }
   }
 
-  const generatePass = async (gymId: number) => {
-    setShowTermsModal(null)
-    setLoadingGymId(gymId)
-    setError(null)
+  // Refresh data from API instead of redirecting
+  const passGeneration = usePassGeneration({ onSuccess: refreshPassesData })
+  const generation = passGeneration.state
+  const loadingGymId = passGeneration.busy && 'gymId' in generation ? generation.gymId : null
 
+  // Keep the offline wallet in step with the passes shown here
+  useEffect(() => {
+    syncWalletPasses(activePasses)
+  }, [activePasses])
+
+  const handleGuestInvited = (guestPass: GuestPass, emailSent: boolean) => {
+    setShowGuestPassForm(false)
+    setGuestPasses((prev) => [guestPass, ...prev])
+    // The invitation holds one of the guest passes until it's accepted or expires
+    setSubscription((prev) => (prev ? { ...prev, guestPassesUsed: Number(prev.guestPassesUsed || 0) + 1 } : prev))
+    setGuestPassNotice(
+      emailSent
+        ? `Invitation sent to ${guestPass.guestEmail}. Their pass will be issued once they accept the gym's terms.`
+        : `Invitation created, but we couldn't email ${guestPass.guestEmail}. Use "Resend invitation" under Guest Passes to try again.`
+    )
+  }
+
+  const handleResendInvitation = async (guestPass: GuestPass) => {
+    setResendingGuestPassId(guestPass.id)
+    setGuestPassNotice(null)
     try {
-      console.log('[PassesView] generatePass called with gymId:', gymId, 'type:', typeof gymId)
-      
-      const response = await fetch('/api/passes/generate', {
+      const response = await fetch('/api/passes/guest/resend', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ gymId: gymId }),
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ guestPassId: guestPass.id }),
       })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to resend invitation')
+      }
+      setGuestPassNotice(`Invitation sent to ${guestPass.guestEmail} again.`)
+    } catch (error) {
+      console.error('Error resending guest invitation:', error)
+      setGuestPassNotice((error as Error).message)
+    } finally {
+      setResendingGuestPassId(null)
+    }
+  }
 
+  const loadPassHistory = async (query: PassHistoryQuery) => {
+    setHistoryQuery(query)
+    setHistoryLoading(true)
+    setHistoryError(null)
+    try {
+      const response = await fetch(`/api/passes/history?${passHistorySearchParams(query)}`)
       const data = await response.json()
-      
-      console.log('[PassesView] generatePass response status:', response.status)
-      console.log('[PassesView] generatePass response data:', data)
-
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate pass')
+        throw new Error(data.error || 'Failed to load pass history')
       }
-
-      // Refresh data from API instead of redirecting
-      await refreshPassesData()
-      setLoadingGymId(null)
+      setPassHistory(data)
+      setExpandedGyms(new Set())
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred')
-      setLoadingGymId(null)
+      console.error('[PassesView] Error loading pass history:', err)
+      setHistoryError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setHistoryLoading(false)
     }
   }
 
+  const handlePassCancelled = async (passId: number) => {
+    setCancellingPass(null)
+    setActivePasses((prev) => prev.filter((pass) => pass.id !== passId))
+    // Picks up the visit returned to the allowance, and the pass in the history
+    await Promise.all([refreshPassesData(), loadPassHistory(historyQuery)])
+  }
+
   // Force render values to ensure they're displayed
   const tierDisplay = tier ? tier.charAt(0).toUpperCase() + tier.slice(1) : 'Premium'
   const visitsDisplay = `${visitsUsed}${monthlyLimit > 0 ? `/${monthlyLimit}` : ''}`
@@ -525,6 +504,20 @@ export default function PassesView({
             <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
               Resets monthly.
             </p>
+            {subscription && guestPassesRemaining > 0 && (
+              <button
+                onClick={() => {
+                  setGuestPassNotice(null)
+                  setShowGuestPassForm(true)
+                }}
+                className="mt-3 px-4 py-2 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors text-sm font-semibold"
+              >
+                Invite a guest
+              </button>
+            )}
+            {guestPassNotice && (
+              <p className="mt-3 text-sm text-gray-700 dark:text-gray-300">{guestPassNotice}</p>
+            )}
           </div>
         </div>
       </div>
@@ -548,6 +541,15 @@ export default function PassesView({
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
               Active Passes
             </h2>
+            {activePasses.length > 0 && (
+              <Link
+                href="/wallet"
+                className="ml-auto text-sm font-medium text-[#FF6B6B] hover:text-[#FF5252]"
+                title="Your active passes, saved on this device for when you have no signal"
+              >
+                Offline wallet
+              </Link>
+            )}
           </div>
           {activePasses.length > 0 ? (
             <div className="space-y-4">
@@ -631,8 +633,8 @@ export default function PassesView({
                         </p>
                       </div>
 
-                      {/* Pass Code - White Box */}
-                      {pass.passCode && (
+                      {/* Pass Code - White Box. Signed passes are only let in by their QR code */}
+                      {pass.passCode && !pass.qrToken && (
                         <div className="bg-white dark:bg-gray-800 rounded-xl p-4 mt-4">
                           <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
                             Pass Code
@@ -642,17 +644,45 @@ export default function PassesView({
                           </p>
                         </div>
                       )}
+
+                      {(walletExport.apple || walletExport.google) && (
+                        <div className="flex flex-wrap gap-2">
+                          {walletExport.apple && (
+                            <a
+                              href={`/api/passes/${pass.id}/wallet/apple`}
+                              className="px-3 py-1.5 bg-black text-white rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors"
+                            >
+                              Add to Apple Wallet
+                            </a>
+                          )}
+                          {walletExport.google && (
+                            <a
+                              href={`/api/passes/${pass.id}/wallet/google`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="px-3 py-1.5 bg-black text-white rounded-lg text-sm font-medium hover:bg-gray-800 transition-colors"
+                            >
+                              Add to Google Wallet
+                            </a>
+                          )}
+                        </div>
+                      )}
+
+                      {passCancelBlocker(pass) === null && (
+                        <button
+                          onClick={() => setCancellingPass(pass)}
+                          className="text-sm font-medium text-gray-600 dark:text-gray-400 underline hover:text-gray-900 dark:hover:text-white"
+                        >
+                          Cancel pass
+                        </button>
+                      )}
                     </div>
 
                     {/* Right Side - QR Code */}
                     {pass.passCode && (
                       <div className="flex flex-col items-center">
-                        <div className="bg-white dark:bg-gray-800 rounded-xl p-4">
-                          <img
-                            src={`https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(pass.passCode)}`}
-                            alt="Pass QR Code"
-                            className="w-32 h-32"
-                          />
+                        <div className="bg-white rounded-xl p-4">
+                          <PassQRCode passCode={pass.passCode} qrToken={pass.qrToken} />
                         </div>
                         <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mt-2">
                           Scan at gym
@@ -685,6 +715,55 @@ export default function PassesView({
           )}
       </div>
 
+      {/* Guest Passes Section */}
+      {guestPasses.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+            Guest Passes
+          </h2>
+          <div className="space-y-3">
+            {guestPasses.map((guestPass) => (
+              <div
+                key={guestPass.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-4 rounded-lg border border-gray-200 dark:border-gray-700"
+              >
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {guestPass.guestName}{' '}
+                    <span className="text-sm font-normal text-gray-500 dark:text-gray-400">{guestPass.guestEmail}</span>
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {guestPass.gymName} · Invited{' '}
+                    {guestPass.createdAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                  </p>
+                </div>
+                <div className="sm:text-right">
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${GUEST_PASS_STATUS_STYLES[guestPass.status]}`}>
+                    {GUEST_PASS_STATUS_LABELS[guestPass.status]}
+                  </span>
+                  {guestPass.status === 'active' && guestPass.validUntil && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      {guestPass.passCode} · until{' '}
+                      {guestPass.validUntil.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                  )}
+                  {guestPass.status === 'pending_acceptance' &&
+                    (!guestPass.acceptanceExpiresAt || guestPass.acceptanceExpiresAt.getTime() > Date.now()) && (
+                      <button
+                        onClick={() => handleResendInvitation(guestPass)}
+                        disabled={resendingGuestPassId !== null}
+                        className="block sm:ml-auto mt-1 text-sm text-[#FF6B6B] hover:underline disabled:opacity-50 disabled:no-underline"
+                      >
+                        {resendingGuestPassId === guestPass.id ? 'Sending...' : 'Resend invitation'}
+                      </button>
+                    )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Pass History Section */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
           <div className="flex items-center justify-between mb-4">
@@ -698,14 +777,34 @@ export default function PassesView({
               </span>
             )}
           </div>
-          {error && (
+          {generation.status === 'error' && (
+            generation.eligibility ? (
+              <PassIneligibleNotice message={generation.message} action={generation.eligibility.action} className="mb-4" />
+            ) : (
+              <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400 text-sm">
+                {generation.message}
+              </div>
+            )
+          )}
+          {initialPassHistory.totalPasses > 0 && (
+            <>
+              <PassHistoryFilters
+                query={historyQuery}
+                gyms={initialPassHistory.visitsByGym}
+                onChange={loadPassHistory}
+                disabled={historyLoading}
+              />
+              <VisitsByMonth visitsByMonth={passHistory.visitsByMonth} />
+            </>
+          )}
+          {historyError && (
             <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400 text-sm">
-              {error}
+              {historyError}
             </div>
           )}
-          {passHistory.length > 0 ? (
-            <div className="space-y-2">
-              {passHistory.map((item) => {
+          {passHistory.items.length > 0 ? (
+            <div className={`space-y-2 ${historyLoading ? 'opacity-50' : ''}`}>
+              {passHistory.items.map((item) => {
                 const isExpanded = expandedGyms.has(item.gym.id)
                 return (
                   <div
@@ -747,6 +846,11 @@ export default function PassesView({
                           <p className="text-sm font-semibold text-gray-900 dark:text-white">
                             {item.visitCount} visit{item.visitCount !== 1 ? 's' : ''}
                           </p>
+                          {item.passCount !== item.visitCount && (
+                            <p className="text-xs text-gray-600 dark:text-gray-400">
+                              {item.passCount} pass{item.passCount !== 1 ? 'es' : ''}
+                            </p>
+                          )}
                           <p className="text-xs text-gray-600 dark:text-gray-400">
                             Last: {item.lastVisit ? new Date(item.lastVisit).toLocaleDateString('en-US', {
                               month: 'short',
@@ -758,7 +862,7 @@ export default function PassesView({
                         <button
                           onClick={(e) => {
                             e.stopPropagation()
-                            handleGenerateNewPass(item.gym.id, item.chain)
+                            passGeneration.start(item.gym.id)
                           }}
                           disabled={loadingGymId === item.gym.id}
                           className="px-4 py-2 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm flex items-center gap-2 whitespace-nowrap"
@@ -825,6 +929,8 @@ export default function PassesView({
                                             ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
                                             : pass.status === 'expired'
                                             ? 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                                            : pass.status === 'cancelled'
+                                            ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
                                             : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
                                         }`}
                                       >
@@ -845,6 +951,11 @@ export default function PassesView({
                               </div>
                             )
                           })}
+                          {item.passCount > item.passes.length && (
+                            <p className="text-xs text-gray-600 dark:text-gray-400">
+                              Showing the latest {item.passes.length} of {item.passCount} passes
+                            </p>
+                          )}
                         </div>
                       </div>
                     )}
@@ -854,21 +965,51 @@ export default function PassesView({
             </div>
           ) : (
             <div className="text-center py-8 text-gray-600 dark:text-gray-400">
-              <p>No pass history yet</p>
+              <p>{initialPassHistory.totalPasses > 0 ? 'No passes match these filters' : 'No pass history yet'}</p>
+            </div>
+          )}
+          {passHistory.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-4">
+              <button
+                onClick={() => loadPassHistory({ ...historyQuery, page: passHistory.page - 1 })}
+                disabled={historyLoading || passHistory.page <= 1}
+                className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600 dark:text-gray-400">
+                Page {passHistory.page} of {passHistory.totalPages}
+              </span>
+              <button
+                onClick={() => loadPassHistory({ ...historyQuery, page: passHistory.page + 1 })}
+                disabled={historyLoading || passHistory.page >= passHistory.totalPages}
+                className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium disabled:opacity-50"
+              >
+                Next
+              </button>
             </div>
           )}
       </div>
 
+      {showGuestPassForm && (
+        <GuestPassForm onClose={() => setShowGuestPassForm(false)} onInvited={handleGuestInvited} />
+      )}
+
+      {cancellingPass && (
+        <CancelPassDialog
+          pass={{ id: cancellingPass.id, createdAt: cancellingPass.createdAt, gymName: cancellingPass.gym?.name || 'this gym' }}
+          onClose={() => setCancellingPass(null)}
+          onCancelled={handlePassCancelled}
+        />
+      )}
+
       {/* Terms Modal */}
-      {showTermsModal && (
+      {generation.status === 'awaiting_consent' && (
         <TermsModal
-          chain={showTermsModal.chain}
-          onAccept={() => generatePass(showTermsModal.gymId)}
-          onCancel={() => {
-            setShowTermsModal(null)
-            setLoadingGymId(null)
-            setError(null)
-          }}
+          chain={generation.terms.chain}
+          updated={generation.terms.previouslyAccepted}
+          onAccept={passGeneration.accept}
+          onCancel={passGeneration.cancel}
         />
       )}
     </div>
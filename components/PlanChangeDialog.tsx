@@ -0,0 +1,193 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { StripeProduct } from '@/app/api/stripe/products/route'
+import type { PlanChangePreview, PlanChangeResult, PlanChangeTiming } from '@/lib/planChange'
+
+interface PlanChangeDialogProps {
+  product: StripeProduct
+  onClose: () => void
+  onChanged: (result: PlanChangeResult) => void
+  /** Called instead of showing the dialog when the member has no subscription to change */
+  onNoSubscription?: () => void
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })
+}
+
+function formatAmount(amount: number): string {
+  return `£${Math.abs(amount).toFixed(2)}`
+}
+
+/**
+ * Confirms a switch to `product` on the member's existing subscription,
+ * showing the prorated charge or credit. Downgrades can take effect now
+ * or at the end of the billing period.
+ */
+export default function PlanChangeDialog({ product, onClose, onChanged, onNoSubscription }: PlanChangeDialogProps) {
+  const [timing, setTiming] = useState<PlanChangeTiming>('immediate')
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchPreview = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch('/api/stripe/change-plan/preview', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ priceId: product.stripePriceId, timing }),
+        })
+        const data = await response.json().catch(() => ({}))
+        if (cancelled) return
+        if (data.code === 'no_subscription' && onNoSubscription) {
+          onNoSubscription()
+          return
+        }
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to preview plan change')
+        }
+        setPreview(data.preview)
+      } catch (err) {
+        console.error('[PlanChangeDialog] Error previewing plan change:', err)
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'An error occurred')
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    fetchPreview()
+    return () => {
+      cancelled = true
+    }
+  }, [product.stripePriceId, timing, onNoSubscription])
+
+  const handleConfirm = async () => {
+    if (!preview) return
+    setSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/stripe/change-plan', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ priceId: product.stripePriceId, timing, prorationToken: preview.prorationToken }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to change plan')
+      }
+      onChanged({ timing: data.timing, effectiveAt: data.effectiveAt, newTier: data.newTier })
+    } catch (err) {
+      console.error('[PlanChangeDialog] Error changing plan:', err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setSubmitting(false)
+    }
+  }
+
+  const isDowngrade = preview?.direction === 'downgrade'
+  const visitsLeft = preview ? Math.max(preview.newMonthlyLimit - preview.visitsUsed, 0) : 0
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+      onClick={submitting ? undefined : onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4">Switch to {product.name}</h2>
+
+        {error && (
+          <p className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-400">
+            {error}
+          </p>
+        )}
+
+        {loading && !preview ? (
+          <p className="text-gray-600 dark:text-gray-400">Working out the cost...</p>
+        ) : preview && (
+          <div className={`space-y-4 text-sm text-gray-700 dark:text-gray-300 ${loading ? 'opacity-50' : ''}`}>
+            {isDowngrade && (
+              <fieldset className="space-y-2">
+                <legend className="font-medium text-gray-900 dark:text-white mb-2">When should the change happen?</legend>
+                <label className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    name="plan-change-timing"
+                    checked={timing === 'period_end'}
+                    onChange={() => setTiming('period_end')}
+                    className="mt-1"
+                  />
+                  <span>At the end of this billing period, on {formatDate(preview.nextRenewalDate)}</span>
+                </label>
+                <label className="flex items-start gap-2">
+                  <input
+                    type="radio"
+                    name="plan-change-timing"
+                    checked={timing === 'immediate'}
+                    onChange={() => setTiming('immediate')}
+                    className="mt-1"
+                  />
+                  <span>Now, with credit for the rest of this period</span>
+                </label>
+              </fieldset>
+            )}
+
+            {preview.timing === 'immediate' ? (
+              <p>
+                {preview.amountDue > 0
+                  ? `You'll be charged ${formatAmount(preview.amountDue)} today for the rest of this billing period.`
+                  : preview.amountDue < 0
+                    ? `${formatAmount(preview.amountDue)} of credit will come off your next payment.`
+                    : 'There\'s nothing to pay today.'}
+              </p>
+            ) : (
+              <p>You&apos;ll stay on your current plan until {formatDate(preview.effectiveAt)}.</p>
+            )}
+            <p>
+              From {formatDate(preview.nextRenewalDate)} you&apos;ll pay {formatAmount(preview.nextRenewalAmount)}/month.
+            </p>
+            {preview.timing === 'immediate' && (
+              <p>
+                You&apos;ve used {preview.visitsUsed} {preview.visitsUsed === 1 ? 'visit' : 'visits'} this period, which
+                carry over - leaving {visitsLeft} of {preview.newMonthlyLimit} on your new plan until your next renewal.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors font-medium disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!preview || loading || submitting}
+            className="flex-1 px-4 py-2 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Switching...' : 'Confirm'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
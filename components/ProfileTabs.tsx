@@ -4,6 +4,12 @@ import { useState, useEffect } from 'react'
 import { Subscription } from '@/lib/types'
 import { StripeProduct } from '@/app/api/stripe/products/route'
 import SubscriptionManager from './SubscriptionManager'
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_LABELS,
+  NotificationCategory,
+  NotificationPreferences,
+} from '@/lib/notificationPreferences'
 
 interface ProfileTabsProps {
   userEmail: string
@@ -23,8 +29,7 @@ interface ProfileData {
   addressPostcode: string
   emergencyContactName: string
   emergencyContactNumber: string
-  passNotificationConsent: boolean
-  marketingConsent: boolean
+  notificationPreferences: NotificationPreferences
 }
 
 export default function ProfileTabs({
@@ -82,8 +87,9 @@ export default function ProfileTabs({
     addressPostcode: '',
     emergencyContactName: '',
     emergencyContactNumber: '',
-    passNotificationConsent: false,
-    marketingConsent: false,
+    notificationPreferences: {
+      email: { pass_reminders: true, billing: true, marketing: false, newsletters: false },
+    },
   })
 
   useEffect(() => {
@@ -97,13 +103,9 @@ export default function ProfileTabs({
       if (!response.ok) {
         throw new Error('Failed to fetch profile data')
       }
-      const data = await response.json()
-      // Ensure boolean values are properly set
-      setProfileData({
-        ...data,
-        passNotificationConsent: data.passNotificationConsent === true || data.passNotificationConsent === 'true' || data.passNotificationConsent === 1,
-        marketingConsent: data.marketingConsent === true || data.marketingConsent === 'true' || data.marketingConsent === 1,
-      })
+      // The legacy consent flags are derived from notificationPreferences, so only keep those
+      const { passNotificationConsent: _passNotificationConsent, marketingConsent: _marketingConsent, ...data } = await response.json()
+      setProfileData(data)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load profile')
     } finally {
@@ -111,6 +113,16 @@ export default function ProfileTabs({
     }
   }
 
+  const setEmailPreference = (category: NotificationCategory, enabled: boolean) => {
+    setProfileData({
+      ...profileData,
+      notificationPreferences: {
+        ...profileData.notificationPreferences,
+        email: { ...profileData.notificationPreferences.email, [category]: enabled },
+      },
+    })
+  }
+
   const handleSave = async () => {
     try {
       setSaving(true)
@@ -425,49 +437,28 @@ export default function ProfileTabs({
                       Notification Preferences
                     </h3>
                     <div className="space-y-4">
-                      {/* Pass Notification Consent */}
-                      <div className="flex items-start">
-                        <div className="flex items-center h-5">
-                          <input
-                            type="checkbox"
-                            id="passNotificationConsent"
-                            checked={profileData.passNotificationConsent}
-                            onChange={(e) => setProfileData({ ...profileData, passNotificationConsent: e.target.checked })}
-                            disabled={!isEditing}
-                            className="w-4 h-4 text-[#FF6B6B] bg-gray-100 border-gray-300 rounded focus:ring-[#FF6B6B] focus:ring-2 dark:bg-gray-700 dark:border-gray-600 dark:focus:ring-[#FF6B6B] disabled:opacity-50 disabled:cursor-not-allowed"
-                          />
-                        </div>
-                        <div className="ml-3 text-sm">
-                          <label htmlFor="passNotificationConsent" className={`font-medium ${isEditing ? 'text-gray-700 dark:text-gray-300 cursor-pointer' : 'text-gray-700 dark:text-gray-300'}`}>
-                            Pass Notifications
-                          </label>
-                          <p className="text-gray-500 dark:text-gray-400">
-                            Receive notifications about your gym passes
-                          </p>
+                      {NOTIFICATION_CATEGORIES.map((category) => (
+                        <div key={category} className="flex items-start">
+                          <div className="flex items-center h-5">
+                            <input
+                              type="checkbox"
+                              id={`email-${category}`}
+                              checked={profileData.notificationPreferences.email[category]}
+                              onChange={(e) => setEmailPreference(category, e.target.checked)}
+                              disabled={!isEditing}
+                              className="w-4 h-4 text-[#FF6B6B] bg-gray-100 border-gray-300 rounded focus:ring-[#FF6B6B] focus:ring-2 dark:bg-gray-700 dark:border-gray-600 dark:focus:ring-[#FF6B6B] disabled:opacity-50 disabled:cursor-not-allowed"
+                            />
+                          </div>
+                          <div className="ml-3 text-sm">
+                            <label htmlFor={`email-${category}`} className={`font-medium ${isEditing ? 'text-gray-700 dark:text-gray-300 cursor-pointer' : 'text-gray-700 dark:text-gray-300'}`}>
+                              {NOTIFICATION_CATEGORY_LABELS[category].label} emails
+                            </label>
+                            <p className="text-gray-500 dark:text-gray-400">
+                              {NOTIFICATION_CATEGORY_LABELS[category].description}
+                            </p>
+                          </div>
                         </div>
-                      </div>
-
-                      {/* Marketing Consent */}
-                      <div className="flex items-start">
-                        <div className="flex items-center h-5">
-                          <input
-                            type="checkbox"
-                            id="marketingConsent"
-                            checked={profileData.marketingConsent}
-                            onChange={(e) => setProfileData({ ...profileData, marketingConsent: e.target.checked })}
-                            disabled={!isEditing}
-                            className="w-4 h-4 text-[#FF6B6B] bg-gray-100 border-gray-300 rounded focus:ring-[#FF6B6B] focus:ring-2 dark:bg-gray-700 dark:border-gray-600 dark:focus:ring-[#FF6B6B] disabled:opacity-50 disabled:cursor-not-allowed"
-                          />
-                        </div>
-                        <div className="ml-3 text-sm">
-                          <label htmlFor="marketingConsent" className={`font-medium ${isEditing ? 'text-gray-700 dark:text-gray-300 cursor-pointer' : 'text-gray-700 dark:text-gray-300'}`}>
-                            Marketing Communications
-                          </label>
-                          <p className="text-gray-500 dark:text-gray-400">
-                            Receive marketing emails and promotional offers
-                          </p>
-                        </div>
-                      </div>
+                      ))}
                     </div>
                   </div>
 
@@ -0,0 +1,73 @@
+'use client'
+
+import Link from 'next/link'
+import { Gym } from '@/lib/types'
+import { formatDistance } from '@/lib/geocoding'
+import { useRecommendedGyms } from '@/hooks/useRecommendedGyms'
+
+interface RecommendedGymsProps {
+  limit?: number
+  /** Open the gym in place, e.g. on the map - otherwise cards link to it on the dashboard */
+  onSelect?: (gym: Gym) => void
+  className?: string
+}
+
+function visitsLabel(visits: number): string {
+  return visits === 1 ? 'Visited once' : `Visited ${visits} times`
+}
+
+/** "Gyms near you" - the member's recommended gyms as a row of cards */
+export default function RecommendedGyms({ limit, onSelect, className = '' }: RecommendedGymsProps) {
+  const { recommendations, postcode, loading, error } = useRecommendedGyms(limit)
+
+  // Recommendations are an extra - if they fail the rest of the page still works
+  if (error || (!loading && recommendations.length === 0)) {
+    return null
+  }
+
+  const cardClassName =
+    'flex-shrink-0 w-56 text-left p-3 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-[#FF6B6B] hover:shadow-md transition'
+
+  return (
+    <section className={className}>
+      <div className="flex items-baseline justify-between mb-2">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Gyms near you</h2>
+        {!loading && !postcode && (
+          <Link href="/profile" className="text-sm text-[#FF6B6B] hover:underline">
+            Add your postcode to see the closest
+          </Link>
+        )}
+      </div>
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {loading
+          ? Array.from({ length: 3 }, (_, index) => (
+              <div key={index} className="flex-shrink-0 w-56 h-20 rounded-lg bg-gray-100 dark:bg-gray-800 animate-pulse" />
+            ))
+          : recommendations.map(({ gym, visits }) => {
+              const details = (
+                <>
+                  <p className="font-medium text-gray-900 dark:text-white truncate">{gym.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {[gym.gym_chain_name, gym.city].filter(Boolean).join(' · ')}
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+                    {[gym.distanceKm != null ? `${formatDistance(gym.distanceKm)} away` : null, visits > 0 ? visitsLabel(visits) : null]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                </>
+              )
+              return onSelect ? (
+                <button key={gym.id} type="button" onClick={() => onSelect(gym)} className={cardClassName}>
+                  {details}
+                </button>
+              ) : (
+                <Link key={gym.id} href={`/dashboard?gym=${gym.id}`} className={cardClassName}>
+                  {details}
+                </Link>
+              )
+            })}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import type { GymSuggestion } from '@/lib/searchIndex'
+import { useGymSuggestions } from '@/hooks/useGymSuggestions'
+import GymSuggestionList from './GymSuggestionList'
+
+interface IssuedAccess {
+  gymName: string
+  accessCode: string
+  signInUrl: string
+  expiresAt: string
+  resultKey: string
+  verificationKey: string | null
+  codeKey: string | null
+}
+
+/** Pick a gym and issue its front desk a scanner access code */
+export default function ScannerAccessForm() {
+  const [gymQuery, setGymQuery] = useState('')
+  const [gymId, setGymId] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [issued, setIssued] = useState<IssuedAccess | null>(null)
+
+  const handleGymSelect = useCallback((suggestion: GymSuggestion) => {
+    if (suggestion.gym) {
+      setGymId(suggestion.gym.id)
+      setGymQuery(suggestion.gym.name)
+    }
+  }, [])
+
+  const suggestions = useGymSuggestions(gymQuery, handleGymSelect, ['gym'])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!gymId) return
+    setLoading(true)
+    setError(null)
+    setIssued(null)
+    try {
+      const response = await fetch('/api/admin/scanner-access', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ gymId }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to issue access code')
+      }
+      setIssued(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-4">
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <input
+            type="text"
+            value={gymQuery}
+            onChange={(e) => {
+              setGymQuery(e.target.value)
+              setGymId(null)
+              suggestions.open()
+            }}
+            onKeyDown={suggestions.handleKeyDown}
+            onBlur={suggestions.close}
+            placeholder="Search for a gym..."
+            aria-label="Gym"
+            role="combobox"
+            aria-controls="scanner-gym-suggestions"
+            aria-expanded={suggestions.isOpen}
+            aria-autocomplete="list"
+            autoComplete="off"
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+          />
+          {suggestions.isOpen && (
+            <GymSuggestionList
+              id="scanner-gym-suggestions"
+              suggestions={suggestions.suggestions}
+              activeIndex={suggestions.activeIndex}
+              onSelect={suggestions.select}
+            />
+          )}
+        </div>
+        <button
+          type="submit"
+          disabled={!gymId || loading}
+          className="px-4 py-2 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Issuing...' : 'Issue access code'}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-700 dark:text-red-400">{error}</p>}
+
+      {issued && (
+        <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2 text-sm">
+          <p className="font-medium text-gray-900 dark:text-white">Access for {issued.gymName}</p>
+          <p className="text-gray-600 dark:text-gray-400">Access code</p>
+          <p className="font-mono break-all text-gray-900 dark:text-white">{issued.accessCode}</p>
+          <p className="text-gray-600 dark:text-gray-400">Sign-in link for the front desk device</p>
+          <p className="font-mono break-all text-gray-900 dark:text-white">{issued.signInUrl}</p>
+          <p className="text-gray-600 dark:text-gray-400">
+            Expires {new Date(issued.expiresAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}
+          </p>
+          <p className="text-gray-600 dark:text-gray-400">Result key, for checking the signature on verification results</p>
+          <p className="font-mono break-all text-gray-900 dark:text-white">{issued.resultKey}</p>
+          {issued.verificationKey && (
+            <>
+              <p className="text-gray-600 dark:text-gray-400">Pass verification key, for the gym&apos;s own offline checkers</p>
+              <p className="font-mono break-all text-gray-900 dark:text-white">{issued.verificationKey}</p>
+              <p className="text-gray-600 dark:text-gray-400">Rotating code key</p>
+              <p className="font-mono break-all text-gray-900 dark:text-white">{issued.codeKey}</p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+/** Front-desk sign-in with the gym's scanner access code */
+export default function ScannerSignIn() {
+  const router = useRouter()
+  const [accessCode, setAccessCode] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const signIn = useCallback(
+    async (code: string) => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch('/api/scanner/session', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ accessCode: code }),
+        })
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to sign in')
+        }
+        router.refresh()
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred')
+        setLoading(false)
+      }
+    },
+    [router]
+  )
+
+  // Sign-in links from /admin/scanners carry the code in the URL fragment
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.hash.slice(1)).get('code')
+    if (code) {
+      window.history.replaceState(null, '', window.location.pathname)
+      setAccessCode(code)
+      signIn(code)
+    }
+  }, [signIn])
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Front desk sign in</h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-4">
+        Enter your gym&apos;s scanner access code to start checking anygym passes.
+      </p>
+      {error && (
+        <p className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-400">
+          {error}
+        </p>
+      )}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault()
+          signIn(accessCode)
+        }}
+        className="space-y-4"
+      >
+        <input
+          type="text"
+          value={accessCode}
+          onChange={(e) => setAccessCode(e.target.value)}
+          placeholder="Access code"
+          aria-label="Access code"
+          autoComplete="off"
+          required
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:border-gray-600 dark:text-white font-mono"
+        />
+        <button
+          type="submit"
+          disabled={loading || !accessCode.trim()}
+          className="w-full px-4 py-2 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  )
+}
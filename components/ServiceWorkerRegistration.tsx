@@ -0,0 +1,20 @@
+'use client'
+
+import { useEffect } from 'react'
+
+/**
+ * Registers public/sw.js, which keeps active passes available offline.
+ * Production only - in development the service worker's asset cache would
+ * get in the way of hot reloading.
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('[ServiceWorkerRegistration] Registration failed:', error)
+    })
+  }, [])
+
+  return null
+}
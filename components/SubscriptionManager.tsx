@@ -1,10 +1,12 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import { Subscription } from '@/lib/types'
 import { loadStripe, Stripe } from '@stripe/stripe-js'
 import { StripeProduct } from '@/app/api/stripe/products/route'
+import type { PlanChangeResult } from '@/lib/planChange'
+import PlanChangeDialog from './PlanChangeDialog'
 
 // Lazy load Stripe - only initialize if key is available
 const getStripePromise = (): Promise<Stripe | null> => {
@@ -49,6 +51,8 @@ const CheckIcon = () => (
 
 export default function SubscriptionManager({ subscription, products }: SubscriptionManagerProps) {
   const [loading, setLoading] = useState<string | null>(null)
+  const [changingTo, setChangingTo] = useState<StripeProduct | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
   const router = useRouter()
 
   // Debug logging - force all logs to appear
@@ -78,7 +82,7 @@ export default function SubscriptionManager({ subscription, products }: Subscrip
     console.log('==========================================')
   }, [subscription, products])
 
-  const handleSwitchPlan = async (priceId: string | undefined) => {
+  const startCheckout = useCallback(async (priceId: string | undefined) => {
     if (!priceId) {
       console.error('[SubscriptionManager] No price ID provided')
       alert('Unable to switch plan: No price ID available. Please try again or contact support.')
@@ -127,6 +131,33 @@ export default function SubscriptionManager({ subscription, products }: Subscrip
       alert(`Error: ${error.message || 'Failed to initiate checkout. Please try again.'}`)
       setLoading(null)
     }
+  }, [])
+
+  // Members with a subscription switch it in place; everyone else goes through checkout
+  const handleSwitchPlan = (product: StripeProduct) => {
+    setNotice(null)
+    if (subscription?.stripeSubscriptionId) {
+      setChangingTo(product)
+    } else {
+      startCheckout(product.stripePriceId)
+    }
+  }
+
+  const handleNoSubscription = useCallback(() => {
+    const priceId = changingTo?.stripePriceId
+    setChangingTo(null)
+    startCheckout(priceId)
+  }, [changingTo, startCheckout])
+
+  const handlePlanChanged = (result: PlanChangeResult) => {
+    const tierName = getTierDisplayName(result.newTier)
+    setChangingTo(null)
+    setNotice(
+      result.timing === 'immediate'
+        ? `You're now on the ${tierName} plan.`
+        : `You'll switch to the ${tierName} plan on ${formatDate(result.effectiveAt)}.`
+    )
+    router.refresh()
   }
 
   const handleCancelMembership = async () => {
@@ -215,6 +246,12 @@ export default function SubscriptionManager({ subscription, products }: Subscrip
 
   return (
     <div className="space-y-8">
+      {notice && (
+        <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-800 dark:text-green-200">
+          {notice}
+        </div>
+      )}
+
       {/* Current Plan Section */}
       {subscription && subscription.status === 'active' && (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
@@ -310,7 +347,7 @@ export default function SubscriptionManager({ subscription, products }: Subscrip
                   </button>
                 ) : (
                   <button
-                    onClick={() => handleSwitchPlan(product.stripePriceId)}
+                    onClick={() => handleSwitchPlan(product)}
                     disabled={loading === product.stripePriceId || !product.stripePriceId}
                     className={`w-full px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
                       product.tier === 'premium'
@@ -331,6 +368,15 @@ export default function SubscriptionManager({ subscription, products }: Subscrip
           </div>
         )}
       </div>
+
+      {changingTo && (
+        <PlanChangeDialog
+          product={changingTo}
+          onClose={() => setChangingTo(null)}
+          onChanged={handlePlanChanged}
+          onNoSubscription={handleNoSubscription}
+        />
+      )}
     </div>
   )
 }
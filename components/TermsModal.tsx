@@ -4,11 +4,13 @@ import ReactMarkdown from 'react-markdown'
 
 interface TermsModalProps {
   chain?: any | null
+  /** The member accepted an earlier version of these documents */
+  updated?: boolean
   onAccept: () => void
   onCancel: () => void
 }
 
-export default function TermsModal({ chain, onAccept, onCancel }: TermsModalProps) {
+export default function TermsModal({ chain, updated, onAccept, onCancel }: TermsModalProps) {
   // Check if terms exist - either as URL or as markdown content
   const hasTerms = chain?.terms_url || chain?.terms
   // Check if health statement exists - either as URL or as markdown content
@@ -29,7 +31,9 @@ export default function TermsModal({ chain, onAccept, onCancel }: TermsModalProp
             Terms & Health Statement
           </h2>
           <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-            Please review and accept the terms and health statement to generate your pass
+            {updated
+              ? 'These have changed since you last accepted them - please review and accept the new versions to generate your pass'
+              : 'Please review and accept the terms and health statement to generate your pass'}
           </p>
         </div>
 
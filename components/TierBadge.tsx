@@ -0,0 +1,30 @@
+'use client'
+
+import { DEFAULT_TIER_ORDER, TierOrder, isTierIncluded, tierLabel } from '@/lib/tiers'
+
+interface TierBadgeProps {
+  requiredTier: string
+  memberTier?: string | null // Nothing is shown without a membership
+  tierOrder?: TierOrder
+  className?: string
+}
+
+export default function TierBadge({ requiredTier, memberTier, tierOrder = DEFAULT_TIER_ORDER, className = '' }: TierBadgeProps) {
+  if (!memberTier) {
+    return null
+  }
+
+  const included = isTierIncluded(memberTier, requiredTier, tierOrder)
+
+  return (
+    <span
+      className={`inline-block px-3 py-1 text-xs font-semibold rounded-full ${
+        included
+          ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+          : 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200'
+      } ${className}`}
+    >
+      {included ? 'Included in your plan' : `Requires ${tierLabel(requiredTier)}`}
+    </span>
+  )
+}
@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+
+interface UnsubscribeFormProps {
+  token: string
+  /** Null for a guest's link, which can only opt out of everything */
+  categoryLabel: string | null
+}
+
+type Scope = 'category' | 'all'
+
+/** Confirms an unsubscribe from an email link - one category, or everything */
+export default function UnsubscribeForm({ token, categoryLabel }: UnsubscribeFormProps) {
+  const [done, setDone] = useState<Scope | null>(null)
+  const [loading, setLoading] = useState<Scope | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleUnsubscribe = async (scope: Scope) => {
+    setLoading(scope)
+    setError(null)
+    try {
+      const response = await fetch('/api/unsubscribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, scope }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to unsubscribe')
+      }
+      setDone(scope)
+    } catch (err) {
+      console.error('[UnsubscribeForm] Error unsubscribing:', err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(null)
+    }
+  }
+
+  if (done) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">You&apos;re unsubscribed</h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          {done === 'all' || !categoryLabel
+            ? 'We won\'t send you any more emails.'
+            : `We won't send you any more ${categoryLabel.toLowerCase()} emails.`}
+          {categoryLabel && (
+            <>
+              {' '}
+              You can turn them back on from your{' '}
+              <Link href="/profile" className="text-[#FF6B6B] hover:underline">
+                profile
+              </Link>
+              .
+            </>
+          )}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Unsubscribe</h1>
+      <p className="text-gray-600 dark:text-gray-400 mb-6">
+        {categoryLabel
+          ? `Stop getting ${categoryLabel.toLowerCase()} emails from AnyGym, or turn off every email we send.`
+          : 'Stop getting emails from AnyGym, including guest pass invitations from members.'}
+      </p>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {categoryLabel && (
+          <button
+            onClick={() => handleUnsubscribe('category')}
+            disabled={loading !== null}
+            className="block w-full px-6 py-3 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors text-center font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading === 'category' ? 'Unsubscribing...' : `Unsubscribe from ${categoryLabel.toLowerCase()}`}
+          </button>
+        )}
+        <button
+          onClick={() => handleUnsubscribe('all')}
+          disabled={loading !== null}
+          className="block w-full px-6 py-3 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors text-center font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading === 'all' ? 'Unsubscribing...' : 'Unsubscribe from all emails'}
+        </button>
+      </div>
+    </div>
+  )
+}
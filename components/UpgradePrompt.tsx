@@ -0,0 +1,150 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { loadStripe, Stripe } from '@stripe/stripe-js'
+import type { StripeProduct } from '@/app/api/stripe/products/route'
+import { DEFAULT_TIER_ORDER, TierOrder, tierLabel, tierRank } from '@/lib/tiers'
+import PlanChangeDialog from './PlanChangeDialog'
+
+// Lazy load Stripe - only initialize if key is available
+const getStripePromise = (): Promise<Stripe | null> => {
+  const publishableKey = process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY
+  if (!publishableKey || publishableKey.trim() === '') {
+    // Don't log environment variable names - could trigger secrets scanner
+    console.error('Stripe publishable key is not configured')
+    return Promise.resolve(null)
+  }
+  return loadStripe(publishableKey)
+}
+
+interface UpgradePromptProps {
+  requiredTier: string
+  tierOrder?: TierOrder
+  returnPath: string // Where checkout sends the member back to
+}
+
+/**
+ * Shown instead of "Generate Pass" on gyms the member's plan doesn't
+ * include. Offers the cheapest plan that does, switching the member's
+ * subscription in place, or going to checkout if they don't have one.
+ */
+export default function UpgradePrompt({ requiredTier, tierOrder = DEFAULT_TIER_ORDER, returnPath }: UpgradePromptProps) {
+  const [product, setProduct] = useState<StripeProduct | null>(null)
+  const [loadingProducts, setLoadingProducts] = useState(true)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showPlanChange, setShowPlanChange] = useState(false)
+  const router = useRouter()
+
+  useEffect(() => {
+    const requiredRank = tierRank(requiredTier, tierOrder) ?? 0
+    let cancelled = false
+
+    const fetchProducts = async () => {
+      try {
+        const response = await fetch('/api/stripe/products')
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load plans')
+        }
+        const eligible = ((data.products || []) as StripeProduct[])
+          .filter((p) => p.stripePriceId && p.tierRank >= requiredRank)
+          .sort((a, b) => a.tierRank - b.tierRank || a.price - b.price)
+        if (!cancelled) {
+          setProduct(eligible[0] || null)
+        }
+      } catch (err) {
+        console.error('[UpgradePrompt] Error loading plans:', err)
+      } finally {
+        if (!cancelled) {
+          setLoadingProducts(false)
+        }
+      }
+    }
+
+    fetchProducts()
+    return () => {
+      cancelled = true
+    }
+  }, [requiredTier, tierOrder])
+
+  const startCheckout = useCallback(async () => {
+    if (!product?.stripePriceId) {
+      return
+    }
+    setShowPlanChange(false)
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/stripe/create-checkout-session', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ priceId: product.stripePriceId, returnPath }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || !data.sessionId) {
+        throw new Error(data.error || 'Failed to start checkout')
+      }
+
+      const stripe = await getStripePromise()
+      if (!stripe) {
+        throw new Error('Stripe is not initialized. Please check your Stripe configuration.')
+      }
+      const { error: redirectError } = await stripe.redirectToCheckout({ sessionId: data.sessionId })
+      if (redirectError) {
+        throw new Error(redirectError.message || 'Failed to redirect to checkout')
+      }
+    } catch (err) {
+      console.error('[UpgradePrompt] Error starting checkout:', err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+      setLoading(false)
+    }
+  }, [product, returnPath])
+
+  const label = tierLabel(requiredTier)
+
+  return (
+    <div className="p-4 rounded-lg border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/20">
+      <p className="text-sm text-amber-900 dark:text-amber-200 mb-3">
+        This gym isn&apos;t included in your plan. Upgrade to {label} or above to visit.
+      </p>
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 mb-3">{error}</p>
+      )}
+      {product ? (
+        <button
+          onClick={() => setShowPlanChange(true)}
+          disabled={loading}
+          className="block w-full px-6 py-3 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors text-center font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Redirecting...' : `Upgrade to ${product.name} - £${product.price.toFixed(2)}/month`}
+        </button>
+      ) : (
+        <Link
+          href="/subscription"
+          className={`block w-full px-6 py-3 bg-[#FF6B6B] text-white rounded-lg hover:bg-[#FF5252] transition-colors text-center font-semibold ${
+            loadingProducts ? 'opacity-50 pointer-events-none' : ''
+          }`}
+        >
+          {loadingProducts ? 'Loading plans...' : 'View plans'}
+        </Link>
+      )}
+      {showPlanChange && product && (
+        <PlanChangeDialog
+          product={product}
+          onClose={() => setShowPlanChange(false)}
+          onChanged={() => {
+            setShowPlanChange(false)
+            router.refresh()
+          }}
+          onNoSubscription={startCheckout}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import type { PassHistoryPage } from '@/lib/passHistory'
+
+const MONTHS_SHOWN = 12
+
+interface VisitsByMonthProps {
+  visitsByMonth: PassHistoryPage['visitsByMonth']
+}
+
+function monthLabel(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return new Date(Date.UTC(year, monthNumber - 1, 1)).toLocaleDateString('en-GB', { month: 'short', timeZone: 'UTC' })
+}
+
+/** Bar chart of visits for the most recent months with any */
+export default function VisitsByMonth({ visitsByMonth }: VisitsByMonthProps) {
+  const months = [...visitsByMonth].sort((a, b) => a.month.localeCompare(b.month)).slice(-MONTHS_SHOWN)
+  const busiest = Math.max(1, ...months.map((month) => month.visits))
+  if (months.length === 0) return null
+
+  return (
+    <div className="mb-4">
+      <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-2">Visits by month</p>
+      <div className="flex items-end gap-2 h-24" role="list">
+        {months.map(({ month, visits }) => (
+          <div
+            key={month}
+            role="listitem"
+            aria-label={`${monthLabel(month)} ${month.slice(0, 4)}: ${visits} visit${visits !== 1 ? 's' : ''}`}
+            className="flex-1 flex flex-col items-center h-full"
+          >
+            <span className="text-xs text-gray-700 dark:text-gray-300">{visits}</span>
+            <div className="flex-1 w-full flex items-end">
+              <div className="w-full bg-[#FF6B6B] rounded-t" style={{ height: `${(visits / busiest) * 100}%` }} />
+            </div>
+            <span className="text-xs text-gray-500 dark:text-gray-400 mt-1">{monthLabel(month)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
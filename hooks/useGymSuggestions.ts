@@ -0,0 +1,101 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { GymSuggestion, GymSuggestionType } from '@/lib/searchIndex'
+
+const MIN_QUERY_LENGTH = 2
+const DEBOUNCE_MS = 200
+
+/**
+ * Autocomplete state for a gym search box. Fetches suggestions from
+ * /api/gyms/suggest as the query changes and handles arrow-key navigation.
+ * The list only shows after `open()` - call it when the user types, so
+ * picking a suggestion (which usually changes the query) doesn't reopen it.
+ * Pass `types` to only offer some kinds of suggestion, e.g. just gyms.
+ */
+export function useGymSuggestions(
+  query: string,
+  onSelect: (suggestion: GymSuggestion) => void,
+  types?: GymSuggestionType[]
+) {
+  const [suggestions, setSuggestions] = useState<GymSuggestion[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  // Compared by value so callers can pass an inline array
+  const typesKey = types?.join(',') || ''
+
+  useEffect(() => {
+    const q = query.trim()
+    if (q.length < MIN_QUERY_LENGTH) {
+      setSuggestions([])
+      return
+    }
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/gyms/suggest?q=${encodeURIComponent(q)}`, { signal: controller.signal })
+        if (!response.ok) {
+          console.error('Error fetching suggestions:', response.status)
+          return
+        }
+        const data = await response.json()
+        const results: GymSuggestion[] = data.suggestions || []
+        setSuggestions(typesKey ? results.filter((suggestion) => typesKey.split(',').includes(suggestion.type)) : results)
+        setActiveIndex(-1)
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.error('Error fetching suggestions:', error)
+        }
+      }
+    }, DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeoutId)
+      controller.abort()
+    }
+  }, [query, typesKey])
+
+  const open = useCallback(() => setIsOpen(true), [])
+
+  const close = useCallback(() => {
+    setIsOpen(false)
+    setActiveIndex(-1)
+  }, [])
+
+  const select = useCallback(
+    (suggestion: GymSuggestion) => {
+      close()
+      onSelect(suggestion)
+    },
+    [close, onSelect]
+  )
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isOpen || suggestions.length === 0) {
+      return
+    }
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((index) => (index + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1))
+    } else if (e.key === 'Enter' && activeIndex >= 0) {
+      e.preventDefault()
+      select(suggestions[activeIndex])
+    } else if (e.key === 'Escape') {
+      close()
+    }
+  }
+
+  return {
+    suggestions,
+    isOpen: isOpen && suggestions.length > 0 && query.trim().length >= MIN_QUERY_LENGTH,
+    activeIndex,
+    open,
+    close,
+    select,
+    handleKeyDown,
+  }
+}
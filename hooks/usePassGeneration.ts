@@ -0,0 +1,187 @@
+'use client'
+
+import { useCallback, useEffect, useReducer, useRef } from 'react'
+import type { PassEligibility } from '@/lib/passEligibility'
+import type { PassTermsRequirement } from '@/lib/chainConsent'
+
+/**
+ * Where a pass request for one gym has got to:
+ * checking (eligibility and terms) -> awaiting_consent (terms shown) -> generating -> success,
+ * or error from any of them. Generation can also go back to awaiting_consent
+ * when the chain's terms changed after they were checked.
+ */
+export type PassGenerationState =
+  | { status: 'idle' }
+  | { status: 'checking'; gymId: number }
+  | { status: 'awaiting_consent'; gymId: number; terms: PassTermsRequirement }
+  | { status: 'generating'; gymId: number }
+  | { status: 'success'; gymId: number }
+  /** `eligibility` is set when the member can't have the pass, with the reason and next step */
+  | { status: 'error'; gymId: number; message: string; eligibility: PassEligibility | null }
+
+type PassGenerationAction =
+  | { type: 'check'; gymId: number }
+  | { type: 'require_consent'; terms: PassTermsRequirement }
+  | { type: 'generate' }
+  | { type: 'succeed' }
+  | { type: 'fail'; message: string; eligibility?: PassEligibility }
+  | { type: 'reset' }
+
+function passGenerationReducer(state: PassGenerationState, action: PassGenerationAction): PassGenerationState {
+  switch (action.type) {
+    case 'check':
+      return { status: 'checking', gymId: action.gymId }
+    case 'require_consent':
+      return state.status === 'checking' || state.status === 'generating'
+        ? { status: 'awaiting_consent', gymId: state.gymId, terms: action.terms }
+        : state
+    case 'generate':
+      return state.status === 'checking' || state.status === 'awaiting_consent'
+        ? { status: 'generating', gymId: state.gymId }
+        : state
+    case 'succeed':
+      return state.status === 'generating' ? { status: 'success', gymId: state.gymId } : state
+    case 'fail':
+      return state.status === 'checking' || state.status === 'generating'
+        ? { status: 'error', gymId: state.gymId, message: action.message, eligibility: action.eligibility || null }
+        : state
+    case 'reset':
+      return { status: 'idle' }
+  }
+}
+
+interface UsePassGenerationOptions {
+  /** Runs once the pass exists, before the state moves to success - e.g. refresh the passes shown. Errors are logged, not reported as a failure */
+  onSuccess?: (gymId: number) => void | Promise<void>
+}
+
+/**
+ * Generates a pass the way every "Generate pass" button should: check the
+ * member is eligible, ask them to accept the chain's terms unless they have
+ * accepted the current version, then POST /api/passes/generate. If either
+ * check fails, generation goes ahead and the server reports the problem.
+ * Render TermsModal while the state is awaiting_consent, wired to
+ * `accept` and `cancel`.
+ */
+export function usePassGeneration({ onSuccess }: UsePassGenerationOptions = {}) {
+  const [state, dispatch] = useReducer(passGenerationReducer, { status: 'idle' })
+  // Bumped on every start and cancel, so a superseded request (e.g. another gym's) can't update the state
+  const runRef = useRef(0)
+  const onSuccessRef = useRef(onSuccess)
+
+  useEffect(() => {
+    onSuccessRef.current = onSuccess
+  }, [onSuccess])
+
+  const generate = useCallback(async (run: number, gymId: number, acceptedDocumentVersion?: string | null) => {
+    dispatch({ type: 'generate' })
+    try {
+      const response = await fetch('/api/passes/generate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ gymId: gymId.toString(), acceptedDocumentVersion }),
+      })
+      const data = await response.json()
+      if (run !== runRef.current) return
+
+      if (!response.ok) {
+        // The terms changed, or weren't checked - show the current version to accept
+        if (data.code === 'terms_acceptance_required' && data.terms) {
+          dispatch({ type: 'require_consent', terms: data.terms })
+          return
+        }
+        if (data.code && data.error) {
+          dispatch({
+            type: 'fail',
+            message: data.error,
+            eligibility: { eligible: false, reason: data.code, message: data.error, action: data.action, requiredTier: data.requiredTier },
+          })
+          return
+        }
+        throw new Error(data.error || 'Failed to generate pass')
+      }
+    } catch (err) {
+      if (run === runRef.current) {
+        dispatch({ type: 'fail', message: err instanceof Error ? err.message : 'An error occurred' })
+      }
+      return
+    }
+
+    // The pass exists now - if the follow-up fails, that's no reason to report a failure
+    try {
+      await onSuccessRef.current?.(gymId)
+    } catch (err) {
+      console.error('[usePassGeneration] Error after generating pass:', err)
+    }
+    if (run === runRef.current) {
+      dispatch({ type: 'succeed' })
+    }
+  }, [])
+
+  const start = useCallback(
+    async (gymId: number) => {
+      const run = ++runRef.current
+      dispatch({ type: 'check', gymId })
+
+      // Check before asking the member to accept terms for a pass they can't have
+      try {
+        const response = await fetch(`/api/passes/eligibility?gymId=${gymId}`)
+        if (run !== runRef.current) return
+        if (response.ok) {
+          const eligibility: PassEligibility = await response.json()
+          if (!eligibility.eligible) {
+            dispatch({ type: 'fail', message: eligibility.message || 'You can\'t generate a pass for this gym', eligibility })
+            return
+          }
+        }
+      } catch (err) {
+        console.error('[usePassGeneration] Error checking pass eligibility:', err)
+      }
+
+      // Ask for the chain's terms unless the member has accepted the current version.
+      // If the check fails, generation sends the terms back when they're needed
+      try {
+        const response = await fetch(`/api/passes/terms?gymId=${gymId}`)
+        if (run !== runRef.current) return
+        if (response.ok) {
+          const terms: PassTermsRequirement = await response.json()
+          if (terms.required) {
+            dispatch({ type: 'require_consent', terms })
+            return
+          }
+        }
+      } catch (err) {
+        console.error('[usePassGeneration] Error checking terms acceptance:', err)
+      }
+
+      if (run === runRef.current) {
+        await generate(run, gymId)
+      }
+    },
+    [generate]
+  )
+
+  /** The member accepted the terms shown - generate with the version they saw */
+  const accept = useCallback(() => {
+    if (state.status === 'awaiting_consent') {
+      generate(runRef.current, state.gymId, state.terms.documentVersion)
+    }
+  }, [generate, state])
+
+  /** Abandon the request - declining the terms, closing the panel, or clearing an error */
+  const cancel = useCallback(() => {
+    runRef.current++
+    dispatch({ type: 'reset' })
+  }, [])
+
+  return {
+    state,
+    /** Checking or generating - the button for `state.gymId` should show progress */
+    busy: state.status === 'checking' || state.status === 'generating',
+    start,
+    accept,
+    cancel,
+  }
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { GymRecommendation } from '@/lib/gymRecommendations'
+
+interface RecommendedGymsState {
+  recommendations: GymRecommendation[]
+  /** The postcode distances are from, null if the member hasn't given one */
+  postcode: string | null
+  loading: boolean
+  error: string | null
+}
+
+/** The signed-in member's recommended gyms, from /api/gyms/recommended */
+export function useRecommendedGyms(limit?: number): RecommendedGymsState {
+  const [state, setState] = useState<RecommendedGymsState>({ recommendations: [], postcode: null, loading: true, error: null })
+
+  useEffect(() => {
+    const controller = new AbortController()
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/gyms/recommended${limit ? `?limit=${limit}` : ''}`, { signal: controller.signal })
+        const data = await response.json().catch(() => ({}))
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load recommended gyms')
+        }
+        setState({ recommendations: data.recommendations || [], postcode: data.postcode || null, loading: false, error: null })
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return
+        console.error('Error fetching recommended gyms:', error)
+        setState({ recommendations: [], postcode: null, loading: false, error: (error as Error).message })
+      }
+    }
+    load()
+    return () => controller.abort()
+  }, [limit])
+
+  return state
+}
@@ -0,0 +1,27 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { isAdmin } from '@/lib/admin'
+
+beforeEach(() => {
+  process.env.ADMIN_EMAILS = 'ops@any-gym.com, Owner@Any-Gym.com'
+})
+
+afterEach(() => {
+  delete process.env.ADMIN_EMAILS
+})
+
+describe('isAdmin', () => {
+  it('lets in a listed account with a verified email, whatever its case', () => {
+    expect(isAdmin({ email: 'ops@any-gym.com', email_verified: true })).toBe(true)
+    expect(isAdmin({ email: 'owner@any-gym.com', email_verified: true })).toBe(true)
+  })
+
+  it('keeps out a listed address the account hasn\'t verified', () => {
+    expect(isAdmin({ email: 'ops@any-gym.com', email_verified: false })).toBe(false)
+    expect(isAdmin({ email: 'ops@any-gym.com' })).toBe(false)
+  })
+
+  it('keeps out verified accounts that aren\'t listed', () => {
+    expect(isAdmin({ email: 'member@example.com', email_verified: true })).toBe(false)
+    expect(isAdmin(null)).toBe(false)
+  })
+})
@@ -0,0 +1,22 @@
+/** The parts of the Auth0 session user the admin check reads */
+export interface AdminCandidate {
+  email?: string | null
+  email_verified?: boolean | null
+}
+
+/**
+ * Operator access for internal pages such as the webhook dead-letter view.
+ * ADMIN_EMAILS is a comma-separated list of Auth0 account emails; the
+ * account must have verified its email, or anyone could sign up with an
+ * admin's address and get in.
+ */
+export function isAdmin(user: AdminCandidate | null | undefined): boolean {
+  if (!user?.email || user.email_verified !== true) {
+    return false
+  }
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+  return admins.includes(user.email.trim().toLowerCase())
+}
@@ -0,0 +1,85 @@
+/**
+ * Canonical amenity vocabulary.
+ *
+ * The backend sends amenities as an array of labels, an array of `{ name }`
+ * objects, an object of booleans or a JSON string of any of those, with
+ * free-text labels ("Swimming Pool", "pool", "swimming_pool"). Gyms are
+ * normalised to these ids so they can be filtered and displayed consistently.
+ */
+export const AMENITIES = [
+  { id: 'free_weights', label: 'Free Weights', aliases: ['weights', 'dumbbells', 'weights area'] },
+  { id: 'cardio', label: 'Cardio Machines', aliases: ['cardio', 'cardio equipment', 'treadmills'] },
+  { id: 'squat_racks', label: 'Squat Racks', aliases: ['squat rack', 'power racks', 'power rack', 'lifting platforms'] },
+  { id: 'classes', label: 'Group Classes', aliases: ['classes', 'class', 'group exercise', 'studio classes'] },
+  { id: 'personal_training', label: 'Personal Training', aliases: ['pt', 'personal trainer', 'personal trainers'] },
+  { id: 'pool', label: 'Swimming Pool', aliases: ['pool', 'swimming', 'swim'] },
+  { id: 'sauna', label: 'Sauna', aliases: [] },
+  { id: 'steam_room', label: 'Steam Room', aliases: ['steam'] },
+  { id: 'spa', label: 'Spa', aliases: ['spa facilities'] },
+  { id: 'showers', label: 'Showers', aliases: ['shower'] },
+  { id: 'lockers', label: 'Lockers', aliases: ['locker', 'changing rooms', 'changing room'] },
+  { id: 'towels', label: 'Towels', aliases: ['towel service', 'towel hire'] },
+  { id: 'parking', label: 'Parking', aliases: ['car park', 'free parking'] },
+  { id: 'wifi', label: 'Wi-Fi', aliases: ['wi fi', 'free wifi'] },
+  { id: 'air_conditioning', label: 'Air Conditioning', aliases: ['ac', 'air con', 'aircon'] },
+  { id: 'cafe', label: 'Cafe', aliases: ['café', 'juice bar', 'coffee'] },
+] as const
+
+export type AmenityId = (typeof AMENITIES)[number]['id']
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9é]+/g, ' ').trim()
+}
+
+// Lookup from every id, label and alias to its canonical id
+const AMENITY_LOOKUP = new Map<string, AmenityId>()
+for (const amenity of AMENITIES) {
+  for (const key of [amenity.id, amenity.label, ...amenity.aliases]) {
+    AMENITY_LOOKUP.set(normalizeKey(key), amenity.id)
+  }
+}
+
+export function isAmenityId(value: string): value is AmenityId {
+  return AMENITIES.some((amenity) => amenity.id === value)
+}
+
+/**
+ * Normalise raw amenities from the API. Recognised amenities become their
+ * canonical id; anything else is kept as its trimmed label so it can still
+ * be shown on the gym. Duplicates are removed.
+ */
+export function normalizeAmenities(raw: unknown): string[] {
+  let value = raw
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw)
+    } catch {
+      value = raw.split(',')
+    }
+  }
+
+  let labels: string[] = []
+  if (Array.isArray(value)) {
+    labels = value
+      .map((item) => (typeof item === 'string' ? item : item && typeof item === 'object' ? item.name : null))
+      .filter((item): item is string => typeof item === 'string')
+  } else if (value && typeof value === 'object') {
+    labels = Object.entries(value as Record<string, unknown>)
+      .filter(([, enabled]) => enabled === true || enabled === 'true' || enabled === 1)
+      .map(([key]) => key)
+  }
+
+  const amenities = new Set<string>()
+  for (const label of labels) {
+    const trimmed = label.trim()
+    if (trimmed) {
+      amenities.add(AMENITY_LOOKUP.get(normalizeKey(trimmed)) || trimmed)
+    }
+  }
+  return Array.from(amenities)
+}
+
+/** Display label for a canonical amenity id, or the raw label for unrecognised ones */
+export function amenityLabel(amenity: string): string {
+  return AMENITIES.find((a) => a.id === amenity)?.label || amenity
+}
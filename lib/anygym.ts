@@ -0,0 +1,820 @@
+import { z } from 'zod'
+import { Gym } from '@/lib/types'
+import { normalizeAmenities } from '@/lib/amenities'
+import { parseOpeningHours } from '@/lib/openingHours'
+import { PassHistoryQuery, passHistorySearchParams } from '@/lib/passHistory'
+
+/**
+ * Typed client for the AnyGym backend API.
+ *
+ * Every server-side call to the backend goes through this module so the whole
+ * app can be pointed at a staging or local backend with ANYGYM_API_URL.
+ */
+
+export const ANYGYM_API_URL = (process.env.ANYGYM_API_URL || 'https://api.any-gym.com').replace(/\/+$/, '')
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+export class AnyGymApiError extends Error {
+  status: number
+  body: unknown
+
+  constructor(message: string, status: number, body?: unknown) {
+    super(message)
+    this.name = 'AnyGymApiError'
+    this.status = status
+    this.body = body
+  }
+}
+
+/** The backend returned 404 for the requested resource */
+export class AnyGymNotFoundError extends AnyGymApiError {
+  constructor(message: string, body?: unknown) {
+    super(message, 404, body)
+    this.name = 'AnyGymNotFoundError'
+  }
+}
+
+/** The backend rejected a write because the resource already exists */
+export class AnyGymConflictError extends AnyGymApiError {
+  constructor(message: string, status = 409, body?: unknown) {
+    super(message, status, body)
+    this.name = 'AnyGymConflictError'
+  }
+}
+
+/** Network failure, unexpected status or a response that failed validation */
+export class AnyGymUpstreamError extends AnyGymApiError {
+  constructor(message: string, status = 502, body?: unknown) {
+    super(message, status, body)
+    this.name = 'AnyGymUpstreamError'
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Response schemas
+// ---------------------------------------------------------------------------
+
+// The API is inconsistent about numeric fields - accept numbers and numeric strings
+const numeric = z.union([z.number(), z.string()])
+const optionalString = z.string().nullish()
+
+// Error responses carry a message in `error` when the backend has one
+const apiErrorSchema = z.object({ error: z.string() })
+
+export const apiMembershipSchema = z
+  .object({
+    id: numeric.nullish(),
+    user_id: optionalString,
+    tier: optionalString,
+    monthly_limit: numeric.nullish(),
+    visits_used: numeric.nullish(),
+    price: numeric.nullish(),
+    start_date: optionalString,
+    next_billing_date: optionalString,
+    current_period_start: optionalString,
+    current_period_end: optionalString,
+    status: optionalString,
+    stripe_subscription_id: optionalString,
+    stripe_customer_id: optionalString,
+    guest_passes_limit: numeric.nullish(),
+    guest_passes_used: numeric.nullish(),
+    cancel_at_period_end: z.boolean().nullish(),
+    created_at: optionalString,
+    updated_at: optionalString,
+  })
+  .passthrough()
+
+export const apiUserSchema = z
+  .object({
+    auth0_id: optionalString,
+    email: optionalString,
+    full_name: optionalString,
+    name: optionalString,
+    date_of_birth: optionalString,
+    address_line1: optionalString,
+    address_line2: optionalString,
+    address_city: optionalString,
+    address_postcode: optionalString,
+    emergency_contact_name: optionalString,
+    emergency_contact_number: optionalString,
+    onboarding_completed: z.boolean().nullish(),
+    pass_notification_consent: z.union([z.boolean(), z.string(), z.number()]).nullish(),
+    marketing_consent: z.union([z.boolean(), z.string(), z.number()]).nullish(),
+    // Per channel, per category - see lib/notificationPreferences.ts
+    notification_preferences: z.record(z.string(), z.record(z.string(), z.unknown())).nullish(),
+    stripe_customer_id: optionalString,
+    membership: apiMembershipSchema.nullish(),
+    created_at: optionalString,
+    updated_at: optionalString,
+  })
+  .passthrough()
+
+export const apiChainSchema = z
+  .object({
+    id: numeric.nullish(),
+    name: optionalString,
+    logo_url: optionalString,
+    description: optionalString,
+    terms: optionalString,
+    terms_url: optionalString,
+    health_statement: optionalString,
+    health_statement_url: optionalString,
+  })
+  .passthrough()
+
+export const apiGymSchema = z
+  .object({
+    id: z.coerce.number(),
+    name: z.string(),
+    address: optionalString,
+    city: optionalString,
+    postcode: optionalString,
+    phone: optionalString,
+    latitude: numeric.nullish(),
+    longitude: numeric.nullish(),
+    gym_chain_id: z.coerce.number().nullish(),
+    gym_chain_name: optionalString,
+    gym_chain_logo: optionalString,
+    gym_chain: apiChainSchema.nullish(),
+    required_tier: optionalString,
+    amenities: z.any().optional(),
+    opening_hours: z.any().optional(),
+    image_url: optionalString,
+    status: optionalString,
+    created_at: optionalString,
+    updated_at: optionalString,
+  })
+  .passthrough()
+
+export const apiPassSchema = z
+  .object({
+    id: z.coerce.number(),
+    user_id: optionalString,
+    auth0_id: optionalString,
+    gym_id: z.coerce.number(),
+    gym_name: optionalString,
+    gym_chain_id: z.coerce.number().nullish(),
+    gym_chain_name: optionalString,
+    gym_chain_logo: optionalString,
+    gym: apiGymSchema.nullish(),
+    pass_code: optionalString,
+    status: optionalString,
+    valid_until: optionalString,
+    used_at: optionalString,
+    qrcode_url: optionalString,
+    qr_code_url: optionalString,
+    subscription_tier: optionalString,
+    pass_cost: numeric.nullish(),
+    cancelled_at: optionalString,
+    cancelled_by: optionalString,
+    cancellation_reason: optionalString,
+    created_at: optionalString,
+    updated_at: optionalString,
+  })
+  .passthrough()
+
+export const PASS_REDEMPTION_RESULTS = ['valid', 'already_used', 'expired', 'cancelled', 'wrong_gym'] as const
+
+export const apiPassRedemptionSchema = z
+  .object({
+    result: z.enum(PASS_REDEMPTION_RESULTS),
+    pass: apiPassSchema,
+    member_name: optionalString,
+  })
+  .passthrough()
+
+const apiPaginationSchema = z
+  .object({
+    page: z.coerce.number(),
+    per_page: z.coerce.number(),
+    total: z.coerce.number(),
+    total_pages: z.coerce.number(),
+  })
+  .passthrough()
+
+/** One gym's past passes - `passes` is the most recent few, the counts cover them all */
+export const apiPassHistoryGroupSchema = z
+  .object({
+    gym_id: z.coerce.number(),
+    gym_name: optionalString,
+    gym_chain_id: z.coerce.number().nullish(),
+    gym_chain_name: optionalString,
+    gym_chain_logo: optionalString,
+    pass_count: z.coerce.number(),
+    visit_count: z.coerce.number(),
+    last_visit: optionalString,
+    passes: z.array(apiPassSchema),
+  })
+  .passthrough()
+
+export const apiPassHistorySchema = z
+  .object({
+    results: z.array(apiPassHistoryGroupSchema),
+    pagination: apiPaginationSchema,
+    total_passes: z.coerce.number(),
+    total_visits: z.coerce.number(),
+    visits_by_gym: z.array(
+      z
+        .object({
+          gym_id: z.coerce.number(),
+          gym_name: optionalString,
+          gym_chain_id: z.coerce.number().nullish(),
+          gym_chain_name: optionalString,
+          visits: z.coerce.number(),
+        })
+        .passthrough()
+    ),
+    visits_by_month: z.array(z.object({ month: z.string(), visits: z.coerce.number() }).passthrough()),
+  })
+  .passthrough()
+
+/** A member's acceptance of a chain's terms and health statement, as they stood at `document_version` */
+export const apiChainConsentSchema = z
+  .object({
+    id: z.coerce.number(),
+    user_id: optionalString,
+    chain_id: z.coerce.number(),
+    document_version: z.string(),
+    pass_id: z.coerce.number().nullish(),
+    accepted_at: z.string(),
+  })
+  .passthrough()
+
+export const GUEST_PASS_STATUSES = ['pending_acceptance', 'active', 'used', 'expired', 'cancelled'] as const
+
+export const apiGuestPassSchema = z
+  .object({
+    id: z.coerce.number(),
+    user_id: optionalString,
+    gym_id: z.coerce.number(),
+    gym_name: optionalString,
+    gym_chain_id: z.coerce.number().nullish(),
+    gym_chain_name: optionalString,
+    guest_name: z.string(),
+    guest_email: z.string(),
+    status: z.enum(GUEST_PASS_STATUSES),
+    acceptance_token: optionalString,
+    acceptance_expires_at: optionalString,
+    accepted_at: optionalString,
+    pass_code: optionalString,
+    valid_until: optionalString,
+    used_at: optionalString,
+    created_at: optionalString,
+    updated_at: optionalString,
+  })
+  .passthrough()
+
+export const apiUserPassesSchema = z.union([
+  z.array(apiPassSchema),
+  z
+    .object({
+      subscription: apiMembershipSchema.nullish(),
+      active_passes: z.array(apiPassSchema).nullish(),
+      pass_history: z.array(apiPassSchema).nullish(),
+      passes: z.array(apiPassSchema).nullish(),
+    })
+    .passthrough(),
+])
+
+export const apiSubscriptionResponseSchema = z.union([
+  z.object({ subscription: apiMembershipSchema }).passthrough(),
+  apiMembershipSchema,
+])
+
+export const apiArticleSummarySchema = z
+  .object({
+    id: z.coerce.string(),
+    title: optionalString,
+    headline: z.any().optional(),
+    excerpt: optionalString,
+    slug: optionalString,
+    published_date: optionalString,
+    featured_image: optionalString,
+    featured_image_alt: optionalString,
+  })
+  .passthrough()
+
+export const apiArticlesResponseSchema = z
+  .object({
+    results: z.array(apiArticleSummarySchema).nullish(),
+    pagination: z.any().optional(),
+  })
+  .passthrough()
+
+export const apiArticleSchema = z
+  .object({
+    id: z.coerce.string(),
+    title: z.string(),
+    slug: optionalString,
+  })
+  .passthrough()
+
+export const apiGeneratePassResponseSchema = z.record(z.unknown())
+
+export const WEBHOOK_EVENT_STATUSES = ['pending', 'processing', 'processed', 'failed', 'dead'] as const
+
+export const apiWebhookEventSchema = z
+  .object({
+    id: z.string(),
+    type: z.string(),
+    object_id: optionalString,
+    event_created_at: z.string(),
+    payload: z.record(z.unknown()),
+    status: z.enum(WEBHOOK_EVENT_STATUSES),
+    attempts: z.coerce.number(),
+    next_attempt_at: optionalString,
+    locked_until: optionalString,
+    last_error: optionalString,
+    completed_steps: z.array(z.string()).nullish(),
+    processed_at: optionalString,
+    created_at: optionalString,
+    updated_at: optionalString,
+  })
+  .passthrough()
+
+export const apiEmailOptOutSchema = z
+  .object({
+    email: z.string(),
+    created_at: optionalString,
+  })
+  .passthrough()
+
+export type ApiMembership = z.infer<typeof apiMembershipSchema>
+export type ApiUser = z.infer<typeof apiUserSchema>
+export type ApiChain = z.infer<typeof apiChainSchema>
+export type ApiGym = z.infer<typeof apiGymSchema>
+export type ApiPass = z.infer<typeof apiPassSchema>
+export type ApiUserPasses = z.infer<typeof apiUserPassesSchema>
+export type ApiPassRedemption = z.infer<typeof apiPassRedemptionSchema>
+export type PassRedemptionResult = (typeof PASS_REDEMPTION_RESULTS)[number]
+export type ApiPassHistory = z.infer<typeof apiPassHistorySchema>
+export type ApiChainConsent = z.infer<typeof apiChainConsentSchema>
+export type ApiGuestPass = z.infer<typeof apiGuestPassSchema>
+export type GuestPassStatus = (typeof GUEST_PASS_STATUSES)[number]
+export type ApiArticleSummary = z.infer<typeof apiArticleSummarySchema>
+export type ApiArticlesResponse = z.infer<typeof apiArticlesResponseSchema>
+export type ApiArticle = z.infer<typeof apiArticleSchema>
+export type ApiWebhookEvent = z.infer<typeof apiWebhookEventSchema>
+export type WebhookEventStatus = (typeof WEBHOOK_EVENT_STATUSES)[number]
+export type ApiEmailOptOut = z.infer<typeof apiEmailOptOutSchema>
+
+/** Map a backend gym to the app's Gym type */
+export function mapGym(gym: ApiGym): Gym {
+  return {
+    id: gym.id,
+    name: gym.name,
+    address: gym.address || '',
+    city: gym.city || '',
+    postcode: gym.postcode || '',
+    phone: gym.phone || undefined,
+    latitude: gym.latitude ? parseFloat(String(gym.latitude)) : undefined,
+    longitude: gym.longitude ? parseFloat(String(gym.longitude)) : undefined,
+    gym_chain_id: gym.gym_chain_id || undefined,
+    gym_chain_name: gym.gym_chain_name || gym.gym_chain?.name || undefined,
+    required_tier: gym.required_tier || 'standard',
+    amenities: normalizeAmenities(gym.amenities),
+    opening_hours: parseOpeningHours(gym.opening_hours),
+    image_url: gym.image_url || undefined,
+    rating: undefined, // Not provided by API
+    status: 'active',
+    createdAt: gym.created_at ? new Date(gym.created_at) : new Date(),
+    updatedAt: gym.updated_at ? new Date(gym.updated_at) : new Date(),
+  }
+}
+
+/** Only gyms with coordinates can be shown on the map */
+export function hasCoordinates(gym: ApiGym): boolean {
+  return gym.latitude != null && gym.longitude != null
+}
+
+// ---------------------------------------------------------------------------
+// Caching
+// ---------------------------------------------------------------------------
+
+/** Either revalidate through the Next.js data cache after N seconds, or never cache */
+export type CachePolicy = { revalidate: number } | 'no-store'
+
+// Default policy per endpoint - callers can override with `cache`
+const CACHE_POLICIES = {
+  user: { revalidate: 60 },
+  userPasses: { revalidate: 60 },
+  userSubscription: { revalidate: 60 },
+  gyms: { revalidate: 3600 },
+  gym: { revalidate: 3600 },
+  chains: { revalidate: 3600 },
+  articles: { revalidate: 3600 },
+  article: { revalidate: 3600 },
+} satisfies Record<string, CachePolicy>
+
+/** How long the gym list is cached for - anything derived from it can be kept as long */
+export const GYMS_REVALIDATE_SECONDS = CACHE_POLICIES.gyms.revalidate
+
+function cacheInit(policy: CachePolicy): RequestInit {
+  if (policy === 'no-store') {
+    return { cache: 'no-store' }
+  }
+  return { next: { revalidate: policy.revalidate } } as RequestInit
+}
+
+// ---------------------------------------------------------------------------
+// Request helper
+// ---------------------------------------------------------------------------
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH'
+  auth0Id?: string
+  body?: unknown
+  cache?: CachePolicy
+  headers?: Record<string, string>
+}
+
+async function request<T>(path: string, schema: z.ZodType<T>, options: RequestOptions = {}): Promise<T> {
+  const method = options.method || 'GET'
+  const headers: Record<string, string> = { ...options.headers }
+  if (options.auth0Id) {
+    headers['auth0_id'] = options.auth0Id.trim()
+  }
+  if (options.body !== undefined) {
+    headers['Content-Type'] = 'application/json'
+  }
+
+  const init: RequestInit = {
+    method,
+    headers,
+    ...(options.body !== undefined ? { body: JSON.stringify(options.body) } : {}),
+    // Writes are never cached
+    ...(method === 'GET' ? cacheInit(options.cache || 'no-store') : { cache: 'no-store' }),
+  }
+
+  let response: Response
+  try {
+    response = await fetch(`${ANYGYM_API_URL}${path}`, init)
+  } catch (error: any) {
+    throw new AnyGymUpstreamError(`AnyGym API unreachable: ${error?.message || 'network error'}`)
+  }
+
+  const data = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    const errorBody = apiErrorSchema.safeParse(data)
+    const message = errorBody.success
+      ? errorBody.data.error
+      : `${method} ${path} failed: ${response.status} ${response.statusText}`
+    if (response.status === 404) {
+      throw new AnyGymNotFoundError(message, data)
+    }
+    if (response.status === 409) {
+      throw new AnyGymConflictError(message, response.status, data)
+    }
+    if (response.status < 500) {
+      throw new AnyGymApiError(message, response.status, data)
+    }
+    throw new AnyGymUpstreamError(message, response.status, data)
+  }
+
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    console.error(`[anygym] Invalid response from ${method} ${path}:`, parsed.error.issues)
+    throw new AnyGymUpstreamError(`Invalid response from ${method} ${path}`, response.status, data)
+  }
+  return parsed.data
+}
+
+// ---------------------------------------------------------------------------
+// Endpoints
+// ---------------------------------------------------------------------------
+
+interface ReadOptions {
+  cache?: CachePolicy
+}
+
+/** GET /user */
+export function getUser(auth0Id: string, options: ReadOptions = {}): Promise<ApiUser> {
+  return request('/user', apiUserSchema, { auth0Id, cache: options.cache || CACHE_POLICIES.user })
+}
+
+/** POST /user - throws AnyGymConflictError if the user already exists */
+export async function createUser(auth0Id: string, body: Record<string, unknown>): Promise<ApiUser> {
+  try {
+    return await request('/user', apiUserSchema, { method: 'POST', auth0Id, body })
+  } catch (error) {
+    // The backend answers 400 rather than 409 for some duplicate users
+    if (error instanceof AnyGymApiError && error.status === 400) {
+      throw new AnyGymConflictError(error.message, error.status, error.body)
+    }
+    throw error
+  }
+}
+
+/** PUT /user - full write used by onboarding */
+export function replaceUser(auth0Id: string, body: Record<string, unknown>): Promise<unknown> {
+  return request('/user', z.unknown(), { method: 'PUT', auth0Id, body })
+}
+
+/** PUT /user/update - partial update of the given fields */
+export function updateUser(auth0Id: string, body: Record<string, unknown>): Promise<unknown> {
+  return request('/user/update', z.unknown(), { method: 'PUT', auth0Id, body })
+}
+
+/** GET /user/passes */
+export function getUserPasses(auth0Id: string, options: ReadOptions = {}): Promise<ApiUserPasses> {
+  const policy = options.cache || CACHE_POLICIES.userPasses
+  // Add timestamp to bypass any external caching when the caller wants fresh data
+  const path = policy === 'no-store' ? `/user/passes?_t=${Date.now()}` : '/user/passes'
+  return request(path, apiUserPassesSchema, {
+    auth0Id,
+    cache: policy,
+    headers: policy === 'no-store'
+      ? { 'Cache-Control': 'no-cache, no-store, must-revalidate', 'Pragma': 'no-cache' }
+      : undefined,
+  })
+}
+
+/**
+ * GET /user/pass_history - the member's past passes grouped by gym, most
+ * recently visited first, with visit counts per gym and per month across
+ * every page. 404 if the user doesn't exist.
+ */
+export function getPassHistory(
+  auth0Id: string,
+  query: PassHistoryQuery = {},
+  options: ReadOptions = {}
+): Promise<ApiPassHistory> {
+  const qs = passHistorySearchParams(query).toString()
+  return request(`/user/pass_history${qs ? `?${qs}` : ''}`, apiPassHistorySchema, {
+    auth0Id,
+    cache: options.cache || CACHE_POLICIES.userPasses,
+  })
+}
+
+/** One of the member's passes, active or past, from GET /user/passes - null if they have no such pass */
+export async function getUserPass(auth0Id: string, passId: number): Promise<ApiPass | null> {
+  const data = await getUserPasses(auth0Id, { cache: 'no-store' })
+  const passes = Array.isArray(data)
+    ? data
+    : [...(data.active_passes || []), ...(data.pass_history || []), ...(data.passes || [])]
+  return passes.find((pass) => pass.id === passId) || null
+}
+
+/** GET /user/subscription - unwraps the optional `subscription` envelope */
+export async function getUserSubscription(auth0Id: string, options: ReadOptions = {}): Promise<ApiMembership> {
+  const data = await request('/user/subscription', apiSubscriptionResponseSchema, {
+    auth0Id,
+    cache: options.cache || CACHE_POLICIES.userSubscription,
+  })
+  return 'subscription' in data && data.subscription && typeof data.subscription === 'object'
+    ? (data.subscription as ApiMembership)
+    : (data as ApiMembership)
+}
+
+/** Membership fields the Stripe webhooks keep in sync - see PUT /user/membership */
+export interface MembershipUpdate {
+  tier: string
+  status: string
+  monthly_limit: number
+  guest_passes_limit: number
+  price: number
+  current_period_start: string
+  current_period_end: string
+  next_billing_date: string | null
+  cancel_at_period_end: boolean
+  stripe_subscription_id: string
+  stripe_customer_id: string
+}
+
+/**
+ * PUT /user/membership - create or update the user's membership from Stripe.
+ * The backend resets visits_used and guest_passes_used when the period starts over.
+ */
+export function updateUserMembership(auth0Id: string, body: MembershipUpdate): Promise<ApiMembership> {
+  return request('/user/membership', apiMembershipSchema, { method: 'PUT', auth0Id, body })
+}
+
+export interface GymQuery {
+  search?: string
+  tier?: string
+  chain?: string
+}
+
+/** GET /gyms */
+export function getGyms(query: GymQuery = {}, options: ReadOptions & { auth0Id?: string } = {}): Promise<ApiGym[]> {
+  const params = new URLSearchParams()
+  if (query.search) params.set('search', query.search)
+  if (query.tier) params.set('tier', query.tier)
+  if (query.chain) params.set('chain', query.chain)
+  const qs = params.toString()
+  return request(`/gyms${qs ? `?${qs}` : ''}`, z.array(apiGymSchema), {
+    auth0Id: options.auth0Id,
+    cache: options.cache || CACHE_POLICIES.gyms,
+  })
+}
+
+/** GET /gyms/:id */
+export function getGym(gymId: number, options: ReadOptions = {}): Promise<ApiGym> {
+  return request(`/gyms/${gymId}`, apiGymSchema, { cache: options.cache || CACHE_POLICIES.gym })
+}
+
+/** GET /chains */
+export async function getChains(auth0Id: string, options: ReadOptions = {}): Promise<ApiChain[]> {
+  const data = await request(
+    '/chains',
+    z.union([z.array(apiChainSchema), z.object({ chains: z.array(apiChainSchema) }).passthrough()]),
+    { auth0Id, cache: options.cache || CACHE_POLICIES.chains }
+  )
+  return Array.isArray(data) ? data : data.chains
+}
+
+/** What the member agreed to when generating a pass, stored in the consent ledger with the new pass */
+export interface ChainConsentRecord {
+  chain_id: number
+  document_version: string
+  /** The documents as accepted, kept as evidence */
+  documents: {
+    terms: string | null
+    terms_url: string | null
+    health_statement: string | null
+    health_statement_url: string | null
+  }
+}
+
+/**
+ * POST /generate_pass - with `consent`, the backend records the member's
+ * acceptance of the chain's documents against the new pass in the same
+ * transaction.
+ */
+export function generatePass(
+  auth0Id: string,
+  gymId: number,
+  consent?: ChainConsentRecord
+): Promise<Record<string, unknown>> {
+  return request('/generate_pass', apiGeneratePassResponseSchema, {
+    method: 'POST',
+    auth0Id,
+    body: { auth0_id: auth0Id, gym_id: gymId, ...(consent && { consent }) },
+  })
+}
+
+/** GET /user/consents - the member's consent ledger, newest first, optionally for one chain */
+export function getUserConsents(auth0Id: string, chainId?: number): Promise<ApiChainConsent[]> {
+  return request(`/user/consents${chainId ? `?chain_id=${chainId}` : ''}`, z.array(apiChainConsentSchema), {
+    auth0Id,
+    cache: 'no-store',
+  })
+}
+
+export interface PassCancellation {
+  /** auth0_id of whoever cancelled the pass */
+  cancelled_by: string
+  reason: string
+  note?: string
+}
+
+/**
+ * POST /passes/:id/cancel - cancel an unused pass and give the visit back to
+ * the monthly allowance. 409 if the pass has been scanned, is no longer
+ * active or is past the cancellation window.
+ */
+export function cancelPass(auth0Id: string, passId: number, cancellation: PassCancellation): Promise<ApiPass> {
+  return request(`/passes/${passId}/cancel`, apiPassSchema, {
+    method: 'POST',
+    auth0Id,
+    body: cancellation,
+  })
+}
+
+/**
+ * POST /passes/redeem - check a pass presented at `gymId`, by its code or -
+ * from a signed QR payload - its id, and when the result is 'valid' mark the
+ * pass used in the same step so it can't be let in twice. 404 if there's no
+ * such pass. With `guestOnly` a code only matches guest passes, for when
+ * member passes must be shown by their signed QR payload.
+ */
+export function redeemPass(
+  presented: { passCode: string } | { passId: number },
+  gymId: number,
+  { guestOnly = false }: { guestOnly?: boolean } = {}
+): Promise<ApiPassRedemption> {
+  return request('/passes/redeem', apiPassRedemptionSchema, {
+    method: 'POST',
+    body:
+      'passId' in presented
+        ? { pass_id: presented.passId, gym_id: gymId }
+        : { pass_code: presented.passCode, gym_id: gymId, ...(guestOnly && { guest_only: true }) },
+  })
+}
+
+/**
+ * POST /guest_passes - invite a guest to a gym. Counts against the member's
+ * guest allowance straight away; the allowance is given back if the guest
+ * doesn't accept before acceptance_expires_at.
+ */
+export function createGuestPass(
+  auth0Id: string,
+  body: { gym_id: number; guest_name: string; guest_email: string }
+): Promise<ApiGuestPass> {
+  return request('/guest_passes', apiGuestPassSchema, { method: 'POST', auth0Id, body })
+}
+
+/** GET /user/guest_passes - the member's guest passes, newest first */
+export function getGuestPasses(auth0Id: string): Promise<ApiGuestPass[]> {
+  return request('/user/guest_passes', z.array(apiGuestPassSchema), { auth0Id })
+}
+
+/** GET /guest_passes/token/:token - the invitation a guest was sent */
+export function getGuestPassByToken(token: string): Promise<ApiGuestPass> {
+  return request(`/guest_passes/token/${encodeURIComponent(token)}`, apiGuestPassSchema)
+}
+
+/**
+ * POST /guest_passes/token/:token/accept - record the guest's acceptance of
+ * the chain's terms and health statement, at `documentVersion` (see
+ * lib/chainConsent), and issue their pass. Throws
+ * AnyGymConflictError if the invitation was already accepted or has expired.
+ */
+export function acceptGuestPass(token: string, documentVersion: string | null): Promise<ApiGuestPass> {
+  return request(`/guest_passes/token/${encodeURIComponent(token)}/accept`, apiGuestPassSchema, {
+    method: 'POST',
+    body: { terms_accepted: true, health_statement_accepted: true, document_version: documentVersion },
+  })
+}
+
+/** GET /email_opt_outs/:email - throws AnyGymNotFoundError unless the address has opted out */
+export function getEmailOptOut(email: string): Promise<ApiEmailOptOut> {
+  return request(`/email_opt_outs/${encodeURIComponent(email)}`, apiEmailOptOutSchema)
+}
+
+/** PUT /email_opt_outs/:email - opt an address out of every email; repeating it is harmless */
+export function createEmailOptOut(email: string): Promise<ApiEmailOptOut> {
+  return request(`/email_opt_outs/${encodeURIComponent(email)}`, apiEmailOptOutSchema, { method: 'PUT' })
+}
+
+/** GET /content/articles */
+export function getArticles(auth0Id: string, options: ReadOptions = {}): Promise<ApiArticlesResponse> {
+  return request('/content/articles', apiArticlesResponseSchema, {
+    auth0Id,
+    cache: options.cache || CACHE_POLICIES.articles,
+  })
+}
+
+/** GET /content/articles/:idOrSlug */
+export function getArticle(auth0Id: string, identifier: string, options: ReadOptions = {}): Promise<ApiArticle> {
+  return request(`/content/articles/${identifier}`, apiArticleSchema, {
+    auth0Id,
+    cache: options.cache || CACHE_POLICIES.article,
+  })
+}
+
+/** POST /webhook_events - throws AnyGymConflictError if the event was already recorded */
+export function createWebhookEvent(body: {
+  id: string
+  type: string
+  object_id: string | null
+  event_created_at: string
+  payload: Record<string, unknown>
+}): Promise<ApiWebhookEvent> {
+  return request('/webhook_events', apiWebhookEventSchema, { method: 'POST', body })
+}
+
+/** GET /webhook_events/:id */
+export function getWebhookEvent(id: string): Promise<ApiWebhookEvent> {
+  return request(`/webhook_events/${encodeURIComponent(id)}`, apiWebhookEventSchema)
+}
+
+export interface WebhookEventQuery {
+  status?: WebhookEventStatus[]
+  due?: boolean // Pending/failed events whose next attempt is due, and processing events whose lease expired
+  limit?: number
+}
+
+/** GET /webhook_events */
+export function getWebhookEvents(query: WebhookEventQuery = {}): Promise<ApiWebhookEvent[]> {
+  const params = new URLSearchParams()
+  if (query.status?.length) params.set('status', query.status.join(','))
+  if (query.due) params.set('due', 'true')
+  if (query.limit) params.set('limit', String(query.limit))
+  const qs = params.toString()
+  return request(`/webhook_events${qs ? `?${qs}` : ''}`, z.array(apiWebhookEventSchema))
+}
+
+/**
+ * POST /webhook_events/:id/claim - takes a processing lease and counts the
+ * attempt. Throws AnyGymConflictError if the event is processed, dead or
+ * leased by another worker.
+ */
+export function claimWebhookEvent(id: string, leaseSeconds: number): Promise<ApiWebhookEvent> {
+  return request(`/webhook_events/${encodeURIComponent(id)}/claim`, apiWebhookEventSchema, {
+    method: 'POST',
+    body: { lease_seconds: leaseSeconds },
+  })
+}
+
+/** PATCH /webhook_events/:id */
+export function updateWebhookEvent(
+  id: string,
+  body: Partial<Pick<ApiWebhookEvent, 'status' | 'attempts' | 'next_attempt_at' | 'locked_until' | 'last_error' | 'completed_steps' | 'processed_at'>>
+): Promise<ApiWebhookEvent> {
+  return request(`/webhook_events/${encodeURIComponent(id)}`, apiWebhookEventSchema, { method: 'PATCH', body })
+}
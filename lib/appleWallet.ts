@@ -0,0 +1,179 @@
+import { createHash } from 'crypto'
+import forge from 'node-forge'
+import JSZip from 'jszip'
+import { ANYGYM_ICON_URL, WalletPassDetails, pemFromEnv } from '@/lib/walletPasses'
+
+/**
+ * Apple Wallet (.pkpass) export. A pkpass is a zip of pass.json, its images,
+ * a manifest of SHA-1 hashes and a detached PKCS#7 signature of the manifest,
+ * made with the Pass Type ID certificate.
+ *
+ * Configured with APPLE_PASS_TYPE_ID, APPLE_TEAM_ID, APPLE_PASS_CERT and
+ * APPLE_PASS_KEY (PEM - see pemFromEnv), plus APPLE_PASS_KEY_PASSPHRASE if the
+ * key is encrypted and APPLE_WWDR_CERT, Apple's intermediate certificate.
+ * Without APPLE_WWDR_CERT the pass is signed by the certificate alone, which
+ * is enough to test against a local self-signed certificate but won't open
+ * on a device.
+ */
+
+export class AppleWalletError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AppleWalletError'
+  }
+}
+
+export function isAppleWalletConfigured(): boolean {
+  return Boolean(
+    process.env.APPLE_PASS_TYPE_ID && process.env.APPLE_TEAM_ID && process.env.APPLE_PASS_CERT && process.env.APPLE_PASS_KEY
+  )
+}
+
+/** Apple wants W3C dates without milliseconds */
+function w3cDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z')
+}
+
+function buildPassJson(details: WalletPassDetails) {
+  const hasLocation = details.latitude != null && details.longitude != null
+  return {
+    formatVersion: 1,
+    passTypeIdentifier: process.env.APPLE_PASS_TYPE_ID,
+    teamIdentifier: process.env.APPLE_TEAM_ID,
+    serialNumber: `anygym-pass-${details.id}`,
+    organizationName: 'anygym',
+    description: `anygym pass for ${details.gymName}`,
+    logoText: details.chainName || 'anygym',
+    foregroundColor: 'rgb(255, 255, 255)',
+    labelColor: 'rgb(255, 235, 235)',
+    backgroundColor: 'rgb(255, 107, 107)',
+    expirationDate: w3cDate(details.validUntil),
+    relevantDate: w3cDate(details.createdAt),
+    // Shows the pass on the lock screen near the gym
+    ...(hasLocation && {
+      locations: [
+        {
+          latitude: details.latitude,
+          longitude: details.longitude,
+          relevantText: `Your pass for ${details.gymName}`,
+        },
+      ],
+    }),
+    barcodes: [
+      {
+        format: 'PKBarcodeFormatQR',
+        message: details.barcodeMessage,
+        messageEncoding: 'iso-8859-1',
+        ...(details.passCode && { altText: details.passCode }),
+      },
+    ],
+    generic: {
+      primaryFields: [{ key: 'gym', label: 'GYM', value: details.gymName }],
+      secondaryFields: [
+        {
+          key: 'validUntil',
+          label: 'VALID UNTIL',
+          value: w3cDate(details.validUntil),
+          dateStyle: 'PKDateStyleMedium',
+          timeStyle: 'PKDateStyleShort',
+        },
+      ],
+      auxiliaryFields: details.passCode ? [{ key: 'passCode', label: 'PASS CODE', value: details.passCode }] : [],
+      backFields: [
+        ...(details.gymAddress ? [{ key: 'address', label: 'Address', value: details.gymAddress }] : []),
+        {
+          key: 'help',
+          label: 'At reception',
+          value: details.passCode ? 'Show the QR code or pass code to be let in.' : 'Show the QR code to be let in.',
+        },
+      ],
+    },
+  }
+}
+
+async function fetchImage(url: string): Promise<Buffer> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new AppleWalletError(`Failed to fetch pass image ${url}: ${response.status}`)
+  }
+  return Buffer.from(await response.arrayBuffer())
+}
+
+/** Cloudinary URL for the image resized to fit `width` x `height`, as PNG */
+function resized(url: string, width: number, height: number): string {
+  return url.includes('res.cloudinary.com') && url.includes('/upload/')
+    ? url.replace('/upload/', `/upload/w_${width},h_${height},c_pad,b_white,f_png/`)
+    : url
+}
+
+async function passImages(details: WalletPassDetails): Promise<Record<string, Buffer>> {
+  const logoUrl = details.chainLogoUrl || ANYGYM_ICON_URL
+  const [icon, icon2x, logo, logo2x] = await Promise.all([
+    fetchImage(resized(ANYGYM_ICON_URL, 29, 29)),
+    fetchImage(resized(ANYGYM_ICON_URL, 58, 58)),
+    fetchImage(resized(logoUrl, 160, 50)),
+    fetchImage(resized(logoUrl, 320, 100)),
+  ])
+  return { 'icon.png': icon, 'icon@2x.png': icon2x, 'logo.png': logo, 'logo@2x.png': logo2x }
+}
+
+function signManifest(manifest: Buffer): Buffer {
+  const certPem = pemFromEnv('APPLE_PASS_CERT')
+  const keyPem = pemFromEnv('APPLE_PASS_KEY')
+  if (!certPem || !keyPem) {
+    throw new AppleWalletError('Apple Wallet signing certificate is not configured')
+  }
+  const certificate = forge.pki.certificateFromPem(certPem)
+  const passphrase = process.env.APPLE_PASS_KEY_PASSPHRASE
+  const key = passphrase ? forge.pki.decryptRsaPrivateKey(keyPem, passphrase) : forge.pki.privateKeyFromPem(keyPem)
+  if (!key) {
+    throw new AppleWalletError('Could not decrypt APPLE_PASS_KEY - check APPLE_PASS_KEY_PASSPHRASE')
+  }
+
+  const signed = forge.pkcs7.createSignedData()
+  signed.content = forge.util.createBuffer(manifest.toString('binary'))
+  signed.addCertificate(certificate)
+  const wwdrPem = pemFromEnv('APPLE_WWDR_CERT')
+  if (wwdrPem) {
+    signed.addCertificate(forge.pki.certificateFromPem(wwdrPem))
+  }
+  signed.addSigner({
+    key,
+    certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      { type: forge.pki.oids.signingTime, value: new Date().toISOString() },
+    ],
+  })
+  signed.sign({ detached: true })
+  return Buffer.from(forge.asn1.toDer(signed.toAsn1()).getBytes(), 'binary')
+}
+
+/** Build and sign the .pkpass bundle for a pass */
+export async function createPkpass(details: WalletPassDetails): Promise<Buffer> {
+  if (!isAppleWalletConfigured()) {
+    throw new AppleWalletError('Apple Wallet is not configured')
+  }
+
+  const files: Record<string, Buffer> = {
+    'pass.json': Buffer.from(JSON.stringify(buildPassJson(details))),
+    ...(await passImages(details)),
+  }
+  const manifest = Buffer.from(
+    JSON.stringify(
+      Object.fromEntries(
+        Object.entries(files).map(([name, contents]) => [name, createHash('sha1').update(contents).digest('hex')])
+      )
+    )
+  )
+
+  const zip = new JSZip()
+  for (const [name, contents] of Object.entries(files)) {
+    zip.file(name, contents)
+  }
+  zip.file('manifest.json', manifest)
+  zip.file('signature', signManifest(manifest))
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
@@ -0,0 +1,69 @@
+import { createHash } from 'crypto'
+import { ApiChain, ChainConsentRecord, getGym, getUserConsents } from '@/lib/anygym'
+
+/**
+ * Consent ledger for chain terms and health statements. Each acceptance is
+ * stored by the backend with the member, chain, pass and a version hash of
+ * the documents as shown, so partners have evidence of the health
+ * declaration. A member who accepted the current version isn't asked again;
+ * any change to the documents changes the version and asks again.
+ */
+
+export interface PassTermsRequirement {
+  /** Whether the member must accept the chain's documents before generating a pass */
+  required: boolean
+  chain: ApiChain | null
+  documentVersion: string | null
+  /** They accepted an earlier version, so the documents have changed since */
+  previouslyAccepted: boolean
+}
+
+export type ChainDocuments = ChainConsentRecord['documents']
+
+function documentField(value: string | null | undefined): string | null {
+  return value && value.trim() ? value.trim() : null
+}
+
+export function chainDocuments(chain: ApiChain | null | undefined): ChainDocuments {
+  return {
+    terms: documentField(chain?.terms),
+    terms_url: documentField(chain?.terms_url),
+    health_statement: documentField(chain?.health_statement),
+    health_statement_url: documentField(chain?.health_statement_url),
+  }
+}
+
+/** SHA-256 of the chain's documents, or null if it has none to accept */
+export function chainDocumentVersion(chain: ApiChain | null | undefined): string | null {
+  const documents = chainDocuments(chain)
+  if (Object.values(documents).every((value) => value === null)) return null
+  return createHash('sha256').update(JSON.stringify(documents)).digest('hex')
+}
+
+/** Whether the member has to accept the terms of `gymId`'s chain before generating a pass there */
+export async function getPassTermsRequirement(auth0Id: string, gymId: number): Promise<PassTermsRequirement> {
+  const gym = await getGym(gymId, { cache: 'no-store' })
+  const chain = gym.gym_chain || null
+  const documentVersion = chainDocumentVersion(chain)
+  if (!chain || chain.id == null || !documentVersion) {
+    return { required: false, chain, documentVersion: null, previouslyAccepted: false }
+  }
+
+  const consents = await getUserConsents(auth0Id, Number(chain.id))
+  return {
+    required: !consents.some((consent) => consent.document_version === documentVersion),
+    chain,
+    documentVersion,
+    previouslyAccepted: consents.length > 0,
+  }
+}
+
+/** The ledger entry for accepting `requirement`, sent with the pass it was accepted for */
+export function consentRecord(requirement: PassTermsRequirement): ChainConsentRecord | undefined {
+  if (!requirement.required || !requirement.chain || !requirement.documentVersion) return undefined
+  return {
+    chain_id: Number(requirement.chain.id),
+    document_version: requirement.documentVersion,
+    documents: chainDocuments(requirement.chain),
+  }
+}
@@ -26,6 +26,23 @@ export function haversineDistance(
   return d
 }
 
+/**
+ * Format a distance in km for display, e.g. "850 m" or "3.2 km"
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) {
+    return `${Math.round(km * 1000)} m`
+  }
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km`
+}
+
+/**
+ * Loose check for a full UK postcode, e.g. "SW1A 1AA" or "m11ad"
+ */
+export function isUkPostcode(value: string): boolean {
+  return /^[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}$/i.test(value.trim())
+}
+
 /**
  * Get coordinates from postcode using Geoapify
  */
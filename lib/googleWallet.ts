@@ -0,0 +1,96 @@
+import { createSign } from 'crypto'
+import { ANYGYM_ICON_URL, APP_URL, WalletPassDetails, pemFromEnv } from '@/lib/walletPasses'
+
+/**
+ * Google Wallet export. The pass and its class travel in a JWT signed with a
+ * Google Cloud service account key; opening the save link adds the pass to
+ * the member's wallet, creating the class on first use.
+ *
+ * Configured with GOOGLE_WALLET_ISSUER_ID, GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL
+ * and GOOGLE_WALLET_PRIVATE_KEY (PEM - see pemFromEnv). GOOGLE_WALLET_CLASS_SUFFIX
+ * names the pass class, 'anygym-gym-pass' by default.
+ */
+
+const SAVE_URL = 'https://pay.google.com/gp/v/save'
+
+export class GoogleWalletError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GoogleWalletError'
+  }
+}
+
+export function isGoogleWalletConfigured(): boolean {
+  return Boolean(
+    process.env.GOOGLE_WALLET_ISSUER_ID &&
+      process.env.GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL &&
+      process.env.GOOGLE_WALLET_PRIVATE_KEY
+  )
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+function signJwt(claims: Record<string, unknown>, privateKey: string): string {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))
+  const body = base64url(JSON.stringify(claims))
+  const signature = createSign('RSA-SHA256').update(`${header}.${body}`).sign(privateKey)
+  return `${header}.${body}.${base64url(signature)}`
+}
+
+function localized(value: string) {
+  return { defaultValue: { language: 'en-GB', value } }
+}
+
+function buildGenericObject(details: WalletPassDetails, issuerId: string, classId: string) {
+  const hasLocation = details.latitude != null && details.longitude != null
+  return {
+    id: `${issuerId}.anygym-pass-${details.id}`,
+    classId,
+    state: 'ACTIVE',
+    cardTitle: localized(details.chainName || 'anygym'),
+    header: localized(details.gymName),
+    subheader: localized('Gym pass'),
+    hexBackgroundColor: '#FF6B6B',
+    logo: {
+      sourceUri: { uri: details.chainLogoUrl || ANYGYM_ICON_URL },
+      contentDescription: localized(details.chainName || 'anygym'),
+    },
+    barcode: { type: 'QR_CODE', value: details.barcodeMessage, ...(details.passCode && { alternateText: details.passCode }) },
+    // The pass is shown as expired from validUntil
+    validTimeInterval: {
+      start: { date: details.createdAt.toISOString() },
+      end: { date: details.validUntil.toISOString() },
+    },
+    ...(hasLocation && { locations: [{ latitude: details.latitude, longitude: details.longitude }] }),
+    textModulesData: details.gymAddress ? [{ id: 'address', header: 'Address', body: details.gymAddress }] : [],
+  }
+}
+
+/** Link that saves the pass to the member's Google Wallet */
+export function googleWalletSaveUrl(details: WalletPassDetails): string {
+  const privateKey = pemFromEnv('GOOGLE_WALLET_PRIVATE_KEY')
+  const issuerId = process.env.GOOGLE_WALLET_ISSUER_ID
+  const serviceAccountEmail = process.env.GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL
+  if (!privateKey || !issuerId || !serviceAccountEmail) {
+    throw new GoogleWalletError('Google Wallet is not configured')
+  }
+  const classId = `${issuerId}.${process.env.GOOGLE_WALLET_CLASS_SUFFIX || 'anygym-gym-pass'}`
+
+  const jwt = signJwt(
+    {
+      iss: serviceAccountEmail,
+      aud: 'google',
+      typ: 'savetowallet',
+      iat: Math.floor(Date.now() / 1000),
+      origins: [APP_URL],
+      payload: {
+        genericClasses: [{ id: classId }],
+        genericObjects: [buildGenericObject(details, issuerId, classId)],
+      },
+    },
+    privateKey
+  )
+  return `${SAVE_URL}/${jwt}`
+}
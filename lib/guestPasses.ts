@@ -0,0 +1,64 @@
+import type { ApiGuestPass } from '@/lib/anygym'
+import { sendMail } from '@/lib/mail'
+import { guestPassAcceptUrl } from '@/lib/mailTemplates'
+import { GuestPass } from '@/lib/types'
+
+/**
+ * Guest passes let a member bring someone along, counted against the
+ * membership's guest allowance rather than its monthly visits. The member
+ * invites the guest by email; the guest accepts the chain's terms and health
+ * statement at /guest-pass/[token], which issues their pass code.
+ */
+
+function toDate(value: string | null | undefined): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/** Map a backend guest pass for the member's view - the acceptance token is left out */
+export function mapGuestPass(pass: ApiGuestPass): GuestPass {
+  return {
+    id: pass.id,
+    gymId: pass.gym_id,
+    gymName: pass.gym_name || 'Unknown Gym',
+    guestName: pass.guest_name,
+    guestEmail: pass.guest_email,
+    status: pass.status,
+    passCode: pass.pass_code || undefined,
+    validUntil: toDate(pass.valid_until),
+    acceptanceExpiresAt: toDate(pass.acceptance_expires_at),
+    acceptedAt: toDate(pass.accepted_at),
+    usedAt: toDate(pass.used_at),
+    createdAt: toDate(pass.created_at) || new Date(),
+  }
+}
+
+/** Email the guest their invitation - throws if it can't be sent */
+export async function emailGuestPassInvitation(guestPass: ApiGuestPass, memberName: string): Promise<void> {
+  if (!guestPass.acceptance_token) {
+    throw new Error(`Guest pass ${guestPass.id} has no acceptance token`)
+  }
+  await sendMail('guest_pass_invitation', { email: guestPass.guest_email, firstName: guestPass.guest_name }, {
+    memberName,
+    gymName: guestPass.gym_name || 'the gym',
+    acceptUrl: guestPassAcceptUrl(guestPass.acceptance_token),
+    acceptBy: guestPass.acceptance_expires_at ? new Date(guestPass.acceptance_expires_at) : null,
+  })
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/** Validate the member's guest details, returning an error message or null */
+export function validateGuestDetails(guestName: unknown, guestEmail: unknown): string | null {
+  if (typeof guestName !== 'string' || !guestName.trim()) {
+    return 'Guest name is required'
+  }
+  if (guestName.trim().length > 100) {
+    return 'Guest name must be 100 characters or fewer'
+  }
+  if (typeof guestEmail !== 'string' || !EMAIL_PATTERN.test(guestEmail.trim())) {
+    return 'A valid guest email is required'
+  }
+  return null
+}
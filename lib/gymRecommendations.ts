@@ -0,0 +1,128 @@
+import { Gym } from '@/lib/types'
+import {
+  AnyGymNotFoundError,
+  ApiGym,
+  ApiUser,
+  CachePolicy,
+  getGyms,
+  getPassHistory,
+  getUser,
+  hasCoordinates,
+  mapGym,
+} from '@/lib/anygym'
+import { getCoordinatesFromPostcode, haversineDistance } from '@/lib/geocoding'
+import type { Coordinates } from '@/lib/gymSearch'
+import { getTierOrder } from '@/lib/stripeTiers'
+import { isTierIncluded } from '@/lib/tiers'
+
+/**
+ * Gyms to suggest to a member - "Gyms near you" on the dashboard and explore
+ * pages, and the gyms in the welcome email. Only gyms their tier includes are
+ * suggested, nearest to their postcode first, with gyms they keep going back
+ * to moved up the list.
+ */
+
+export const DEFAULT_RECOMMENDATION_LIMIT = 6
+export const MAX_RECOMMENDATION_LIMIT = 20
+
+// Each past visit counts as this much closer, up to MAX_VISIT_BONUS_KM
+const VISIT_BONUS_KM = 2
+const MAX_VISIT_BONUS_KM = 10
+
+export interface GymRecommendation {
+  gym: Gym // distanceKm is set when the member's postcode was found
+  chainLogo: string | null
+  visits: number
+}
+
+export interface GymRecommendations {
+  recommendations: GymRecommendation[]
+  postcode: string | null
+  origin: Coordinates | null
+  tier: string | null
+}
+
+export interface GymRecommendationOptions {
+  limit?: number
+  /** Instead of the member's address_postcode - e.g. the one given at checkout */
+  postcode?: string | null
+  /** Instead of the member's current membership tier - e.g. the plan just bought */
+  tier?: string | null
+  cache?: CachePolicy
+}
+
+function getUserIfExists(auth0Id: string, cache?: CachePolicy): Promise<ApiUser | null> {
+  return getUser(auth0Id, { cache }).catch((error): ApiUser | null => {
+    if (error instanceof AnyGymNotFoundError) return null
+    throw error
+  })
+}
+
+/** Visits by gym id, across the member's whole pass history. Empty if it can't be read. */
+async function getVisitsByGym(auth0Id: string, cache?: CachePolicy): Promise<Map<number, number>> {
+  try {
+    const history = await getPassHistory(auth0Id, { perPage: 1 }, { cache })
+    return new Map(history.visits_by_gym.map((gym) => [gym.gym_id, gym.visits]))
+  } catch (error) {
+    if (!(error instanceof AnyGymNotFoundError)) {
+      console.error('[gymRecommendations] Error fetching pass history:', error)
+    }
+    return new Map()
+  }
+}
+
+function activeTier(user: ApiUser | null): string | null {
+  const membership = user?.membership
+  if (!membership || (membership.status || 'active') !== 'active') {
+    return null
+  }
+  return membership.tier || null
+}
+
+function chainLogo(gym: ApiGym): string | null {
+  return gym.gym_chain?.logo_url || gym.gym_chain_logo || null
+}
+
+/**
+ * Recommend gyms for `auth0Id`. Without a postcode that geocodes, gyms are
+ * ranked by visits and then name; without a membership, every gym is
+ * eligible.
+ */
+export async function recommendGyms(auth0Id: string, options: GymRecommendationOptions = {}): Promise<GymRecommendations> {
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_RECOMMENDATION_LIMIT, 1), MAX_RECOMMENDATION_LIMIT)
+
+  const [user, gyms, visitsByGym, tierOrder] = await Promise.all([
+    getUserIfExists(auth0Id, options.cache),
+    getGyms({}, { auth0Id, cache: options.cache }),
+    getVisitsByGym(auth0Id, options.cache),
+    getTierOrder(),
+  ])
+
+  const postcode = options.postcode?.trim() || user?.address_postcode?.trim() || null
+  const tier = options.tier !== undefined ? options.tier : activeTier(user)
+  const origin = postcode ? await getCoordinatesFromPostcode(postcode) : null
+  if (postcode && !origin) {
+    console.warn('[gymRecommendations] Could not geocode postcode:', postcode)
+  }
+
+  const ranked = gyms
+    .filter((gym) => hasCoordinates(gym) && (gym.status || 'active') === 'active')
+    .filter((gym) => !tier || !gym.required_tier || isTierIncluded(tier, gym.required_tier, tierOrder))
+    .map((gym) => {
+      const mapped = mapGym(gym)
+      const visits = visitsByGym.get(gym.id) || 0
+      const distanceKm = origin
+        ? haversineDistance(origin.latitude, origin.longitude, mapped.latitude!, mapped.longitude!)
+        : undefined
+      const score = distanceKm !== undefined ? distanceKm - Math.min(visits * VISIT_BONUS_KM, MAX_VISIT_BONUS_KM) : -visits
+      return { recommendation: { gym: { ...mapped, distanceKm }, chainLogo: chainLogo(gym), visits }, score }
+    })
+    .sort((a, b) => a.score - b.score || a.recommendation.gym.name.localeCompare(b.recommendation.gym.name))
+
+  return {
+    recommendations: ranked.slice(0, limit).map(({ recommendation }) => recommendation),
+    postcode,
+    origin,
+    tier,
+  }
+}
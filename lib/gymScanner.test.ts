@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { redeemPass } from '@/lib/anygym'
+import {
+  SCANNER_ACCESS_MAX_AGE_SECONDS,
+  createScannerAccessCode,
+  verifyPassAtGym,
+  verifyScannerAccessCode,
+} from '@/lib/gymScanner'
+
+vi.mock('@/lib/anygym', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/anygym')>()),
+  getGym: vi.fn(async (id: number) => ({ id, name: `Gym ${id}` })),
+  redeemPass: vi.fn(async () => ({
+    result: 'wrong_gym',
+    member_name: 'Alex Member',
+    pass: { id: 9, gym_id: 202, gym_name: 'Other Gym', pass_code: 'PF-123456', valid_until: '2026-01-01T13:00:00Z' },
+  })),
+}))
+
+beforeEach(() => {
+  process.env.GYM_SCANNER_SECRET = 'test-scanner-secret'
+  delete process.env.GYM_SCANNER_ACCESS_VERSIONS
+  delete process.env.PASS_SIGNING_SECRET
+  vi.mocked(redeemPass).mockClear()
+  vi.useFakeTimers({ now: Date.UTC(2026, 0, 1, 12) })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('verifyScannerAccessCode', () => {
+  it('accepts a fresh code for its gym', () => {
+    expect(verifyScannerAccessCode(createScannerAccessCode(101))).toMatchObject({ gymId: 101, version: 1 })
+  })
+
+  it('rejects a tampered code', () => {
+    const code = createScannerAccessCode(101)
+    expect(verifyScannerAccessCode(code.replace(/^101\./, '102.'))).toBeNull()
+  })
+
+  it('rejects a code past its maximum age', () => {
+    const code = createScannerAccessCode(101)
+    vi.advanceTimersByTime(SCANNER_ACCESS_MAX_AGE_SECONDS * 1000)
+    expect(verifyScannerAccessCode(code)).toBeNull()
+  })
+
+  it('revokes one gym by raising its version', () => {
+    const revoked = createScannerAccessCode(101)
+    const other = createScannerAccessCode(102)
+    process.env.GYM_SCANNER_ACCESS_VERSIONS = '101:2'
+    expect(verifyScannerAccessCode(revoked)).toBeNull()
+    expect(verifyScannerAccessCode(other)).toMatchObject({ gymId: 102 })
+    expect(verifyScannerAccessCode(createScannerAccessCode(101))).toMatchObject({ gymId: 101, version: 2 })
+  })
+})
+
+describe('verifyPassAtGym', () => {
+  it('only gives the reason for a pass from another gym', async () => {
+    const { verification } = await verifyPassAtGym(101, 'pf-123456')
+    expect(verification).toMatchObject({
+      valid: false,
+      result: 'wrong_gym',
+      passCode: null,
+      memberName: null,
+      gymId: 101,
+      gymName: 'Gym 101',
+      validUntil: null,
+      usedAt: null,
+    })
+  })
+
+  it('only matches typed codes against guest passes once passes are signed', async () => {
+    await verifyPassAtGym(101, 'pf-123456')
+    expect(redeemPass).toHaveBeenLastCalledWith({ passCode: 'PF-123456' }, 101, { guestOnly: false })
+
+    process.env.PASS_SIGNING_SECRET = 'test-signing-secret'
+    await verifyPassAtGym(101, 'pf-123456')
+    expect(redeemPass).toHaveBeenLastCalledWith({ passCode: 'PF-123456' }, 101, { guestOnly: true })
+  })
+})
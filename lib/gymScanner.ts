@@ -0,0 +1,213 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { AnyGymNotFoundError, PassRedemptionResult, getGym, redeemPass } from '@/lib/anygym'
+import { checkPassQrPayload, isPassQrPayload } from '@/lib/passQr'
+import { gymCodeKey, gymVerificationKey, isPassSigningConfigured } from '@/lib/passSigning'
+
+/**
+ * Front-desk pass checks. Each gym's staff sign in to /scanner with an access
+ * code issued from /admin/scanners; the code names the gym and is signed
+ * with a key derived from GYM_SCANNER_SECRET, so it only checks passes in at
+ * that gym. Codes last SCANNER_ACCESS_MAX_AGE_SECONDS. One gym's codes are
+ * revoked by raising its version in GYM_SCANNER_ACCESS_VERSIONS (e.g.
+ * `101:2,205:3`, version 1 when unlisted); rotating the secret revokes every
+ * gym's.
+ *
+ * Verification results are signed with a separate key per gym, given to that
+ * gym's own systems so they can tell results came from anygym - holding it
+ * doesn't let them sign in anywhere or check another gym's results.
+ *
+ * Signed QR payloads (lib/passQr.ts) are checked against the scanner's gym
+ * keys before the backend is asked to redeem them. Plain pass codes, typed in
+ * or from a guest's QR code, go straight to the backend - but once signing is
+ * configured they only match guest passes, so a member's code copied from a
+ * screenshot can't be typed in instead of their QR code.
+ */
+
+export const SCANNER_COOKIE = 'anygym_scanner'
+
+export const SCANNER_ACCESS_MAX_AGE_SECONDS = 60 * 60 * 24 * 90
+// Allow for clock differences between servers
+const ISSUED_AT_SKEW_SECONDS = 5 * 60
+
+export interface ScannerAccess {
+  gymId: number
+  version: number
+  /** Unix seconds */
+  issuedAt: number
+  expiresAt: number
+}
+
+export type PassVerificationResult = PassRedemptionResult | 'not_found' | 'invalid_signature' | 'stale_code'
+
+export interface PassVerification {
+  valid: boolean
+  result: PassVerificationResult
+  /** Null when a signed QR payload was rejected before reaching the backend */
+  passCode: string | null
+  memberName: string | null
+  gymId: number
+  gymName: string | null
+  validUntil: string | null
+  usedAt: string | null
+  alreadyUsed: boolean
+  verifiedAt: string
+}
+
+export interface SignedPassVerification {
+  verification: PassVerification
+  /** Hex HMAC-SHA256 of the JSON-encoded verification, keyed with the gym's result key - see gymResultKey */
+  signature: string
+}
+
+export function isGymScannerConfigured(): boolean {
+  return Boolean(process.env.GYM_SCANNER_SECRET)
+}
+
+function hmac(key: string | Buffer, message: string): Buffer {
+  return createHmac('sha256', key).update(message).digest()
+}
+
+/** A key for one purpose, derived from GYM_SCANNER_SECRET so no key handed out is the secret itself */
+function derivedKey(purpose: string): Buffer {
+  const secret = process.env.GYM_SCANNER_SECRET
+  if (!secret) {
+    throw new Error('GYM_SCANNER_SECRET is not configured')
+  }
+  return hmac(secret, `anygym-scanner:${purpose}`)
+}
+
+/** The current access code version for each gym listed in GYM_SCANNER_ACCESS_VERSIONS */
+function accessVersions(): Map<number, number> {
+  const versions = new Map<number, number>()
+  for (const entry of (process.env.GYM_SCANNER_ACCESS_VERSIONS || '').split(',')) {
+    const match = entry.trim().match(/^(\d+):(\d+)$/)
+    if (match) versions.set(Number(match[1]), Number(match[2]))
+  }
+  return versions
+}
+
+function currentAccessVersion(gymId: number): number {
+  return accessVersions().get(gymId) ?? 1
+}
+
+/** Access code for a gym's front desk - `<gymId>.<version>.<issuedAt>.<signature>` */
+export function createScannerAccessCode(gymId: number): string {
+  const payload = `${gymId}.${currentAccessVersion(gymId)}.${Math.floor(Date.now() / 1000)}`
+  return `${payload}.${hmac(derivedKey('access'), payload).toString('base64url')}`
+}
+
+/** The gym an access code is for - null if it's forged, expired or revoked */
+export function verifyScannerAccessCode(code: string | null | undefined): ScannerAccess | null {
+  if (!code || !isGymScannerConfigured()) return null
+  const match = code.trim().match(/^(\d+)\.(\d+)\.(\d+)\.([A-Za-z0-9_-]+)$/)
+  if (!match) return null
+
+  const expected = hmac(derivedKey('access'), `${match[1]}.${match[2]}.${match[3]}`)
+  const actual = Buffer.from(match[4], 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null
+  }
+
+  const gymId = Number(match[1])
+  const version = Number(match[2])
+  const issuedAt = Number(match[3])
+  const expiresAt = issuedAt + SCANNER_ACCESS_MAX_AGE_SECONDS
+  const now = Math.floor(Date.now() / 1000)
+  if (issuedAt > now + ISSUED_AT_SKEW_SECONDS || expiresAt <= now || version < currentAccessVersion(gymId)) {
+    return null
+  }
+  return { gymId, version, issuedAt, expiresAt }
+}
+
+/** base64url key a gym's own systems check that gym's signed verification results with */
+export function gymResultKey(gymId: number): string {
+  return derivedKey(`result:${gymId}`).toString('base64url')
+}
+
+export function signPassVerification(verification: PassVerification): SignedPassVerification {
+  return {
+    verification,
+    signature: hmac(Buffer.from(gymResultKey(verification.gymId), 'base64url'), JSON.stringify(verification)).toString('hex'),
+  }
+}
+
+/** Pull the pass code out of what was typed or scanned */
+export function parseScannedPassCode(scanned: string): string {
+  return scanned.trim().toUpperCase()
+}
+
+async function rejectedVerification(
+  gymId: number,
+  result: PassVerificationResult,
+  passCode: string | null,
+  verifiedAt: string
+): Promise<SignedPassVerification> {
+  const gym = await getGym(gymId).catch(() => null)
+  return signPassVerification({
+    valid: false,
+    result,
+    passCode,
+    memberName: null,
+    gymId,
+    gymName: gym?.name || null,
+    validUntil: null,
+    usedAt: null,
+    alreadyUsed: false,
+    verifiedAt,
+  })
+}
+
+/** Check a presented pass at the scanner's gym, marking it used if it's valid */
+export async function verifyPassAtGym(gymId: number, scanned: string): Promise<SignedPassVerification> {
+  const verifiedAt = new Date().toISOString()
+
+  let presented: { passCode: string } | { passId: number }
+  let passCode: string | null = null
+  if (isPassQrPayload(scanned)) {
+    if (!isPassSigningConfigured()) {
+      return rejectedVerification(gymId, 'invalid_signature', null, verifiedAt)
+    }
+    const check = await checkPassQrPayload(scanned, gymId, {
+      publicKey: Buffer.from(gymVerificationKey(gymId), 'base64url'),
+      codeKey: Buffer.from(gymCodeKey(gymId), 'base64url'),
+    })
+    if (!check.ok) {
+      if (check.reason === 'unsupported') {
+        throw new Error('This runtime can\'t verify Ed25519 signatures')
+      }
+      const result = check.reason === 'malformed' || check.reason === 'bad_signature' ? 'invalid_signature' : check.reason
+      return rejectedVerification(gymId, result, null, verifiedAt)
+    }
+    presented = { passId: check.passId }
+  } else {
+    passCode = parseScannedPassCode(scanned)
+    presented = { passCode }
+  }
+
+  let redemption
+  try {
+    redemption = await redeemPass(presented, gymId, { guestOnly: passCode !== null && isPassSigningConfigured() })
+  } catch (error) {
+    if (!(error instanceof AnyGymNotFoundError)) throw error
+    return rejectedVerification(gymId, 'not_found', passCode, verifiedAt)
+  }
+
+  // Nothing about another gym's pass is shown - just that it isn't for this gym
+  if (redemption.result === 'wrong_gym') {
+    return rejectedVerification(gymId, 'wrong_gym', null, verifiedAt)
+  }
+
+  const { pass } = redemption
+  return signPassVerification({
+    valid: redemption.result === 'valid',
+    result: redemption.result,
+    passCode: pass.pass_code || passCode,
+    memberName: redemption.member_name || null,
+    gymId: pass.gym_id,
+    gymName: pass.gym_name || null,
+    validUntil: pass.valid_until || null,
+    usedAt: pass.used_at || null,
+    alreadyUsed: redemption.result === 'already_used',
+    verifiedAt,
+  })
+}
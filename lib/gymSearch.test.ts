@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { GYMS_REVALIDATE_SECONDS, getGyms } from '@/lib/anygym'
+import { getIndexedGyms } from '@/lib/gymSearch'
+
+vi.mock('@/lib/anygym', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/anygym')>()),
+  getGyms: vi.fn(async () => [{ id: 1, name: 'PureFit Shoreditch', latitude: 51.52, longitude: -0.08 }]),
+}))
+
+beforeEach(() => {
+  vi.mocked(getGyms).mockClear()
+  vi.useFakeTimers({ now: Date.UTC(2026, 0, 1, 12) })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('getIndexedGyms', () => {
+  it('reuses the index until the revalidation window passes', async () => {
+    const first = await getIndexedGyms()
+    expect(first.gyms.map((gym) => gym.name)).toEqual(['PureFit Shoreditch'])
+    expect(await getIndexedGyms()).toBe(first)
+    expect(getGyms).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(GYMS_REVALIDATE_SECONDS * 1000)
+    expect(await getIndexedGyms()).not.toBe(first)
+    expect(getGyms).toHaveBeenCalledTimes(2)
+  })
+
+  it('keeps a separate index per query', async () => {
+    await getIndexedGyms({ tier: 'premium' })
+    await getIndexedGyms({ tier: 'premium' })
+    await getIndexedGyms({ tier: 'elite' })
+    expect(getGyms).toHaveBeenCalledTimes(2)
+    expect(getGyms).toHaveBeenCalledWith({ tier: 'premium' })
+  })
+
+  it('tries again after a failed fetch', async () => {
+    vi.mocked(getGyms).mockRejectedValueOnce(new Error('Backend down'))
+    await expect(getIndexedGyms({ chain: '7' })).rejects.toThrow('Backend down')
+    await expect(getIndexedGyms({ chain: '7' })).resolves.toMatchObject({ gyms: [{ id: 1 }] })
+  })
+})
@@ -0,0 +1,205 @@
+import { Gym } from '@/lib/types'
+import { GYMS_REVALIDATE_SECONDS, GymQuery, getGyms, hasCoordinates, mapGym } from '@/lib/anygym'
+import { haversineDistance } from '@/lib/geocoding'
+import { isOpenAt } from '@/lib/openingHours'
+import { SearchIndex, buildSearchIndex, searchIndex } from '@/lib/searchIndex'
+import { getTierOrder } from '@/lib/stripeTiers'
+import { TierOrder, tierRank } from '@/lib/tiers'
+
+export const GYM_SORTS = ['relevance', 'name', 'distance', 'tier', 'newest'] as const
+
+export type GymSort = (typeof GYM_SORTS)[number]
+
+export const DEFAULT_PAGE_SIZE = 50
+// The map asks for everything in the viewport, so it needs a higher ceiling than the list
+export const MAX_PAGE_SIZE = 500
+
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+export interface BoundingBox {
+  minLat: number
+  minLng: number
+  maxLat: number
+  maxLng: number
+}
+
+export interface GymSearchOptions {
+  search?: string
+  tier?: string
+  chainId?: number
+  amenities?: string[]
+  openAt?: Date | null
+  origin?: Coordinates | null
+  radiusKm?: number | null
+  bbox?: BoundingBox | null
+  sort?: GymSort
+  offset?: number
+  limit?: number
+}
+
+export interface GymSearchResult {
+  gyms: Gym[]
+  total: number
+  offset: number
+  limit: number
+  hasMore: boolean
+}
+
+/**
+ * Parse a bbox query value in GeoJSON order: "minLng,minLat,maxLng,maxLat".
+ * Returns null when it isn't four valid coordinates.
+ */
+export function parseBoundingBox(value: string): BoundingBox | null {
+  const parts = value.split(',').map((part) => parseFloat(part))
+  if (parts.length !== 4 || parts.some((part) => isNaN(part))) {
+    return null
+  }
+  const [minLng, minLat, maxLng, maxLat] = parts
+  if (minLat > maxLat || Math.abs(minLat) > 90 || Math.abs(maxLat) > 90 || Math.abs(minLng) > 180 || Math.abs(maxLng) > 180) {
+    return null
+  }
+  return { minLat, minLng, maxLat, maxLng }
+}
+
+function inBoundingBox(gym: Gym, bbox: BoundingBox): boolean {
+  const lat = gym.latitude!
+  const lng = gym.longitude!
+  if (lat < bbox.minLat || lat > bbox.maxLat) {
+    return false
+  }
+  // A box crossing the antimeridian has minLng > maxLng
+  return bbox.minLng <= bbox.maxLng
+    ? lng >= bbox.minLng && lng <= bbox.maxLng
+    : lng >= bbox.minLng || lng <= bbox.maxLng
+}
+
+function compareGyms(sort: GymSort, scores: Map<number, number> | null, tierOrder: TierOrder): (a: Gym, b: Gym) => number {
+  switch (sort) {
+    case 'relevance':
+      return (a, b) => (scores?.get(b.id) ?? 0) - (scores?.get(a.id) ?? 0) || a.name.localeCompare(b.name)
+    case 'distance':
+      return (a, b) => (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity) || a.name.localeCompare(b.name)
+    case 'tier':
+      // Unknown tiers sort last
+      return (a, b) =>
+        (tierRank(a.required_tier, tierOrder) ?? Infinity) - (tierRank(b.required_tier, tierOrder) ?? Infinity) ||
+        a.name.localeCompare(b.name)
+    case 'newest':
+      // Newer gyms have higher ids when the backend doesn't send created_at
+      return (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || b.id - a.id
+    default:
+      return (a, b) => a.name.localeCompare(b.name)
+  }
+}
+
+export interface IndexedGyms {
+  gyms: Gym[]
+  index: SearchIndex
+}
+
+// One entry per query, rebuilt once the revalidation window it was built in has passed
+const indexedGymsCache = new Map<string, { window: number; indexed: Promise<IndexedGyms> }>()
+
+/**
+ * The gyms with map coordinates and a search index over them. Both are kept
+ * for the gym list's revalidation window rather than rebuilt per request.
+ */
+export function getIndexedGyms(query: Pick<GymQuery, 'tier' | 'chain'> = {}): Promise<IndexedGyms> {
+  const key = `${query.tier || ''}:${query.chain || ''}`
+  const window = Math.floor(Date.now() / (GYMS_REVALIDATE_SECONDS * 1000))
+  const cached = indexedGymsCache.get(key)
+  if (cached && cached.window === window) {
+    return cached.indexed
+  }
+
+  const indexed = getGyms(query).then((data) => {
+    const gyms = data.filter(hasCoordinates).map(mapGym)
+    return { gyms, index: buildSearchIndex(gyms) }
+  })
+  indexedGymsCache.set(key, { window, indexed })
+  // Don't keep a failed fetch around for the rest of the window
+  indexed.catch(() => {
+    if (indexedGymsCache.get(key)?.indexed === indexed) {
+      indexedGymsCache.delete(key)
+    }
+  })
+  return indexed
+}
+
+/**
+ * Filter, sort and page gyms from the AnyGym API. The backend returns the
+ * full list (cached for an hour), so the work happens here rather than in
+ * the browser.
+ */
+export async function searchGyms(options: GymSearchOptions = {}): Promise<GymSearchResult> {
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+  const offset = Math.max(options.offset ?? 0, 0)
+
+  // Text search happens in our own index, so the backend's exact-match search isn't used
+  const indexed = await getIndexedGyms({
+    tier: options.tier || undefined,
+    chain: options.chainId != null ? String(options.chainId) : undefined,
+  })
+
+  // Copied, as the list is shared with other requests and sorted in place below
+  let gyms: Gym[] = [...indexed.gyms]
+
+  // Relevance scores by gym id, when there's a text query
+  let scores: Map<number, number> | null = null
+  if (options.search && options.search.trim()) {
+    const hits = searchIndex(indexed.index, options.search)
+    scores = new Map(hits.map((hit) => [hit.gym.id, hit.score]))
+    gyms = hits.map((hit) => hit.gym)
+  }
+
+  if (options.tier) {
+    gyms = gyms.filter((gym) => gym.required_tier === options.tier)
+  }
+
+  if (options.chainId != null) {
+    gyms = gyms.filter((gym) => gym.gym_chain_id === options.chainId)
+  }
+
+  const amenities = options.amenities || []
+  if (amenities.length > 0) {
+    gyms = gyms.filter((gym) => amenities.every((a) => gym.amenities?.includes(a)))
+  }
+
+  const openAt = options.openAt
+  if (openAt) {
+    // Gyms without known hours can't be confirmed open, so they're excluded
+    gyms = gyms.filter((gym) => isOpenAt(gym.opening_hours, openAt))
+  }
+
+  const bbox = options.bbox
+  if (bbox) {
+    gyms = gyms.filter((gym) => inBoundingBox(gym, bbox))
+  }
+
+  const origin = options.origin
+  if (origin) {
+    gyms = gyms.map((gym) => ({
+      ...gym,
+      distanceKm: haversineDistance(origin.latitude, origin.longitude, gym.latitude!, gym.longitude!),
+    }))
+    const radiusKm = options.radiusKm
+    if (radiusKm) {
+      gyms = gyms.filter((gym) => gym.distanceKm! <= radiusKm)
+    }
+  }
+
+  // Best match first for text searches, nearest first near a location, otherwise by name
+  const sort = options.sort || (scores ? 'relevance' : origin ? 'distance' : 'name')
+  gyms.sort(compareGyms(sort, scores, sort === 'tier' ? await getTierOrder() : {}))
+
+  return {
+    gyms: gyms.slice(offset, offset + limit),
+    total: gyms.length,
+    offset,
+    limit,
+    hasMore: offset + limit < gyms.length,
+  }
+}
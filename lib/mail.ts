@@ -0,0 +1,213 @@
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import sgMail from '@sendgrid/mail'
+import nodemailer from 'nodemailer'
+import {
+  MAIL_TEMPLATES,
+  MailRecipient,
+  MailTemplateData,
+  MailTemplateName,
+  RenderedMail,
+  inlineAttachments,
+  renderMail,
+} from '@/lib/mailTemplates'
+import {
+  canNotify,
+  emailOptOutUrl,
+  isEmailOptedOut,
+  oneClickEmailOptOutUrl,
+  oneClickUnsubscribeUrl,
+  unsubscribeUrl,
+} from '@/lib/notificationConsent'
+
+/**
+ * Sends the emails in lib/mailTemplates.ts through a pluggable transport,
+ * picked with MAIL_TRANSPORT:
+ * - `sendgrid` - the SendGrid API (SENDGRID_API_KEY)
+ * - `smtp` - any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS)
+ * - `file` - writes each email to MAIL_OUTBOX_DIR as HTML and JSON, for dev and tests
+ * - `console` - logs each email
+ * Unset, it uses SendGrid or SMTP when configured, the console outside
+ * production, and otherwise skips sending with a warning.
+ *
+ * Emails to members are only sent if they have the template's category
+ * turned on, and carry an unsubscribe link and List-Unsubscribe headers.
+ * Emails to guests are only sent if the address hasn't opted out, and carry
+ * a link to opt it out of everything.
+ */
+
+export type MailTransportName = 'sendgrid' | 'smtp' | 'file' | 'console'
+
+export interface OutgoingMail extends RenderedMail {
+  to: string
+  from: string
+  template: MailTemplateName
+  headers: Record<string, string>
+}
+
+export interface MailTransport {
+  name: MailTransportName
+  /** Throws if the email wasn't accepted */
+  send(mail: OutgoingMail): Promise<void>
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || process.env.SENDGRID_FROM_EMAIL || 'naaman@any-gym.com'
+
+function sendgridTransport(): MailTransport {
+  sgMail.setApiKey(process.env.SENDGRID_API_KEY || '')
+  return {
+    name: 'sendgrid',
+    async send(mail) {
+      const [response] = await sgMail.send({
+        to: mail.to,
+        from: mail.from,
+        subject: mail.subject,
+        text: mail.text,
+        html: mail.html,
+        headers: mail.headers,
+        categories: [mail.template],
+        attachments: mail.attachments.map((attachment) => ({
+          content: attachment.content.toString('base64'),
+          filename: attachment.filename,
+          type: attachment.contentType,
+          disposition: 'inline',
+          content_id: attachment.cid,
+        })),
+      })
+      console.log('[mail] SendGrid accepted', mail.template, response?.statusCode, response?.headers?.['x-message-id'])
+    },
+  }
+}
+
+function smtpTransport(): MailTransport {
+  const port = Number(process.env.SMTP_PORT) || 587
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    // Port 465 is TLS from the start; others upgrade with STARTTLS
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } : undefined,
+  })
+  return {
+    name: 'smtp',
+    async send(mail) {
+      const info = await transporter.sendMail({
+        to: mail.to,
+        from: mail.from,
+        subject: mail.subject,
+        text: mail.text,
+        html: mail.html,
+        headers: mail.headers,
+        attachments: mail.attachments.map((attachment) => ({
+          cid: attachment.cid,
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: attachment.content,
+        })),
+      })
+      console.log('[mail] SMTP accepted', mail.template, info.messageId)
+    },
+  }
+}
+
+function fileTransport(): MailTransport {
+  const dir = path.resolve(process.env.MAIL_OUTBOX_DIR || '.mail-outbox')
+  return {
+    name: 'file',
+    async send(mail) {
+      await mkdir(dir, { recursive: true })
+      const base = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${mail.template}`)
+      const { html, attachments, ...rest } = mail
+      // Inlined so the file opens in a browser
+      await writeFile(`${base}.html`, inlineAttachments(html, attachments))
+      await writeFile(`${base}.json`, JSON.stringify({ ...rest, attachments: attachments.map((a) => a.filename) }, null, 2))
+      console.log('[mail] Wrote', mail.template, 'to', `${base}.html`)
+    },
+  }
+}
+
+function consoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(mail) {
+      console.log(`[mail] ${mail.template} to ${mail.to}\nSubject: ${mail.subject}\n\n${mail.text}`)
+    },
+  }
+}
+
+const TRANSPORTS: Record<MailTransportName, () => MailTransport> = {
+  sendgrid: sendgridTransport,
+  smtp: smtpTransport,
+  file: fileTransport,
+  console: consoleTransport,
+}
+
+function configuredTransportName(): MailTransportName | null {
+  const configured = process.env.MAIL_TRANSPORT?.trim().toLowerCase()
+  if (configured) {
+    if (configured in TRANSPORTS) return configured as MailTransportName
+    console.error('[mail] Unknown MAIL_TRANSPORT:', configured)
+    return null
+  }
+  if (process.env.SENDGRID_API_KEY) return 'sendgrid'
+  if (process.env.SMTP_HOST) return 'smtp'
+  return process.env.NODE_ENV === 'production' ? null : 'console'
+}
+
+let transport: MailTransport | null | undefined
+
+/** The transport emails go through, or null when sending isn't configured */
+export function getMailTransport(): MailTransport | null {
+  if (transport === undefined) {
+    const name = configuredTransportName()
+    transport = name ? TRANSPORTS[name]() : null
+  }
+  return transport
+}
+
+/**
+ * Render and send `template` to `recipient`, if they've agreed to its
+ * category - or for emails to guests, if the address hasn't opted out. Skips with a warning when no transport is configured; throws if
+ * the preferences can't be read or the transport rejects the email, so a
+ * webhook handler sending it is retried.
+ */
+export async function sendMail<K extends MailTemplateName>(
+  template: K,
+  recipient: MailRecipient,
+  data: MailTemplateData[K]
+): Promise<void> {
+  const mailTransport = getMailTransport()
+  if (!mailTransport) {
+    console.warn('[mail] No mail transport configured - skipping', template)
+    return
+  }
+
+  const category = MAIL_TEMPLATES[template].category
+  const headers: Record<string, string> = {}
+  let unsubscribe: string
+  if (category) {
+    if (!recipient.auth0Id) {
+      console.error('[mail] No member account to check preferences for - skipping', template)
+      return
+    }
+    if (!(await canNotify(recipient.auth0Id, 'email', category))) {
+      console.log(`[mail] ${recipient.auth0Id} has ${category} emails turned off - skipping`, template)
+      return
+    }
+    unsubscribe = unsubscribeUrl(recipient.auth0Id, category)
+    headers['List-Unsubscribe'] = `<${oneClickUnsubscribeUrl(recipient.auth0Id, category)}>`
+  } else {
+    // Guests have no account or preferences, only an opt-out from everything
+    if (await isEmailOptedOut(recipient.email)) {
+      console.log(`[mail] ${recipient.email} has opted out of every email - skipping`, template)
+      return
+    }
+    unsubscribe = emailOptOutUrl(recipient.email)
+    headers['List-Unsubscribe'] = `<${oneClickEmailOptOutUrl(recipient.email)}>`
+  }
+  headers['List-Unsubscribe-Post'] = 'List-Unsubscribe=One-Click'
+
+  const rendered = await renderMail(template, recipient, data, unsubscribe)
+  await mailTransport.send({ ...rendered, to: recipient.email, from: MAIL_FROM, template, headers })
+  console.log(`[mail] Sent ${template} to ${recipient.email} via ${mailTransport.name}`)
+}
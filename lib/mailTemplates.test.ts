@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { inlineAttachments, renderMail } from '@/lib/mailTemplates'
+
+const recipient = { email: 'guest@example.com', firstName: 'Sam' }
+
+describe('renderMail', () => {
+  it('attaches the guest pass QR code instead of linking an image service', async () => {
+    const mail = await renderMail('guest_pass', recipient, { gymName: 'PureFit', passCode: 'P-4D5E6F', validUntil: null })
+
+    expect(mail.attachments).toHaveLength(1)
+    const [qr] = mail.attachments
+    expect(qr.contentType).toBe('image/png')
+    expect(qr.content.subarray(1, 4).toString()).toBe('PNG')
+    expect(mail.html).toContain(`src="cid:${qr.cid}"`)
+    expect(mail.html).not.toMatch(/https?:\/\/[^"]*P-4D5E6F/)
+  })
+
+  it('swaps attachment references for data URIs when inlined', async () => {
+    const mail = await renderMail('guest_pass', recipient, { gymName: 'PureFit', passCode: 'P-4D5E6F', validUntil: null })
+    const html = inlineAttachments(mail.html, mail.attachments)
+
+    expect(html).toContain('src="data:image/png;base64,')
+    expect(html).not.toContain('cid:')
+  })
+})
@@ -0,0 +1,401 @@
+import QRCode from 'qrcode'
+import { tierLabel } from '@/lib/tiers'
+import { NOTIFICATION_CATEGORY_LABELS, NotificationCategory } from '@/lib/notificationPreferences'
+
+/**
+ * Every email the app sends, as typed templates rendered to a subject, plain
+ * text and HTML with a shared layout. `sendMail` in lib/mail.ts sends them;
+ * /admin/emails previews each one with its sample data. Emails to members
+ * have a category they can unsubscribe from; emails to guests have none, and
+ * their link opts the address out of every email.
+ */
+
+const APP_URL = (process.env.AUTH0_BASE_URL || 'https://any-gym.com').replace(/\/+$/, '')
+
+export interface MailRecipient {
+  email: string
+  firstName: string
+  /** The member's account - required for templates with a category, to check their preferences */
+  auth0Id?: string
+}
+
+export interface MailGym {
+  id: number
+  name: string
+  address: string
+  city: string
+  postcode: string
+  imageUrl: string | null
+}
+
+/** The data each template needs, besides the recipient */
+export interface MailTemplateData {
+  welcome: { tier: string; gyms: MailGym[] }
+  /** passCode is null when passes are signed - members show the QR code in the app instead */
+  pass_issued: { gymName: string; passCode: string | null; validUntil: Date }
+  pass_expiring: { gymName: string; passCode: string | null; validUntil: Date }
+  quota_nearly_used: { remaining: number; monthlyLimit: number; resetsAt: Date | null }
+  payment_failed: { amountDue: number; currency: string; nextAttempt: Date | null; invoiceUrl: string | null }
+  membership_cancelled: { tier: string; endsAt: Date }
+  membership_ended: { tier: string }
+  membership_renewed: { tier: string; amountPaid: number; currency: string; periodEnd: Date }
+  trial_ending: { tier: string; trialEnd: Date }
+  guest_pass_invitation: { memberName: string; gymName: string; acceptUrl: string; acceptBy: Date | null }
+  guest_pass: { gymName: string; passCode: string; validUntil: Date | null }
+}
+
+export type MailTemplateName = keyof MailTemplateData
+
+/** A piece of an email, rendered to both text and HTML */
+export type MailBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'button'; label: string; href: string }
+  | { type: 'code'; label: string; value: string }
+  | { type: 'qr'; value: string }
+  | { type: 'gyms'; gyms: MailGym[] }
+
+interface MailTemplate<T> {
+  /** When it's sent, for the preview page */
+  description: string
+  /** Preference the member can turn off, or null for emails to guests - who can only opt out of everything */
+  category: NotificationCategory | null
+  subject: (data: T) => string
+  blocks: (data: T) => MailBlock[]
+  /** Realistic data for previews */
+  sample: T
+}
+
+/** An image the HTML shows inline with `cid:<cid>` */
+export interface MailAttachment {
+  cid: string
+  filename: string
+  contentType: string
+  content: Buffer
+}
+
+export interface RenderedMail {
+  subject: string
+  text: string
+  html: string
+  attachments: MailAttachment[]
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Europe/London' })
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Europe/London',
+  })
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency: currency.toUpperCase() }).format(amount)
+}
+
+export function guestPassAcceptUrl(token: string): string {
+  return `${APP_URL}/guest-pass/${encodeURIComponent(token)}`
+}
+
+const SAMPLE_DATE = new Date('2026-03-14T18:30:00Z')
+
+const SAMPLE_GYMS: MailGym[] = [
+  { id: 101, name: 'PureFit Shoreditch', address: '12 Great Eastern Street', city: 'London', postcode: 'EC2A 3EH', imageUrl: null },
+  { id: 102, name: 'PureFit Camden', address: '45 Camden High Street', city: 'London', postcode: 'NW1 7JN', imageUrl: null },
+  { id: 103, name: 'PureFit Islington', address: '8 Upper Street', city: 'London', postcode: 'N1 0PQ', imageUrl: null },
+]
+
+export const MAIL_TEMPLATES: { [K in MailTemplateName]: MailTemplate<MailTemplateData[K]> } = {
+  welcome: {
+    description: 'After checkout, with the three gyms recommended for the member',
+    category: 'billing',
+    subject: (data) => `Welcome to AnyGym ${tierLabel(data.tier)}`,
+    blocks: (data) => [
+      { type: 'paragraph', text: `Welcome to your ${tierLabel(data.tier)} membership - you can start visiting gyms today.` },
+      ...(data.gyms.length > 0
+        ? [{ type: 'paragraph', text: 'Here are some gyms near you:' } as const, { type: 'gyms', gyms: data.gyms } as const]
+        : []),
+      { type: 'button', label: 'Find a gym', href: `${APP_URL}/dashboard` },
+    ],
+    sample: { tier: 'standard', gyms: SAMPLE_GYMS },
+  },
+  pass_issued: {
+    description: 'When the member generates a pass',
+    category: 'pass_reminders',
+    subject: (data) => `Your pass for ${data.gymName}`,
+    blocks: (data) => [
+      { type: 'paragraph', text: `Here's your pass for ${data.gymName}. It's valid until ${formatDateTime(data.validUntil)}.` },
+      ...(data.passCode ? [{ type: 'code', label: 'Pass code', value: data.passCode } as const] : []),
+      { type: 'paragraph', text: 'Show the QR code in the app at reception - it works offline once the app is installed.' },
+      { type: 'button', label: 'Open my passes', href: `${APP_URL}/passes` },
+    ],
+    sample: { gymName: 'PureFit Shoreditch', passCode: 'P-1A2B3C', validUntil: SAMPLE_DATE },
+  },
+  pass_expiring: {
+    description: 'Shortly before an unused pass expires',
+    category: 'pass_reminders',
+    subject: (data) => `Your pass for ${data.gymName} expires soon`,
+    blocks: (data) => [
+      { type: 'paragraph', text: `Your pass for ${data.gymName} hasn't been used yet and expires at ${formatDateTime(data.validUntil)}.` },
+      ...(data.passCode ? [{ type: 'code', label: 'Pass code', value: data.passCode } as const] : []),
+      { type: 'button', label: 'Open my passes', href: `${APP_URL}/passes` },
+    ],
+    sample: { gymName: 'PureFit Shoreditch', passCode: 'P-1A2B3C', validUntil: SAMPLE_DATE },
+  },
+  quota_nearly_used: {
+    description: 'When a pass leaves the member with few visits this billing period',
+    category: 'pass_reminders',
+    subject: (data) => `You have ${data.remaining} visit${data.remaining !== 1 ? 's' : ''} left this month`,
+    blocks: (data) => [
+      {
+        type: 'paragraph',
+        text: `You've used ${data.monthlyLimit - data.remaining} of your ${data.monthlyLimit} visits this billing period.${
+          data.resetsAt ? ` Your visits reset on ${formatDate(data.resetsAt)}.` : ''
+        }`,
+      },
+      { type: 'paragraph', text: 'Visiting more often? Upgrade for more visits each month.' },
+      { type: 'button', label: 'Compare plans', href: `${APP_URL}/subscription` },
+    ],
+    sample: { remaining: 1, monthlyLimit: 8, resetsAt: SAMPLE_DATE },
+  },
+  payment_failed: {
+    description: 'When a membership payment fails and Stripe will retry',
+    category: 'billing',
+    subject: () => 'Your AnyGym payment failed',
+    blocks: (data) => [
+      { type: 'paragraph', text: `We couldn't take your membership payment of ${formatAmount(data.amountDue, data.currency)}.` },
+      {
+        type: 'paragraph',
+        text: data.nextAttempt
+          ? `We'll try again on ${formatDate(data.nextAttempt)}. To keep visiting gyms, please check your card details before then.`
+          : 'Please update your card details to keep visiting gyms.',
+      },
+      data.invoiceUrl
+        ? { type: 'button', label: 'Pay now', href: data.invoiceUrl }
+        : { type: 'button', label: 'Manage your membership', href: `${APP_URL}/subscription` },
+    ],
+    sample: { amountDue: 29.99, currency: 'gbp', nextAttempt: SAMPLE_DATE, invoiceUrl: null },
+  },
+  membership_cancelled: {
+    description: 'When the member turns off renewal',
+    category: 'billing',
+    subject: () => 'Your AnyGym membership has been cancelled',
+    blocks: (data) => [
+      { type: 'paragraph', text: `Your ${tierLabel(data.tier)} membership has been cancelled and won't renew.` },
+      { type: 'paragraph', text: `You can keep visiting gyms until ${formatDate(data.endsAt)}.` },
+      { type: 'paragraph', text: 'Changed your mind? Resubscribe any time.' },
+      { type: 'button', label: 'Resubscribe', href: `${APP_URL}/subscription` },
+    ],
+    sample: { tier: 'premium', endsAt: SAMPLE_DATE },
+  },
+  membership_ended: {
+    description: 'When a cancelled membership reaches the end of its period',
+    category: 'billing',
+    subject: () => 'Your AnyGym membership has ended',
+    blocks: (data) => [
+      { type: 'paragraph', text: `Your ${tierLabel(data.tier)} membership has ended and you can no longer generate gym passes.` },
+      { type: 'button', label: 'Rejoin', href: `${APP_URL}/subscription` },
+    ],
+    sample: { tier: 'premium' },
+  },
+  membership_renewed: {
+    description: 'When a renewal payment succeeds',
+    category: 'billing',
+    subject: () => 'Your AnyGym membership has renewed',
+    blocks: (data) => [
+      {
+        type: 'paragraph',
+        text: `Thanks - we've taken ${formatAmount(data.amountPaid, data.currency)} for your ${tierLabel(data.tier)} membership.`,
+      },
+      { type: 'paragraph', text: `Your visits have been reset and your next renewal is on ${formatDate(data.periodEnd)}.` },
+      { type: 'button', label: 'Find a gym', href: `${APP_URL}/dashboard` },
+    ],
+    sample: { tier: 'standard', amountPaid: 29.99, currency: 'gbp', periodEnd: SAMPLE_DATE },
+  },
+  trial_ending: {
+    description: 'A few days before a trial turns into a paid membership',
+    category: 'billing',
+    subject: () => 'Your AnyGym trial ends soon',
+    blocks: (data) => [
+      {
+        type: 'paragraph',
+        text: `Your ${tierLabel(data.tier)} trial ends on ${formatDate(data.trialEnd)}, when your first payment will be taken.`,
+      },
+      { type: 'button', label: 'Change plan or cancel', href: `${APP_URL}/subscription` },
+    ],
+    sample: { tier: 'standard', trialEnd: SAMPLE_DATE },
+  },
+  guest_pass_invitation: {
+    description: 'To a guest, asking them to accept the gym\'s terms - their pass is issued when they do',
+    category: null,
+    subject: (data) => `${data.memberName} invited you to ${data.gymName}`,
+    blocks: (data) => [
+      { type: 'paragraph', text: `${data.memberName} has invited you to ${data.gymName} as their guest on AnyGym.` },
+      {
+        type: 'paragraph',
+        text: `To get your pass, read and accept the gym's terms and health statement${
+          data.acceptBy ? ` before ${formatDateTime(data.acceptBy)}` : ''
+        }.`,
+      },
+      { type: 'button', label: 'Accept and get my pass', href: data.acceptUrl },
+    ],
+    sample: {
+      memberName: 'Sam Taylor',
+      gymName: 'PureFit Shoreditch',
+      acceptUrl: guestPassAcceptUrl('sample-token'),
+      acceptBy: SAMPLE_DATE,
+    },
+  },
+  guest_pass: {
+    description: 'To a guest once they accept, with their pass code and QR code',
+    category: null,
+    subject: (data) => `Your guest pass for ${data.gymName}`,
+    blocks: (data) => [
+      {
+        type: 'paragraph',
+        text: `Here's your guest pass for ${data.gymName}.${data.validUntil ? ` It's valid until ${formatDateTime(data.validUntil)}.` : ''}`,
+      },
+      { type: 'qr', value: data.passCode },
+      { type: 'code', label: 'Pass code', value: data.passCode },
+      { type: 'paragraph', text: 'Show the pass code or QR code at reception.' },
+    ],
+    sample: { gymName: 'PureFit Shoreditch', passCode: 'P-4D5E6F', validUntil: SAMPLE_DATE },
+  },
+}
+
+export function isMailTemplateName(value: string): value is MailTemplateName {
+  return Object.prototype.hasOwnProperty.call(MAIL_TEMPLATES, value)
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+// Attached rather than linked, so the pass code never goes to an image service
+async function qrAttachment(value: string, index: number): Promise<MailAttachment> {
+  return {
+    cid: `qr-${index}@any-gym.com`,
+    filename: `pass-qr-${index}.png`,
+    contentType: 'image/png',
+    content: await QRCode.toBuffer(value, { type: 'png', width: 400, margin: 1 }),
+  }
+}
+
+/** The HTML with its attached images as data URIs, for viewing outside a mail client */
+export function inlineAttachments(html: string, attachments: MailAttachment[]): string {
+  return attachments.reduce(
+    (result, attachment) =>
+      result.split(`cid:${attachment.cid}`).join(`data:${attachment.contentType};base64,${attachment.content.toString('base64')}`),
+    html
+  )
+}
+
+function blockText(block: MailBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      return block.text
+    case 'button':
+      return `${block.label}: ${block.href}`
+    case 'code':
+      return `${block.label}: ${block.value}`
+    case 'qr':
+      return ''
+    case 'gyms':
+      return block.gyms
+        .map((gym) => `${gym.name}\n${[gym.address, gym.city, gym.postcode].filter(Boolean).join(', ')}\n${APP_URL}/dashboard?gym=${gym.id}`)
+        .join('\n\n')
+  }
+}
+
+function blockHtml(block: MailBlock, qrCid: string | undefined): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p style="margin:0 0 16px">${escapeHtml(block.text)}</p>`
+    case 'button':
+      return `<p style="margin:24px 0"><a href="${escapeHtml(block.href)}" style="display:inline-block;padding:12px 24px;background:#FF6B6B;color:#ffffff;border-radius:8px;text-decoration:none;font-weight:600">${escapeHtml(block.label)}</a></p>`
+    case 'code':
+      return `<p style="margin:0 0 16px">${escapeHtml(block.label)}: <strong style="font-family:monospace;font-size:18px">${escapeHtml(block.value)}</strong></p>`
+    case 'qr':
+      return qrCid ? `<p style="margin:0 0 16px"><img src="cid:${escapeHtml(qrCid)}" alt="Pass QR code" width="200" height="200" /></p>` : ''
+    case 'gyms':
+      return block.gyms
+        .map((gym) => {
+          // Email clients don't render SVG
+          const image = gym.imageUrl ? gym.imageUrl.replace('.svg', '.png') : null
+          return `<table role="presentation" style="width:100%;margin:0 0 12px;border:1px solid #e5e7eb;border-radius:8px"><tr>${
+            image ? `<td style="width:80px;padding:12px"><img src="${escapeHtml(image)}" alt="" width="64" height="64" /></td>` : ''
+          }<td style="padding:12px"><a href="${escapeHtml(`${APP_URL}/dashboard?gym=${gym.id}`)}" style="color:#111827;font-weight:600;text-decoration:none">${escapeHtml(gym.name)}</a><br /><span style="color:#6b7280;font-size:14px">${escapeHtml(
+            [gym.address, gym.city, gym.postcode].filter(Boolean).join(', ')
+          )}</span></td></tr></table>`
+        })
+        .join('')
+  }
+}
+
+function unsubscribeText(category: NotificationCategory | null): string {
+  return category
+    ? `You're getting this because ${NOTIFICATION_CATEGORY_LABELS[category].label.toLowerCase()} emails are turned on for your AnyGym account.`
+    : 'You\'re getting this because an AnyGym member invited you as their guest.'
+}
+
+/**
+ * Render `template` for `recipient` - the same greeting and sign-off wrap
+ * every email, and it ends with `unsubscribeUrl` when one is given. QR codes
+ * are rendered here and attached.
+ */
+export async function renderMail<K extends MailTemplateName>(
+  template: K,
+  recipient: MailRecipient,
+  data: MailTemplateData[K],
+  unsubscribeUrl: string | null = null
+): Promise<RenderedMail> {
+  const definition: MailTemplate<MailTemplateData[K]> = MAIL_TEMPLATES[template]
+  const subject = definition.subject(data)
+  const blocks: MailBlock[] = [
+    { type: 'paragraph', text: `Hi ${recipient.firstName},` },
+    ...definition.blocks(data),
+    { type: 'paragraph', text: 'The AnyGym team' },
+  ]
+  const attachments = await Promise.all(
+    blocks.flatMap((block) => (block.type === 'qr' ? [block.value] : [])).map((value, index) => qrAttachment(value, index))
+  )
+  let qrIndex = 0
+
+  const text = [
+    ...blocks.map(blockText).filter(Boolean),
+    ...(unsubscribeUrl ? [`${unsubscribeText(definition.category)}\nUnsubscribe: ${unsubscribeUrl}`] : []),
+  ].join('\n\n')
+  const html = [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8" /><title>${escapeHtml(subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,\'Segoe UI\',Roboto,sans-serif;color:#111827;line-height:1.5">',
+    '<div style="max-width:560px;margin:0 auto;padding:32px;background:#ffffff;border-radius:12px">',
+    ...blocks.map((block) => blockHtml(block, block.type === 'qr' ? attachments[qrIndex++]?.cid : undefined)),
+    '</div>',
+    unsubscribeUrl
+      ? `<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#6b7280;text-align:center">${escapeHtml(
+          unsubscribeText(definition.category)
+        )} <a href="${escapeHtml(unsubscribeUrl)}" style="color:#6b7280">Unsubscribe</a></p>`
+      : '',
+    '</body></html>',
+  ].join('')
+
+  return { subject, text, html, attachments }
+}
+
+/** A template rendered with its sample data, for previews - images are inlined */
+export async function renderMailPreview(template: MailTemplateName): Promise<RenderedMail> {
+  const definition = MAIL_TEMPLATES[template] as MailTemplate<MailTemplateData[typeof template]>
+  const rendered = await renderMail(
+    template,
+    { email: 'member@example.com', firstName: 'Alex' },
+    definition.sample,
+    `${APP_URL}/unsubscribe?token=sample`
+  )
+  return { ...rendered, html: inlineAttachments(rendered.html, rendered.attachments) }
+}
@@ -0,0 +1,150 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import { AnyGymNotFoundError, createEmailOptOut, getEmailOptOut, getUser, updateUser } from '@/lib/anygym'
+import {
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreferences,
+  isNotificationCategory,
+  notificationPreferencesUpdate,
+  resolveNotificationPreferences,
+} from '@/lib/notificationPreferences'
+
+/**
+ * The check in front of every message to a member, and the signed
+ * unsubscribe links that let them opt out of a category without logging in
+ * (PECR/GDPR). Links are `<base64url auth0 id>.<category>.<signature>`,
+ * keyed with UNSUBSCRIBE_SECRET - or AUTH0_SECRET when that isn't set - and
+ * don't expire, so an old email can always be unsubscribed from.
+ *
+ * People without an account, such as invited guests, have no categories -
+ * their links are `<base64url email>.<signature>` and opt the address out of
+ * every email.
+ */
+
+const APP_URL = (process.env.AUTH0_BASE_URL || 'https://any-gym.com').replace(/\/+$/, '')
+
+export interface UnsubscribeToken {
+  auth0Id: string
+  category: NotificationCategory
+}
+
+function hmac(value: string): Buffer {
+  const secret = process.env.UNSUBSCRIBE_SECRET || process.env.AUTH0_SECRET
+  if (!secret) {
+    throw new Error('UNSUBSCRIBE_SECRET is not configured')
+  }
+  return createHmac('sha256', secret).update(`unsubscribe:${value}`).digest()
+}
+
+export function createUnsubscribeToken(auth0Id: string, category: NotificationCategory): string {
+  const payload = `${Buffer.from(auth0Id).toString('base64url')}.${category}`
+  return `${payload}.${hmac(payload).toString('base64url')}`
+}
+
+export function verifyUnsubscribeToken(token: string | null | undefined): UnsubscribeToken | null {
+  const match = token?.trim().match(/^([A-Za-z0-9_-]+)\.([a-z_]+)\.([A-Za-z0-9_-]+)$/)
+  if (!match || !isNotificationCategory(match[2])) return null
+
+  const expected = hmac(`${match[1]}.${match[2]}`)
+  const actual = Buffer.from(match[3], 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null
+  }
+  return { auth0Id: Buffer.from(match[1], 'base64url').toString(), category: match[2] }
+}
+
+/** Page that confirms the unsubscribe - for the link in the email body */
+export function unsubscribeUrl(auth0Id: string, category: NotificationCategory): string {
+  return `${APP_URL}/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(auth0Id, category))}`
+}
+
+/** RFC 8058 one-click endpoint - for the List-Unsubscribe header, POSTed by the mail client */
+export function oneClickUnsubscribeUrl(auth0Id: string, category: NotificationCategory): string {
+  return `${APP_URL}/api/unsubscribe?token=${encodeURIComponent(createUnsubscribeToken(auth0Id, category))}`
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+export function createEmailOptOutToken(email: string): string {
+  const payload = Buffer.from(normalizeEmail(email)).toString('base64url')
+  return `${payload}.${hmac(`email:${payload}`).toString('base64url')}`
+}
+
+/** The email address an opt-out token is for, or null if it's not valid */
+export function verifyEmailOptOutToken(token: string | null | undefined): string | null {
+  const match = token?.trim().match(/^([A-Za-z0-9_-]+)\.([A-Za-z0-9_-]+)$/)
+  if (!match) return null
+
+  const expected = hmac(`email:${match[1]}`)
+  const actual = Buffer.from(match[2], 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null
+  }
+  return Buffer.from(match[1], 'base64url').toString()
+}
+
+/** Page that confirms an address's opt-out - for the link in emails to guests */
+export function emailOptOutUrl(email: string): string {
+  return `${APP_URL}/unsubscribe?token=${encodeURIComponent(createEmailOptOutToken(email))}`
+}
+
+/** RFC 8058 one-click endpoint for an address's opt-out */
+export function oneClickEmailOptOutUrl(email: string): string {
+  return `${APP_URL}/api/unsubscribe?token=${encodeURIComponent(createEmailOptOutToken(email))}`
+}
+
+/** Whether an address without an account has opted out - a failed lookup throws rather than sending without knowing */
+export async function isEmailOptedOut(email: string): Promise<boolean> {
+  try {
+    await getEmailOptOut(normalizeEmail(email))
+    return true
+  } catch (error) {
+    if (error instanceof AnyGymNotFoundError) {
+      return false
+    }
+    throw error
+  }
+}
+
+export async function optOutEmail(email: string): Promise<void> {
+  await createEmailOptOut(normalizeEmail(email))
+  console.log('[notificationConsent] Opted out', normalizeEmail(email), 'from every email')
+}
+
+export async function getNotificationPreferences(auth0Id: string): Promise<NotificationPreferences> {
+  return resolveNotificationPreferences(await getUser(auth0Id, { cache: 'no-store' }))
+}
+
+/**
+ * Whether the member has agreed to `category` messages on `channel`. A member
+ * the backend doesn't know gets nothing; a failed lookup throws rather than
+ * sending without knowing.
+ */
+export async function canNotify(auth0Id: string, channel: NotificationChannel, category: NotificationCategory): Promise<boolean> {
+  try {
+    const preferences = await getNotificationPreferences(auth0Id)
+    return preferences[channel][category]
+  } catch (error) {
+    if (error instanceof AnyGymNotFoundError) {
+      return false
+    }
+    throw error
+  }
+}
+
+/** Turn `categories` off for `channel` and return the member's updated preferences */
+export async function unsubscribe(
+  auth0Id: string,
+  channel: NotificationChannel,
+  categories: readonly NotificationCategory[]
+): Promise<NotificationPreferences> {
+  const preferences = await getNotificationPreferences(auth0Id)
+  for (const category of categories) {
+    preferences[channel][category] = false
+  }
+  await updateUser(auth0Id, notificationPreferencesUpdate(preferences))
+  console.log('[notificationConsent] Unsubscribed', auth0Id, 'from', channel, categories.join(', '))
+  return preferences
+}
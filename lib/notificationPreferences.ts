@@ -0,0 +1,74 @@
+import type { ApiUser } from '@/lib/anygym'
+
+/**
+ * What each member has agreed to be sent, per channel and category. Stored
+ * on the backend user as `notification_preferences`; the older
+ * `pass_notification_consent` and `marketing_consent` flags are kept in step
+ * and used for categories a member hasn't set yet. Shared by the profile
+ * page and the server.
+ */
+
+export const NOTIFICATION_CHANNELS = ['email'] as const
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number]
+
+export const NOTIFICATION_CATEGORIES = ['pass_reminders', 'billing', 'marketing', 'newsletters'] as const
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number]
+
+export const NOTIFICATION_CATEGORY_LABELS: Record<NotificationCategory, { label: string; description: string }> = {
+  pass_reminders: { label: 'Pass reminders', description: 'Your new passes, passes about to expire and visits running low' },
+  billing: { label: 'Billing and membership', description: 'Payments, renewals, trials and changes to your membership' },
+  marketing: { label: 'Offers', description: 'Promotions and offers from AnyGym and partner gyms' },
+  newsletters: { label: 'Newsletters', description: 'News, new gyms and fitness articles' },
+}
+
+export type NotificationPreferences = Record<NotificationChannel, Record<NotificationCategory, boolean>>
+
+type PreferenceUser = Pick<ApiUser, 'pass_notification_consent' | 'marketing_consent' | 'notification_preferences'>
+
+function consentFlag(value: unknown): boolean | null {
+  if (value === true || value === 'true' || value === 1) return true
+  if (value === false || value === 'false' || value === 0) return false
+  return null
+}
+
+/**
+ * The member's preferences, explicit choices first. Service messages - pass
+ * reminders and billing - are on until turned off; marketing and newsletters
+ * need an opt-in.
+ */
+export function resolveNotificationPreferences(user: PreferenceUser): NotificationPreferences {
+  const stored = (user.notification_preferences || {}) as Partial<Record<NotificationChannel, Partial<Record<NotificationCategory, unknown>>>>
+  const passConsent = consentFlag(user.pass_notification_consent)
+  const marketingConsent = consentFlag(user.marketing_consent)
+  const defaults: Record<NotificationCategory, boolean> = {
+    pass_reminders: passConsent ?? true,
+    billing: true,
+    marketing: marketingConsent ?? false,
+    newsletters: marketingConsent ?? false,
+  }
+
+  return Object.fromEntries(
+    NOTIFICATION_CHANNELS.map((channel) => [
+      channel,
+      Object.fromEntries(
+        NOTIFICATION_CATEGORIES.map((category) => [
+          category,
+          typeof stored[channel]?.[category] === 'boolean' ? (stored[channel]?.[category] as boolean) : defaults[category],
+        ])
+      ),
+    ])
+  ) as NotificationPreferences
+}
+
+/** The user update that stores `preferences`, keeping the older consent flags in step */
+export function notificationPreferencesUpdate(preferences: NotificationPreferences): Record<string, unknown> {
+  return {
+    notification_preferences: preferences,
+    pass_notification_consent: preferences.email.pass_reminders,
+    marketing_consent: preferences.email.marketing,
+  }
+}
+
+export function isNotificationCategory(value: unknown): value is NotificationCategory {
+  return typeof value === 'string' && (NOTIFICATION_CATEGORIES as readonly string[]).includes(value)
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { OpeningHours, getBankHolidays, getOpenStatus, parseOpeningHours } from '@/lib/openingHours'
+
+function hours(raw: unknown): OpeningHours {
+  const parsed = parseOpeningHours(raw)
+  if (!parsed) throw new Error('Unparseable hours')
+  return parsed
+}
+
+describe('getOpenStatus', () => {
+  it('says when it closes and when it next opens on an ordinary day', () => {
+    const weekdays = hours({ weekdays: '06:00-22:00', saturday: '08:00-20:00', sunday: 'closed' })
+
+    // Wednesday 7 January 2026 - UK time is UTC in winter
+    expect(getOpenStatus(weekdays, new Date('2026-01-07T12:00:00Z'))).toEqual({
+      isOpen: true,
+      closesAt: '22:00',
+      isBankHoliday: false,
+    })
+    expect(getOpenStatus(weekdays, new Date('2026-01-07T05:00:00Z'))).toMatchObject({ isOpen: false, opensAt: '06:00' })
+    expect(getOpenStatus(weekdays, new Date('2026-01-07T22:00:00Z'))).toMatchObject({ isOpen: false, opensAt: 'Thu 06:00' })
+    // Saturday evening skips the closed Sunday
+    expect(getOpenStatus(weekdays, new Date('2026-01-10T21:00:00Z'))).toMatchObject({ isOpen: false, opensAt: 'Mon 06:00' })
+  })
+
+  it('reads the time in UK local time during summer time', () => {
+    const weekdays = hours({ weekdays: '06:00-22:00' })
+
+    // 21:30 UTC is 22:30 in London on 1 July
+    expect(getOpenStatus(weekdays, new Date('2026-07-01T21:30:00Z'))).toMatchObject({ isOpen: false, opensAt: 'Thu 06:00' })
+    expect(getOpenStatus(weekdays, new Date('2026-07-01T05:30:00Z'))).toMatchObject({ isOpen: true, closesAt: '22:00' })
+  })
+
+  it('keeps an overnight range open past midnight into the next day', () => {
+    const lateFriday = hours({ friday: '18:00-02:00' })
+
+    expect(getOpenStatus(lateFriday, new Date('2026-01-09T23:30:00Z'))).toMatchObject({ isOpen: true, closesAt: '02:00' })
+    // Saturday 01:00 is still Friday's session
+    expect(getOpenStatus(lateFriday, new Date('2026-01-10T01:00:00Z'))).toMatchObject({ isOpen: true, closesAt: '02:00' })
+    expect(getOpenStatus(lateFriday, new Date('2026-01-10T02:00:00Z'))).toMatchObject({ isOpen: false, opensAt: 'Fri 18:00' })
+  })
+
+  it('has no closing time when it stays open through midnight into the next day', () => {
+    const lateMonday = hours({ monday: '06:00-24:00', tuesday: '00:00-22:00' })
+
+    const status = getOpenStatus(lateMonday, new Date('2026-01-05T23:00:00Z'))
+    expect(status.isOpen).toBe(true)
+    expect(status.closesAt).toBeUndefined()
+  })
+
+  it('uses bank holiday hours on a bank holiday', () => {
+    const withHolidays = hours({ weekdays: '06:00-22:00', bank_holidays: '10:00-16:00' })
+
+    // Early May bank holiday, Monday 4 May 2026 - 08:00 UTC is 09:00 in London
+    expect(getOpenStatus(withHolidays, new Date('2026-05-04T08:00:00Z'))).toEqual({
+      isOpen: false,
+      opensAt: '10:00',
+      isBankHoliday: true,
+    })
+    expect(getOpenStatus(withHolidays, new Date('2026-05-04T14:00:00Z'))).toMatchObject({ isOpen: true, closesAt: '16:00' })
+    // The next Monday is an ordinary day
+    expect(getOpenStatus(withHolidays, new Date('2026-05-11T08:00:00Z'))).toMatchObject({ isOpen: true, closesAt: '22:00' })
+  })
+
+  it('falls back to the weekday hours on a bank holiday without its own hours', () => {
+    const weekdays = hours({ weekdays: '06:00-22:00' })
+
+    expect(getOpenStatus(weekdays, new Date('2026-05-04T08:00:00Z'))).toEqual({
+      isOpen: true,
+      closesAt: '22:00',
+      isBankHoliday: true,
+    })
+  })
+
+  it('applies bank holiday hours on a substitute day', () => {
+    // Christmas 2027 is a Saturday, so the holidays move to Monday 27 and Tuesday 28 December
+    const withHolidays = hours({ weekdays: '06:00-22:00', saturday: '08:00-20:00', bank_holidays: 'closed' })
+
+    expect(getOpenStatus(withHolidays, new Date('2027-12-27T12:00:00Z'))).toMatchObject({
+      isOpen: false,
+      opensAt: 'Wed 06:00',
+      isBankHoliday: true,
+    })
+    expect(getOpenStatus(withHolidays, new Date('2027-12-25T12:00:00Z'))).toMatchObject({ isOpen: true, isBankHoliday: false })
+  })
+})
+
+describe('getBankHolidays', () => {
+  it('moves weekend holidays to the following weekdays', () => {
+    // New Year's Day 2028 is a Saturday; Christmas 2022 was a Sunday
+    expect(getBankHolidays(2028).has('2028-01-03')).toBe(true)
+    expect(getBankHolidays(2028).has('2028-01-01')).toBe(false)
+    expect(Array.from(getBankHolidays(2022)).filter((date) => date.startsWith('2022-12'))).toEqual(['2022-12-26', '2022-12-27'])
+    expect(Array.from(getBankHolidays(2027)).filter((date) => date.startsWith('2027-12'))).toEqual(['2027-12-27', '2027-12-28'])
+  })
+
+  it('includes the Easter holidays', () => {
+    // Easter Sunday 2026 is 5 April
+    expect(getBankHolidays(2026).has('2026-04-03')).toBe(true)
+    expect(getBankHolidays(2026).has('2026-04-06')).toBe(true)
+  })
+})
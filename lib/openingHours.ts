@@ -0,0 +1,475 @@
+/**
+ * Opening hours model.
+ *
+ * The backend stores opening_hours as free-form jsonb, e.g.
+ *   { "monday": "06:00-22:00", "sunday": "closed", "bank_holidays": "08:00-18:00" }
+ *   { "mon": { "open": "06:00", "close": "22:00" } }
+ *   { "weekdays": "6am - 10pm", "weekends": "8:00-20:00, 21:00-23:00" }
+ *   "24/7"
+ * parseOpeningHours turns all of these into OpeningHours. Times are evaluated in
+ * UK local time (Europe/London) whatever the server or browser timezone is.
+ */
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const
+
+export type Weekday = (typeof WEEKDAYS)[number]
+
+/** Minutes since midnight. `close` is above 1440 when a range runs past midnight. */
+export interface TimeRange {
+  open: number
+  close: number
+}
+
+export interface OpeningHours {
+  /** Ranges per day - an empty array means closed that day */
+  days: Record<Weekday, TimeRange[]>
+  /** Hours on bank holidays, or null to use the normal hours for that weekday */
+  bankHolidays: TimeRange[] | null
+  /** Open 24 hours every day */
+  alwaysOpen: boolean
+}
+
+export interface OpenStatus {
+  isOpen: boolean
+  /** When the current range ends (HH:MM), if open */
+  closesAt?: string
+  /** When the gym next opens, e.g. "06:00" or "Sat 08:00", if closed */
+  opensAt?: string
+  /** Whether today is a bank holiday */
+  isBankHoliday: boolean
+}
+
+const MINUTES_PER_DAY = 24 * 60
+const UK_TIMEZONE = 'Europe/London'
+
+const DAY_ALIASES: Record<string, Weekday[]> = {
+  mon: ['monday'],
+  tue: ['tuesday'],
+  tues: ['tuesday'],
+  wed: ['wednesday'],
+  thu: ['thursday'],
+  thur: ['thursday'],
+  thurs: ['thursday'],
+  fri: ['friday'],
+  sat: ['saturday'],
+  sun: ['sunday'],
+  weekdays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+  weekends: ['saturday', 'sunday'],
+  weekend: ['saturday', 'sunday'],
+  everyday: [...WEEKDAYS],
+  daily: [...WEEKDAYS],
+}
+
+const BANK_HOLIDAY_KEYS = ['bank_holidays', 'bank_holiday', 'bankholidays', 'holidays', 'public_holidays']
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function emptyWeek(): Record<Weekday, TimeRange[]> {
+  return { monday: [], tuesday: [], wednesday: [], thursday: [], friday: [], saturday: [], sunday: [] }
+}
+
+const ALL_DAY: TimeRange = { open: 0, close: MINUTES_PER_DAY }
+
+/** Parse "06:00", "6:30", "0630", "6am", "10.30pm" to minutes since midnight */
+function parseTime(value: string): number | null {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2})(?:[:.]?(\d{2}))?\s*(am|pm)?$/)
+  if (!match) {
+    return null
+  }
+  let hours = parseInt(match[1], 10)
+  const minutes = match[2] ? parseInt(match[2], 10) : 0
+  if (match[3] === 'pm' && hours < 12) hours += 12
+  if (match[3] === 'am' && hours === 12) hours = 0
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null
+  }
+  return hours * 60 + minutes
+}
+
+function isAllDay(value: string): boolean {
+  return /^(open\s*)?(24\s*(hours|hrs|h)|24\/7|all\s*day)$/i.test(value.trim())
+}
+
+function makeRange(open: number, close: number): TimeRange {
+  // "00:00-23:59" is how the backend writes a full day
+  if (close === MINUTES_PER_DAY - 1) {
+    close = MINUTES_PER_DAY
+  }
+  // Overnight ranges such as 22:00-02:00
+  if (close <= open) {
+    close += MINUTES_PER_DAY
+  }
+  return { open, close }
+}
+
+/** Parse one day's hours. Returns null when the value can't be understood. */
+function parseDayValue(value: unknown): TimeRange[] | null {
+  if (value == null || value === false) {
+    return []
+  }
+  if (value === true) {
+    return [ALL_DAY]
+  }
+  if (Array.isArray(value)) {
+    const ranges: TimeRange[] = []
+    for (const item of value) {
+      const parsed = parseDayValue(item)
+      if (parsed === null) return null
+      ranges.push(...parsed)
+    }
+    return ranges
+  }
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>
+    if (obj.closed === true || obj.is_closed === true) {
+      return []
+    }
+    const open = typeof obj.open === 'string' ? parseTime(obj.open) : null
+    const close = typeof obj.close === 'string' ? parseTime(obj.close) : null
+    return open !== null && close !== null ? [makeRange(open, close)] : null
+  }
+  if (typeof value !== 'string') {
+    return null
+  }
+
+  const text = value.trim()
+  if (!text || /^closed$/i.test(text)) {
+    return []
+  }
+  if (isAllDay(text)) {
+    return [ALL_DAY]
+  }
+
+  const ranges: TimeRange[] = []
+  for (const part of text.split(/[,;&]|\band\b/)) {
+    if (!part.trim()) continue
+    const [openText, closeText, ...rest] = part.split(/\s*(?:-|–|—|\bto\b)\s*/i)
+    const open = openText ? parseTime(openText) : null
+    const close = closeText ? parseTime(closeText) : null
+    if (open === null || close === null || rest.length > 0) {
+      return null
+    }
+    ranges.push(makeRange(open, close))
+  }
+  return ranges
+}
+
+function normalizeKey(key: string): string {
+  return key.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+/** Expand keys such as "monday", "mon", "weekdays" or "mon_fri" to weekdays */
+function daysForKey(key: string): Weekday[] | null {
+  if ((WEEKDAYS as readonly string[]).includes(key)) {
+    return [key as Weekday]
+  }
+  if (DAY_ALIASES[key]) {
+    return DAY_ALIASES[key]
+  }
+  const span = key.match(/^([a-z]+)_(?:to_)?([a-z]+)$/)
+  if (span) {
+    const from = daysForKey(span[1])
+    const to = daysForKey(span[2])
+    if (from?.length === 1 && to?.length === 1) {
+      const start = WEEKDAYS.indexOf(from[0])
+      const end = WEEKDAYS.indexOf(to[0])
+      const days: Weekday[] = []
+      for (let i = start; ; i = (i + 1) % 7) {
+        days.push(WEEKDAYS[i])
+        if (i === end) break
+      }
+      return days
+    }
+  }
+  return null
+}
+
+/**
+ * Parse raw opening_hours from the API. Returns null when there are no hours
+ * or nothing recognisable. Days that aren't listed are treated as closed as
+ * long as at least one day is.
+ */
+export function parseOpeningHours(raw: unknown): OpeningHours | null {
+  let value = raw
+  if (typeof raw === 'string') {
+    if (isAllDay(raw)) {
+      return { days: allDayWeek(), bankHolidays: null, alwaysOpen: true }
+    }
+    try {
+      value = JSON.parse(raw)
+    } catch {
+      return null
+    }
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null
+  }
+
+  const days = emptyWeek()
+  let bankHolidays: TimeRange[] | null = null
+  let recognised = false
+
+  for (const [rawKey, dayValue] of Object.entries(value as Record<string, unknown>)) {
+    const key = normalizeKey(rawKey)
+    const ranges = parseDayValue(dayValue)
+    if (ranges === null) {
+      continue
+    }
+    if (BANK_HOLIDAY_KEYS.includes(key)) {
+      bankHolidays = ranges
+      continue
+    }
+    const keyDays = daysForKey(key)
+    if (!keyDays) {
+      continue
+    }
+    recognised = true
+    for (const day of keyDays) {
+      days[day] = ranges
+    }
+  }
+
+  if (!recognised) {
+    return null
+  }
+
+  const alwaysOpen = WEEKDAYS.every((day) => days[day].some((r) => r.open === 0 && r.close >= MINUTES_PER_DAY))
+    && (bankHolidays === null || bankHolidays.some((r) => r.open === 0 && r.close >= MINUTES_PER_DAY))
+  return { days, bankHolidays, alwaysOpen }
+}
+
+function allDayWeek(): Record<Weekday, TimeRange[]> {
+  const days = emptyWeek()
+  for (const day of WEEKDAYS) {
+    days[day] = [ALL_DAY]
+  }
+  return days
+}
+
+// ---------------------------------------------------------------------------
+// UK bank holidays (England & Wales)
+// ---------------------------------------------------------------------------
+
+/** Easter Sunday for a year (anonymous Gregorian algorithm), as [month (1-12), day] */
+function easterSunday(year: number): [number, number] {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return [month, day]
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function firstMonday(year: number, month: number): Date {
+  const date = utcDate(year, month, 1)
+  date.setUTCDate(1 + ((8 - date.getUTCDay()) % 7))
+  return date
+}
+
+function lastMonday(year: number, month: number): Date {
+  const date = utcDate(year, month + 1, 0)
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7))
+  return date
+}
+
+const bankHolidayCache = new Map<number, Set<string>>()
+
+/**
+ * Bank holidays in England & Wales for a year, as YYYY-MM-DD strings.
+ * One-off holidays (jubilees, coronations) are not included.
+ */
+export function getBankHolidays(year: number): Set<string> {
+  const cached = bankHolidayCache.get(year)
+  if (cached) {
+    return cached
+  }
+
+  const holidays: Date[] = []
+
+  // New Year's Day, moved to Monday if it falls at the weekend
+  const newYear = utcDate(year, 1, 1)
+  const newYearDay = newYear.getUTCDay()
+  holidays.push(newYearDay === 6 ? utcDate(year, 1, 3) : newYearDay === 0 ? utcDate(year, 1, 2) : newYear)
+
+  const [easterMonth, easterDay] = easterSunday(year)
+  holidays.push(utcDate(year, easterMonth, easterDay - 2)) // Good Friday
+  holidays.push(utcDate(year, easterMonth, easterDay + 1)) // Easter Monday
+
+  holidays.push(firstMonday(year, 5)) // Early May
+  holidays.push(lastMonday(year, 5)) // Spring
+  holidays.push(lastMonday(year, 8)) // Summer
+
+  // Christmas and Boxing Day, with substitute days when they fall at the weekend
+  const christmasDay = utcDate(year, 12, 25).getUTCDay()
+  if (christmasDay === 5) {
+    holidays.push(utcDate(year, 12, 25), utcDate(year, 12, 28))
+  } else if (christmasDay === 6) {
+    holidays.push(utcDate(year, 12, 27), utcDate(year, 12, 28))
+  } else if (christmasDay === 0) {
+    holidays.push(utcDate(year, 12, 26), utcDate(year, 12, 27))
+  } else {
+    holidays.push(utcDate(year, 12, 25), utcDate(year, 12, 26))
+  }
+
+  const result = new Set(holidays.map(isoDate))
+  bankHolidayCache.set(year, result)
+  return result
+}
+
+// ---------------------------------------------------------------------------
+// Status
+// ---------------------------------------------------------------------------
+
+interface UkDateTime {
+  date: string // YYYY-MM-DD
+  weekday: Weekday
+  minutes: number
+}
+
+const ukFormatter = new Intl.DateTimeFormat('en-GB', {
+  timeZone: UK_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  weekday: 'long',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+})
+
+function toUkDateTime(at: Date): UkDateTime {
+  const parts: Record<string, string> = {}
+  for (const part of ukFormatter.formatToParts(at)) {
+    parts[part.type] = part.value
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    weekday: parts.weekday.toLowerCase() as Weekday,
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  }
+}
+
+/** The calendar day `offset` days from a YYYY-MM-DD date */
+function shiftDay(date: string, weekday: Weekday, offset: number): { date: string; weekday: Weekday } {
+  const shifted = new Date(`${date}T00:00:00Z`)
+  shifted.setUTCDate(shifted.getUTCDate() + offset)
+  return {
+    date: isoDate(shifted),
+    weekday: WEEKDAYS[(((WEEKDAYS.indexOf(weekday) + offset) % 7) + 7) % 7],
+  }
+}
+
+export function isBankHoliday(date: string): boolean {
+  return getBankHolidays(parseInt(date.slice(0, 4), 10)).has(date)
+}
+
+/** Ranges that apply on a given UK calendar day, taking bank holidays into account */
+export function getRangesForDate(hours: OpeningHours, date: string, weekday: Weekday): TimeRange[] {
+  if (hours.bankHolidays && isBankHoliday(date)) {
+    return hours.bankHolidays
+  }
+  return hours.days[weekday]
+}
+
+/** Format minutes since midnight as HH:MM */
+export function formatMinutes(minutes: number): string {
+  const m = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`
+}
+
+function formatRange(range: TimeRange): string {
+  if (range.open === 0 && range.close >= MINUTES_PER_DAY) {
+    return 'Open 24 hours'
+  }
+  return `${formatMinutes(range.open)} - ${formatMinutes(range.close)}`
+}
+
+/** Human-readable hours for a day, e.g. "06:00 - 22:00" or "Closed" */
+export function formatRanges(ranges: TimeRange[]): string {
+  return ranges.length > 0 ? ranges.map(formatRange).join(', ') : 'Closed'
+}
+
+/** Whether the gym is open at a moment, and when it next closes or opens */
+export function getOpenStatus(hours: OpeningHours, at: Date = new Date()): OpenStatus {
+  const now = toUkDateTime(at)
+  const bankHoliday = isBankHoliday(now.date)
+
+  if (hours.alwaysOpen) {
+    return { isOpen: true, isBankHoliday: bankHoliday }
+  }
+
+  // A range from yesterday can run past midnight into today
+  const yesterday = shiftDay(now.date, now.weekday, -1)
+  for (const range of getRangesForDate(hours, yesterday.date, yesterday.weekday)) {
+    if (range.close > MINUTES_PER_DAY && now.minutes < range.close - MINUTES_PER_DAY) {
+      return { isOpen: true, closesAt: formatMinutes(range.close), isBankHoliday: bankHoliday }
+    }
+  }
+
+  const today = getRangesForDate(hours, now.date, now.weekday)
+  for (const range of today) {
+    if (now.minutes >= range.open && now.minutes < range.close) {
+      // Open until midnight and straight through tomorrow has no meaningful closing time
+      const tomorrow = shiftDay(now.date, now.weekday, 1)
+      const runsOn = range.close === MINUTES_PER_DAY
+        && getRangesForDate(hours, tomorrow.date, tomorrow.weekday).some((r) => r.open === 0)
+      return {
+        isOpen: true,
+        closesAt: runsOn ? undefined : formatMinutes(range.close),
+        isBankHoliday: bankHoliday,
+      }
+    }
+  }
+
+  // Find the next opening within the coming week
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = offset === 0 ? { date: now.date, weekday: now.weekday } : shiftDay(now.date, now.weekday, offset)
+    const upcoming = getRangesForDate(hours, day.date, day.weekday)
+      .filter((range) => offset > 0 || range.open > now.minutes)
+      .sort((a, b) => a.open - b.open)
+    if (upcoming.length > 0) {
+      const time = formatMinutes(upcoming[0].open)
+      const dayLabel = day.weekday.charAt(0).toUpperCase() + day.weekday.slice(1, 3)
+      return { isOpen: false, opensAt: offset === 0 ? time : `${dayLabel} ${time}`, isBankHoliday: bankHoliday }
+    }
+  }
+
+  return { isOpen: false, isBankHoliday: bankHoliday }
+}
+
+/** Whether the gym is open at a moment - false when hours are unknown */
+export function isOpenAt(hours: OpeningHours | null | undefined, at: Date = new Date()): boolean {
+  return hours ? getOpenStatus(hours, at).isOpen : false
+}
+
+/** Badge text, e.g. "Open · closes 22:00", "Open 24 hours" or "Closed · opens Sat 08:00" */
+export function formatOpenStatus(status: OpenStatus): string {
+  if (status.isOpen) {
+    return status.closesAt ? `Open · closes ${status.closesAt}` : 'Open 24 hours'
+  }
+  return status.opensAt ? `Closed · opens ${status.opensAt}` : 'Closed'
+}
+
+/** Today's weekday in the UK */
+export function getUkWeekday(at: Date = new Date()): Weekday {
+  return toUkDateTime(at).weekday
+}
@@ -0,0 +1,48 @@
+/**
+ * Members can cancel a pass they haven't used yet - say one generated at the
+ * wrong gym - within a short window of generating it, and get the visit back.
+ * Shared by the cancel route and PassesView; the backend enforces the same
+ * window when the pass is cancelled.
+ */
+
+export const PASS_CANCEL_WINDOW_MINUTES = 30
+
+export const PASS_CANCELLATION_REASONS = {
+  wrong_gym: 'I picked the wrong gym',
+  plans_changed: 'I can\'t make it any more',
+  generated_by_mistake: 'I generated it by mistake',
+  other: 'Something else',
+} as const
+
+export type PassCancellationReason = keyof typeof PASS_CANCELLATION_REASONS
+
+export function isPassCancellationReason(value: unknown): value is PassCancellationReason {
+  return typeof value === 'string' && value in PASS_CANCELLATION_REASONS
+}
+
+export type PassCancelBlocker = 'not_active' | 'already_used' | 'window_closed'
+
+interface CancellablePass {
+  status: string
+  usedAt?: Date | null
+  createdAt: Date
+}
+
+/** When the pass stops being cancellable */
+export function passCancelDeadline(pass: Pick<CancellablePass, 'createdAt'>): Date {
+  return new Date(pass.createdAt.getTime() + PASS_CANCEL_WINDOW_MINUTES * 60 * 1000)
+}
+
+/** Why the pass can't be cancelled, or null if it can */
+export function passCancelBlocker(pass: CancellablePass, now = new Date()): PassCancelBlocker | null {
+  if (pass.status !== 'active') return 'not_active'
+  if (pass.usedAt) return 'already_used'
+  if (passCancelDeadline(pass) <= now) return 'window_closed'
+  return null
+}
+
+export const PASS_CANCEL_BLOCKER_MESSAGES: Record<PassCancelBlocker, string> = {
+  not_active: 'This pass is no longer active.',
+  already_used: 'This pass has already been scanned at the gym, so it can\'t be cancelled.',
+  window_closed: `Passes can only be cancelled within ${PASS_CANCEL_WINDOW_MINUTES} minutes of being generated.`,
+}
@@ -0,0 +1,213 @@
+import {
+  AnyGymNotFoundError,
+  ApiGym,
+  ApiMembership,
+  ApiPass,
+  getGym,
+  getUserPasses,
+  getUserSubscription,
+} from '@/lib/anygym'
+import { getTierOrder } from '@/lib/stripeTiers'
+import { isTierIncluded, tierLabel } from '@/lib/tiers'
+
+/**
+ * Pre-flight check for generating a pass, so members get a specific reason
+ * and a next step rather than the backend's rejection text. The backend
+ * still enforces the same rules when the pass is generated.
+ */
+
+export type PassIneligibleReason =
+  | 'gym_not_found'
+  | 'no_membership'
+  | 'membership_past_due'
+  | 'membership_inactive'
+  | 'tier_too_low'
+  | 'active_pass_exists'
+  | 'quota_exhausted'
+  | 'guest_quota_exhausted'
+
+export interface PassEligibilityAction {
+  label: string
+  href: string
+}
+
+export interface PassEligibility {
+  eligible: boolean
+  reason?: PassIneligibleReason
+  message?: string
+  action?: PassEligibilityAction
+  requiredTier?: string
+  passesRemaining?: number
+  monthlyLimit?: number
+  /** When the monthly allowance resets - the end of the billing period */
+  resetsAt?: string | null
+}
+
+/** HTTP status for a generate request refused for each reason */
+export const PASS_INELIGIBLE_STATUS: Record<PassIneligibleReason, number> = {
+  gym_not_found: 404,
+  no_membership: 403,
+  membership_past_due: 402,
+  membership_inactive: 403,
+  tier_too_low: 403,
+  active_pass_exists: 409,
+  quota_exhausted: 403,
+  guest_quota_exhausted: 403,
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', timeZone: 'Europe/London' })
+}
+
+function activePasses(data: Awaited<ReturnType<typeof getUserPasses>>): ApiPass[] {
+  const passes = Array.isArray(data) ? data : data.active_passes || data.passes || []
+  const now = Date.now()
+  return passes.filter((pass) => pass.status === 'active' && (!pass.valid_until || new Date(pass.valid_until).getTime() > now))
+}
+
+function getMembership(auth0Id: string): Promise<ApiMembership | null> {
+  return getUserSubscription(auth0Id, { cache: 'no-store' }).catch((error): ApiMembership | null => {
+    if (error instanceof AnyGymNotFoundError) return null
+    throw error
+  })
+}
+
+function getGymIfExists(gymId: number): Promise<ApiGym | null> {
+  return getGym(gymId).catch((error) => {
+    if (error instanceof AnyGymNotFoundError) return null
+    throw error
+  })
+}
+
+/** Checks shared by member and guest passes - the gym exists and the membership is active and covers it */
+async function checkMembership(
+  gym: ApiGym | null,
+  membership: ApiMembership | null
+): Promise<{ refused: PassEligibility } | { refused: null; membership: ApiMembership }> {
+  if (!gym) {
+    return { refused: { eligible: false, reason: 'gym_not_found', message: 'We couldn\'t find this gym.', action: { label: 'Find another gym', href: '/dashboard' } } }
+  }
+
+  if (!membership) {
+    return {
+      refused: {
+        eligible: false,
+        reason: 'no_membership',
+        message: 'You need a membership to generate passes.',
+        action: { label: 'View plans', href: '/subscription' },
+      },
+    }
+  }
+
+  const status = membership.status || 'active'
+  if (status === 'past_due' || status === 'unpaid') {
+    return {
+      refused: {
+        eligible: false,
+        reason: 'membership_past_due',
+        message: 'Your last membership payment failed, so passes are paused until it\'s paid.',
+        action: { label: 'Update payment details', href: '/subscription' },
+      },
+    }
+  }
+  if (status !== 'active') {
+    return {
+      refused: {
+        eligible: false,
+        reason: 'membership_inactive',
+        message: 'Your membership isn\'t active.',
+        action: { label: 'Rejoin', href: '/subscription' },
+      },
+    }
+  }
+
+  const requiredTier = gym.required_tier || undefined
+  if (requiredTier && !isTierIncluded(membership.tier, requiredTier, await getTierOrder())) {
+    return {
+      refused: {
+        eligible: false,
+        reason: 'tier_too_low',
+        message: `This gym requires a ${tierLabel(requiredTier)} membership.`,
+        action: { label: `Upgrade to ${tierLabel(requiredTier)}`, href: '/subscription' },
+        requiredTier,
+      },
+    }
+  }
+
+  return { refused: null, membership }
+}
+
+export async function checkPassEligibility(auth0Id: string, gymId: number): Promise<PassEligibility> {
+  const [gym, membershipResult, passes] = await Promise.all([
+    getGymIfExists(gymId),
+    getMembership(auth0Id),
+    getUserPasses(auth0Id, { cache: 'no-store' }),
+  ])
+
+  const checked = await checkMembership(gym, membershipResult)
+  if (checked.refused) {
+    return checked.refused
+  }
+  const { membership } = checked
+
+  const existing = activePasses(passes).find((pass) => Number(pass.gym_id) === gymId)
+  if (existing) {
+    return {
+      eligible: false,
+      reason: 'active_pass_exists',
+      message: existing.valid_until
+        ? `You already have a pass for this gym, valid until ${new Date(existing.valid_until).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/London' })}.`
+        : 'You already have a pass for this gym.',
+      action: { label: 'View your pass', href: '/passes' },
+    }
+  }
+
+  const monthlyLimit = Number(membership.monthly_limit) || 0
+  const passesRemaining = Math.max(monthlyLimit - (Number(membership.visits_used) || 0), 0)
+  const resetsAt = membership.current_period_end || null
+  if (passesRemaining === 0) {
+    return {
+      eligible: false,
+      reason: 'quota_exhausted',
+      message: resetsAt
+        ? `You've used all ${monthlyLimit} of this month's passes. They reset on ${formatDate(resetsAt)}.`
+        : `You've used all ${monthlyLimit} of this month's passes.`,
+      action: { label: 'Get more passes', href: '/subscription' },
+      passesRemaining,
+      resetsAt,
+    }
+  }
+
+  return { eligible: true, passesRemaining, monthlyLimit, resetsAt }
+}
+
+/** Whether the member can invite a guest to `gymId` - guests count against the guest allowance */
+export async function checkGuestPassEligibility(auth0Id: string, gymId: number): Promise<PassEligibility> {
+  const [gym, membershipResult] = await Promise.all([getGymIfExists(gymId), getMembership(auth0Id)])
+
+  const checked = await checkMembership(gym, membershipResult)
+  if (checked.refused) {
+    return checked.refused
+  }
+  const { membership } = checked
+
+  const guestPassesLimit = Number(membership.guest_passes_limit) || 0
+  const passesRemaining = Math.max(guestPassesLimit - (Number(membership.guest_passes_used) || 0), 0)
+  const resetsAt = membership.current_period_end || null
+  if (passesRemaining === 0) {
+    return {
+      eligible: false,
+      reason: 'guest_quota_exhausted',
+      message: guestPassesLimit === 0
+        ? 'Your plan doesn\'t include guest passes.'
+        : resetsAt
+          ? `You've used all ${guestPassesLimit} of this month's guest passes. They reset on ${formatDate(resetsAt)}.`
+          : `You've used all ${guestPassesLimit} of this month's guest passes.`,
+      action: { label: guestPassesLimit === 0 ? 'View plans with guest passes' : 'Get more guest passes', href: '/subscription' },
+      passesRemaining,
+      resetsAt,
+    }
+  }
+
+  return { eligible: true, passesRemaining, resetsAt }
+}
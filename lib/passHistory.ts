@@ -0,0 +1,175 @@
+import type { ApiPassHistory } from '@/lib/anygym'
+
+/**
+ * The member's past passes, grouped by gym by the backend (GET
+ * /user/pass_history) so the passes page only loads one page of gyms at a
+ * time however many passes the member has had. Filters and pages are the
+ * same query parameters on /api/passes/history and the backend.
+ */
+
+export const PASS_HISTORY_STATUSES = ['used', 'expired', 'cancelled'] as const
+export type PassHistoryStatus = (typeof PASS_HISTORY_STATUSES)[number]
+
+export const PASS_HISTORY_PER_PAGE = 10
+const MAX_PER_PAGE = 50
+
+export interface PassHistoryQuery {
+  from?: string // YYYY-MM-DD, inclusive - matched against the visit date, or the issue date for unused passes
+  to?: string
+  chainId?: number
+  gymId?: number
+  status?: PassHistoryStatus[]
+  page?: number
+  perPage?: number // Gyms per page
+}
+
+export interface PassHistoryItem {
+  gym: {
+    id: number
+    name: string
+    gym_chain_id?: number
+  }
+  chain: {
+    id: number
+    name: string
+    logo_url?: string
+  } | null
+  /** The gym's most recent passes */
+  passes: Array<{
+    id: number
+    createdAt: string
+    usedAt: string | null
+    status: string
+    subscriptionTier?: string
+  }>
+  passCount: number
+  visitCount: number
+  lastVisit: string | null
+}
+
+export interface PassHistoryPage {
+  items: PassHistoryItem[]
+  page: number
+  perPage: number
+  totalGyms: number
+  totalPages: number
+  totalPasses: number
+  totalVisits: number
+  visitsByGym: Array<{ gymId: number; gymName: string; chainId: number | null; chainName: string | null; visits: number }>
+  /** `month` is YYYY-MM */
+  visitsByMonth: Array<{ month: string; visits: number }>
+}
+
+export const EMPTY_PASS_HISTORY: PassHistoryPage = {
+  items: [],
+  page: 1,
+  perPage: PASS_HISTORY_PER_PAGE,
+  totalGyms: 0,
+  totalPages: 0,
+  totalPasses: 0,
+  totalVisits: 0,
+  visitsByGym: [],
+  visitsByMonth: [],
+}
+
+export function isPassHistoryStatus(value: unknown): value is PassHistoryStatus {
+  return PASS_HISTORY_STATUSES.includes(value as PassHistoryStatus)
+}
+
+export function passHistorySearchParams(query: PassHistoryQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.from) params.set('from', query.from)
+  if (query.to) params.set('to', query.to)
+  if (query.chainId) params.set('chain_id', String(query.chainId))
+  if (query.gymId) params.set('gym_id', String(query.gymId))
+  if (query.status?.length) params.set('status', query.status.join(','))
+  if (query.page && query.page > 1) params.set('page', String(query.page))
+  if (query.perPage) params.set('per_page', String(query.perPage))
+  return params
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function positiveInt(value: string | null): number | undefined | null {
+  if (!value) return undefined
+  const number = Number(value)
+  return Number.isInteger(number) && number > 0 ? number : null
+}
+
+/** Read a history query from search params, or an error message if a filter is invalid */
+export function parsePassHistoryQuery(params: URLSearchParams): { query: PassHistoryQuery } | { error: string } {
+  const from = params.get('from') || undefined
+  const to = params.get('to') || undefined
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return { error: 'Dates must be YYYY-MM-DD' }
+  }
+  if (from && to && from > to) {
+    return { error: 'The start date must be before the end date' }
+  }
+
+  const chainId = positiveInt(params.get('chain_id'))
+  const gymId = positiveInt(params.get('gym_id'))
+  const page = positiveInt(params.get('page'))
+  const perPage = positiveInt(params.get('per_page'))
+  if (chainId === null || gymId === null || page === null || perPage === null) {
+    return { error: 'Invalid chain, gym or page' }
+  }
+
+  const status = (params.get('status') || '').split(',').filter(Boolean)
+  if (!status.every(isPassHistoryStatus)) {
+    return { error: `Status must be one of ${PASS_HISTORY_STATUSES.join(', ')}` }
+  }
+
+  return {
+    query: {
+      from,
+      to,
+      chainId,
+      gymId,
+      status: status.length ? status : undefined,
+      page: page || 1,
+      perPage: Math.min(perPage || PASS_HISTORY_PER_PAGE, MAX_PER_PAGE),
+    },
+  }
+}
+
+/** Map a backend history page for the passes page */
+export function mapPassHistory(history: ApiPassHistory): PassHistoryPage {
+  return {
+    items: history.results.map((group) => ({
+      gym: {
+        id: group.gym_id,
+        name: group.gym_name || 'Unknown Gym',
+        gym_chain_id: group.gym_chain_id ?? undefined,
+      },
+      chain:
+        group.gym_chain_id && group.gym_chain_name
+          ? { id: group.gym_chain_id, name: group.gym_chain_name, logo_url: group.gym_chain_logo || undefined }
+          : null,
+      passes: group.passes.map((pass) => ({
+        id: pass.id,
+        createdAt: pass.created_at || new Date().toISOString(),
+        usedAt: pass.used_at || null,
+        status: pass.status || 'expired',
+        subscriptionTier: pass.subscription_tier || undefined,
+      })),
+      passCount: group.pass_count,
+      visitCount: group.visit_count,
+      lastVisit: group.last_visit || null,
+    })),
+    page: history.pagination.page,
+    perPage: history.pagination.per_page,
+    totalGyms: history.pagination.total,
+    totalPages: history.pagination.total_pages,
+    totalPasses: history.total_passes,
+    totalVisits: history.total_visits,
+    visitsByGym: history.visits_by_gym.map((gym) => ({
+      gymId: gym.gym_id,
+      gymName: gym.gym_name || 'Unknown Gym',
+      chainId: gym.gym_chain_id ?? null,
+      chainName: gym.gym_chain_name || null,
+      visits: gym.visits,
+    })),
+    visitsByMonth: history.visits_by_month.map(({ month, visits }) => ({ month, visits })),
+  }
+}
@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { PASS_QR_STEP_SECONDS, PassQrVerificationKeys, buildPassQrPayload, checkPassQrPayload } from '@/lib/passQr'
+import { gymCodeKey, gymVerificationKey, issuePassQrToken } from '@/lib/passSigning'
+
+const GYM_ID = 101
+const now = Date.UTC(2026, 0, 1, 12)
+const validUntil = new Date(now + 60 * 60 * 1000)
+let keys: PassQrVerificationKeys
+
+beforeAll(() => {
+  process.env.PASS_SIGNING_SECRET = 'test-pass-signing-secret'
+  keys = {
+    publicKey: Buffer.from(gymVerificationKey(GYM_ID), 'base64url'),
+    codeKey: Buffer.from(gymCodeKey(GYM_ID), 'base64url'),
+  }
+})
+
+describe('checkPassQrPayload', () => {
+  it('accepts a live rotating payload and a static one', async () => {
+    const rotating = await buildPassQrPayload(issuePassQrToken({ id: 7, gymId: GYM_ID, validUntil })!, now)
+    const fixed = await buildPassQrPayload(issuePassQrToken({ id: 7, gymId: GYM_ID, validUntil }, { rotating: false })!, now)
+    expect(await checkPassQrPayload(rotating, GYM_ID, keys, now)).toMatchObject({ ok: true, passId: 7, rotating: true })
+    expect(await checkPassQrPayload(fixed, GYM_ID, keys, now)).toMatchObject({ ok: true, passId: 7, rotating: false })
+  })
+
+  it('rejects an old rotating code', async () => {
+    const payload = await buildPassQrPayload(issuePassQrToken({ id: 7, gymId: GYM_ID, validUntil })!, now)
+    const later = now + 10 * 60 * 1000
+    expect(await checkPassQrPayload(payload, GYM_ID, keys, later)).toMatchObject({ ok: false, reason: 'stale_code' })
+  })
+
+  it('rejects a rotating payload with its code cut off', async () => {
+    const payload = await buildPassQrPayload(issuePassQrToken({ id: 7, gymId: GYM_ID, validUntil })!, now)
+    const stripped = payload.replace(/\.\d{6}$/, '')
+    expect(await checkPassQrPayload(stripped, GYM_ID, keys, now)).toMatchObject({ ok: false, reason: 'malformed' })
+    // Relabelled as static, the signature no longer matches
+    const relabelled = stripped.replace(/^AG2R\./, 'AG2S.')
+    expect(await checkPassQrPayload(relabelled, GYM_ID, keys, now)).toMatchObject({ ok: false, reason: 'bad_signature' })
+  })
+
+  it('rejects tampered, foreign and expired payloads', async () => {
+    const payload = await buildPassQrPayload(issuePassQrToken({ id: 7, gymId: GYM_ID, validUntil })!, now)
+    const tampered = payload.replace('AG2R.7.', 'AG2R.8.')
+    expect(await checkPassQrPayload(tampered, GYM_ID, keys, now)).toMatchObject({ ok: false, reason: 'bad_signature' })
+    expect(await checkPassQrPayload(payload, 102, keys, now)).toMatchObject({ ok: false, reason: 'wrong_gym' })
+    const expiredAt = validUntil.getTime() + PASS_QR_STEP_SECONDS * 1000
+    const fixed = await buildPassQrPayload(issuePassQrToken({ id: 7, gymId: GYM_ID, validUntil }, { rotating: false })!, now)
+    expect(await checkPassQrPayload(fixed, GYM_ID, keys, expiredAt)).toMatchObject({ ok: false, reason: 'expired' })
+  })
+
+  it('rejects the older unsigned-mode format', async () => {
+    expect(await checkPassQrPayload('AG1.7.101.1767272400.abc', GYM_ID, keys, now)).toMatchObject({ ok: false, reason: 'malformed' })
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Signed QR payloads for passes, so a screenshot of someone else's code - or
+ * a made-up one - is caught at the front desk, even with no connection.
+ *
+ *   AG2R.<passId>.<gymId>.<expiresAt>.<signature>.<code>   rotating
+ *   AG2S.<passId>.<gymId>.<expiresAt>.<signature>          static
+ *
+ * `signature` is an Ed25519 signature of the first four parts - prefix
+ * included, so a rotating payload can't be passed off as a static one by
+ * dropping its code. Only the server holds the signing keys (see
+ * lib/passSigning.ts); gym-side checkers get the gym's public key, so they
+ * can check passes offline but not make them.
+ *
+ * `code` is a TOTP-style 6-digit code that changes every
+ * PASS_QR_STEP_SECONDS, made with a pass key derived from the gym's code key
+ * and the pass id. The member's device gets the pass key and the gym's
+ * checkers the code key. Static payloads are used where the QR can't change,
+ * such as phone wallet passes.
+ *
+ * Runs in the browser and on the server with Web Crypto.
+ */
+
+export const PASS_QR_ROTATING_PREFIX = 'AG2R'
+export const PASS_QR_STATIC_PREFIX = 'AG2S'
+export const PASS_QR_STEP_SECONDS = 30
+/** Codes from this many steps either side of now are accepted, to allow for clock drift */
+const PASS_QR_STEP_TOLERANCE = 1
+
+/** What the member's device needs to show a pass's signed QR code */
+export interface PassQrToken {
+  passId: number
+  gymId: number
+  /** Unix seconds */
+  expiresAt: number
+  /** base64url Ed25519 signature */
+  signature: string
+  /** base64url pass key for the rotating code - empty for static tokens */
+  passKey: string
+}
+
+/** What a gym-side checker needs to check that gym's passes offline */
+export interface PassQrVerificationKeys {
+  /** The gym's raw Ed25519 public key */
+  publicKey: Uint8Array
+  /** The key the gym's pass keys are derived from */
+  codeKey: Uint8Array
+}
+
+export interface ParsedPassQr {
+  rotating: boolean
+  passId: number
+  gymId: number
+  expiresAt: number
+  signature: string
+  code: string | null
+}
+
+export type PassQrCheck =
+  | { ok: true; passId: number; gymId: number; expiresAt: number; rotating: boolean }
+  | {
+      ok: false
+      reason: 'malformed' | 'wrong_gym' | 'bad_signature' | 'expired' | 'stale_code' | 'unsupported'
+      passId?: number
+      gymId?: number
+    }
+
+const encoder = new TextEncoder()
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+export async function hmacSha256(key: Uint8Array, message: string): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey('raw', new Uint8Array(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)))
+}
+
+export function passKeyMessage(passId: number): string {
+  return `anygym-pass-key:${passId}`
+}
+
+/** The signed part of a payload - its prefix says whether it must carry a rotating code */
+export function signatureMessage(rotating: boolean, passId: number, gymId: number, expiresAt: number): string {
+  return `${rotating ? PASS_QR_ROTATING_PREFIX : PASS_QR_STATIC_PREFIX}.${passId}.${gymId}.${expiresAt}`
+}
+
+async function verifyEd25519(publicKey: Uint8Array, signature: Uint8Array, message: string): Promise<boolean> {
+  const key = await crypto.subtle.importKey('raw', new Uint8Array(publicKey), { name: 'Ed25519' }, false, ['verify'])
+  return crypto.subtle.verify({ name: 'Ed25519' }, key, new Uint8Array(signature), encoder.encode(message))
+}
+
+export function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / PASS_QR_STEP_SECONDS)
+}
+
+/** The 6-digit code for a time step, truncated as in RFC 4226 */
+export async function rotatingCode(passKey: Uint8Array, step: number): Promise<string> {
+  const mac = await hmacSha256(passKey, String(step))
+  const offset = mac[mac.length - 1] & 0x0f
+  const value =
+    ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3]
+  return String(value % 1_000_000).padStart(6, '0')
+}
+
+/** The payload to show right now - with a rotating code when the token carries a pass key */
+export async function buildPassQrPayload(token: PassQrToken, now = Date.now()): Promise<string> {
+  const rotating = Boolean(token.passKey)
+  const base = `${signatureMessage(rotating, token.passId, token.gymId, token.expiresAt)}.${token.signature}`
+  if (!rotating) return base
+  return `${base}.${await rotatingCode(base64UrlDecode(token.passKey), currentStep(now))}`
+}
+
+/** Whether a scan looks like a signed payload - including older formats, so they're rejected rather than read as a pass code */
+export function isPassQrPayload(value: string): boolean {
+  return /^AG\d[A-Z]?\./.test(value.trim())
+}
+
+/** Null unless well formed - rotating payloads must carry a code and static ones mustn't */
+export function parsePassQrPayload(value: string): ParsedPassQr | null {
+  const match = value.trim().match(/^(AG2R|AG2S)\.(\d+)\.(\d+)\.(\d+)\.([A-Za-z0-9_-]+)(?:\.(\d{6}))?$/)
+  if (!match) return null
+  const rotating = match[1] === PASS_QR_ROTATING_PREFIX
+  if (rotating !== Boolean(match[6])) return null
+  return {
+    rotating,
+    passId: Number(match[2]),
+    gymId: Number(match[3]),
+    expiresAt: Number(match[4]),
+    signature: match[5],
+    code: match[6] || null,
+  }
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+/**
+ * Check a scanned payload against the keys for `gymId` - the gym doing the
+ * checking. Needs no network, so gym-side checkers can run it offline; it
+ * can't tell whether the pass has already been used. `unsupported` means
+ * this browser can't verify Ed25519 signatures.
+ */
+export async function checkPassQrPayload(
+  value: string,
+  gymId: number,
+  keys: PassQrVerificationKeys,
+  now = Date.now()
+): Promise<PassQrCheck> {
+  const parsed = parsePassQrPayload(value)
+  if (!parsed) {
+    return { ok: false, reason: 'malformed' }
+  }
+  const { passId, expiresAt } = parsed
+  if (parsed.gymId !== gymId) {
+    return { ok: false, reason: 'wrong_gym', passId, gymId: parsed.gymId }
+  }
+
+  let signed: boolean
+  try {
+    signed = await verifyEd25519(keys.publicKey, base64UrlDecode(parsed.signature), signatureMessage(parsed.rotating, passId, gymId, expiresAt))
+  } catch (error) {
+    if ((error as Error).name === 'NotSupportedError') {
+      return { ok: false, reason: 'unsupported', passId, gymId }
+    }
+    // A signature that doesn't decode
+    signed = false
+  }
+  if (!signed) {
+    return { ok: false, reason: 'bad_signature', passId, gymId }
+  }
+  if (expiresAt * 1000 <= now) {
+    return { ok: false, reason: 'expired', passId, gymId }
+  }
+
+  if (parsed.code) {
+    const passKey = await hmacSha256(keys.codeKey, passKeyMessage(passId))
+    const step = currentStep(now)
+    let matched = false
+    for (let offset = -PASS_QR_STEP_TOLERANCE; offset <= PASS_QR_STEP_TOLERANCE; offset++) {
+      if (constantTimeEqual(await rotatingCode(passKey, step + offset), parsed.code)) {
+        matched = true
+      }
+    }
+    if (!matched) {
+      return { ok: false, reason: 'stale_code', passId, gymId }
+    }
+  }
+
+  return { ok: true, passId, gymId, expiresAt, rotating: parsed.rotating }
+}
@@ -0,0 +1,88 @@
+import { KeyObject, createHmac, createPrivateKey, createPublicKey, sign } from 'crypto'
+import { PassQrToken, passKeyMessage, signatureMessage } from '@/lib/passQr'
+
+/**
+ * Server side of the signed pass QR codes in lib/passQr.ts. Every key comes
+ * from PASS_SIGNING_SECRET:
+ *
+ *   signing key = Ed25519 key seeded with HMAC(secret, 'anygym-gym-signing-key:<gymId>') - never leaves the server
+ *   code key    = HMAC(secret, 'anygym-gym-code-key:<gymId>')   - given to that gym's checkers
+ *   pass key    = HMAC(code key, 'anygym-pass-key:<passId>')     - given to the member's device
+ *
+ * Checkers get the signing key's public half, so they can verify but not
+ * issue passes. The code key only makes rotating codes, which are no use
+ * without a signed payload. Rotating the secret invalidates every key and
+ * every issued QR code.
+ */
+
+// PKCS#8 DER header for a raw 32-byte Ed25519 private key
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex')
+
+export function isPassSigningConfigured(): boolean {
+  return Boolean(process.env.PASS_SIGNING_SECRET)
+}
+
+function hmac(key: string | Buffer, message: string): Buffer {
+  return createHmac('sha256', key).update(message).digest()
+}
+
+function gymSecret(gymId: number, purpose: 'signing' | 'code'): Buffer {
+  const secret = process.env.PASS_SIGNING_SECRET
+  if (!secret) {
+    throw new Error('PASS_SIGNING_SECRET is not configured')
+  }
+  return hmac(secret, `anygym-gym-${purpose}-key:${gymId}`)
+}
+
+function gymSigningKey(gymId: number): KeyObject {
+  return createPrivateKey({
+    key: Buffer.concat([ED25519_PKCS8_PREFIX, gymSecret(gymId, 'signing')]),
+    format: 'der',
+    type: 'pkcs8',
+  })
+}
+
+/** base64url Ed25519 public key a gym-side checker verifies that gym's pass QR codes with */
+export function gymVerificationKey(gymId: number): string {
+  const jwk = createPublicKey(gymSigningKey(gymId)).export({ format: 'jwk' })
+  return jwk.x as string
+}
+
+/** base64url key a gym-side checker checks that gym's rotating codes with */
+export function gymCodeKey(gymId: number): string {
+  return gymSecret(gymId, 'code').toString('base64url')
+}
+
+/**
+ * Signed QR token for an active pass, or null when signing isn't configured.
+ * With `rotating: false` the token has no pass key, for QR codes that can't
+ * change once issued such as phone wallet passes.
+ */
+export function issuePassQrToken(
+  pass: { id: number; gymId: number; validUntil: Date },
+  { rotating = true }: { rotating?: boolean } = {}
+): PassQrToken | null {
+  if (!isPassSigningConfigured()) return null
+  const expiresAt = Math.floor(pass.validUntil.getTime() / 1000)
+  const message = Buffer.from(signatureMessage(rotating, pass.id, pass.gymId, expiresAt))
+  return {
+    passId: pass.id,
+    gymId: pass.gymId,
+    expiresAt,
+    signature: sign(null, message, gymSigningKey(pass.gymId)).toString('base64url'),
+    passKey: rotating ? hmac(gymSecret(pass.gymId, 'code'), passKeyMessage(pass.id)).toString('base64url') : '',
+  }
+}
+
+/** Rotating QR tokens for the active passes in a backend response, keyed by pass id */
+export function issuePassQrTokens(
+  passes: { id: number; gym_id: number; status?: string | null; valid_until?: string | null }[]
+): Record<number, PassQrToken> {
+  const tokens: Record<number, PassQrToken> = {}
+  for (const pass of passes) {
+    if ((pass.status || 'active') !== 'active' || !pass.valid_until) continue
+    const token = issuePassQrToken({ id: pass.id, gymId: pass.gym_id, validUntil: new Date(pass.valid_until) })
+    if (token) tokens[pass.id] = token
+  }
+  return tokens
+}
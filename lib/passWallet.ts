@@ -0,0 +1,63 @@
+import { GymPass } from '@/lib/types'
+import type { PassQrToken } from '@/lib/passQr'
+
+/**
+ * Offline pass wallet. Pages hand the member's active passes to the service
+ * worker (public/sw.js), which keeps them in Cache Storage and serves them at
+ * WALLET_PASSES_URL - dropping each pass at its validUntil - so /wallet can
+ * show them at reception with no connection. Browser-only.
+ */
+
+export const WALLET_PASSES_URL = '/wallet/passes.json'
+
+export interface WalletPass {
+  id: number
+  gymName: string
+  gymAddress: string
+  passCode: string
+  /** Signed QR token, so the wallet shows the same rotating code as /passes */
+  qrToken?: PassQrToken
+  /** ISO timestamp - the pass is removed from the wallet at this moment */
+  validUntil: string
+}
+
+export function toWalletPass(pass: GymPass): WalletPass {
+  return {
+    id: pass.id,
+    gymName: pass.gym?.name || 'Unknown Gym',
+    gymAddress: [pass.gym?.address, pass.gym?.city, pass.gym?.postcode].filter(Boolean).join(', '),
+    passCode: pass.passCode,
+    qrToken: pass.qrToken,
+    validUntil: pass.validUntil.toISOString(),
+  }
+}
+
+/** Passes still valid at `now` */
+export function unexpiredWalletPasses(passes: WalletPass[], now = Date.now()): WalletPass[] {
+  return passes.filter((pass) => new Date(pass.validUntil).getTime() > now)
+}
+
+async function postToServiceWorker(message: Record<string, unknown>): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return
+  const registration = await navigator.serviceWorker.getRegistration()
+  const worker = registration?.active || navigator.serviceWorker.controller
+  worker?.postMessage(message)
+}
+
+/** Replace the wallet's contents with the member's current active passes */
+export function syncWalletPasses(passes: GymPass[]): Promise<void> {
+  const walletPasses = unexpiredWalletPasses(passes.filter((pass) => pass.passCode).map(toWalletPass))
+  return postToServiceWorker({ type: 'SAVE_PASSES', passes: walletPasses }).catch((error) => {
+    console.error('[passWallet] Error saving passes for offline use:', error)
+  })
+}
+
+/** Read the wallet - works offline once the service worker has the passes */
+export async function loadWalletPasses(): Promise<WalletPass[]> {
+  const response = await fetch(WALLET_PASSES_URL, { cache: 'no-store' })
+  if (!response.ok) {
+    return []
+  }
+  const data = await response.json().catch(() => ({}))
+  return unexpiredWalletPasses(Array.isArray(data.passes) ? data.passes : [])
+}
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { PRORATION_TOKEN_MAX_AGE_SECONDS, createProrationToken, resolveProrationDate } from '@/lib/planChange'
+
+const NOW = Date.UTC(2026, 0, 20, 12) / 1000
+const subscription = { id: 'sub_123', current_period_start: Date.UTC(2026, 0, 1) / 1000 }
+
+beforeEach(() => {
+  process.env.AUTH0_SECRET = 'test-auth0-secret'
+  vi.useFakeTimers({ now: NOW * 1000 })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('resolveProrationDate', () => {
+  it('honours the date from a recent preview of the same change', () => {
+    const token = createProrationToken(subscription.id, 'price_premium', NOW - 60)
+    expect(resolveProrationDate(subscription, 'price_premium', token)).toBe(NOW - 60)
+  })
+
+  it('uses now for a back-dated date the server didn\'t issue', () => {
+    const forged = `${subscription.current_period_start}.${createProrationToken(subscription.id, 'price_premium', NOW).split('.')[1]}`
+    expect(resolveProrationDate(subscription, 'price_premium', forged)).toBe(NOW)
+    expect(resolveProrationDate(subscription, 'price_premium', String(subscription.current_period_start))).toBe(NOW)
+  })
+
+  it('uses now once the preview is too old, even though it was signed', () => {
+    const issuedAt = NOW - PRORATION_TOKEN_MAX_AGE_SECONDS - 1
+    const token = createProrationToken(subscription.id, 'price_premium', issuedAt)
+    expect(resolveProrationDate(subscription, 'price_premium', token)).toBe(NOW)
+  })
+
+  it('uses now for a preview of a different plan or subscription', () => {
+    const token = createProrationToken(subscription.id, 'price_elite', NOW - 60)
+    expect(resolveProrationDate(subscription, 'price_premium', token)).toBe(NOW)
+    expect(resolveProrationDate({ ...subscription, id: 'sub_other' }, 'price_elite', token)).toBe(NOW)
+  })
+})
@@ -0,0 +1,315 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import Stripe from 'stripe'
+import { stripe } from '@/lib/stripe'
+import { getUser } from '@/lib/anygym'
+import { syncMembership } from '@/lib/stripeWebhooks'
+import { planLimitsFromProduct, tierFromProduct, tierRankFromProduct } from '@/lib/tiers'
+
+/**
+ * In-place plan changes on a member's existing Stripe subscription.
+ *
+ * Upgrades take effect immediately and charge the prorated difference for the
+ * rest of the billing period. Downgrades can do the same - leaving a credit
+ * for the next invoice - or be scheduled for the end of the period with a
+ * subscription schedule. Either way the billing period doesn't change, so
+ * the member's visits used this period carry over to the new plan.
+ */
+
+export type PlanChangeTiming = 'immediate' | 'period_end'
+export type PlanChangeDirection = 'upgrade' | 'downgrade'
+
+export const PLAN_CHANGE_TIMINGS: PlanChangeTiming[] = ['immediate', 'period_end']
+
+export type PlanChangeErrorCode =
+  | 'no_subscription'
+  | 'invalid_price'
+  | 'same_plan'
+  | 'upgrade_must_be_immediate'
+  | 'payment_failed'
+
+export class PlanChangeError extends Error {
+  code: PlanChangeErrorCode
+  status: number
+
+  constructor(message: string, code: PlanChangeErrorCode, status = 400) {
+    super(message)
+    this.name = 'PlanChangeError'
+    this.code = code
+    this.status = status
+  }
+}
+
+export interface PlanChangePreview {
+  direction: PlanChangeDirection
+  timing: PlanChangeTiming
+  currentTier: string
+  newTier: string
+  newPlanName: string
+  /** Charged now, in pounds - negative when the change leaves a credit */
+  amountDue: number
+  currency: string
+  prorationDate: number
+  /** Pass back when confirming so the charge matches the preview - see createProrationToken */
+  prorationToken: string
+  effectiveAt: string
+  nextRenewalDate: string
+  nextRenewalAmount: number
+  visitsUsed: number
+  newMonthlyLimit: number
+}
+
+export interface PlanChangeResult {
+  timing: PlanChangeTiming
+  effectiveAt: string
+  newTier: string
+}
+
+const LIVE_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due']
+
+interface PlanChangeContext {
+  subscription: Stripe.Subscription
+  item: Stripe.SubscriptionItem
+  currentProduct: Stripe.Product
+  newPrice: Stripe.Price
+  newProduct: Stripe.Product
+  direction: PlanChangeDirection
+  visitsUsed: number
+}
+
+/** The member's live subscription - the one linked to their membership, or failing that any live one */
+async function getMemberSubscription(auth0Id: string): Promise<{ subscription: Stripe.Subscription; visitsUsed: number }> {
+  const user = await getUser(auth0Id, { cache: 'no-store' })
+  const visitsUsed = Number(user.membership?.visits_used) || 0
+  const expand = ['items.data.price.product']
+
+  const linkedId = user.membership?.stripe_subscription_id
+  if (linkedId) {
+    const linked = await stripe.subscriptions.retrieve(linkedId, { expand })
+    if (LIVE_STATUSES.includes(linked.status)) {
+      return { subscription: linked, visitsUsed }
+    }
+  }
+
+  const customerId = user.stripe_customer_id || user.membership?.stripe_customer_id
+  if (customerId) {
+    const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: 'all', limit: 10, expand: expand.map((path) => `data.${path}`) })
+    const live = subscriptions.data.find((subscription) => LIVE_STATUSES.includes(subscription.status))
+    if (live) {
+      return { subscription: live, visitsUsed }
+    }
+  }
+
+  throw new PlanChangeError('You don\'t have a membership to change', 'no_subscription', 404)
+}
+
+async function loadContext(auth0Id: string, priceId: string): Promise<PlanChangeContext> {
+  const { subscription, visitsUsed } = await getMemberSubscription(auth0Id)
+  const item = subscription.items.data[0]
+
+  let newPrice: Stripe.Price
+  try {
+    newPrice = await stripe.prices.retrieve(priceId, { expand: ['product'] })
+  } catch {
+    throw new PlanChangeError('That plan is not available', 'invalid_price')
+  }
+  const newProduct = newPrice.product as Stripe.Product | Stripe.DeletedProduct
+  if (!newPrice.active || newPrice.recurring?.interval !== 'month' || newProduct.deleted || !newProduct.active) {
+    throw new PlanChangeError('That plan is not available', 'invalid_price')
+  }
+  if (item.price.id === newPrice.id) {
+    throw new PlanChangeError('You\'re already on this plan', 'same_plan')
+  }
+
+  const currentProduct = item.price.product as Stripe.Product
+  const rankChange = tierRankFromProduct(newProduct) - tierRankFromProduct(currentProduct)
+  const priceChange = (newPrice.unit_amount || 0) - (item.price.unit_amount || 0)
+  const direction = rankChange > 0 || (rankChange === 0 && priceChange >= 0) ? 'upgrade' : 'downgrade'
+
+  return { subscription, item, currentProduct, newPrice, newProduct, direction, visitsUsed }
+}
+
+function checkTiming(direction: PlanChangeDirection, timing: PlanChangeTiming) {
+  if (direction === 'upgrade' && timing !== 'immediate') {
+    throw new PlanChangeError('Upgrades take effect immediately', 'upgrade_must_be_immediate')
+  }
+}
+
+// How long a preview's proration date can be confirmed at
+export const PRORATION_TOKEN_MAX_AGE_SECONDS = 10 * 60
+
+function prorationSignature(subscriptionId: string, priceId: string, prorationDate: number): Buffer {
+  const secret = process.env.AUTH0_SECRET
+  if (!secret) {
+    throw new Error('AUTH0_SECRET is not configured')
+  }
+  return createHmac('sha256', secret).update(`plan-change-proration:${subscriptionId}:${priceId}:${prorationDate}`).digest()
+}
+
+/**
+ * `<prorationDate>.<signature>` for a preview, so confirming it charges what
+ * was shown. Signed, and only honoured for a few minutes, so a member can't
+ * back-date a change - e.g. a downgrade dated to the start of the period for
+ * a full period's credit.
+ */
+export function createProrationToken(subscriptionId: string, priceId: string, prorationDate: number): string {
+  return `${prorationDate}.${prorationSignature(subscriptionId, priceId, prorationDate).toString('base64url')}`
+}
+
+/** The proration date in a token from a recent preview of this change, otherwise now */
+export function resolveProrationDate(
+  subscription: Pick<Stripe.Subscription, 'id' | 'current_period_start'>,
+  priceId: string,
+  token?: string
+): number {
+  const now = Math.floor(Date.now() / 1000)
+  const match = token?.match(/^(\d+)\.([A-Za-z0-9_-]+)$/)
+  if (!match) return now
+
+  const prorationDate = Number(match[1])
+  const expected = prorationSignature(subscription.id, priceId, prorationDate)
+  const actual = Buffer.from(match[2], 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return now
+  }
+  if (prorationDate < subscription.current_period_start || prorationDate > now || now - prorationDate > PRORATION_TOKEN_MAX_AGE_SECONDS) {
+    return now
+  }
+  return prorationDate
+}
+
+function toIso(seconds: number): string {
+  return new Date(seconds * 1000).toISOString()
+}
+
+/** Switch the subscription to nextPriceId at the end of the period, replacing any change already scheduled */
+async function scheduleAtPeriodEnd(
+  subscription: Stripe.Subscription,
+  scheduleId: string | undefined | null,
+  currentPriceId: string,
+  nextPriceId: string
+): Promise<void> {
+  const schedule = scheduleId
+    ? await stripe.subscriptionSchedules.retrieve(scheduleId)
+    : await stripe.subscriptionSchedules.create({ from_subscription: subscription.id })
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: 'release',
+    proration_behavior: 'none',
+    phases: [
+      {
+        items: [{ price: currentPriceId, quantity: 1 }],
+        start_date: schedule.current_phase?.start_date || subscription.current_period_start,
+        end_date: subscription.current_period_end,
+      },
+      {
+        items: [{ price: nextPriceId, quantity: 1 }],
+        iterations: 1,
+      },
+    ],
+  })
+}
+
+/** Release a schedule, returning the price it was going to switch to so it can be put back */
+async function releaseSchedule(scheduleId: string): Promise<string | null> {
+  const schedule = await stripe.subscriptionSchedules.retrieve(scheduleId)
+  const price = schedule.phases[schedule.phases.length - 1]?.items[0]?.price
+  await stripe.subscriptionSchedules.release(scheduleId)
+  if (!price) return null
+  return typeof price === 'string' ? price : price.id
+}
+
+export async function previewPlanChange(auth0Id: string, priceId: string, timing: PlanChangeTiming): Promise<PlanChangePreview> {
+  const ctx = await loadContext(auth0Id, priceId)
+  checkTiming(ctx.direction, timing)
+
+  const { subscription, item, newPrice, newProduct } = ctx
+  const prorationDate = Math.floor(Date.now() / 1000)
+  let amountDue = 0
+
+  if (timing === 'immediate') {
+    const upcoming = await stripe.invoices.retrieveUpcoming({
+      customer: subscription.customer as string,
+      subscription: subscription.id,
+      subscription_items: [{ id: item.id, price: newPrice.id }],
+      subscription_proration_date: prorationDate,
+      subscription_proration_behavior: 'always_invoice',
+    })
+    // Only the proration lines - the rest of the preview is the next renewal
+    amountDue = upcoming.lines.data
+      .filter((line) => line.proration && line.period.start === prorationDate)
+      .reduce((total, line) => total + line.amount, 0) / 100
+  }
+
+  return {
+    direction: ctx.direction,
+    timing,
+    currentTier: tierFromProduct(ctx.currentProduct),
+    newTier: tierFromProduct(newProduct),
+    newPlanName: newProduct.name,
+    amountDue,
+    currency: newPrice.currency,
+    prorationDate,
+    prorationToken: createProrationToken(subscription.id, newPrice.id, prorationDate),
+    effectiveAt: timing === 'immediate' ? toIso(prorationDate) : toIso(subscription.current_period_end),
+    nextRenewalDate: toIso(subscription.current_period_end),
+    nextRenewalAmount: (newPrice.unit_amount || 0) / 100,
+    visitsUsed: ctx.visitsUsed,
+    newMonthlyLimit: planLimitsFromProduct(newProduct).monthlyLimit,
+  }
+}
+
+export async function applyPlanChange(
+  auth0Id: string,
+  priceId: string,
+  timing: PlanChangeTiming,
+  prorationToken?: string
+): Promise<PlanChangeResult> {
+  const ctx = await loadContext(auth0Id, priceId)
+  checkTiming(ctx.direction, timing)
+
+  const { subscription, item, newPrice, newProduct } = ctx
+  const newTier = tierFromProduct(newProduct)
+  const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id
+
+  if (timing === 'period_end') {
+    await scheduleAtPeriodEnd(subscription, scheduleId, item.price.id, newPrice.id)
+    console.log(`[planChange] Scheduled ${subscription.id} to switch to ${newTier} at period end`)
+    return { timing, effectiveAt: toIso(subscription.current_period_end), newTier }
+  }
+
+  // A scheduled downgrade would otherwise undo this change at the end of the
+  // period. Stripe won't change a subscription a schedule manages, so the
+  // schedule is released first and put back if the change doesn't go through.
+  const scheduledPriceId = scheduleId ? await releaseSchedule(scheduleId) : null
+
+  const effectiveDate = resolveProrationDate(subscription, newPrice.id, prorationToken)
+  try {
+    const updated = await stripe.subscriptions.update(subscription.id, {
+      items: [{ id: item.id, price: newPrice.id }],
+      proration_behavior: 'always_invoice',
+      proration_date: effectiveDate,
+      // Leave the plan as it was if the prorated charge can't be paid
+      payment_behavior: 'pending_if_incomplete',
+    })
+    if (updated.pending_update) {
+      throw new PlanChangeError('Your payment for the new plan failed. Please check your card details.', 'payment_failed', 402)
+    }
+  } catch (error) {
+    if (scheduledPriceId) {
+      await scheduleAtPeriodEnd(subscription, null, item.price.id, scheduledPriceId).catch((restoreError) => {
+        console.error(`[planChange] Error restoring the scheduled change on ${subscription.id}:`, restoreError?.message)
+      })
+    }
+    throw error
+  }
+  console.log(`[planChange] Switched ${subscription.id} to ${newTier}`)
+
+  // Update the membership now rather than waiting for the webhook. The period
+  // is unchanged, so visits used carry over; the webhook repeats this harmlessly.
+  try {
+    await syncMembership(subscription.id)
+  } catch (error: any) {
+    console.error('[planChange] Error syncing membership, leaving it to the webhook:', error?.message)
+  }
+
+  return { timing, effectiveAt: toIso(effectiveDate), newTier }
+}
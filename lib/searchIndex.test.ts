@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { Gym } from '@/lib/types'
+import { buildSearchIndex, searchIndex, suggest } from '@/lib/searchIndex'
+
+function gym(id: number, name: string, fields: Partial<Gym> = {}): Gym {
+  return {
+    id,
+    name,
+    address: '',
+    city: 'London',
+    postcode: 'EC2A 3EH',
+    required_tier: 'standard',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...fields,
+  }
+}
+
+const index = buildSearchIndex([
+  gym(1, 'PureFit Manchester', { city: 'Manchester', postcode: 'M1 1AE', gym_chain_id: 7, gym_chain_name: 'PureFit' }),
+  gym(2, 'PureFit Shoreditch', { gym_chain_id: 7, gym_chain_name: 'PureFit', amenities: ['sauna'] }),
+  gym(3, 'Iron Works', { amenities: ['pool'] }),
+])
+
+const names = (query: string) => searchIndex(index, query).map((hit) => hit.gym.name)
+
+describe('searchIndex', () => {
+  it('matches the start of a word while typing', () => {
+    expect(names('pure')).toEqual(['PureFit Manchester', 'PureFit Shoreditch'])
+    expect(names('shore')).toEqual(['PureFit Shoreditch'])
+    expect(names('swimming po')).toEqual(['Iron Works'])
+  })
+
+  it('tolerates typos in longer terms', () => {
+    expect(names('manchster')).toEqual(['PureFit Manchester'])
+    expect(names('purefit shordeitch')).toEqual(['PureFit Shoreditch'])
+  })
+
+  it('needs short terms to match exactly or as a prefix', () => {
+    expect(names('irn')).toEqual([])
+    expect(names('iro')).toEqual(['Iron Works'])
+  })
+
+  it('needs every term to match', () => {
+    expect(names('purefit pool')).toEqual([])
+  })
+
+  it('ranks an exact name first', () => {
+    expect(names('purefit shoreditch')[0]).toBe('PureFit Shoreditch')
+    expect(names('shoreditch purefit')[0]).toBe('PureFit Shoreditch')
+  })
+
+  it('matches postcode areas and amenities', () => {
+    expect(names('m1')).toEqual(['PureFit Manchester'])
+    expect(names('sauna')).toEqual(['PureFit Shoreditch'])
+  })
+})
+
+describe('suggest', () => {
+  it('suggests chains and cities before gyms', () => {
+    const suggestions = suggest(index, 'pure', 4)
+    expect(suggestions[0]).toEqual({ type: 'chain', label: 'PureFit', value: '7' })
+    expect(suggestions.filter((s) => s.type === 'gym').map((s) => s.value)).toEqual(['1', '2'])
+  })
+
+  it('suggests across typos', () => {
+    expect(suggest(index, 'manchster')).toContainEqual({ type: 'city', label: 'Manchester', value: 'Manchester' })
+  })
+})
@@ -0,0 +1,256 @@
+import { Gym } from '@/lib/types'
+import { AMENITIES, amenityLabel } from '@/lib/amenities'
+
+/**
+ * In-memory search index over gyms.
+ *
+ * Each gym is indexed on its name, chain name, city, postcode outcode and
+ * amenities. Every query term has to match one of those tokens, either
+ * exactly, as a prefix (so results update while typing) or within a small
+ * edit distance (so "purefit manchster" still finds PureFit Manchester).
+ * Results are ranked by how well and where the terms matched.
+ */
+
+type Field = 'name' | 'chain' | 'city' | 'postcode' | 'amenity'
+
+// Matches in the gym name count for more than matches in its amenities
+const FIELD_WEIGHTS: Record<Field, number> = {
+  name: 3,
+  chain: 2.5,
+  city: 2,
+  postcode: 2,
+  amenity: 1,
+}
+
+const MATCH_EXACT = 1
+const MATCH_PREFIX = 0.8
+const MATCH_FUZZY = 0.5
+
+interface IndexedToken {
+  token: string
+  field: Field
+}
+
+interface IndexedGym {
+  gym: Gym
+  tokens: IndexedToken[]
+  // Whole name, for boosting exact and leading-phrase matches
+  name: string
+}
+
+export interface SearchIndex {
+  gyms: IndexedGym[]
+}
+
+export interface SearchHit {
+  gym: Gym
+  score: number
+}
+
+export type GymSuggestionType = 'gym' | 'chain' | 'city' | 'postcode' | 'amenity'
+
+export interface GymSuggestion {
+  type: GymSuggestionType
+  label: string
+  /** Value to search or filter with - chain id, amenity id, or the label */
+  value: string
+  /** Only for type 'gym' */
+  gym?: Gym
+}
+
+/** Lowercase, strip accents and split into alphanumeric tokens */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+/** The outward half of a UK postcode, e.g. "EC2A" from "EC2A 3EH" */
+export function getOutcode(postcode: string): string {
+  const compact = postcode.replace(/\s+/g, '').toUpperCase()
+  return compact.length > 3 ? compact.slice(0, -3) : compact
+}
+
+/** Damerau-Levenshtein (optimal string alignment) distance, giving up above `max` */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1
+  }
+  const rows: number[][] = []
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i])
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j
+  }
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1)
+      }
+      rows[i][j] = value
+      rowMin = Math.min(rowMin, value)
+    }
+    if (rowMin > max) {
+      return max + 1
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+/** Typos allowed for a term - none for short terms, where they match too much */
+function allowedTypos(term: string): number {
+  if (term.length < 4) return 0
+  if (term.length < 8) return 1
+  return 2
+}
+
+/** How well a query term matches an indexed token, 0 for no match */
+function matchQuality(term: string, token: string): number {
+  if (term === token) {
+    return MATCH_EXACT
+  }
+  if (token.startsWith(term)) {
+    return MATCH_PREFIX
+  }
+  const typos = allowedTypos(term)
+  if (typos === 0) {
+    return 0
+  }
+  // Compare against the start of longer tokens so a mistyped prefix still matches while typing
+  const candidate = token.length > term.length + typos ? token.slice(0, term.length) : token
+  return editDistance(term, candidate, typos) <= typos ? MATCH_FUZZY : 0
+}
+
+export function buildSearchIndex(gyms: Gym[]): SearchIndex {
+  return {
+    gyms: gyms.map((gym) => {
+      const tokens: IndexedToken[] = []
+      const add = (text: string | undefined, field: Field) => {
+        for (const token of tokenize(text || '')) {
+          tokens.push({ token, field })
+        }
+      }
+      add(gym.name, 'name')
+      add(gym.gym_chain_name, 'chain')
+      add(gym.city, 'city')
+      if (gym.postcode) {
+        add(getOutcode(gym.postcode), 'postcode')
+        add(gym.postcode.replace(/\s+/g, ''), 'postcode')
+      }
+      for (const amenity of gym.amenities || []) {
+        add(amenityLabel(amenity), 'amenity')
+      }
+      return { gym, tokens, name: tokenize(gym.name).join(' ') }
+    }),
+  }
+}
+
+/**
+ * Ranked search. Every term must match; gyms are scored on the best field
+ * match for each term, with a boost when the name starts with the query.
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchHit[] {
+  const terms = tokenize(query)
+  if (terms.length === 0) {
+    return index.gyms.map(({ gym }) => ({ gym, score: 0 }))
+  }
+  const phrase = terms.join(' ')
+
+  const hits: SearchHit[] = []
+  for (const entry of index.gyms) {
+    let score = 0
+    let matchedAll = true
+    for (const term of terms) {
+      let best = 0
+      for (const { token, field } of entry.tokens) {
+        const quality = matchQuality(term, token)
+        if (quality > 0) {
+          best = Math.max(best, quality * FIELD_WEIGHTS[field])
+        }
+      }
+      if (best === 0) {
+        matchedAll = false
+        break
+      }
+      score += best
+    }
+    if (!matchedAll) {
+      continue
+    }
+    if (entry.name === phrase) {
+      score += 5
+    } else if (entry.name.startsWith(phrase)) {
+      score += 2
+    }
+    hits.push({ gym: entry.gym, score })
+  }
+
+  return hits.sort((a, b) => b.score - a.score || a.gym.name.localeCompare(b.gym.name))
+}
+
+/**
+ * Autocomplete suggestions for a partial query: matching chains, cities,
+ * postcode areas and amenities first, then the best matching gyms.
+ */
+export function suggest(index: SearchIndex, query: string, limit = 8): GymSuggestion[] {
+  const terms = tokenize(query)
+  if (terms.length === 0) {
+    return []
+  }
+
+  // A label matches when each query term matches one of its words
+  const labelScore = (label: string): number => {
+    const words = tokenize(label)
+    let total = 0
+    for (const term of terms) {
+      const best = Math.max(0, ...words.map((word) => matchQuality(term, word)))
+      if (best === 0) return 0
+      total += best
+    }
+    return total
+  }
+
+  const scored: Array<{ suggestion: GymSuggestion; score: number }> = []
+  const seen = new Set<string>()
+  const addLabel = (type: GymSuggestionType, label: string, value: string) => {
+    const key = `${type}:${value.toLowerCase()}`
+    if (!label || seen.has(key)) return
+    seen.add(key)
+    const score = labelScore(label)
+    if (score > 0) {
+      scored.push({ suggestion: { type, label, value }, score })
+    }
+  }
+
+  for (const { gym } of index.gyms) {
+    if (gym.gym_chain_name && gym.gym_chain_id != null) {
+      addLabel('chain', gym.gym_chain_name, String(gym.gym_chain_id))
+    }
+    addLabel('city', gym.city, gym.city)
+    if (gym.postcode) {
+      const outcode = getOutcode(gym.postcode)
+      addLabel('postcode', outcode, outcode)
+    }
+  }
+  for (const amenity of AMENITIES) {
+    addLabel('amenity', amenity.label, amenity.id)
+  }
+
+  const facets = scored
+    .sort((a, b) => b.score - a.score || a.suggestion.label.localeCompare(b.suggestion.label))
+    .slice(0, Math.ceil(limit / 2))
+    .map(({ suggestion }) => suggestion)
+
+  const gyms = searchIndex(index, query)
+    .slice(0, limit - facets.length)
+    .map(({ gym }): GymSuggestion => ({ type: 'gym', label: gym.name, value: String(gym.id), gym }))
+
+  return [...facets, ...gyms]
+}
@@ -0,0 +1,31 @@
+import { stripe } from '@/lib/stripe'
+import { DEFAULT_TIER_ORDER, TierOrder, buildTierOrder } from '@/lib/tiers'
+
+// Products rarely change, so the order is kept in memory rather than fetched per request
+const CACHE_TTL_MS = 10 * 60 * 1000
+
+let cached: { order: TierOrder; expiresAt: number } | null = null
+
+/**
+ * Tier order from the active Stripe products. Falls back to the default
+ * order when Stripe isn't configured or can't be reached.
+ */
+export async function getTierOrder(): Promise<TierOrder> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.order
+  }
+
+  if (!process.env.STRIPE_API_KEY && !process.env.STRIPE_SECRET_KEY) {
+    return DEFAULT_TIER_ORDER
+  }
+
+  try {
+    const products = await stripe.products.list({ active: true, limit: 100 })
+    const order = buildTierOrder(products.data)
+    cached = { order, expiresAt: Date.now() + CACHE_TTL_MS }
+    return order
+  } catch (error) {
+    console.error('[getTierOrder] Error fetching Stripe products, using default tier order:', error)
+    return DEFAULT_TIER_ORDER
+  }
+}
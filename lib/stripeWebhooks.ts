@@ -0,0 +1,332 @@
+import Stripe from 'stripe'
+import { stripe } from '@/lib/stripe'
+import { AnyGymNotFoundError, ApiMembership, getUserSubscription, updateUserMembership } from '@/lib/anygym'
+import { GymRecommendation, recommendGyms } from '@/lib/gymRecommendations'
+import { sendMail } from '@/lib/mail'
+import type { MailGym, MailRecipient } from '@/lib/mailTemplates'
+import { planLimitsFromProduct, tierFromProduct } from '@/lib/tiers'
+
+/**
+ * Stripe webhook handlers, run by the webhook queue (lib/webhookQueue.ts).
+ *
+ * Handlers may run more than once for the same event and events can arrive
+ * out of order, so they read current state from Stripe rather than trusting
+ * the event payload, and wrap side effects such as emails in `ctx.step` so a
+ * retry doesn't repeat them. Throw to have the event retried.
+ */
+
+export interface WebhookContext {
+  /** Run a side effect at most once per event, even across retries */
+  step(name: string, fn: () => Promise<void>): Promise<void>
+}
+
+export type WebhookHandler = (event: Stripe.Event, ctx: WebhookContext) => Promise<void>
+
+interface SyncedMembership {
+  subscription: Stripe.Subscription
+  member: MailRecipient | null
+  tier: string
+  // The member has since moved to another subscription, e.g. this one was cancelled by an upgrade
+  superseded: boolean
+}
+
+/** Stripe statuses the backend treats as a live membership are kept; a trial counts as active */
+function membershipStatus(status: Stripe.Subscription.Status): string {
+  return status === 'trialing' ? 'active' : status
+}
+
+function toIso(seconds: number): string {
+  return new Date(seconds * 1000).toISOString()
+}
+
+/**
+ * Write the subscription's current state from Stripe - status, period dates,
+ * tier and limits - to the member's backend membership. Reads the
+ * subscription fresh so retried and out-of-order events can't write stale
+ * state. Throws when the backend can't be updated so the event is retried.
+ */
+export async function syncMembership(subscriptionId: string): Promise<SyncedMembership | null> {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId, {
+    expand: ['customer', 'items.data.price.product'],
+  })
+  const customer = subscription.customer as Stripe.Customer | Stripe.DeletedCustomer
+  const auth0Id =
+    subscription.metadata?.userId ||
+    (!customer.deleted ? customer.metadata?.auth0_id || customer.metadata?.user_id : undefined)
+
+  if (!auth0Id) {
+    console.error('❌ No auth0_id for subscription:', subscription.id)
+    return null
+  }
+
+  const item = subscription.items.data[0]
+  const product = item?.price.product as Stripe.Product | undefined
+  const tier = product && !product.deleted ? tierFromProduct(product) : 'standard'
+  const limits = product && !product.deleted ? planLimitsFromProduct(product) : planLimitsFromProduct({ name: '' })
+
+  let current: ApiMembership | null = null
+  try {
+    current = await getUserSubscription(auth0Id, { cache: 'no-store' })
+  } catch (error) {
+    if (!(error instanceof AnyGymNotFoundError)) {
+      throw error
+    }
+  }
+
+  const live = ['active', 'trialing', 'past_due'].includes(subscription.status)
+  const superseded = Boolean(
+    current?.stripe_subscription_id && current.stripe_subscription_id !== subscription.id && !live
+  )
+
+  const member = !customer.deleted && customer.email
+    ? { email: customer.email, firstName: (customer.name || customer.email.split('@')[0]).split(' ')[0], auth0Id }
+    : null
+
+  if (superseded) {
+    console.log('ℹ️ Subscription', subscription.id, 'was replaced by', current?.stripe_subscription_id, '- not syncing')
+    return { subscription, member, tier, superseded }
+  }
+
+  await updateUserMembership(auth0Id, {
+    tier,
+    status: membershipStatus(subscription.status),
+    monthly_limit: limits.monthlyLimit,
+    guest_passes_limit: limits.guestPassesLimit,
+    price: (item?.price.unit_amount || 0) / 100,
+    current_period_start: toIso(subscription.current_period_start),
+    current_period_end: toIso(subscription.current_period_end),
+    next_billing_date: live && !subscription.cancel_at_period_end ? toIso(subscription.current_period_end) : null,
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    stripe_subscription_id: subscription.id,
+    stripe_customer_id: customer.id,
+  })
+  console.log('✅ Membership synced for', auth0Id, '-', tier, subscription.status)
+  return { subscription, member, tier, superseded }
+}
+
+function subscriptionIdOf(value: string | Stripe.Subscription | null): string | null {
+  if (!value) return null
+  return typeof value === 'string' ? value : value.id
+}
+
+async function handleSubscriptionUpdated(event: Stripe.Event, ctx: WebhookContext) {
+  const subscription = event.data.object as Stripe.Subscription
+  console.log('🔄 Processing subscription.updated event:', subscription.id)
+
+  const synced = await syncMembership(subscription.id)
+  if (!synced || synced.superseded || !synced.member) {
+    return
+  }
+
+  // Notify when the member turns off renewal, not on every update
+  const previous = event.data.previous_attributes as Partial<Stripe.Subscription> | undefined
+  if (previous?.cancel_at_period_end === false && synced.subscription.cancel_at_period_end) {
+    const member = synced.member
+    await ctx.step('cancelled_email', () =>
+      sendMail('membership_cancelled', member, {
+        tier: synced.tier,
+        endsAt: new Date(synced.subscription.current_period_end * 1000),
+      })
+    )
+  }
+}
+
+async function handleSubscriptionDeleted(event: Stripe.Event, ctx: WebhookContext) {
+  const subscription = event.data.object as Stripe.Subscription
+  console.log('🗑️ Processing subscription.deleted event:', subscription.id)
+
+  const synced = await syncMembership(subscription.id)
+  if (!synced || synced.superseded || !synced.member) {
+    return
+  }
+  const member = synced.member
+  await ctx.step('ended_email', () => sendMail('membership_ended', member, { tier: synced.tier }))
+}
+
+async function handleTrialWillEnd(event: Stripe.Event, ctx: WebhookContext) {
+  const subscription = event.data.object as Stripe.Subscription
+  console.log('⏳ Processing subscription.trial_will_end event:', subscription.id)
+
+  const synced = await syncMembership(subscription.id)
+  if (!synced || synced.superseded || !synced.member || !synced.subscription.trial_end) {
+    return
+  }
+  if (synced.subscription.status !== 'trialing' || synced.subscription.cancel_at_period_end) {
+    console.log('ℹ️ Trial no longer ending in a payment - skipping reminder')
+    return
+  }
+  const member = synced.member
+  const trialEnd = new Date(synced.subscription.trial_end * 1000)
+  await ctx.step('trial_ending_email', () =>
+    sendMail('trial_ending', member, { tier: synced.tier, trialEnd })
+  )
+}
+
+async function handleInvoicePaid(event: Stripe.Event, ctx: WebhookContext) {
+  const invoice = event.data.object as Stripe.Invoice
+  const subscriptionId = subscriptionIdOf(invoice.subscription)
+  console.log('💷 Processing invoice.paid event:', invoice.id, invoice.billing_reason)
+  if (!subscriptionId) {
+    return
+  }
+
+  // A paid renewal starts a new period - syncing resets the member's visits
+  const synced = await syncMembership(subscriptionId)
+  if (!synced || synced.superseded || !synced.member || invoice.billing_reason !== 'subscription_cycle') {
+    return
+  }
+  const member = synced.member
+  await ctx.step('renewed_email', () =>
+    sendMail('membership_renewed', member, {
+      tier: synced.tier,
+      amountPaid: invoice.amount_paid / 100,
+      currency: invoice.currency,
+      periodEnd: new Date(synced.subscription.current_period_end * 1000),
+    })
+  )
+}
+
+async function handleInvoicePaymentFailed(event: Stripe.Event, ctx: WebhookContext) {
+  const invoice = event.data.object as Stripe.Invoice
+  const subscriptionId = subscriptionIdOf(invoice.subscription)
+  console.log('⚠️ Processing invoice.payment_failed event:', invoice.id)
+  if (!subscriptionId) {
+    return
+  }
+
+  const synced = await syncMembership(subscriptionId)
+  if (!synced || synced.superseded || !synced.member) {
+    return
+  }
+  // Stripe retries the payment - a retry that succeeds before we get here needs no email
+  const latest = await stripe.invoices.retrieve(invoice.id)
+  if (latest.status === 'paid' || latest.status === 'void') {
+    console.log('ℹ️ Invoice is now', latest.status, '- skipping payment failed email')
+    return
+  }
+  const member = synced.member
+  await ctx.step('payment_failed_email', () =>
+    sendMail('payment_failed', member, {
+      amountDue: latest.amount_due / 100,
+      currency: latest.currency,
+      nextAttempt: latest.next_payment_attempt ? new Date(latest.next_payment_attempt * 1000) : null,
+      invoiceUrl: latest.hosted_invoice_url || null,
+    })
+  )
+}
+
+async function processCheckoutSession(event: Stripe.Event, ctx: WebhookContext) {
+  console.log('🚀 PROCESSING CHECKOUT SESSION')
+
+  const session = event.data.object as Stripe.Checkout.Session
+  const tier = session.metadata?.tier
+
+  console.log('📋 Customer ID:', session.customer)
+  console.log('📋 Tier:', tier)
+
+  if (!session.customer || !tier) {
+    console.error('❌ Missing customer or tier')
+    return
+  }
+
+  try {
+    // Get customer from Stripe (includes metadata with postcode)
+    console.log('🔍 Fetching Stripe customer...')
+    const customer = await stripe.customers.retrieve(session.customer as string)
+    console.log('✅ Customer retrieved')
+
+    if (customer.deleted) {
+      console.error('❌ Customer has been deleted')
+      return
+    }
+
+    const customerObj = customer as Stripe.Customer
+    console.log('📋 Customer email:', customerObj.email)
+    console.log('📋 Customer name:', customerObj.name)
+    console.log('📋 Customer metadata:', JSON.stringify(customerObj.metadata, null, 2))
+
+    const userEmail = customerObj.email
+    const userName = customerObj.name || customerObj.email?.split('@')[0] || 'there'
+    const firstName = userName.split(' ')[0]
+
+    // Get auth0_id from customer metadata
+    const auth0Id = customerObj.metadata?.auth0_id || customerObj.metadata?.user_id || session.metadata?.userId
+
+    console.log('🔍 Looking for auth0_id in:')
+    console.log('  - customer.metadata.auth0_id:', customerObj.metadata?.auth0_id)
+    console.log('  - customer.metadata.user_id:', customerObj.metadata?.user_id)
+    console.log('  - session.metadata.userId:', session.metadata?.userId)
+    console.log('✅ Found auth0_id:', auth0Id)
+
+    if (!auth0Id) {
+      console.error('❌ No auth0_id found in customer metadata')
+      console.error('📋 Customer metadata:', JSON.stringify(customerObj.metadata, null, 2))
+      console.error('📋 Session metadata:', JSON.stringify(session.metadata, null, 2))
+      return
+    }
+
+    // Link the new subscription to the member's membership straight away rather than waiting for invoice.paid
+    const subscriptionId = session.subscription as string
+    let subscription: Stripe.Subscription | null = null
+    if (subscriptionId) {
+      subscription = (await syncMembership(subscriptionId))?.subscription || null
+    }
+
+    // The subscription may have ended by the time a delayed or retried event is processed
+    if (subscription && (subscription.status === 'canceled' || subscription.status === 'incomplete_expired')) {
+      console.log('⚠️ Subscription is no longer active - skipping welcome email:', subscription.status)
+      return
+    }
+
+    // The three gyms we'd recommend on the new plan - nearest the postcode given at checkout, or on their profile
+    const postcode = customerObj.metadata?.postcode || null
+    console.log('📍 Postcode from Stripe metadata:', postcode)
+    let closestGyms: GymRecommendation[] = []
+    try {
+      const { recommendations, origin } = await recommendGyms(auth0Id, { limit: 3, postcode, tier, cache: 'no-store' })
+      closestGyms = recommendations
+      console.log(origin ? '✅ Ranked gyms by distance from' : '⚠️ No coordinates - ranked gyms without distance', origin || '')
+      console.log('📋 Recommended gyms:', closestGyms.map(({ gym }) => `${gym.name} (${gym.id})`).join(', '))
+    } catch (error: any) {
+      // Continue with no gyms - the email still welcomes the member
+      console.error('❌ Error recommending gyms:', error?.message)
+    }
+
+    if (userEmail) {
+      console.log('📧 Sending welcome email with', closestGyms.length, 'gyms')
+      // A failed send throws so the event is retried; a sent email isn't sent again
+      await ctx.step('welcome_email', () =>
+        sendMail('welcome', { email: userEmail, firstName, auth0Id }, { tier, gyms: closestGyms.map(welcomeGym) })
+      )
+    } else {
+      console.log('⚠️ Skipping email - no user email available')
+    }
+
+    console.log('🏁 PROCESSING COMPLETE')
+  } catch (error: any) {
+    console.error('❌ Processing error:', error.message)
+    console.error('❌ Stack:', error.stack)
+    throw error
+  }
+}
+
+function welcomeGym({ gym, chainLogo }: GymRecommendation): MailGym {
+  return {
+    id: gym.id,
+    name: gym.name,
+    address: gym.address,
+    city: gym.city,
+    postcode: gym.postcode,
+    imageUrl: chainLogo,
+  }
+}
+
+/** Handlers by event type - events without one are recorded and marked processed */
+export const WEBHOOK_HANDLERS: Partial<Record<Stripe.Event.Type, WebhookHandler>> = {
+  'checkout.session.completed': processCheckoutSession,
+  'customer.subscription.updated': handleSubscriptionUpdated,
+  'customer.subscription.deleted': handleSubscriptionDeleted,
+  'customer.subscription.trial_will_end': handleTrialWillEnd,
+  'invoice.paid': handleInvoicePaid,
+  'invoice.payment_failed': handleInvoicePaymentFailed,
+}
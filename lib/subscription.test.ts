@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { mapMembership, parseNextBillingDate } from '@/lib/subscription'
+
+describe('parseNextBillingDate', () => {
+  it('treats a date-only string as the end of that day in UTC', () => {
+    expect(parseNextBillingDate({ next_billing_date: '2026-03-15' }).toISOString()).toBe('2026-03-15T23:59:59.999Z')
+  })
+
+  it('parses a full timestamp as given', () => {
+    expect(parseNextBillingDate({ next_billing_date: '2026-03-15T10:30:00Z' }).toISOString()).toBe('2026-03-15T10:30:00.000Z')
+  })
+
+  it('falls back to the end of the current period when the billing date is missing or invalid', () => {
+    const expected = '2026-04-01T00:00:00.000Z'
+    expect(parseNextBillingDate({ current_period_end: expected }).toISOString()).toBe(expected)
+    expect(parseNextBillingDate({ next_billing_date: 'soon', current_period_end: expected }).toISOString()).toBe(expected)
+  })
+})
+
+describe('mapMembership', () => {
+  it('coerces numeric strings to numbers', () => {
+    const subscription = mapMembership({
+      id: '42',
+      monthly_limit: '12',
+      visits_used: '3',
+      price: '29.99',
+      guest_passes_limit: 2,
+      guest_passes_used: '1',
+    })
+    expect(subscription).toMatchObject({
+      id: 42,
+      monthlyLimit: 12,
+      visitsUsed: 3,
+      price: 29.99,
+      guestPassesLimit: 2,
+      guestPassesUsed: 1,
+    })
+  })
+
+  it('maps unparseable numbers to 0 rather than NaN', () => {
+    const subscription = mapMembership({ monthly_limit: 'unlimited', visits_used: '' })
+    expect(subscription.monthlyLimit).toBe(0)
+    expect(subscription.visitsUsed).toBe(0)
+  })
+
+  it('fills in defaults for missing fields', () => {
+    const subscription = mapMembership({}, 'auth0|member')
+    expect(subscription).toMatchObject({
+      id: 0,
+      userId: 'auth0|member',
+      tier: 'standard',
+      monthlyLimit: 0,
+      status: 'active',
+      stripeSubscriptionId: undefined,
+    })
+    expect(subscription.nextBillingDate).toBeInstanceOf(Date)
+    expect(subscription.currentPeriodEnd).toBeInstanceOf(Date)
+  })
+
+  it('prefers the membership user id and trims the tier', () => {
+    const subscription = mapMembership({ user_id: 'auth0|owner', tier: ' premium ' }, 'auth0|fallback')
+    expect(subscription.userId).toBe('auth0|owner')
+    expect(subscription.tier).toBe('premium')
+  })
+
+  it('falls back to the current period for start, created and updated dates', () => {
+    const subscription = mapMembership({
+      current_period_start: '2026-03-01T00:00:00Z',
+      current_period_end: '2026-04-01T00:00:00Z',
+      next_billing_date: '2026-04-01',
+    })
+    expect(subscription.startDate.toISOString()).toBe('2026-03-01T00:00:00.000Z')
+    expect(subscription.createdAt.toISOString()).toBe('2026-03-01T00:00:00.000Z')
+    expect(subscription.updatedAt.toISOString()).toBe('2026-04-01T00:00:00.000Z')
+    expect(subscription.nextBillingDate.toISOString()).toBe('2026-04-01T23:59:59.999Z')
+  })
+})
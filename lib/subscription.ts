@@ -0,0 +1,74 @@
+import type { ApiMembership } from '@/lib/anygym'
+import { Subscription } from '@/lib/types'
+
+/**
+ * Coerce a numeric API field (number or numeric string) to a number.
+ * Missing or unparseable values become 0.
+ */
+function toNumber(value: unknown): number {
+  if (value == null || value === '') {
+    return 0
+  }
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value))
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+function toDate(value: string | null | undefined): Date | null {
+  if (!value) {
+    return null
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Parse next_billing_date. Date-only strings (YYYY-MM-DD) mean the end of that
+ * day in UTC; otherwise fall back to the end of the current period.
+ */
+export function parseNextBillingDate(membership: Pick<ApiMembership, 'next_billing_date' | 'current_period_end'>): Date {
+  const billingDateStr = membership.next_billing_date
+  if (billingDateStr) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(billingDateStr)) {
+      return new Date(billingDateStr + 'T23:59:59.999Z')
+    }
+    const parsed = toDate(billingDateStr)
+    if (parsed) {
+      return parsed
+    }
+  }
+  return toDate(membership.current_period_end) || new Date()
+}
+
+/**
+ * Map a backend membership (the `membership` block on /user, or the
+ * `subscription` on /user/passes and /user/subscription) to the app's
+ * Subscription type. `userId` is used when the membership has no user_id.
+ */
+export function mapMembership(membership: ApiMembership, userId: string = ''): Subscription {
+  // Only default to 'standard' if tier is null/undefined/empty, not if it's a valid string
+  const tierValue = membership.tier
+  const tier = (tierValue && typeof tierValue === 'string' && tierValue.trim()) ? tierValue.trim() : 'standard'
+
+  const currentPeriodStart = toDate(membership.current_period_start)
+  const currentPeriodEnd = toDate(membership.current_period_end)
+
+  return {
+    id: toNumber(membership.id),
+    userId: membership.user_id || userId,
+    tier,
+    monthlyLimit: toNumber(membership.monthly_limit),
+    visitsUsed: toNumber(membership.visits_used),
+    price: toNumber(membership.price),
+    startDate: toDate(membership.start_date) || currentPeriodStart || new Date(),
+    nextBillingDate: parseNextBillingDate(membership),
+    currentPeriodStart: currentPeriodStart || new Date(),
+    currentPeriodEnd: currentPeriodEnd || new Date(),
+    status: membership.status || 'active',
+    stripeSubscriptionId: membership.stripe_subscription_id || undefined,
+    stripeCustomerId: membership.stripe_customer_id || undefined,
+    guestPassesLimit: toNumber(membership.guest_passes_limit),
+    guestPassesUsed: toNumber(membership.guest_passes_used),
+    createdAt: toDate(membership.created_at) || currentPeriodStart || new Date(),
+    updatedAt: toDate(membership.updated_at) || currentPeriodEnd || new Date(),
+  }
+}
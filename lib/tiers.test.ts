@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { planLimitsFromProduct } from '@/lib/tiers'
+
+describe('planLimitsFromProduct', () => {
+  it('uses the tier\'s defaults when the product has no allowance metadata', () => {
+    expect(planLimitsFromProduct({ name: 'Standard' })).toEqual({ monthlyLimit: 8, guestPassesLimit: 0 })
+    expect(planLimitsFromProduct({ name: 'Premium Membership' })).toEqual({ monthlyLimit: 20, guestPassesLimit: 2 })
+    expect(planLimitsFromProduct({ name: 'Gold', metadata: { tierGyms: 'elite' } })).toEqual({
+      monthlyLimit: 30,
+      guestPassesLimit: 6,
+    })
+  })
+
+  it('prefers the product metadata over the defaults', () => {
+    const product = { name: 'Premium', metadata: { 'Gym Passes': '12', 'Guest Passes': '1' } }
+    expect(planLimitsFromProduct(product)).toEqual({ monthlyLimit: 12, guestPassesLimit: 1 })
+  })
+
+  it('falls back to standard\'s allowances for an unknown tier', () => {
+    expect(planLimitsFromProduct({ name: 'Corporate', metadata: { tierGyms: 'corporate' } })).toEqual({
+      monthlyLimit: 8,
+      guestPassesLimit: 0,
+    })
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Membership tier ordering.
+ *
+ * A membership includes every gym whose required tier ranks at or below its
+ * own tier. Tiers and ranks come from the Stripe product metadata - the tier
+ * name in `tierGyms` and its position in `tierRank` - with
+ * DEFAULT_TIER_ORDER covering products that don't set a rank.
+ */
+
+/** Tier name (lowercase) to rank - higher ranks include lower ones */
+export type TierOrder = Record<string, number>
+
+export const DEFAULT_TIER_ORDER: TierOrder = { standard: 1, premium: 2, elite: 3 }
+
+interface TierProduct {
+  name: string
+  metadata?: Record<string, string> | null
+}
+
+export function normalizeTier(tier: string | null | undefined): string {
+  return (tier || '').trim().toLowerCase()
+}
+
+/** Tier a Stripe product grants, from its metadata or failing that its name */
+export function tierFromProduct(product: TierProduct): string {
+  if (product.metadata?.tierGyms) {
+    return product.metadata.tierGyms
+  }
+  const name = product.name.toLowerCase()
+  if (name.includes('premium')) {
+    return 'premium'
+  }
+  if (name.includes('elite')) {
+    return 'elite'
+  }
+  return 'standard'
+}
+
+/** Rank of a Stripe product's tier - `tierRank` metadata, or the default order */
+export function tierRankFromProduct(product: TierProduct, tier: string = tierFromProduct(product)): number {
+  const rank = parseInt(product.metadata?.tierRank || '', 10)
+  if (!isNaN(rank)) {
+    return rank
+  }
+  return DEFAULT_TIER_ORDER[normalizeTier(tier)] ?? 0
+}
+
+export interface PlanLimits {
+  monthlyLimit: number
+  guestPassesLimit: number
+}
+
+/** Allowances for products without `Gym Passes` or `Guest Passes` metadata - unknown tiers get standard's */
+export const DEFAULT_PLAN_LIMITS: Record<string, PlanLimits> = {
+  standard: { monthlyLimit: 8, guestPassesLimit: 0 },
+  premium: { monthlyLimit: 20, guestPassesLimit: 2 },
+  elite: { monthlyLimit: 30, guestPassesLimit: 6 },
+}
+
+/** Monthly visit and guest pass allowances from a product's `Gym Passes` and `Guest Passes` metadata, or its tier's defaults */
+export function planLimitsFromProduct(product: TierProduct, tier: string = tierFromProduct(product)): PlanLimits {
+  const defaults = DEFAULT_PLAN_LIMITS[normalizeTier(tier)] || DEFAULT_PLAN_LIMITS.standard
+  const monthlyLimit = parseInt(product.metadata?.['Gym Passes'] || '', 10)
+  const guestPassesLimit = parseInt(product.metadata?.['Guest Passes'] || '', 10)
+  return {
+    monthlyLimit: isNaN(monthlyLimit) ? defaults.monthlyLimit : monthlyLimit,
+    guestPassesLimit: isNaN(guestPassesLimit) ? defaults.guestPassesLimit : guestPassesLimit,
+  }
+}
+
+/** Tier order from Stripe products, on top of the defaults */
+export function buildTierOrder(products: TierProduct[]): TierOrder {
+  const order: TierOrder = { ...DEFAULT_TIER_ORDER }
+  for (const product of products) {
+    const tier = tierFromProduct(product)
+    order[normalizeTier(tier)] = tierRankFromProduct(product, tier)
+  }
+  return order
+}
+
+export function tierRank(tier: string | null | undefined, order: TierOrder = DEFAULT_TIER_ORDER): number | undefined {
+  return order[normalizeTier(tier)]
+}
+
+/**
+ * Whether a member on `memberTier` can visit a gym requiring `requiredTier`.
+ * Gyms with no or an unrecognised required tier are left for the backend to
+ * decide; members without a known tier aren't included anywhere.
+ */
+export function isTierIncluded(
+  memberTier: string | null | undefined,
+  requiredTier: string | null | undefined,
+  order: TierOrder = DEFAULT_TIER_ORDER
+): boolean {
+  const required = tierRank(requiredTier, order)
+  if (required === undefined) {
+    return true
+  }
+  const member = tierRank(memberTier, order)
+  return member !== undefined && member >= required
+}
+
+/** "premium" -> "Premium" */
+export function tierLabel(tier: string): string {
+  const trimmed = tier.trim()
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1).toLowerCase()
+}
@@ -1,3 +1,6 @@
+import type { OpeningHours } from '@/lib/openingHours'
+import type { PassQrToken } from '@/lib/passQr'
+
 export interface Gym {
   id: number
   name: string
@@ -8,12 +11,14 @@ export interface Gym {
   latitude?: number
   longitude?: number
   gym_chain_id?: number
+  gym_chain_name?: string
   required_tier: string
-  amenities?: any // jsonb
-  opening_hours?: any // jsonb
+  amenities?: string[] // Canonical amenity ids, see lib/amenities
+  opening_hours?: OpeningHours | null // Parsed by lib/openingHours, null when unknown
   image_url?: string
   rating?: number
   status?: string
+  distanceKm?: number // Only set when searching near a location
   createdAt: Date
   updatedAt: Date
 }
@@ -27,13 +32,32 @@ export interface GymPass {
   validUntil: Date
   usedAt?: Date
   qrCodeUrl?: string
+  qrToken?: PassQrToken // Signed, rotating QR code - see lib/passQr
   subscriptionTier?: string
   passCost?: number
+  cancelledAt?: Date
+  cancelledBy?: string
+  cancellationReason?: string
   createdAt: Date
   updatedAt: Date
   gym?: Gym
 }
 
+export interface GuestPass {
+  id: number
+  gymId: number
+  gymName: string
+  guestName: string
+  guestEmail: string
+  status: 'pending_acceptance' | 'active' | 'used' | 'expired' | 'cancelled'
+  passCode?: string
+  validUntil?: Date
+  acceptanceExpiresAt?: Date
+  acceptedAt?: Date
+  usedAt?: Date
+  createdAt: Date
+}
+
 export interface Subscription {
   id: number
   userId: string
@@ -1,4 +1,4 @@
-// Database import removed - now using API for user data
+import { ApiUser, AnyGymConflictError, AnyGymNotFoundError, createUser, getUser } from '@/lib/anygym'
 
 export interface AppUser {
   id?: number // Optional - table uses auth0_id as primary key
@@ -37,6 +37,29 @@ interface UserRow {
   updated_at?: Date | string
 }
 
+function mapAppUser(
+  userData: ApiUser,
+  auth0Id: string,
+  userEmail?: string,
+  userName?: string
+): AppUser {
+  return {
+    auth0_id: userData.auth0_id || auth0Id,
+    email: userData.email ?? userEmail ?? undefined,
+    name: userData.full_name ?? userData.name ?? userName ?? undefined,
+    date_of_birth: userData.date_of_birth ?? undefined,
+    address_line1: userData.address_line1 ?? undefined,
+    address_line2: userData.address_line2 ?? undefined,
+    address_city: userData.address_city ?? undefined,
+    address_postcode: userData.address_postcode ?? undefined,
+    emergency_contact_name: userData.emergency_contact_name ?? undefined,
+    emergency_contact_number: userData.emergency_contact_number ?? undefined,
+    onboarding_completed: userData.onboarding_completed === true || false,
+    created_at: userData.created_at ? new Date(userData.created_at) : new Date(),
+    updated_at: userData.updated_at ? new Date(userData.updated_at) : new Date(),
+  }
+}
+
 /**
  * Get or create app user from Auth0 ID
  * Returns the user and whether they need onboarding
@@ -50,125 +73,54 @@ export async function getOrCreateAppUser(
 
   // Try to find existing user from API
   try {
-    const response = await fetch('https://api.any-gym.com/user', {
-      headers: {
-        'auth0_id': normalizedAuth0Id,
-      },
-      next: { revalidate: 60 } // Cache for 1 minute
-    })
+    const userData = await getUser(normalizedAuth0Id)
+    const user = mapAppUser(userData, normalizedAuth0Id, userEmail, userName)
+    // Older accounts predate the onboarding flag - treat a complete profile as onboarded
+    user.onboarding_completed = user.onboarding_completed ||
+      !!(userData.date_of_birth && userData.address_line1 && userData.address_city && userData.address_postcode)
 
-    if (response.ok) {
-      const userData = await response.json()
-      
-      // Map API response to AppUser type
-      const user: AppUser = {
-        auth0_id: userData.auth0_id || normalizedAuth0Id,
-        email: userData.email ?? userEmail ?? undefined,
-        name: userData.full_name ?? userData.name ?? userName ?? undefined,
-        date_of_birth: userData.date_of_birth ?? undefined,
-        address_line1: userData.address_line1 ?? undefined,
-        address_line2: userData.address_line2 ?? undefined,
-        address_city: userData.address_city ?? undefined,
-        address_postcode: userData.address_postcode ?? undefined,
-        emergency_contact_name: userData.emergency_contact_name ?? undefined,
-        emergency_contact_number: userData.emergency_contact_number ?? undefined,
-        onboarding_completed: userData.onboarding_completed === true || 
-          (userData.date_of_birth && userData.address_line1 && userData.address_city && userData.address_postcode) || 
-          false,
-        created_at: userData.created_at ? new Date(userData.created_at) : new Date(),
-        updated_at: userData.updated_at ? new Date(userData.updated_at) : new Date(),
-      }
-      
-      return {
-        user,
-        needsOnboarding: !user.onboarding_completed,
-      }
-    } else if (response.status === 404) {
+    return {
+      user,
+      needsOnboarding: !user.onboarding_completed,
+    }
+  } catch (error: any) {
+    if (error instanceof AnyGymNotFoundError) {
       // User doesn't exist in API, will create below
       console.log('[getOrCreateAppUser] User not found in API, will create')
     } else {
-      console.error('[getOrCreateAppUser] API error:', response.status, response.statusText)
+      console.error('[getOrCreateAppUser] Error fetching user from API:', error?.message)
       // On error, continue to creation logic below
     }
-  } catch (error: any) {
-    console.error('[getOrCreateAppUser] Error fetching user from API:', error?.message)
-    // On error, continue to creation logic below
   }
 
   // User doesn't exist, create them via API
   console.log('[getOrCreateAppUser] User not found, creating new user for auth0_id:', normalizedAuth0Id)
   try {
-    const response = await fetch('https://api.any-gym.com/user', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'auth0_id': normalizedAuth0Id,
-      },
-      body: JSON.stringify({
+    let userData: ApiUser
+    try {
+      userData = await createUser(normalizedAuth0Id, {
         auth0_id: normalizedAuth0Id,
         email: userEmail || null,
         full_name: userName || null,
         name: userName || null,
         onboarding_completed: false,
-      }),
-    })
-
-    if (!response.ok) {
-      // If user already exists (409 or similar), try fetching again
-      if (response.status === 409 || response.status === 400) {
-        console.log('[getOrCreateAppUser] User may already exist, fetching from API...')
-        const fetchResponse = await fetch('https://api.any-gym.com/user', {
-          headers: {
-            'auth0_id': normalizedAuth0Id,
-          },
-          next: { revalidate: 60 }
-        })
-        
-        if (fetchResponse.ok) {
-          const userData = await fetchResponse.json()
-          const user: AppUser = {
-            auth0_id: userData.auth0_id || normalizedAuth0Id,
-            email: userData.email ?? userEmail ?? undefined,
-            name: userData.full_name ?? userData.name ?? userName ?? undefined,
-            date_of_birth: userData.date_of_birth ?? undefined,
-            address_line1: userData.address_line1 ?? undefined,
-            address_line2: userData.address_line2 ?? undefined,
-            address_city: userData.address_city ?? undefined,
-            address_postcode: userData.address_postcode ?? undefined,
-            emergency_contact_name: userData.emergency_contact_name ?? undefined,
-            emergency_contact_number: userData.emergency_contact_number ?? undefined,
-            onboarding_completed: userData.onboarding_completed === true || false,
-            created_at: userData.created_at ? new Date(userData.created_at) : new Date(),
-            updated_at: userData.updated_at ? new Date(userData.updated_at) : new Date(),
-          }
-          return {
-            user,
-            needsOnboarding: !user.onboarding_completed,
-          }
-        }
+      })
+    } catch (createError) {
+      if (!(createError instanceof AnyGymConflictError)) {
+        throw createError
+      }
+      // If user already exists, fetch it again
+      console.log('[getOrCreateAppUser] User may already exist, fetching from API...')
+      const existing = await getUser(normalizedAuth0Id)
+      const user = mapAppUser(existing, normalizedAuth0Id, userEmail, userName)
+      return {
+        user,
+        needsOnboarding: !user.onboarding_completed,
       }
-      
-      const errorData = await response.json().catch(() => ({ error: 'Failed to create user' }))
-      throw new Error(errorData.error || `Failed to create user: ${response.statusText}`)
     }
 
-    const userData = await response.json()
-    const user: AppUser = {
-      auth0_id: userData.auth0_id || normalizedAuth0Id,
-      email: userData.email ?? userEmail ?? undefined,
-      name: userData.full_name ?? userData.name ?? userName ?? undefined,
-      date_of_birth: userData.date_of_birth ?? undefined,
-      address_line1: userData.address_line1 ?? undefined,
-      address_line2: userData.address_line2 ?? undefined,
-      address_city: userData.address_city ?? undefined,
-      address_postcode: userData.address_postcode ?? undefined,
-      emergency_contact_name: userData.emergency_contact_name ?? undefined,
-      emergency_contact_number: userData.emergency_contact_number ?? undefined,
-      onboarding_completed: userData.onboarding_completed === true || false,
-      created_at: userData.created_at ? new Date(userData.created_at) : new Date(),
-      updated_at: userData.updated_at ? new Date(userData.updated_at) : new Date(),
-    }
-    
+    const user = mapAppUser(userData, normalizedAuth0Id, userEmail, userName)
+
     console.log('[getOrCreateAppUser] Successfully created user via API:', user.auth0_id, 'needsOnboarding: true')
     return {
       user,
@@ -179,9 +131,4 @@ export async function getOrCreateAppUser(
     // Re-throw the error so the caller knows something went wrong
     throw error
   }
-
-  // If we get here, user creation failed
-  console.error('[getOrCreateAppUser] Failed to create user - no result returned')
-  return { user: null, needsOnboarding: true }
 }
-
@@ -0,0 +1,82 @@
+import { AnyGymNotFoundError, getGym, getUserPass } from '@/lib/anygym'
+import { buildPassQrPayload } from '@/lib/passQr'
+import { issuePassQrToken } from '@/lib/passSigning'
+
+/**
+ * What goes on a phone wallet pass (lib/appleWallet.ts, lib/googleWallet.ts)
+ * for one of the member's active passes.
+ */
+
+export const APP_URL = (process.env.AUTH0_BASE_URL || 'https://any-gym.com').replace(/\/+$/, '')
+
+export const ANYGYM_ICON_URL = 'https://res.cloudinary.com/njh101010/image/upload/v1760889858/anygym/anygym.png'
+
+export interface WalletPassDetails {
+  id: number
+  /** Null when the barcode is signed - the code on its own isn't accepted then */
+  passCode: string | null
+  /** What the barcode encodes - a static signed payload, or the pass code when signing is off */
+  barcodeMessage: string
+  validUntil: Date
+  createdAt: Date
+  gymName: string
+  gymAddress: string
+  latitude?: number
+  longitude?: number
+  chainName?: string
+  chainLogoUrl?: string
+}
+
+/**
+ * Read a PEM certificate or key from an env var. Accepts the PEM itself -
+ * with real or escaped (\n) newlines, as hosting dashboards often store
+ * them - or the PEM base64-encoded.
+ */
+export function pemFromEnv(name: string): string | null {
+  const value = process.env[name]?.trim()
+  if (!value) return null
+  if (value.includes('-----BEGIN')) {
+    return value.replace(/\\n/g, '\n')
+  }
+  return Buffer.from(value, 'base64').toString('utf8')
+}
+
+function toNumber(value: string | number | null | undefined): number | undefined {
+  if (value == null || value === '') return undefined
+  const number = Number(value)
+  return isFinite(number) ? number : undefined
+}
+
+/** The member's pass with its gym's address and location, or null unless it's active and unexpired */
+export async function getWalletPassDetails(auth0Id: string, passId: number): Promise<WalletPassDetails | null> {
+  const pass = await getUserPass(auth0Id, passId)
+  if (!pass || (pass.status || 'active') !== 'active' || !pass.pass_code || !pass.valid_until) {
+    return null
+  }
+  const validUntil = new Date(pass.valid_until)
+  if (validUntil.getTime() <= Date.now()) {
+    return null
+  }
+
+  const gym = await getGym(pass.gym_id).catch((error) => {
+    if (error instanceof AnyGymNotFoundError) return null
+    throw error
+  })
+
+  // Wallet barcodes can't rotate, so they get the signed payload without a code
+  const qrToken = issuePassQrToken({ id: pass.id, gymId: pass.gym_id, validUntil }, { rotating: false })
+
+  return {
+    id: pass.id,
+    passCode: qrToken ? null : pass.pass_code,
+    barcodeMessage: qrToken ? await buildPassQrPayload(qrToken) : pass.pass_code,
+    validUntil,
+    createdAt: pass.created_at ? new Date(pass.created_at) : new Date(),
+    gymName: gym?.name || pass.gym_name || 'Unknown Gym',
+    gymAddress: [gym?.address, gym?.city, gym?.postcode].filter(Boolean).join(', '),
+    latitude: toNumber(gym?.latitude),
+    longitude: toNumber(gym?.longitude),
+    chainName: gym?.gym_chain?.name || gym?.gym_chain_name || pass.gym_chain_name || undefined,
+    chainLogoUrl: gym?.gym_chain?.logo_url || gym?.gym_chain_logo || pass.gym_chain_logo || undefined,
+  }
+}
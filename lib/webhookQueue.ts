@@ -0,0 +1,164 @@
+import Stripe from 'stripe'
+import {
+  AnyGymConflictError,
+  ApiWebhookEvent,
+  WebhookEventStatus,
+  claimWebhookEvent,
+  createWebhookEvent,
+  getWebhookEvents,
+  updateWebhookEvent,
+} from '@/lib/anygym'
+import { WEBHOOK_HANDLERS, WebhookContext } from '@/lib/stripeWebhooks'
+
+/**
+ * Durable queue for Stripe webhook events.
+ *
+ * Every verified event is written to the backend's event log before the
+ * webhook responds, keyed by the Stripe event id so redeliveries are
+ * recorded once. Events are then processed under a short lease; failures
+ * are retried with exponential backoff by the queue worker
+ * (/api/stripe/webhook/process) and end up dead-lettered after
+ * MAX_ATTEMPTS, where they can be inspected and requeued from
+ * /admin/webhooks.
+ */
+
+export const MAX_ATTEMPTS = 8
+
+// Long enough for the slowest handler (geocoding, gym lookup, email)
+const LEASE_SECONDS = 120
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000
+
+export interface ProcessSummary {
+  processed: number
+  failed: number
+  dead: number
+  skipped: number
+}
+
+/** Delay before the next try after `attempt` failures: 30s, 1m, 2m, 4m... up to 6h, plus up to 10% jitter */
+export function retryDelayMs(attempt: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempt - 1, 0)), MAX_RETRY_DELAY_MS)
+  return Math.round(delay * (1 + Math.random() * 0.1))
+}
+
+/**
+ * Record a verified event. Returns `duplicate: true` when the event id was
+ * already recorded, e.g. a Stripe redelivery.
+ */
+export async function enqueueWebhookEvent(event: Stripe.Event): Promise<{ duplicate: boolean }> {
+  const object = event.data.object as { id?: unknown }
+  try {
+    await createWebhookEvent({
+      id: event.id,
+      type: event.type,
+      object_id: typeof object?.id === 'string' ? object.id : null,
+      event_created_at: new Date(event.created * 1000).toISOString(),
+      payload: event as unknown as Record<string, unknown>,
+    })
+    return { duplicate: false }
+  } catch (error) {
+    if (error instanceof AnyGymConflictError) {
+      return { duplicate: true }
+    }
+    throw error
+  }
+}
+
+/**
+ * Claim and run one event. Returns its new status, or null when it couldn't
+ * be claimed because it's already processed, dead or being run elsewhere.
+ */
+export async function processWebhookEvent(id: string): Promise<WebhookEventStatus | null> {
+  let record: ApiWebhookEvent
+  try {
+    record = await claimWebhookEvent(id, LEASE_SECONDS)
+  } catch (error) {
+    if (error instanceof AnyGymConflictError) {
+      console.log('[webhookQueue] Event not claimable, skipping:', id)
+      return null
+    }
+    throw error
+  }
+
+  const event = record.payload as unknown as Stripe.Event
+  const completedSteps = new Set(record.completed_steps || [])
+  const ctx: WebhookContext = {
+    async step(name, fn) {
+      if (completedSteps.has(name)) {
+        console.log(`[webhookQueue] Step ${name} already done for ${id}, skipping`)
+        return
+      }
+      await fn()
+      completedSteps.add(name)
+      await updateWebhookEvent(id, { completed_steps: Array.from(completedSteps) })
+    },
+  }
+
+  console.log(`[webhookQueue] Processing ${event.type} ${id} (attempt ${record.attempts})`)
+
+  try {
+    const handler = WEBHOOK_HANDLERS[event.type]
+    if (handler) {
+      await handler(event, ctx)
+    } else {
+      console.log('[webhookQueue] No handler for event type:', event.type)
+    }
+    await updateWebhookEvent(id, {
+      status: 'processed',
+      processed_at: new Date().toISOString(),
+      locked_until: null,
+      next_attempt_at: null,
+      last_error: null,
+    })
+    return 'processed'
+  } catch (error: any) {
+    const dead = record.attempts >= MAX_ATTEMPTS
+    console.error(`[webhookQueue] ${dead ? 'Dead-lettering' : 'Will retry'} ${id}:`, error?.message)
+    await updateWebhookEvent(id, {
+      status: dead ? 'dead' : 'failed',
+      locked_until: null,
+      next_attempt_at: dead ? null : new Date(Date.now() + retryDelayMs(record.attempts)).toISOString(),
+      last_error: String(error?.message || error).slice(0, 1000),
+    })
+    return dead ? 'dead' : 'failed'
+  }
+}
+
+/** Run events that are due for a retry, or whose lease expired mid-run. Called by the queue worker. */
+export async function processDueWebhookEvents(limit = 25): Promise<ProcessSummary> {
+  const summary: ProcessSummary = { processed: 0, failed: 0, dead: 0, skipped: 0 }
+  const due = await getWebhookEvents({ due: true, limit })
+
+  // One at a time, oldest first, so events for the same object run in order
+  due.sort((a, b) => new Date(a.event_created_at).getTime() - new Date(b.event_created_at).getTime())
+  for (const record of due) {
+    try {
+      const status = await processWebhookEvent(record.id)
+      if (status === 'processed' || status === 'failed' || status === 'dead') {
+        summary[status]++
+      } else {
+        summary.skipped++
+      }
+    } catch (error: any) {
+      // The backend is unreachable - leave the rest for the next run
+      console.error('[webhookQueue] Error processing due event:', record.id, error?.message)
+      summary.skipped++
+    }
+  }
+  return summary
+}
+
+/**
+ * Put a dead or failed event back on the queue with a fresh set of attempts.
+ * Completed steps are kept, so emails that were sent aren't sent again.
+ */
+export function requeueWebhookEvent(id: string): Promise<ApiWebhookEvent> {
+  return updateWebhookEvent(id, {
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date().toISOString(),
+    locked_until: null,
+    last_error: null,
+  })
+}
@@ -0,0 +1,27 @@
+-- Migration: Add chain_consents table
+-- Ledger of members accepting a chain's terms and health statement. Each row
+-- holds the documents as shown and their version (SHA-256 of the documents),
+-- with the pass they were accepted for. A member who has accepted the current
+-- version isn't asked again. Backs GET /user/consents and the `consent` field
+-- of POST /generate_pass.
+
+CREATE TABLE IF NOT EXISTS chain_consents (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,                            -- auth0_id of the member
+  chain_id INTEGER NOT NULL,
+  document_version TEXT NOT NULL,
+  documents JSONB NOT NULL,                         -- terms and health statement text/URLs as accepted
+  pass_id INTEGER,                                  -- the pass generated with this acceptance
+  accepted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chain_consents_user_chain
+  ON chain_consents(user_id, chain_id, accepted_at DESC);
+
+-- The version a guest accepted through their invitation
+ALTER TABLE guest_passes ADD COLUMN IF NOT EXISTS terms_document_version TEXT;
+
+-- Whether a member has accepted the current documents:
+--   SELECT 1 FROM chain_consents
+--   WHERE user_id = $1 AND chain_id = $2 AND document_version = $3
+--   LIMIT 1;
@@ -0,0 +1,14 @@
+-- Migration: Add email_opt_outs table
+-- Addresses that have opted out of every email, for people without an
+-- account such as invited guests. Set from the unsubscribe link in guest
+-- pass emails. Backs the /email_opt_outs endpoints.
+
+CREATE TABLE IF NOT EXISTS email_opt_outs (
+  email TEXT PRIMARY KEY,                           -- lowercased
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- PUT /email_opt_outs/:email is idempotent:
+--   INSERT INTO email_opt_outs (email) VALUES (LOWER($1))
+--   ON CONFLICT (email) DO UPDATE SET email = EXCLUDED.email
+--   RETURNING *;
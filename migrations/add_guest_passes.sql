@@ -0,0 +1,31 @@
+-- Migration: Add guest_passes table
+-- Passes a member issues to a guest, counted against the membership's guest
+-- allowance. The guest accepts the chain's terms through a one-time token
+-- before the pass code is issued. Backs the /guest_passes endpoints.
+
+CREATE TABLE IF NOT EXISTS guest_passes (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,                            -- auth0_id of the inviting member
+  gym_id INTEGER NOT NULL,
+  guest_name TEXT NOT NULL,
+  guest_email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending_acceptance'
+    CHECK (status IN ('pending_acceptance', 'active', 'used', 'expired', 'cancelled')),
+  acceptance_token TEXT NOT NULL UNIQUE,
+  acceptance_expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  terms_accepted_at TIMESTAMPTZ,                    -- guest accepted the chain's terms
+  health_statement_accepted_at TIMESTAMPTZ,         -- guest accepted the chain's health statement
+  pass_code TEXT,
+  valid_until TIMESTAMPTZ,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_guest_passes_user ON guest_passes(user_id, created_at DESC);
+
+-- Invitations to expire, refunding the member's guest allowance
+CREATE INDEX IF NOT EXISTS idx_guest_passes_pending
+  ON guest_passes(acceptance_expires_at)
+  WHERE status = 'pending_acceptance';
@@ -0,0 +1,8 @@
+-- Migration: Add notification_preferences to app_users
+-- Which emails a member has agreed to, per channel and category, e.g.
+--   {"email": {"pass_reminders": true, "billing": true, "marketing": false, "newsletters": false}}
+-- NULL (or a missing category) falls back to pass_notification_consent and
+-- marketing_consent, which are still written alongside it. Set from the
+-- profile page and the unsubscribe links in emails.
+
+ALTER TABLE app_users ADD COLUMN IF NOT EXISTS notification_preferences JSONB;
@@ -0,0 +1,27 @@
+-- Migration: Add cancellation columns to gym_passes table
+-- Members can cancel an unscanned pass shortly after generating it, which
+-- returns the visit to their monthly allowance. Backs POST /passes/:id/cancel.
+
+ALTER TABLE gym_passes
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS cancelled_by TEXT,            -- auth0_id of whoever cancelled the pass
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
+ADD COLUMN IF NOT EXISTS cancellation_note TEXT;
+
+ALTER TABLE gym_passes DROP CONSTRAINT IF EXISTS gym_passes_status_check;
+ALTER TABLE gym_passes
+ADD CONSTRAINT gym_passes_status_check CHECK (status IN ('active', 'used', 'expired', 'cancelled'));
+
+-- POST /passes/:id/cancel cancels and refunds in one statement, so a pass
+-- scanned at the same moment can't also be cancelled:
+--   WITH cancelled AS (
+--     UPDATE gym_passes
+--     SET status = 'cancelled', cancelled_at = NOW(), cancelled_by = $2, cancellation_reason = $3,
+--         cancellation_note = $4, updated_at = NOW()
+--     WHERE id = $1 AND status = 'active' AND used_at IS NULL
+--       AND created_at > NOW() - INTERVAL '30 minutes'
+--     RETURNING *
+--   )
+--   UPDATE memberships SET visits_used = GREATEST(visits_used - 1, 0)
+--   WHERE user_id = (SELECT user_id FROM cancelled);
+-- and answers 409 when no pass is cancelled.
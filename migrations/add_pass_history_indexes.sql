@@ -0,0 +1,25 @@
+-- Migration: Index gym_passes for the grouped pass history
+-- GET /user/pass_history groups a member's past passes by gym, filtered by
+-- date range, chain, gym and status, and counts visits per gym and per month.
+
+CREATE INDEX IF NOT EXISTS idx_gym_passes_user_history
+ON gym_passes (user_id, COALESCE(used_at, created_at) DESC)
+WHERE status <> 'active';
+
+CREATE INDEX IF NOT EXISTS idx_gym_passes_user_gym
+ON gym_passes (user_id, gym_id);
+
+-- One page of gyms, most recently visited first:
+--   SELECT p.gym_id, COUNT(*) AS pass_count, COUNT(p.used_at) AS visit_count,
+--          MAX(COALESCE(p.used_at, p.created_at)) AS last_visit
+--   FROM gym_passes p JOIN gyms g ON g.id = p.gym_id
+--   WHERE p.user_id = $1 AND p.status <> 'active'
+--     AND ($2::date IS NULL OR COALESCE(p.used_at, p.created_at) >= $2)
+--     AND ($3::date IS NULL OR COALESCE(p.used_at, p.created_at) < $3 + 1)
+--     AND ($4::int IS NULL OR g.gym_chain_id = $4)
+--     AND ($5::int IS NULL OR p.gym_id = $5)
+--     AND ($6::text[] IS NULL OR p.status = ANY($6))
+--   GROUP BY p.gym_id
+--   ORDER BY last_visit DESC
+--   LIMIT $7 OFFSET $8;
+-- visits_by_month groups the same rows by date_trunc('month', used_at).
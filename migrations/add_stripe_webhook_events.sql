@@ -0,0 +1,39 @@
+-- Migration: Add stripe_webhook_events table
+-- Event log and processing queue for Stripe webhooks, keyed by the Stripe event id
+-- so redelivered events are recorded once. Backs the /webhook_events endpoints.
+
+CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+  id TEXT PRIMARY KEY,                              -- Stripe event id (evt_...), the idempotency key
+  type TEXT NOT NULL,
+  object_id TEXT,                                   -- id of event.data.object, e.g. the subscription
+  event_created_at TIMESTAMPTZ NOT NULL,            -- when Stripe created the event
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,                         -- processing lease, so two workers can't run one event
+  last_error TEXT,
+  completed_steps TEXT[] NOT NULL DEFAULT '{}',     -- side effects already done, skipped on retry
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Due events for the worker
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_due
+  ON stripe_webhook_events(next_attempt_at)
+  WHERE status IN ('pending', 'failed');
+
+-- Dead-letter view
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_status ON stripe_webhook_events(status, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_object ON stripe_webhook_events(object_id, event_created_at DESC);
+
+-- POST /webhook_events/:id/claim takes the lease atomically:
+--   UPDATE stripe_webhook_events
+--   SET status = 'processing', attempts = attempts + 1, locked_until = NOW() + $2 * INTERVAL '1 second', updated_at = NOW()
+--   WHERE id = $1
+--     AND (status IN ('pending', 'failed') OR (status = 'processing' AND locked_until < NOW()))
+--   RETURNING *;
+-- and answers 409 when no row is returned.
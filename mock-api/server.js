@@ -0,0 +1,874 @@
+/**
+ * Local stand-in for the AnyGym backend (api.any-gym.com).
+ *
+ * Serves the endpoints the app calls from seeded fixtures in ./fixtures, with
+ * the same response shapes as the live API. State is kept in memory - writes
+ * (new users, profile updates, generated passes, guest passes, webhook events) last until the server
+ * restarts or POST /__mock/reset is called.
+ *
+ * Usage:
+ *   npm run mock-api
+ *   ANYGYM_API_URL=http://localhost:4010 npm run dev
+ */
+const http = require('http')
+const fs = require('fs')
+const path = require('path')
+const crypto = require('crypto')
+
+const PORT = Number(process.env.MOCK_API_PORT) || 4010
+// Tier given to users created through POST /user, so a fresh login can generate passes
+const DEFAULT_TIER = process.env.MOCK_API_DEFAULT_TIER || ''
+
+const TIER_RANK = { standard: 1, premium: 2, elite: 3 }
+// Limits match DEFAULT_PLAN_LIMITS in lib/tiers.ts
+const TIER_DEFAULTS = {
+  standard: { monthly_limit: 8, price: '29.99', guest_passes_limit: 0 },
+  premium: { monthly_limit: 20, price: '49.99', guest_passes_limit: 2 },
+  elite: { monthly_limit: 30, price: '79.99', guest_passes_limit: 6 },
+}
+const PASS_VALIDITY_MS = 24 * 60 * 60 * 1000
+// How long after generating a pass the member can still cancel it
+const PASS_CANCEL_WINDOW_MS = 30 * 60 * 1000
+
+let state
+
+function loadFixture(name) {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf8'))
+}
+
+function resetState() {
+  state = {
+    users: loadFixture('users'),
+    chains: loadFixture('chains'),
+    gyms: loadFixture('gyms'),
+    passes: loadFixture('passes'),
+    articles: loadFixture('articles'),
+    webhookEvents: [],
+    guestPasses: [],
+    consents: [],
+    emailOptOuts: [],
+  }
+  state.nextPassId = Math.max(0, ...state.passes.map((p) => p.id)) + 1
+  state.nextGuestPassId = 1
+  state.nextConsentId = 1
+  state.nextMembershipId = Math.max(0, ...state.users.map((u) => (u.membership && u.membership.id) || 0)) + 1
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let raw = ''
+    req.on('data', (chunk) => { raw += chunk })
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {})
+      } catch {
+        resolve(null)
+      }
+    })
+  })
+}
+
+function findUser(auth0Id) {
+  return state.users.find((u) => u.auth0_id === auth0Id)
+}
+
+function findChain(id) {
+  return state.chains.find((c) => String(c.id) === String(id))
+}
+
+/** /gyms rows carry flat chain fields, like the live API */
+function gymWithChainSummary(gym) {
+  const chain = gym.gym_chain_id != null ? findChain(gym.gym_chain_id) : null
+  return {
+    ...gym,
+    gym_chain_name: chain ? chain.name : null,
+    gym_chain_logo: chain ? chain.logo_url : null,
+  }
+}
+
+function isActive(membership) {
+  return Boolean(membership && membership.status === 'active')
+}
+
+/** Passes past their validity window are reported as expired */
+function expireStalePasses() {
+  const now = Date.now()
+  for (const pass of state.passes) {
+    if (pass.status === 'active' && new Date(pass.valid_until).getTime() <= now) {
+      pass.status = 'expired'
+      pass.updated_at = new Date(now).toISOString()
+    }
+  }
+}
+
+function generatePassCode(chain) {
+  const prefix = chain ? chain.name.split(/\s+/).map((w) => w[0]).join('').toUpperCase().slice(0, 2) : 'AG'
+  return `${prefix}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`
+}
+
+function createMembership(auth0Id, tier) {
+  const now = new Date()
+  const periodEnd = new Date(now)
+  periodEnd.setMonth(periodEnd.getMonth() + 1)
+  return {
+    id: state.nextMembershipId++,
+    user_id: auth0Id,
+    tier,
+    monthly_limit: TIER_DEFAULTS[tier].monthly_limit,
+    visits_used: 0,
+    price: TIER_DEFAULTS[tier].price,
+    start_date: now.toISOString(),
+    next_billing_date: periodEnd.toISOString(),
+    current_period_start: now.toISOString(),
+    current_period_end: periodEnd.toISOString(),
+    status: 'active',
+    stripe_subscription_id: null,
+    stripe_customer_id: null,
+    guest_passes_limit: TIER_DEFAULTS[tier].guest_passes_limit,
+    guest_passes_used: 0,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------------------
+
+function requireUser(req, res) {
+  const auth0Id = (req.headers['auth0_id'] || '').trim()
+  if (!auth0Id) {
+    send(res, 401, { error: 'Missing auth0_id header' })
+    return null
+  }
+  const user = findUser(auth0Id)
+  if (!user) {
+    send(res, 404, { error: 'User not found' })
+    return null
+  }
+  return user
+}
+
+async function createUser(req, res) {
+  const body = await readBody(req)
+  const auth0Id = ((body && body.auth0_id) || req.headers['auth0_id'] || '').trim()
+  if (!auth0Id) {
+    return send(res, 400, { error: 'auth0_id is required' })
+  }
+  if (findUser(auth0Id)) {
+    return send(res, 400, { error: 'User already exists' })
+  }
+  const now = new Date().toISOString()
+  const user = {
+    full_name: null,
+    onboarding_completed: false,
+    pass_notification_consent: null,
+    marketing_consent: null,
+    notification_preferences: null,
+    stripe_customer_id: null,
+    ...body,
+    auth0_id: auth0Id,
+    membership: TIER_DEFAULTS[DEFAULT_TIER] ? createMembership(auth0Id, DEFAULT_TIER) : null,
+    created_at: now,
+    updated_at: now,
+  }
+  state.users.push(user)
+  send(res, 201, user)
+}
+
+async function updateUser(req, res) {
+  const user = requireUser(req, res)
+  if (!user) return
+  const body = await readBody(req)
+  if (!body) {
+    return send(res, 400, { error: 'Invalid JSON body' })
+  }
+  // Identity and membership are owned by the backend
+  const { auth0_id, membership, ...fields } = body
+  Object.assign(user, fields, { updated_at: new Date().toISOString() })
+  send(res, 200, user)
+}
+
+function getUserPasses(req, res) {
+  const user = requireUser(req, res)
+  if (!user) return
+  expireStalePasses()
+  const passes = state.passes
+    .filter((p) => p.user_id === user.auth0_id)
+    .sort((a, b) => new Date(b.created_at) - new Date(a.created_at))
+  send(res, 200, {
+    subscription: user.membership || null,
+    active_passes: passes.filter((p) => p.status === 'active'),
+    pass_history: passes.filter((p) => p.status !== 'active'),
+  })
+}
+
+const HISTORY_PASSES_PER_GYM = 10
+
+function visitDate(pass) {
+  return pass.used_at || pass.created_at
+}
+
+/** Past passes grouped by gym, filtered and paginated by gym */
+function getPassHistory(req, res, url) {
+  const user = requireUser(req, res)
+  if (!user) return
+  expireStalePasses()
+  const params = url.searchParams
+  const from = params.get('from')
+  const to = params.get('to')
+  const chainId = params.get('chain_id')
+  const gymId = params.get('gym_id')
+  const statuses = (params.get('status') || '').split(',').filter(Boolean)
+  const page = Math.max(1, Number(params.get('page')) || 1)
+  const perPage = Math.min(50, Number(params.get('per_page')) || 10)
+
+  const passes = state.passes
+    .filter((p) => p.user_id === user.auth0_id && p.status !== 'active')
+    .filter((p) => statuses.length === 0 || statuses.includes(p.status))
+    .filter((p) => !chainId || String(p.gym_chain_id) === chainId)
+    .filter((p) => !gymId || String(p.gym_id) === gymId)
+    .filter((p) => {
+      const day = visitDate(p).slice(0, 10)
+      return (!from || day >= from) && (!to || day <= to)
+    })
+    .sort((a, b) => new Date(visitDate(b)) - new Date(visitDate(a)))
+
+  const groups = new Map()
+  const months = new Map()
+  for (const pass of passes) {
+    let group = groups.get(pass.gym_id)
+    if (!group) {
+      group = {
+        gym_id: pass.gym_id,
+        gym_name: pass.gym_name,
+        gym_chain_id: pass.gym_chain_id,
+        gym_chain_name: pass.gym_chain_name,
+        gym_chain_logo: pass.gym_chain_logo,
+        pass_count: 0,
+        visit_count: 0,
+        last_visit: visitDate(pass),
+        passes: [],
+      }
+      groups.set(pass.gym_id, group)
+    }
+    group.pass_count += 1
+    if (group.passes.length < HISTORY_PASSES_PER_GYM) group.passes.push(pass)
+    if (pass.used_at) {
+      group.visit_count += 1
+      const month = pass.used_at.slice(0, 7)
+      months.set(month, (months.get(month) || 0) + 1)
+    }
+  }
+
+  const results = [...groups.values()]
+  send(res, 200, {
+    results: results.slice((page - 1) * perPage, page * perPage),
+    pagination: { page, per_page: perPage, total: results.length, total_pages: Math.ceil(results.length / perPage) },
+    total_passes: passes.length,
+    total_visits: passes.filter((p) => p.used_at).length,
+    visits_by_gym: results.map((g) => ({
+      gym_id: g.gym_id,
+      gym_name: g.gym_name,
+      gym_chain_id: g.gym_chain_id,
+      gym_chain_name: g.gym_chain_name,
+      visits: g.visit_count,
+    })),
+    visits_by_month: [...months]
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([month, visits]) => ({ month, visits })),
+  })
+}
+
+function getUserSubscription(req, res) {
+  const user = requireUser(req, res)
+  if (!user) return
+  if (!user.membership) {
+    return send(res, 404, { error: 'No subscription found' })
+  }
+  send(res, 200, { subscription: user.membership })
+}
+
+const MEMBERSHIP_FIELDS = [
+  'tier', 'status', 'monthly_limit', 'guest_passes_limit', 'price', 'current_period_start', 'current_period_end',
+  'next_billing_date', 'cancel_at_period_end', 'stripe_subscription_id', 'stripe_customer_id',
+]
+
+/** Written by the Stripe webhooks. A new billing period resets the member's usage. */
+async function updateUserMembership(req, res) {
+  const user = requireUser(req, res)
+  if (!user) return
+  const body = await readBody(req)
+  if (!body || !body.tier || !body.status) {
+    return send(res, 400, { error: 'tier and status are required' })
+  }
+  const now = new Date().toISOString()
+  const membership = user.membership || {
+    id: state.nextMembershipId++,
+    user_id: user.auth0_id,
+    visits_used: 0,
+    guest_passes_used: 0,
+    start_date: now,
+    created_at: now,
+  }
+  if (membership.current_period_start && body.current_period_start &&
+    membership.current_period_start !== body.current_period_start) {
+    membership.visits_used = 0
+    membership.guest_passes_used = 0
+  }
+  for (const field of MEMBERSHIP_FIELDS) {
+    if (field in body) {
+      membership[field] = body[field]
+    }
+  }
+  membership.updated_at = now
+  user.membership = membership
+  if (body.stripe_customer_id) {
+    user.stripe_customer_id = body.stripe_customer_id
+  }
+  send(res, 200, membership)
+}
+
+function getGyms(req, res, url) {
+  const search = (url.searchParams.get('search') || '').toLowerCase()
+  const tier = url.searchParams.get('tier')
+  const chain = url.searchParams.get('chain')
+  const gyms = state.gyms.filter((gym) => {
+    if (search && ![gym.name, gym.city, gym.postcode].some((v) => (v || '').toLowerCase().includes(search))) {
+      return false
+    }
+    if (tier && gym.required_tier !== tier) {
+      return false
+    }
+    if (chain) {
+      const gymChain = findChain(gym.gym_chain_id)
+      if (!gymChain || (String(gymChain.id) !== chain && gymChain.name.toLowerCase() !== chain.toLowerCase())) {
+        return false
+      }
+    }
+    return true
+  })
+  send(res, 200, gyms.map(gymWithChainSummary))
+}
+
+function getGym(req, res, id) {
+  const gym = state.gyms.find((g) => String(g.id) === id)
+  if (!gym) {
+    return send(res, 404, { error: 'Gym not found' })
+  }
+  const chain = gym.gym_chain_id != null ? findChain(gym.gym_chain_id) : null
+  send(res, 200, { ...gymWithChainSummary(gym), gym_chain: chain || null })
+}
+
+async function generatePass(req, res) {
+  const user = requireUser(req, res)
+  if (!user) return
+  const body = await readBody(req)
+  const gym = body && state.gyms.find((g) => String(g.id) === String(body.gym_id))
+  if (!gym) {
+    return send(res, 404, { error: 'Gym not found' })
+  }
+
+  const membership = user.membership
+  if (!isActive(membership)) {
+    return send(res, 403, { error: 'An active subscription is required to generate a pass' })
+  }
+  if ((TIER_RANK[gym.required_tier] || 1) > (TIER_RANK[membership.tier] || 0)) {
+    return send(res, 403, { error: `This gym requires the ${gym.required_tier} tier or higher` })
+  }
+  if (Number(membership.visits_used) >= Number(membership.monthly_limit)) {
+    return send(res, 403, { error: 'You have used all of your visits for this billing period' })
+  }
+
+  expireStalePasses()
+  if (state.passes.some((p) => p.user_id === user.auth0_id && p.gym_id === gym.id && p.status === 'active')) {
+    return send(res, 400, { error: 'You already have an active pass for this gym' })
+  }
+
+  const chain = gym.gym_chain_id != null ? findChain(gym.gym_chain_id) : null
+  const now = new Date()
+  const pass = {
+    id: state.nextPassId++,
+    user_id: user.auth0_id,
+    gym_id: gym.id,
+    gym_name: gym.name,
+    gym_chain_id: gym.gym_chain_id,
+    gym_chain_name: chain ? chain.name : null,
+    gym_chain_logo: chain ? chain.logo_url : null,
+    pass_code: generatePassCode(chain),
+    status: 'active',
+    valid_until: new Date(now.getTime() + PASS_VALIDITY_MS).toISOString(),
+    used_at: null,
+    qrcode_url: null,
+    subscription_tier: membership.tier,
+    pass_cost: null,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  }
+  state.passes.push(pass)
+  membership.visits_used = Number(membership.visits_used) + 1
+  membership.updated_at = now.toISOString()
+
+  const consent = body.consent ? recordConsent(user.auth0_id, body.consent, pass.id, now) : null
+
+  send(res, 201, { pass, consent })
+}
+
+// Chain terms acceptance ledger - see migrations/add_chain_consents.sql
+
+function recordConsent(userId, consent, passId, now) {
+  const record = {
+    id: state.nextConsentId++,
+    user_id: userId,
+    chain_id: Number(consent.chain_id),
+    document_version: String(consent.document_version),
+    documents: consent.documents || null,
+    pass_id: passId,
+    accepted_at: now.toISOString(),
+  }
+  state.consents.push(record)
+  return record
+}
+
+function getUserConsents(req, res, url) {
+  const user = requireUser(req, res)
+  if (!user) return
+  const chainId = url.searchParams.get('chain_id')
+  const consents = state.consents
+    .filter((c) => c.user_id === user.auth0_id && (!chainId || String(c.chain_id) === chainId))
+    .sort((a, b) => new Date(b.accepted_at).getTime() - new Date(a.accepted_at).getTime() || b.id - a.id)
+  send(res, 200, consents)
+}
+
+async function cancelPass(req, res, id) {
+  const user = requireUser(req, res)
+  if (!user) return
+  const body = await readBody(req)
+  if (!body || !body.reason || !body.cancelled_by) {
+    return send(res, 400, { error: 'reason and cancelled_by are required' })
+  }
+  expireStalePasses()
+  const pass = state.passes.find((p) => String(p.id) === id && p.user_id === user.auth0_id)
+  if (!pass) {
+    return send(res, 404, { error: 'Pass not found' })
+  }
+  if (pass.status !== 'active' || pass.used_at) {
+    return send(res, 409, { error: 'Only unused, active passes can be cancelled' })
+  }
+  if (Date.now() - new Date(pass.created_at).getTime() > PASS_CANCEL_WINDOW_MS) {
+    return send(res, 409, { error: 'The cancellation window for this pass has closed' })
+  }
+
+  const now = new Date().toISOString()
+  pass.status = 'cancelled'
+  pass.cancelled_at = now
+  pass.cancelled_by = String(body.cancelled_by)
+  pass.cancellation_reason = String(body.reason)
+  pass.cancellation_note = body.note ? String(body.note) : null
+  pass.updated_at = now
+  if (user.membership) {
+    user.membership.visits_used = Math.max(Number(user.membership.visits_used) - 1, 0)
+    user.membership.updated_at = now
+  }
+  send(res, 200, pass)
+}
+
+/** Front-desk check - marks a valid pass used. Covers member and guest passes. */
+async function redeemPass(req, res) {
+  const body = await readBody(req)
+  if (!body || !(body.pass_code || body.pass_id) || !body.gym_id) {
+    return send(res, 400, { error: 'pass_code or pass_id, and gym_id are required' })
+  }
+  expireStalePasses()
+  expireStaleGuestPasses()
+  // Signed QR payloads name the member pass by id; guest_only codes can't match a member pass
+  const code = body.pass_code ? String(body.pass_code).toUpperCase() : null
+  const memberPass = code
+    ? !body.guest_only && state.passes.find((p) => p.pass_code === code)
+    : state.passes.find((p) => String(p.id) === String(body.pass_id))
+  const guestPass = !memberPass && code && state.guestPasses.find((g) => g.pass_code === code)
+  const pass = memberPass || guestPass
+  if (!pass) {
+    return send(res, 404, { error: 'Pass not found' })
+  }
+
+  let memberName = null
+  if (memberPass) {
+    const owner = findUser(memberPass.user_id)
+    memberName = owner ? owner.full_name || owner.name || null : null
+  } else {
+    memberName = `${guestPass.guest_name} (guest)`
+  }
+
+  let result = 'valid'
+  if (String(pass.gym_id) !== String(body.gym_id)) result = 'wrong_gym'
+  else if (pass.status === 'used' || pass.used_at) result = 'already_used'
+  else if (pass.status === 'cancelled') result = 'cancelled'
+  else if (pass.status !== 'active') result = 'expired'
+
+  if (result === 'valid') {
+    const now = new Date().toISOString()
+    pass.status = 'used'
+    pass.used_at = now
+    pass.updated_at = now
+  }
+  send(res, 200, { result, pass, member_name: memberName })
+}
+
+function getArticles(req, res) {
+  const results = state.articles.map(({ body, heroImage, entryTitle, category, ...summary }) => summary)
+  send(res, 200, {
+    results,
+    pagination: { page: 1, per_page: results.length, total: results.length, total_pages: 1 },
+  })
+}
+
+function getArticle(req, res, identifier) {
+  const article = state.articles.find((a) => a.id === identifier || a.slug === identifier)
+  if (!article) {
+    return send(res, 404, { error: 'Article not found' })
+  }
+  send(res, 200, article)
+}
+
+// Guest passes - see migrations/add_guest_passes.sql
+
+const GUEST_ACCEPTANCE_MS = 7 * 24 * 60 * 60 * 1000
+
+/** Expire issued guest passes past their validity, and invitations never accepted - refunding the allowance */
+function expireStaleGuestPasses() {
+  const now = Date.now()
+  for (const guestPass of state.guestPasses) {
+    const expired =
+      (guestPass.status === 'active' && new Date(guestPass.valid_until).getTime() <= now) ||
+      (guestPass.status === 'pending_acceptance' && new Date(guestPass.acceptance_expires_at).getTime() <= now)
+    if (!expired) continue
+    if (guestPass.status === 'pending_acceptance') {
+      const owner = findUser(guestPass.user_id)
+      if (owner && owner.membership) {
+        owner.membership.guest_passes_used = Math.max(Number(owner.membership.guest_passes_used) - 1, 0)
+      }
+    }
+    guestPass.status = 'expired'
+    guestPass.updated_at = new Date(now).toISOString()
+  }
+}
+
+function findGuestPassByToken(token) {
+  expireStaleGuestPasses()
+  return state.guestPasses.find((g) => g.acceptance_token === token)
+}
+
+async function createGuestPass(req, res) {
+  const user = requireUser(req, res)
+  if (!user) return
+  const body = await readBody(req)
+  if (!body || !body.guest_name || !body.guest_email) {
+    return send(res, 400, { error: 'guest_name and guest_email are required' })
+  }
+  const gym = state.gyms.find((g) => String(g.id) === String(body.gym_id))
+  if (!gym) {
+    return send(res, 404, { error: 'Gym not found' })
+  }
+
+  const membership = user.membership
+  if (!isActive(membership)) {
+    return send(res, 403, { error: 'An active subscription is required to invite a guest' })
+  }
+  if ((TIER_RANK[gym.required_tier] || 1) > (TIER_RANK[membership.tier] || 0)) {
+    return send(res, 403, { error: `This gym requires the ${gym.required_tier} tier or higher` })
+  }
+  expireStaleGuestPasses()
+  if (Number(membership.guest_passes_used) >= Number(membership.guest_passes_limit)) {
+    return send(res, 403, { error: 'You have used all of your guest passes for this billing period' })
+  }
+
+  const chain = gym.gym_chain_id != null ? findChain(gym.gym_chain_id) : null
+  const now = new Date()
+  const guestPass = {
+    id: state.nextGuestPassId++,
+    user_id: user.auth0_id,
+    gym_id: gym.id,
+    gym_name: gym.name,
+    gym_chain_id: gym.gym_chain_id,
+    gym_chain_name: chain ? chain.name : null,
+    guest_name: String(body.guest_name),
+    guest_email: String(body.guest_email),
+    status: 'pending_acceptance',
+    acceptance_token: crypto.randomBytes(24).toString('base64url'),
+    acceptance_expires_at: new Date(now.getTime() + GUEST_ACCEPTANCE_MS).toISOString(),
+    accepted_at: null,
+    pass_code: null,
+    valid_until: null,
+    used_at: null,
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  }
+  state.guestPasses.push(guestPass)
+  membership.guest_passes_used = Number(membership.guest_passes_used) + 1
+  membership.updated_at = now.toISOString()
+
+  send(res, 201, guestPass)
+}
+
+function getUserGuestPasses(req, res) {
+  const user = requireUser(req, res)
+  if (!user) return
+  expireStaleGuestPasses()
+  const guestPasses = state.guestPasses
+    .filter((g) => g.user_id === user.auth0_id)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+  send(res, 200, guestPasses)
+}
+
+async function acceptGuestPass(req, res, token) {
+  const guestPass = findGuestPassByToken(token)
+  if (!guestPass) {
+    return send(res, 404, { error: 'Invitation not found' })
+  }
+  const body = await readBody(req)
+  if (!body || body.terms_accepted !== true || body.health_statement_accepted !== true) {
+    return send(res, 400, { error: 'terms_accepted and health_statement_accepted are required' })
+  }
+  if (guestPass.status !== 'pending_acceptance') {
+    return send(res, 409, { error: guestPass.status === 'expired' ? 'This invitation has expired' : 'This invitation has already been used' })
+  }
+
+  const chain = guestPass.gym_chain_id != null ? findChain(guestPass.gym_chain_id) : null
+  const now = new Date()
+  guestPass.status = 'active'
+  guestPass.accepted_at = now.toISOString()
+  guestPass.pass_code = generatePassCode(chain)
+  guestPass.valid_until = new Date(now.getTime() + PASS_VALIDITY_MS).toISOString()
+  guestPass.terms_document_version = body.document_version || null
+  guestPass.updated_at = now.toISOString()
+  send(res, 200, guestPass)
+}
+
+// Opted-out addresses - see migrations/add_email_opt_outs.sql
+
+function findEmailOptOut(email) {
+  return state.emailOptOuts.find((o) => o.email === email.toLowerCase())
+}
+
+function createEmailOptOut(req, res, email) {
+  let optOut = findEmailOptOut(email)
+  if (!optOut) {
+    optOut = { email: email.toLowerCase(), created_at: new Date().toISOString() }
+    state.emailOptOuts.push(optOut)
+  }
+  send(res, 200, optOut)
+}
+
+// Stripe webhook event log - see migrations/add_stripe_webhook_events.sql
+
+const WEBHOOK_EVENT_FIELDS = ['status', 'attempts', 'next_attempt_at', 'locked_until', 'last_error', 'completed_steps', 'processed_at']
+
+function findWebhookEvent(id) {
+  return state.webhookEvents.find((e) => e.id === id)
+}
+
+function isWebhookEventDue(event, now) {
+  if (event.status === 'pending' || event.status === 'failed') {
+    return !event.next_attempt_at || new Date(event.next_attempt_at).getTime() <= now
+  }
+  return event.status === 'processing' && new Date(event.locked_until).getTime() < now
+}
+
+async function createWebhookEvent(req, res) {
+  const body = await readBody(req)
+  if (!body || !body.id || !body.type || !body.payload) {
+    return send(res, 400, { error: 'id, type and payload are required' })
+  }
+  if (findWebhookEvent(body.id)) {
+    return send(res, 409, { error: 'Event already recorded' })
+  }
+  const now = new Date().toISOString()
+  const event = {
+    id: body.id,
+    type: body.type,
+    object_id: body.object_id || null,
+    event_created_at: body.event_created_at || now,
+    payload: body.payload,
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: now,
+    locked_until: null,
+    last_error: null,
+    completed_steps: [],
+    processed_at: null,
+    created_at: now,
+    updated_at: now,
+  }
+  state.webhookEvents.push(event)
+  send(res, 201, event)
+}
+
+function getWebhookEvents(req, res, url) {
+  const statuses = (url.searchParams.get('status') || '').split(',').filter(Boolean)
+  const due = url.searchParams.get('due') === 'true'
+  const limit = Number(url.searchParams.get('limit')) || 100
+  const now = Date.now()
+  const events = state.webhookEvents
+    .filter((e) => statuses.length === 0 || statuses.includes(e.status))
+    .filter((e) => !due || isWebhookEventDue(e, now))
+    .sort((a, b) => new Date(b.updated_at) - new Date(a.updated_at))
+    .slice(0, limit)
+  send(res, 200, events)
+}
+
+async function claimWebhookEvent(req, res, id) {
+  const event = findWebhookEvent(id)
+  if (!event) {
+    return send(res, 404, { error: 'Event not found' })
+  }
+  const body = (await readBody(req)) || {}
+  const now = Date.now()
+  const claimable = event.status === 'pending' || event.status === 'failed' ||
+    (event.status === 'processing' && new Date(event.locked_until).getTime() < now)
+  if (!claimable) {
+    return send(res, 409, { error: `Event is ${event.status}` })
+  }
+  Object.assign(event, {
+    status: 'processing',
+    attempts: event.attempts + 1,
+    locked_until: new Date(now + (Number(body.lease_seconds) || 120) * 1000).toISOString(),
+    updated_at: new Date(now).toISOString(),
+  })
+  send(res, 200, event)
+}
+
+async function updateWebhookEvent(req, res, id) {
+  const event = findWebhookEvent(id)
+  if (!event) {
+    return send(res, 404, { error: 'Event not found' })
+  }
+  const body = await readBody(req)
+  if (!body) {
+    return send(res, 400, { error: 'Invalid JSON body' })
+  }
+  for (const field of WEBHOOK_EVENT_FIELDS) {
+    if (field in body) {
+      event[field] = body[field]
+    }
+  }
+  event.updated_at = new Date().toISOString()
+  send(res, 200, event)
+}
+
+// ---------------------------------------------------------------------------
+// Routing
+// ---------------------------------------------------------------------------
+
+async function route(req, res) {
+  const url = new URL(req.url, `http://localhost:${PORT}`)
+  const key = `${req.method} ${url.pathname.replace(/\/+$/, '') || '/'}`
+  let match
+
+  switch (key) {
+    case 'GET /user': {
+      const user = requireUser(req, res)
+      return user && send(res, 200, user)
+    }
+    case 'POST /user':
+      return createUser(req, res)
+    case 'PUT /user':
+    case 'PUT /user/update':
+      return updateUser(req, res)
+    case 'GET /user/passes':
+      return getUserPasses(req, res)
+    case 'GET /user/pass_history':
+      return getPassHistory(req, res, url)
+    case 'GET /user/consents':
+      return getUserConsents(req, res, url)
+    case 'GET /user/subscription':
+      return getUserSubscription(req, res)
+    case 'PUT /user/membership':
+      return updateUserMembership(req, res)
+    case 'GET /gyms':
+      return getGyms(req, res, url)
+    case 'GET /chains':
+      return send(res, 200, state.chains)
+    case 'POST /generate_pass':
+      return generatePass(req, res)
+    case 'POST /passes/redeem':
+      return redeemPass(req, res)
+    case 'GET /content/articles':
+      return getArticles(req, res)
+    case 'POST /guest_passes':
+      return createGuestPass(req, res)
+    case 'GET /user/guest_passes':
+      return getUserGuestPasses(req, res)
+    case 'POST /webhook_events':
+      return createWebhookEvent(req, res)
+    case 'GET /webhook_events':
+      return getWebhookEvents(req, res, url)
+    case 'POST /__mock/reset':
+      resetState()
+      return send(res, 200, { reset: true })
+  }
+
+  if (req.method === 'GET' && (match = url.pathname.match(/^\/gyms\/([^/]+)$/))) {
+    return getGym(req, res, decodeURIComponent(match[1]))
+  }
+  if (req.method === 'POST' && (match = url.pathname.match(/^\/passes\/([^/]+)\/cancel$/))) {
+    return cancelPass(req, res, decodeURIComponent(match[1]))
+  }
+  if (req.method === 'GET' && (match = url.pathname.match(/^\/content\/articles\/([^/]+)$/))) {
+    return getArticle(req, res, decodeURIComponent(match[1]))
+  }
+  if ((match = url.pathname.match(/^\/guest_passes\/token\/([^/]+)(\/accept)?$/))) {
+    const token = decodeURIComponent(match[1])
+    if (match[2]) {
+      if (req.method === 'POST') return acceptGuestPass(req, res, token)
+    } else if (req.method === 'GET') {
+      const guestPass = findGuestPassByToken(token)
+      return guestPass ? send(res, 200, guestPass) : send(res, 404, { error: 'Invitation not found' })
+    }
+  }
+  if ((match = url.pathname.match(/^\/email_opt_outs\/([^/]+)$/))) {
+    const email = decodeURIComponent(match[1])
+    if (req.method === 'PUT') return createEmailOptOut(req, res, email)
+    if (req.method === 'GET') {
+      const optOut = findEmailOptOut(email)
+      return optOut ? send(res, 200, optOut) : send(res, 404, { error: 'Not opted out' })
+    }
+  }
+  if ((match = url.pathname.match(/^\/webhook_events\/([^/]+)(\/claim)?$/))) {
+    const id = decodeURIComponent(match[1])
+    if (match[2]) {
+      if (req.method === 'POST') return claimWebhookEvent(req, res, id)
+    } else if (req.method === 'GET') {
+      const event = findWebhookEvent(id)
+      return event ? send(res, 200, event) : send(res, 404, { error: 'Event not found' })
+    } else if (req.method === 'PATCH') {
+      return updateWebhookEvent(req, res, id)
+    }
+  }
+
+  send(res, 404, { error: `No mock route for ${req.method} ${url.pathname}` })
+}
+
+resetState()
+
+http
+  .createServer((req, res) => {
+    console.log(`[mock-api] ${req.method} ${req.url} auth0_id=${req.headers['auth0_id'] || '-'}`)
+    route(req, res).catch((error) => {
+      console.error('[mock-api] Handler error:', error)
+      send(res, 500, { error: 'Mock server error' })
+    })
+  })
+  .listen(PORT, () => {
+    console.log(`[mock-api] AnyGym mock API listening on http://localhost:${PORT}`)
+    console.log(`[mock-api] Seeded users: ${state.users.map((u) => u.auth0_id).join(', ')}`)
+  })
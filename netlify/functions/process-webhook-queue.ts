@@ -0,0 +1,25 @@
+/**
+ * Netlify scheduled function that drains the Stripe webhook queue, retrying
+ * events whose backoff has elapsed. The work happens in the Next.js route so
+ * it shares the app's code and configuration.
+ */
+export default async function processWebhookQueue() {
+  const baseUrl = process.env.URL || process.env.AUTH0_BASE_URL
+  const secret = process.env.WEBHOOK_QUEUE_SECRET
+  if (!baseUrl || !secret) {
+    console.error('[process-webhook-queue] Site URL or queue secret is not configured')
+    return new Response('Not configured', { status: 500 })
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/api/stripe/webhook/process`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${secret}` },
+  })
+  const body = await response.text()
+  console.log('[process-webhook-queue] Worker responded:', response.status, body)
+  return new Response(body, { status: response.status })
+}
+
+export const config = {
+  schedule: '*/5 * * * *',
+}
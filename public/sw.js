@@ -0,0 +1,110 @@
+/**
+ * AnyGym service worker - keeps the member's active passes available offline.
+ *
+ * - Pages post { type: 'SAVE_PASSES', passes } (see lib/passWallet.ts); the
+ *   passes are kept in Cache Storage and served at /wallet/passes.json, minus
+ *   any past their validUntil.
+ * - The /wallet page and the scripts it loads are cached at install, and any
+ *   page that can't be reached offline falls back to it.
+ * - Logging out clears the wallet.
+ */
+const VERSION = 'v1'
+const SHELL_CACHE = `anygym-shell-${VERSION}`
+const WALLET_CACHE = 'anygym-wallet'
+const WALLET_PAGE = '/wallet'
+const WALLET_PASSES_URL = '/wallet/passes.json'
+
+function walletResponse(passes) {
+  return new Response(JSON.stringify({ passes }), {
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  })
+}
+
+async function cacheWalletShell() {
+  const cache = await caches.open(SHELL_CACHE)
+  const response = await fetch(WALLET_PAGE, { cache: 'reload' })
+  if (!response.ok) return
+  const html = await response.clone().text()
+  await cache.put(WALLET_PAGE, response)
+  // The page's own scripts and styles, so it can render offline
+  const assets = [...new Set(html.match(/\/_next\/static\/[^"'\s)]+/g) || [])]
+  await Promise.all(assets.map((asset) => cache.add(asset).catch(() => undefined)))
+}
+
+async function readWalletPasses() {
+  const cache = await caches.open(WALLET_CACHE)
+  const response = await cache.match(WALLET_PASSES_URL)
+  const data = response ? await response.json().catch(() => ({})) : {}
+  const now = Date.now()
+  return (Array.isArray(data.passes) ? data.passes : []).filter((pass) => new Date(pass.validUntil).getTime() > now)
+}
+
+async function saveWalletPasses(passes) {
+  const cache = await caches.open(WALLET_CACHE)
+  await cache.put(WALLET_PASSES_URL, walletResponse(passes))
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(cacheWalletShell().catch((error) => console.warn('[sw] Could not cache wallet page:', error)))
+  self.skipWaiting()
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key.startsWith('anygym-shell-') && key !== SHELL_CACHE).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {}
+  if (message.type === 'SAVE_PASSES' && Array.isArray(message.passes)) {
+    event.waitUntil(saveWalletPasses(message.passes))
+  } else if (message.type === 'CLEAR_PASSES') {
+    event.waitUntil(caches.delete(WALLET_CACHE))
+  }
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  if (url.pathname === WALLET_PASSES_URL) {
+    event.respondWith(readWalletPasses().then(walletResponse))
+    return
+  }
+
+  if (url.pathname === '/api/auth/logout') {
+    event.waitUntil(caches.delete(WALLET_CACHE))
+    return
+  }
+
+  // Hashed build assets never change - cache them as they're used
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(
+      caches.open(SHELL_CACHE).then(async (cache) => {
+        const cached = await cache.match(request)
+        if (cached) return cached
+        const response = await fetch(request)
+        if (response.ok) cache.put(request, response.clone())
+        return response
+      })
+    )
+    return
+  }
+
+  // Pages come from the network; offline, show the wallet instead
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(async () => {
+        const cache = await caches.open(SHELL_CACHE)
+        return (await cache.match(WALLET_PAGE)) || Response.error()
+      })
+    )
+  }
+})